@@ -5,6 +5,7 @@ import { ThemeProvider, useTheme } from './contexts/ThemeContext';
 import Home from './components/Home';
 import Editor from './components/Editor';
 import WorkflowProjectService from './services/WorkflowProjectService';
+import ExecutionHistoryService from './services/ExecutionHistoryService';
 
 import {
   createBrowserRouter,
@@ -51,11 +52,13 @@ const AppContent: React.FC = () => {
 
   const handleDeleteProject = (projectId: string) => {
     WorkflowProjectService.deleteProject(projectId);
+    ExecutionHistoryService.clearHistory(projectId);
     refreshProjects();
   };
 
   const handleMultipleDeleteProjects = (projectIds: string[]) => {
     WorkflowProjectService.deleteMultipleProjects(projectIds);
+    projectIds.forEach(id => ExecutionHistoryService.clearHistory(id));
     refreshProjects();
   };
 
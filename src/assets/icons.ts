@@ -12,6 +12,21 @@ import ExcelIcon from '../assets/svg-icons/excel.svg';
 import NodeLoader from '../assets/svg-icons/node-loader.svg';
 import StopIcon from '../assets/svg-icons/stop.svg';
 import BellIcon from '../assets/svg-icons/bell.svg';
+import MergeIcon from '../assets/svg-icons/merge.svg';
+import ThunderIcon from '../assets/svg-icons/thunder.svg';
+import SubWorkflowIcon from '../assets/svg-icons/sub-workflow.svg';
+import WorkflowOutputIcon from '../assets/svg-icons/workflow-output.svg';
+import CodeIcon from '../assets/svg-icons/code.svg';
+import EditFieldsIcon from '../assets/svg-icons/edit-fields.svg';
+import SortIcon from '../assets/svg-icons/sort.svg';
+import LimitIcon from '../assets/svg-icons/limit.svg';
+import RemoveDuplicatesIcon from '../assets/svg-icons/remove-duplicates.svg';
+import AggregateIcon from '../assets/svg-icons/aggregate.svg';
+import SplitOutIcon from '../assets/svg-icons/split-out.svg';
+import DateTimeIcon from '../assets/svg-icons/date-time.svg';
+import ConvertIcon from '../assets/svg-icons/convert.svg';
+import LoopBreakIcon from '../assets/svg-icons/loop-break.svg';
+import LoopContinueIcon from '../assets/svg-icons/loop-continue.svg';
 
 // Exported as react components for runtime changes
 import {ReactComponent as WorkflowLogo} from '../assets/svg-icons/workflow-logo.svg';
@@ -41,6 +56,21 @@ export const IconRegistry: { [key: string]: string | React.ElementType } = {
   NodeLoader,
   StopIcon,
   BellIcon,
+  MergeIcon,
+  ThunderIcon,
+  SubWorkflowIcon,
+  WorkflowOutputIcon,
+  CodeIcon,
+  EditFieldsIcon,
+  SortIcon,
+  LimitIcon,
+  RemoveDuplicatesIcon,
+  AggregateIcon,
+  SplitOutIcon,
+  DateTimeIcon,
+  ConvertIcon,
+  LoopBreakIcon,
+  LoopContinueIcon,
   LockIcon,
   ChevronDown,
   Message
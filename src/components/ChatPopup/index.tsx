@@ -6,17 +6,9 @@ import { AIAssistViewComponent } from '@syncfusion/ej2-react-interactive-chat';
 import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
 import { ensurePortalRoot } from '../../utilities/variablePickerUtils';
 import { IconRegistry } from '../../assets/icons';
+import { useWorkflowEventBus } from '../../contexts/WorkflowEventBusContext';
 import './ChatPopup.css';
 
-interface UpdateBannerDetail {
-  text?: string;
-}
-
-interface AssistantResponseDetail {
-  text?: string;
-  triggeredFrom?: string;
-}
-
 // Event args contract expected from AIAssistViewComponent when user submits a prompt
 interface PromptRequestArgs {
   prompt?: string;
@@ -43,6 +35,7 @@ export const ChatPopup: React.FC<ChatPopupProps> = ({
   const popupHeightRef = useRef<string>('0px');
   const dragRef = useRef<Draggable | null>(null);
   const aiViewRef = useRef<AIAssistViewComponent>(null);
+  const eventBus = useWorkflowEventBus();
 
   // UI state
   const [isMinimized, setIsMinimized] = useState(false);
@@ -110,11 +103,9 @@ export const ChatPopup: React.FC<ChatPopupProps> = ({
   // Handle user input and dispatch to workflow execution
   const handleUserInput = (args: PromptRequestArgs) => {
     const text = (args?.prompt || '').trim();
-    if (text.length > 0 && typeof window !== 'undefined') {
+    if (text.length > 0) {
       // Event fired by the chat when the user submits a prompt
-      window.dispatchEvent(new CustomEvent('wf:chat:prompt', {
-        detail: { text, at: new Date().toISOString() }
-      }));
+      eventBus.emit('chat:prompt', { text, at: new Date().toISOString() });
       // Auto-minimize after sending a message
       minimize();
     }
@@ -148,31 +139,19 @@ export const ChatPopup: React.FC<ChatPopupProps> = ({
   // Listen for custom banner updates coming from Chat node configuration panel
   useEffect(() => {
     // Listen for banner text updates sent from the Chat node configuration panel
-    const onUpdateBanner = (event: Event) => {
-      const customEvent = event as CustomEvent<UpdateBannerDetail>;
-      const updatedText = (customEvent.detail?.text ?? '').trim();
+    return eventBus.on('chat:update-banner', ({ text }) => {
+      const updatedText = (text ?? '').trim();
       setCustomBannerText(updatedText || null);
-    };
-
-    if (typeof window !== 'undefined') {
-      window.addEventListener('wf:chat:update-banner', onUpdateBanner as EventListener);
-    }
-
-    return () => {
-      if (typeof window !== 'undefined') {
-        window.removeEventListener('wf:chat:update-banner', onUpdateBanner as EventListener);
-      }
-    };
-  }, []);
+    });
+  }, [eventBus]);
 
   // Listen for assistant responses from workflow execution
   useEffect(() => {
     // Listen for assistant responses published by the workflow runtime and
     // push them into the Syncfusion AIAssistView. Also auto-expand the popup.
-    const onAssistantReply = (event: Event) => {
-      const customEvent = event as CustomEvent<AssistantResponseDetail>;
-      const assistantReplyText = (customEvent.detail?.text || '').trim();
-      const triggerSource = (customEvent.detail?.triggeredFrom || '').trim();
+    return eventBus.on('chat:assistant-response', ({ text, triggeredFrom }) => {
+      const assistantReplyText = (text || '').trim();
+      const triggerSource = (triggeredFrom || '').trim();
 
       if (!assistantReplyText) return;
 
@@ -187,18 +166,8 @@ export const ChatPopup: React.FC<ChatPopupProps> = ({
       } else {
         aiViewRef.current?.addPromptResponse(assistantReplyText);
       }
-    };
-
-    if (typeof window !== 'undefined') {
-      window.addEventListener('wf:chat:assistant-response', onAssistantReply as EventListener);
-    }
-
-    return () => {
-      if (typeof window !== 'undefined') {
-        window.removeEventListener('wf:chat:assistant-response', onAssistantReply as EventListener);
-      }
-    };
-  }, []);
+    });
+  }, [eventBus]);
 
   // Hide popup when closed
   if (!open) return null;
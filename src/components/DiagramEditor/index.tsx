@@ -8,6 +8,7 @@ import { filterContextMenuItems, getAvailableContextMenuIds } from '../../utilit
 import { IconRegistry } from '../../assets/icons';
 import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
 import { isEditingTextElement } from '../../utilities/editorUtils';
+import { useWorkflowEventBus } from '../../contexts/WorkflowEventBusContext';
 import './DiagramEditor.css';
 
 interface DiagramEditorProps {
@@ -61,6 +62,7 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
   // ========================================================================
 
   const diagramRef = useRef<DiagramComponent>(null);
+  const eventBus = useWorkflowEventBus();
 
   // ========================================================================
   // State Management
@@ -527,15 +529,13 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     } else {
       diagram.constraints = DiagramConstraints.Default;
     }
-
-    // Broadcast lock state for other UI
-    if (typeof window !== 'undefined') {
-      try {
-        window.dispatchEvent(new CustomEvent('workflow-lock-changed', { detail: { locked } }));
-      } catch {}
-    }
   };
 
+  // Broadcast lock state for other UI
+  useEffect(() => {
+    eventBus.emit('workflow:lock-changed', { locked: isWorkflowLocked });
+  }, [eventBus, isWorkflowLocked]);
+
   // Subtle nudge to draw attention to the lock button when user interacts
   const nudgeLockIndicator = () => {
     if (!isWorkflowLocked) return;
@@ -692,10 +692,6 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
         if (locked) {
           setIsWorkflowLocked(true);
           applyWorkflowLock(true);
-        } else {
-          if (typeof window !== 'undefined') {
-            try { window.dispatchEvent(new CustomEvent('workflow-lock-changed', { detail: { locked: false } })); } catch {}
-          }
         }
       } catch {}
     }
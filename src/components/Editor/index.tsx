@@ -8,15 +8,21 @@ import Toolbar from '../Toolbar';
 import Toast, { showSuccessToast, showErrorToast } from '../Toast';
 import NodePaletteSidebar from '../NodePaletteSidebar';
 import NodeConfigSidebar from '../NodeConfigSidebar';
+import ExecutionHistoryPanel from '../ExecutionHistoryPanel';
+import ValidationPanel from '../ValidationPanel';
 import { useTheme } from '../../contexts/ThemeContext';
 import ConfirmationDialog from '../ConfirmationDialog';
-import { ProjectData, NodeConfig, NodeTemplate, DiagramSettings, StickyNotePosition, ToolbarAction, ExecutionContext, NodeToolbarAction, PaletteFilterContext, WorkflowData } from '../../types';
+import { ProjectData, NodeConfig, NodeTemplate, DiagramSettings, StickyNotePosition, ToolbarAction, ExecutionContext, NodeToolbarAction, PaletteFilterContext, WorkflowData, ExecutionRecord, ValidationIssue, WorkflowEventBus } from '../../types';
 import WorkflowProjectService from '../../services/WorkflowProjectService';
-import { generateOptimizedThumbnail, getDefaultDiagramSettings, getNodePortById, handleEditorKeyDown, refreshNodeTemplate, setGlobalNodeToolbarHandler, applyStaggerMetadata, resetExecutionStates, diagramHasChatTrigger } from '../../utilities';
+import ExecutionHistoryService from '../../services/ExecutionHistoryService';
+import { generateOptimizedThumbnail, getDefaultDiagramSettings, getNodePortById, handleEditorKeyDown, refreshNodeTemplate, setGlobalNodeToolbarHandler, applyStaggerMetadata, resetExecutionStates, diagramHasChatTrigger, syncErrorPort, paintExecutionRecord, hasBlockingIssues } from '../../utilities';
 import { extractChatPromptSuggestions, extractChatBannerText, isEditingTextElement, handleAddStickyNote as handleAddStickyNoteUtil, addNodeToDiagram, addNodeFromPort, insertNodeBetweenSelectedConnector } from '../../utilities/editorUtils';
 import { WorkflowExecutionService } from '../../execution/WorkflowExecutionService';
+import { DefaultWorkflowEventBus } from '../../execution/WorkflowEventBus';
+import { WorkflowEventBusProvider } from '../../contexts/WorkflowEventBusContext';
 import { ChatPopup } from '../ChatPopup';
 import { MessageComponent } from '@syncfusion/ej2-react-notifications';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
 import { createSpinner, showSpinner, hideSpinner } from '@syncfusion/ej2-popups';
 import { ensureGlobalFormPopupHost } from '../FormPopup';
 
@@ -38,6 +44,8 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
 
   // Workflow execution service for running nodes and full workflows
   const workflowExecutionRef = useRef<WorkflowExecutionService | null>(null);
+  // Event bus private to this editor: execution, chat and form popups talk through it
+  const [eventBus] = useState<WorkflowEventBus>(() => new DefaultWorkflowEventBus());
   // Cache for pending chat message until Chat trigger is ready
   const chatPendingMessageRef = useRef<{ text: string; at: string } | null>(null);
   // Flag to prevent duplicate chat completion messages during execution
@@ -57,6 +65,12 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   // Selected node configuration object
   const [selectedNodeConfig, setSelectedNodeConfig] = useState<NodeConfig | null>(null);
+  // Right sidebar panel state (execution history)
+  const [historyPanelOpen, setHistoryPanelOpen] = useState(false);
+  // Right sidebar panel state (validation issues)
+  const [validationPanelOpen, setValidationPanelOpen] = useState(false);
+  // Issues found by the last validation pass
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
 
   // ========================================================================
   // State Management - Execution & Chat
@@ -64,6 +78,8 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
 
   // Execution in progress flag
   const [isExecuting, setIsExecuting] = useState(false);
+  // Node the run is paused before (debugger breakpoint / step)
+  const [pausedNodeId, setPausedNodeId] = useState<string | null>(null);
   // Chat popup visibility flag
   const [isChatOpen, setChatOpen] = useState(false);
   // Prompt suggestions from Chat trigger node
@@ -74,6 +90,10 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
   const [executionContext, setExecutionContext] = useState<ExecutionContext>({ results: {}, variables: {} });
   // Trigger waiting state (shown in banner when waiting for trigger event)
   const [waitingTrigger, setWaitingTrigger] = useState<{ active: boolean; type?: string }>({ active: false });
+  // Stored runs of this project (newest first)
+  const [executionHistory, setExecutionHistory] = useState<ExecutionRecord[]>(() => ExecutionHistoryService.getHistory(project.id));
+  // Past run currently painted on the canvas (read-only view)
+  const [viewedRun, setViewedRun] = useState<ExecutionRecord | null>(null);
 
   // ========================================================================
   // State Management - Project & Diagram
@@ -127,7 +147,9 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
       connectorCornerRadius: project.diagramSettings?.connectorCornerRadius ?? defaultDiagramSettings.connectorCornerRadius,
       snapping: project.diagramSettings?.snapping ?? defaultDiagramSettings.snapping,
       showOverview: project.diagramSettings?.showOverview ?? defaultDiagramSettings.showOverview,
-      showOverviewAlways: project.diagramSettings?.showOverviewAlways ?? defaultDiagramSettings.showOverviewAlways
+      showOverviewAlways: project.diagramSettings?.showOverviewAlways ?? defaultDiagramSettings.showOverviewAlways,
+      executionMode: project.diagramSettings?.executionMode ?? defaultDiagramSettings.executionMode,
+      maxConcurrency: project.diagramSettings?.maxConcurrency ?? defaultDiagramSettings.maxConcurrency
     }
   });
   
@@ -264,6 +286,7 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
   const handleSingleNodeExecute = async (nodeId: string) => {
     const svc = workflowExecutionRef.current;
     if (!svc) { return; }
+    setViewedRun(null);
 
     try {
       const res = await svc.executeSingleNode(nodeId);
@@ -274,6 +297,24 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
     } catch (err) {}
   };
 
+  // Partial run: only the node's ancestors (run up to here) or the node and its descendants (run from here)
+  const handlePartialExecute = async (nodeId: string, mode: 'upTo' | 'from') => {
+    const svc = workflowExecutionRef.current;
+    if (!svc || svc.getExecutionStatus().isExecuting) { return; }
+
+    setIsExecuting(true);
+    setViewedRun(null);
+    try {
+      const ok = mode === 'upTo' ? await svc.executeUpToNode(nodeId) : await svc.executeFromNode(nodeId);
+      if (ok) {
+        setExecutionContext(svc.getExecutionContext());
+      }
+    } finally {
+      setIsExecuting(false);
+      setPausedNodeId(null);
+    }
+  };
+
   // Handle node template toolbar actions (execute, edit, delete)
   const handleNodeToolbarAction = useCallback((nodeId: string, action: NodeToolbarAction) => {
     if (!diagramRef) return;
@@ -282,6 +323,12 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
       case 'execute-step':
         handleSingleNodeExecute(nodeId);
         break;
+      case 'run-up-to':
+        handlePartialExecute(nodeId, 'upTo');
+        break;
+      case 'run-from':
+        handlePartialExecute(nodeId, 'from');
+        break;
       case 'edit':
         handleNodeDoubleClick(nodeId);
         break;
@@ -289,19 +336,34 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
         diagramRef.remove(diagramRef.getObject(nodeId));
         setIsDirty(true);
         break;
+      case 'toggle-breakpoint': {
+        const node = diagramRef.getObject(nodeId) as any;
+        const config = node?.addInfo?.nodeConfig as NodeConfig | undefined;
+        if (!config) break;
+        const updated = { ...config, breakpoint: !config.breakpoint };
+        node.addInfo = { ...node.addInfo, nodeConfig: updated };
+        // The open sidebar saves its config on the next edit, so it must not keep the old breakpoint
+        setSelectedNodeConfig(prev => (prev && prev.id === nodeId ? updated : prev));
+        refreshNodeTemplate(diagramRef, nodeId);
+        setIsDirty(true);
+        break;
+      }
     }
   }, [diagramRef]);
 
 
   // Update node configuration and refresh diagram
   const handleNodeConfigChange = (nodeId: string, config: NodeConfig) => {
-    setSelectedNodeConfig(config);
+    // Other nodes change too when a rename rewrites their references; keep the open node selected
+    setSelectedNodeConfig(prev => (prev && prev.id !== nodeId ? prev : config));
     
     // Update the node's addInfo and node's template
     if (diagramRef) {
       const node = diagramRef.getObject(nodeId) as any;
       if (node) {
         node.addInfo = { ...node.addInfo, nodeConfig: config };
+        // Add/remove the error output port when the node's error mode changed
+        syncErrorPort(diagramRef as any, nodeId);
         // Rebuild the node HTML and reattach toolbar handlers via global handler
         refreshNodeTemplate(diagramRef, nodeId);
         setIsDirty(true);
@@ -397,12 +459,29 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
         setNodeConfigPanelOpen(false);
         setNodePaletteSidebarOpen(!nodePaletteSidebarOpen);
         break;
+      case 'history':
+        setValidationPanelOpen(false);
+        setHistoryPanelOpen(!historyPanelOpen);
+        break;
+      case 'validate':
+        if (validationPanelOpen) {
+          setValidationPanelOpen(false);
+        } else {
+          handleValidateWorkflow();
+        }
+        break;
       case 'execute':
         handleExecuteWorkflow();
         break;
       case 'cancel':
         handleCancelExecution();
         break;
+      case 'continue':
+        workflowExecutionRef.current?.continueExecution();
+        break;
+      case 'stepOver':
+        workflowExecutionRef.current?.stepOver();
+        break;
       case 'autoAlign':
         handleAutoAlign();
         break;
@@ -444,14 +523,24 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
       return;
     }
 
+    // Block the run while the workflow has validation errors
+    const issues = workflowExecutionRef.current.validate();
+    setValidationIssues(issues);
+    if (hasBlockingIssues(issues)) {
+      const errorCount = issues.filter(issue => issue.severity === 'error').length;
+      setHistoryPanelOpen(false);
+      setValidationPanelOpen(true);
+      showErrorToast('Validation Failed', `Fix ${errorCount} error${errorCount === 1 ? '' : 's'} before running the workflow.`);
+      eventBus.emit('chat:assistant-response', { text: 'Workflow execution failed: the workflow has validation errors.' });
+      return;
+    }
+
     setIsExecuting(true);
+    setViewedRun(null);
 
     // Track if any node posted an assistant message during this run
     assistantRespondedRef.current = false;
-    const markAssistantResponded = () => { assistantRespondedRef.current = true; };
-    if (typeof window !== 'undefined') {
-      window.addEventListener('wf:chat:assistant-response', markAssistantResponded as EventListener);
-    }
+    const stopTrackingResponses = eventBus.on('chat:assistant-response', () => { assistantRespondedRef.current = true; });
     
     try {
       const result = await workflowExecutionRef.current.executeWorkflow();
@@ -459,31 +548,22 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
         setExecutionContext(workflowExecutionRef.current.getExecutionContext());
       }
       // Only send a final completion note if no assistant message was already posted
-      if (!assistantRespondedRef.current && typeof window !== 'undefined') {
-        window.dispatchEvent(
-          new CustomEvent('wf:chat:assistant-response', {
-            detail: { text: 'Workflow execution completed.' }
-          })
-        );
+      if (!assistantRespondedRef.current) {
+        eventBus.emit('chat:assistant-response', { text: 'Workflow execution completed.' });
       }
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       showErrorToast('Execution Failed', errMsg);
       // Only send a failure note if no assistant message was already posted
-      if (!assistantRespondedRef.current && typeof window !== 'undefined') {
-        window.dispatchEvent(
-          new CustomEvent('wf:chat:assistant-response', {
-            detail: { text: `Workflow execution failed: ${errMsg}` }
-          })
-        );
+      if (!assistantRespondedRef.current) {
+        eventBus.emit('chat:assistant-response', { text: `Workflow execution failed: ${errMsg}` });
       }
     } finally {
       setIsExecuting(false);
-      if (typeof window !== 'undefined') {
-        window.removeEventListener('wf:chat:assistant-response', markAssistantResponded as EventListener);
-      }
+      setPausedNodeId(null);
+      stopTrackingResponses();
     }
-  }, []);
+  }, [eventBus]);
 
   // Cancel current execution and notify chat listeners
   const handleCancelExecution = () => {
@@ -492,14 +572,69 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
     }
     setIsExecuting(false);
     // Cancel any pending chat trigger listener to avoid multiple executions
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('wf:chat:cancel'));
-      window.dispatchEvent(
-        new CustomEvent('wf:chat:assistant-response', {
-          detail: { text: 'Workflow execution has been cancelled.' }
-        })
-      );
-    }
+    eventBus.emit('chat:cancel');
+    eventBus.emit('chat:assistant-response', { text: 'Workflow execution has been cancelled.' });
+  };
+
+  // ========================================================================
+  // Execution History Handlers
+  // ========================================================================
+
+  // Persist a finished run and refresh the history list
+  const handleExecutionFinished = useCallback((record: ExecutionRecord) => {
+    ExecutionHistoryService.saveExecution(project.id, record);
+    setExecutionHistory(ExecutionHistoryService.getHistory(project.id));
+  }, [project.id]);
+
+  // Paint a past run on the canvas and expose its data to the config panel (read-only)
+  const handleOpenRun = (run: ExecutionRecord) => {
+    if (isExecuting || !diagramRef) return;
+    const results: Record<string, any> = {};
+    Object.values(run.nodes).forEach(entry => {
+      if (entry.output !== undefined) results[entry.nodeId] = entry.output;
+    });
+    paintExecutionRecord(diagramRef, run);
+    setExecutionContext({ variables: {}, results });
+    setViewedRun(run);
+  };
+
+  // Leave the read-only run view and restore the live execution state
+  const handleExitRunView = () => {
+    setViewedRun(null);
+    if (diagramRef) resetExecutionStates(diagramRef);
+    setExecutionContext(workflowExecutionRef.current?.getExecutionContext() ?? { results: {}, variables: {} });
+  };
+
+  const handleDeleteRun = (runId: string) => {
+    ExecutionHistoryService.deleteExecution(project.id, runId);
+    setExecutionHistory(ExecutionHistoryService.getHistory(project.id));
+    if (viewedRun?.id === runId) handleExitRunView();
+  };
+
+  const handleClearHistory = () => {
+    ExecutionHistoryService.clearHistory(project.id);
+    setExecutionHistory([]);
+    if (viewedRun) handleExitRunView();
+  };
+
+  // ========================================================================
+  // Validation Handlers
+  // ========================================================================
+
+  // Validate the workflow and show the issues panel
+  const handleValidateWorkflow = () => {
+    if (!workflowExecutionRef.current) return;
+    setValidationIssues(workflowExecutionRef.current.validate());
+    setHistoryPanelOpen(false);
+    setValidationPanelOpen(true);
+  };
+
+  // Focus and select a node listed in the run details or validation issues
+  const handleFocusNode = (nodeId: string) => {
+    const node = diagramRef?.getObject(nodeId) as NodeModel;
+    if (!node) return;
+    diagramRef.select([node]);
+    diagramRef.bringToCenter((node as any).wrapper.bounds);
   };
 
   // ========================================================================
@@ -566,12 +701,30 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
       // Provide a global handler so template refreshes from utilities still wire events
       setGlobalNodeToolbarHandler(handleNodeToolbarAction);
 
-      workflowExecutionRef.current = new WorkflowExecutionService(diagramRef);
+      // Execution mode is applied by the effect below, so changing it does not restart the service
+      workflowExecutionRef.current = new WorkflowExecutionService(diagramRef, {
+        eventBus,
+        projectId: project.id,
+      });
       
       // Start listening for updates to execution context
       workflowExecutionRef.current.onExecutionContextUpdate((context) => {
         setExecutionContext(context);
       });
+
+      // Persist every finished workflow run to the execution history
+      workflowExecutionRef.current.onExecutionFinished(handleExecutionFinished);
+
+      // Debugger: open the paused node with the live context so its inputs can be inspected
+      workflowExecutionRef.current.onPauseChange((nodeId) => {
+        setPausedNodeId(nodeId);
+        if (nodeId && workflowExecutionRef.current) {
+          setExecutionContext(workflowExecutionRef.current.getExecutionContext());
+          setSelectedNodeId(nodeId);
+          setNodePaletteSidebarOpen(false);
+          setNodeConfigPanelOpen(true);
+        }
+      });
     }
 
     return () => {
@@ -581,7 +734,15 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
       }
       setGlobalNodeToolbarHandler(undefined);
     };
-  }, [diagramRef, handleNodeToolbarAction]);
+  }, [diagramRef, eventBus, project.id, handleNodeToolbarAction, handleExecutionFinished]);
+
+  // Apply the execution mode from the workflow settings to the execution service, also when it is recreated
+  useEffect(() => {
+    workflowExecutionRef.current?.configure({
+      executionMode: diagramSettings.executionMode,
+      maxConcurrency: diagramSettings.maxConcurrency,
+    });
+  }, [diagramRef, eventBus, project.id, diagramSettings.executionMode, diagramSettings.maxConcurrency]);
 
   // ========================================================================
   // Effects - Keyboard & Input Interactions
@@ -687,20 +848,19 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
 
   // Auto-start workflow on chat prompt if Chat trigger exists
   useEffect(() => {
-    // Custom Event: wf:chat:prompt
+    // Event: chat:prompt
     // Purpose: Fired by ChatPopup when a user submits a prompt. This listener forwards
     // the prompt to the Chat trigger (if present) and starts execution, or simply
     // re-emits the message so any listeners can react.
-    const handleChatPromptEvent = (event: Event) => {
-      const customEvent = event as CustomEvent<{ text?: string; at?: string }>;
-      const text = (customEvent.detail?.text || '').trim();
+    return eventBus.on('chat:prompt', (prompt) => {
+      const text = (prompt?.text || '').trim();
       if (!text) return; // ignore empty after trim
 
-      const promptPayload = { text, at: customEvent.detail?.at || new Date().toISOString() };
+      const promptPayload = { text, at: prompt?.at || new Date().toISOString() };
 
       // Send the prompt to the waiting Chat trigger (used once it's ready)
       const dispatchPromptToWaitingChatTrigger = () => {
-        window.dispatchEvent(new CustomEvent('wf:chat:message', { detail: promptPayload }));
+        eventBus.emit('chat:message', promptPayload);
       };
 
       // If execution already running, just forward the message.
@@ -715,15 +875,13 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
         chatPendingMessageRef.current = promptPayload;
 
         // Forward exactly once when the trigger signals it's listening
-        const onChatTriggerReadyOnce = () => {
+        eventBus.once('chat:ready', () => {
           const payload = chatPendingMessageRef.current;
           chatPendingMessageRef.current = null;
           if (payload) {
-            window.dispatchEvent(new CustomEvent('wf:chat:message', { detail: payload }));
+            eventBus.emit('chat:message', payload);
           }
-        };
-
-        window.addEventListener('wf:chat:ready', onChatTriggerReadyOnce as EventListener, { once: true });
+        });
 
         // Ensure chat popup is visible
         setChatOpen(true);
@@ -734,203 +892,219 @@ const Editor: React.FC<EditorProps> = ({project, onSaveProject, onBackToHome, })
         // No Chat trigger present; optionally forward (or ignore)
         dispatchPromptToWaitingChatTrigger();
       }
-    };
-
-    window.addEventListener('wf:chat:prompt', handleChatPromptEvent as EventListener);
-    return () => {
-      window.removeEventListener('wf:chat:prompt', handleChatPromptEvent as EventListener);
-    };
-  }, [isExecuting, diagramRef, handleExecuteWorkflow]);
+    });
+  }, [eventBus, isExecuting, diagramRef, handleExecuteWorkflow]);
 
   // Listen for trigger waiting/resume/clear events for banner
   useEffect(() => {
-    // Custom Events for trigger state banner
-    const onWaiting = (event: Event) => {
-      const customEvent = event as CustomEvent<{ type?: string }>;
-      setWaitingTrigger({ active: true, type: customEvent.detail?.type });
-    };
-    const onResumed = () => setWaitingTrigger({ active: false });
-    const onClear = () => setWaitingTrigger({ active: false });
-
-    window.addEventListener('wf:trigger:waiting', onWaiting as EventListener);
-    window.addEventListener('wf:trigger:resumed', onResumed as EventListener);
-    window.addEventListener('wf:trigger:clear', onClear as EventListener);
-
-    return () => {
-      window.removeEventListener('wf:trigger:waiting', onWaiting as EventListener);
-      window.removeEventListener('wf:trigger:resumed', onResumed as EventListener);
-      window.removeEventListener('wf:trigger:clear', onClear as EventListener);
-    };
-  }, []);
+    // Trigger state events for the banner
+    const unsubscribers = [
+      eventBus.on('trigger:waiting', (payload) => setWaitingTrigger({ active: true, type: payload?.type })),
+      eventBus.on('trigger:resumed', () => setWaitingTrigger({ active: false })),
+      eventBus.on('trigger:clear', () => setWaitingTrigger({ active: false })),
+    ];
+    return () => unsubscribers.forEach(off => off());
+  }, [eventBus]);
 
   // Ensure chat and form infra is mounted once
   useEffect(() => {
-    // Ensure global Form popup host is mounted once
-    try { ensureGlobalFormPopupHost(); } catch {}
-
-    // Custom Event: wf:chat:open — opens Chat popup on demand
-    const onOpenChat = () => setChatOpen(true);
-    window.addEventListener('wf:chat:open', onOpenChat);
+    // Ensure global Form popup host is mounted and bound to this editor's bus
+    try { ensureGlobalFormPopupHost(eventBus); } catch {}
 
-    return () => window.removeEventListener('wf:chat:open', onOpenChat);
-  }, []);
+    // Event: chat:open — opens Chat popup on demand
+    return eventBus.on('chat:open', () => setChatOpen(true));
+  }, [eventBus]);
 
   // Track workflow lock/unlock change
   useEffect(() => {
-    // Custom Event: workflow-lock-changed
-    const onLockChanged = (event: Event) => setIsWorkflowLocked(!!(event as CustomEvent<{ locked?: boolean }>).detail?.locked);
-    window.addEventListener('workflow-lock-changed', onLockChanged as EventListener);
-    return () => window.removeEventListener('workflow-lock-changed', onLockChanged as EventListener);
-  }, []);
+    // Event: workflow:lock-changed
+    return eventBus.on('workflow:lock-changed', ({ locked }) => setIsWorkflowLocked(locked));
+  }, [eventBus]);
 
   // ========================================================================
   // Render
   // ========================================================================
 
   return (
-    <div className="editor-container" data-theme={theme} ref={editorContainerRef}>
-      {/* Header with project name, save, settings, export/import */}
-      <EditorHeader
-        projectName={projectName}
-        onBack={() => onBackToHome()}
-        onSave={handleSave}
-        enableSaveBtn={isInitialLoad || isDirty}
-        onProjectNameChange={(name) => {
-          setProjectName(name);
-          setIsDirty(true);
-        }}
-        diagramSettings={diagramSettings}
-        onDiagramSettingsChange={handleDiagramSettingsChange}
-        onExport={handleExport}
-        onImport={handleImport}
-      />
-      
-      {/* Main editor content area */}
-      <div className="editor-content">
-        {/* Right sidebar - Node configuration panel */}
-        <NodeConfigSidebar 
-          isOpen={nodeConfigPanelOpen}
-          onClose={() => setNodeConfigPanelOpen(false)}
-          onExecuteNode={(nodeId) => handleSingleNodeExecute(nodeId)}
-          selectedNodeConfig={selectedNodeConfig}
-          onNodeConfigChange={handleNodeConfigChange}
-          diagram={diagramRef}
-          executionContext={executionContext}
-          isChatOpen={isChatOpen}
-          setChatOpen={setChatOpen}
+    <WorkflowEventBusProvider value={eventBus}>
+      <div className="editor-container" data-theme={theme} ref={editorContainerRef}>
+        {/* Header with project name, save, settings, export/import */}
+        <EditorHeader
+          projectName={projectName}
+          onBack={() => onBackToHome()}
+          onSave={handleSave}
+          enableSaveBtn={isInitialLoad || isDirty}
+          onProjectNameChange={(name) => {
+            setProjectName(name);
+            setIsDirty(true);
+          }}
+          diagramSettings={diagramSettings}
+          onDiagramSettingsChange={handleDiagramSettingsChange}
+          onExport={handleExport}
+          onImport={handleImport}
         />
+      
+        {/* Main editor content area */}
+        <div className="editor-content">
+          {/* Right sidebar - Node configuration panel */}
+          <NodeConfigSidebar 
+            isOpen={nodeConfigPanelOpen}
+            onClose={() => setNodeConfigPanelOpen(false)}
+            onExecuteNode={(nodeId) => handleSingleNodeExecute(nodeId)}
+            selectedNodeConfig={selectedNodeConfig}
+            onNodeConfigChange={handleNodeConfigChange}
+            diagram={diagramRef}
+            executionContext={executionContext}
+            isChatOpen={isChatOpen}
+            setChatOpen={setChatOpen}
+            readOnly={!!viewedRun}
+            pausedNodeId={pausedNodeId}
+          />
 
-        {/* Chat popup for workflow execution interactions */}
-        <ChatPopup 
-          open={isChatOpen} 
-          onClose={() => setChatOpen(false)} 
-          promptSuggestions={chatPromptSuggestions}
-          bannerTemplateText={chatBannerText}
-        />        
-
-        {/* Left sidebar - Node palette for adding nodes */}
-        <NodePaletteSidebar 
-          isOpen={nodePaletteSidebarOpen}
-          onClose={() => setNodePaletteSidebarOpen(false)}
-          onAddNode={handleAddNode}
-          paletteFilterContext={paletteFilterContext}
-        />
-                
-        {/* Central diagram rendering area */}
-        <div className="diagram-container">
-          <DiagramEditor 
-            onAddNode={() => {
-              setNodeConfigPanelOpen(false);
-              setPaletteFilterContext({ mode: 'default' });
-              setNodePaletteSidebarOpen(true);
-            }}
-            onNodeDoubleClick={handleNodeDoubleClick}
-            onDiagramRef={(ref) => setDiagramRef(ref)}
-            project={project}
-            onDiagramChange={handleDiagramChange}
-            onAddStickyNote={handleAddStickyNoteWrapper}
-            onUserhandleAddNodeClick={handleUserhandleAddNodeClick}
-            onConnectorUserhandleAddNodeClick={(connector) => {
-              setSelectedConnectorForInsertion(connector);
-              setConnectorInsertSelectionMode(true);
-              setNodeConfigPanelOpen(false);
-              setPaletteFilterContext({ mode: 'connector-insert' });
-              setNodePaletteSidebarOpen(true);
-            }}
-            isUserHandleAddNodeEnabled= {isUserhandleAddNodeSelectionMode}
-            diagramSettings={diagramSettings}
-            showInitialAddButton={showInitialAddButton}
-            onInitialAddClick={() => {
-              setNodeConfigPanelOpen(false);
-              setPaletteFilterContext({ mode: 'initial-add' });
-              setNodePaletteSidebarOpen(true);
-            }}
-            onNodeAddedFirstTime={() => setShowInitialAddButton(false)}
-            onAutoAlignNodes={handleAutoAlign}
-            onCanvasClick={() => {
-              setUserhandleAddNodeSelectionMode(false)
-              resetConnectorInsertMode();
-              setNodePaletteSidebarOpen(false);
-              setNodeConfigPanelOpen(false);
-              setPaletteFilterContext({ mode: 'default' });
-            }}
+          {/* Right sidebar - Execution history of past runs */}
+          <ExecutionHistoryPanel
+            isOpen={historyPanelOpen}
+            onClose={() => setHistoryPanelOpen(false)}
+            runs={executionHistory}
+            activeRunId={viewedRun?.id}
+            onOpenRun={handleOpenRun}
+            onDeleteRun={handleDeleteRun}
+            onClearHistory={handleClearHistory}
+            onSelectNode={handleFocusNode}
+          />
+
+          {/* Right sidebar - Pre-execution validation issues */}
+          <ValidationPanel
+            isOpen={validationPanelOpen}
+            onClose={() => setValidationPanelOpen(false)}
+            issues={validationIssues}
+            onRevalidate={handleValidateWorkflow}
+            onSelectNode={handleFocusNode}
           />
-        </div>
-        
-        {/* Banner shown when waiting for trigger event during execution */}
-        <div className={`trigger-start-notification ${waitingTrigger.active ? 'active' : ''}`}>
-          <MessageComponent severity="Info" cssClass="e-content-center" showIcon={false} title={waitingTrigger.type + " Trigger"} >
-            <span className="spinner-inline" />
-            Waiting for trigger event
-          </MessageComponent>
-        </div>
 
-        {/* Floating toolbar with execution and diagram controls */}
-        <div className="editor-toolbar">
-          <Toolbar 
-            onAction={handleToolbarAction}
-            isExecuting={isExecuting}
-            isPanActive={isPanActive}
-            isLocked={isWorkflowLocked}
+          {/* Chat popup for workflow execution interactions */}
+          <ChatPopup 
+            open={isChatOpen} 
+            onClose={() => setChatOpen(false)} 
+            promptSuggestions={chatPromptSuggestions}
+            bannerTemplateText={chatBannerText}
+          />        
+
+          {/* Left sidebar - Node palette for adding nodes */}
+          <NodePaletteSidebar 
+            isOpen={nodePaletteSidebarOpen}
+            onClose={() => setNodePaletteSidebarOpen(false)}
+            onAddNode={handleAddNode}
+            paletteFilterContext={paletteFilterContext}
           />
+                
+          {/* Central diagram rendering area */}
+          <div className="diagram-container">
+            <DiagramEditor 
+              onAddNode={() => {
+                setNodeConfigPanelOpen(false);
+                setPaletteFilterContext({ mode: 'default' });
+                setNodePaletteSidebarOpen(true);
+              }}
+              onNodeDoubleClick={handleNodeDoubleClick}
+              onDiagramRef={(ref) => setDiagramRef(ref)}
+              project={project}
+              onDiagramChange={handleDiagramChange}
+              onAddStickyNote={handleAddStickyNoteWrapper}
+              onUserhandleAddNodeClick={handleUserhandleAddNodeClick}
+              onConnectorUserhandleAddNodeClick={(connector) => {
+                setSelectedConnectorForInsertion(connector);
+                setConnectorInsertSelectionMode(true);
+                setNodeConfigPanelOpen(false);
+                setPaletteFilterContext({ mode: 'connector-insert' });
+                setNodePaletteSidebarOpen(true);
+              }}
+              isUserHandleAddNodeEnabled= {isUserhandleAddNodeSelectionMode}
+              diagramSettings={diagramSettings}
+              showInitialAddButton={showInitialAddButton}
+              onInitialAddClick={() => {
+                setNodeConfigPanelOpen(false);
+                setPaletteFilterContext({ mode: 'initial-add' });
+                setNodePaletteSidebarOpen(true);
+              }}
+              onNodeAddedFirstTime={() => setShowInitialAddButton(false)}
+              onAutoAlignNodes={handleAutoAlign}
+              onCanvasClick={() => {
+                setUserhandleAddNodeSelectionMode(false)
+                resetConnectorInsertMode();
+                setNodePaletteSidebarOpen(false);
+                setNodeConfigPanelOpen(false);
+                setPaletteFilterContext({ mode: 'default' });
+              }}
+            />
+          </div>
+        
+          {/* Banner shown when waiting for trigger event during execution */}
+          <div className={`trigger-start-notification ${waitingTrigger.active ? 'active' : ''}`}>
+            <MessageComponent severity="Info" cssClass="e-content-center" showIcon={false} title={waitingTrigger.type + " Trigger"} >
+              <span className="spinner-inline" />
+              Waiting for trigger event
+            </MessageComponent>
+          </div>
+
+          {/* Banner shown while a past run is painted on the canvas */}
+          <div className={`run-view-notification ${viewedRun ? 'active' : ''}`}>
+            <MessageComponent severity="Info" cssClass="e-content-center" showIcon={false}>
+              Viewing run from {viewedRun ? new Date(viewedRun.startedAt).toLocaleString() : ''} (read-only)
+              <ButtonComponent cssClass="e-flat e-small run-view-exit-btn" content="Exit" onClick={handleExitRunView} />
+            </MessageComponent>
+          </div>
+
+          {/* Floating toolbar with execution and diagram controls */}
+          <div className="editor-toolbar">
+            <Toolbar 
+              onAction={handleToolbarAction}
+              isExecuting={isExecuting}
+              isPanActive={isPanActive}
+              isLocked={isWorkflowLocked}
+              isHistoryOpen={historyPanelOpen}
+              isValidationOpen={validationPanelOpen}
+              isPaused={!!pausedNodeId}
+            />
+          </div>
         </div>
-      </div>
       
-      {/* Toast notifications for save/error/success messages */}
-      <Toast />
+        {/* Toast notifications for save/error/success messages */}
+        <Toast />
       
-      {/* Confirmation dialog shown when leaving with unsaved changes */}
-      <ConfirmationDialog
-        isOpen={showLeaveDialog}
-        onDismiss={() => {
-          // Stay on page - do nothing
-          setShowLeaveDialog(false);
-          if (blocker.state === 'blocked') {
-            blocker.reset();
-          }
-        }}
-        onConfirm={() => {
-          // Save and navigate
-          try { workflowExecutionRef.current?.stopExecution(true); } catch {}
-          handleSave();
-          setShowLeaveDialog(false);
-          if (blocker.state === 'blocked') {
-            blocker.proceed();
-          }
-        }}
-        onClose={() => {
-          // Discard and navigate
-          try { workflowExecutionRef.current?.stopExecution(true); } catch {}
-          setShowLeaveDialog(false);
-          if (blocker.state === 'blocked') {
-            blocker.proceed();
-          }
-        }}
-        content="You have unsaved changes. Do you want to save before leaving?"
-        buttonContent={{ primary: 'Save & Leave', secondary: 'Discard Changes' }}
-        variant="primary"
-      />
-    </div>
+        {/* Confirmation dialog shown when leaving with unsaved changes */}
+        <ConfirmationDialog
+          isOpen={showLeaveDialog}
+          onDismiss={() => {
+            // Stay on page - do nothing
+            setShowLeaveDialog(false);
+            if (blocker.state === 'blocked') {
+              blocker.reset();
+            }
+          }}
+          onConfirm={() => {
+            // Save and navigate
+            try { workflowExecutionRef.current?.stopExecution(true); } catch {}
+            handleSave();
+            setShowLeaveDialog(false);
+            if (blocker.state === 'blocked') {
+              blocker.proceed();
+            }
+          }}
+          onClose={() => {
+            // Discard and navigate
+            try { workflowExecutionRef.current?.stopExecution(true); } catch {}
+            setShowLeaveDialog(false);
+            if (blocker.state === 'blocked') {
+              blocker.proceed();
+            }
+          }}
+          content="You have unsaved changes. Do you want to save before leaving?"
+          buttonContent={{ primary: 'Save & Leave', secondary: 'Discard Changes' }}
+          variant="primary"
+        />
+      </div>
+    </WorkflowEventBusProvider>
   );
 };
 
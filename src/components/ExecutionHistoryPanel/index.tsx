@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { SidebarComponent } from '@syncfusion/ej2-react-navigations';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
+import { ExecutionRecord, NodeExecutionRecord } from '../../types';
+import JsonVisualizer from '../NodeConfigSidebar/components/JsonVisualizer';
+import './ExecutionHistoryPanel.css';
+
+interface ExecutionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  runs: ExecutionRecord[];
+  activeRunId?: string | null;
+  onOpenRun: (run: ExecutionRecord) => void;
+  onDeleteRun: (runId: string) => void;
+  onClearHistory: () => void;
+  onSelectNode: (nodeId: string) => void;
+}
+
+// Format a duration in ms as a short human readable string
+const formatDuration = (ms?: number): string => {
+  if (ms === undefined || ms === null) return '-';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
+
+const formatTimestamp = (iso: string): string => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleString();
+};
+
+// Nodes of a run in the order they first executed
+const getOrderedNodes = (run: ExecutionRecord): NodeExecutionRecord[] => {
+  const ordered: NodeExecutionRecord[] = [];
+  run.executionPath.forEach(nodeId => {
+    const entry = run.nodes[nodeId];
+    if (entry && !ordered.includes(entry)) ordered.push(entry);
+  });
+  Object.values(run.nodes).forEach(entry => {
+    if (!ordered.includes(entry)) ordered.push(entry);
+  });
+  return ordered;
+};
+
+const ExecutionHistoryPanel: React.FC<ExecutionHistoryPanelProps> = ({
+  isOpen,
+  onClose,
+  runs,
+  activeRunId,
+  onOpenRun,
+  onDeleteRun,
+  onClearHistory,
+  onSelectNode,
+}) => {
+  // Node whose input/output is expanded in the run details
+  const [expandedNodeId, setExpandedNodeId] = useState<string | null>(null);
+
+  const activeRun = runs.find(run => run.id === activeRunId) || null;
+
+  const renderRunList = () => {
+    if (runs.length === 0) {
+      return (
+        <div className="history-empty">
+          <div className="empty-state-icon">🕒</div>
+          <p>No runs yet. Execute the workflow to record its history.</p>
+        </div>
+      );
+    }
+    return runs.map(run => (
+      <div
+        key={run.id}
+        className={`history-run-item ${run.id === activeRunId ? 'active' : ''}`}
+        onClick={() => { setExpandedNodeId(null); onOpenRun(run); }}
+      >
+        <span className={`history-status-dot ${run.status}`} title={run.status} />
+        <div className="history-run-info">
+          <div className="history-run-time">{formatTimestamp(run.startedAt)}</div>
+          <div className="history-run-meta">
+            {run.status} · {formatDuration(run.durationMs)} · {Object.keys(run.nodes).length} nodes
+          </div>
+        </div>
+        <ButtonComponent
+          cssClass="e-flat history-delete-btn"
+          iconCss="e-icons e-trash"
+          title="Delete run"
+          onClick={(e: any) => { e.stopPropagation(); onDeleteRun(run.id); }}
+        />
+      </div>
+    ));
+  };
+
+  const renderRunDetails = (run: ExecutionRecord) => (
+    <div className="history-run-details">
+      <div className="history-section-title">Run details</div>
+      {run.error && <div className="history-run-error">{run.error}</div>}
+      {getOrderedNodes(run).map(entry => {
+        const expanded = expandedNodeId === entry.nodeId;
+        return (
+          <div key={entry.nodeId} className="history-node-item">
+            <div className="history-node-row" onClick={() => onSelectNode(entry.nodeId)}>
+              <span className={`history-status-dot ${entry.status}`} title={entry.status} />
+              <span className="history-node-name" title={entry.nodeName}>{entry.nodeName}</span>
+              {(entry.runCount ?? 1) > 1 && <span className="history-node-runs">×{entry.runCount}</span>}
+              <span className="history-node-duration">{formatDuration(entry.durationMs)}</span>
+              <ButtonComponent
+                cssClass="e-flat history-expand-btn"
+                iconCss={`e-icons ${expanded ? 'e-chevron-up' : 'e-chevron-down'}`}
+                title={expanded ? 'Hide data' : 'Show input and output'}
+                onClick={(e: any) => { e.stopPropagation(); setExpandedNodeId(expanded ? null : entry.nodeId); }}
+              />
+            </div>
+            {entry.error && <div className="history-node-error">{entry.error}</div>}
+            {expanded && (
+              <div className="history-node-data">
+                <div className="history-data-label">Input</div>
+                <JsonVisualizer data={entry.input ?? {}} />
+                <div className="history-data-label">Output</div>
+                <JsonVisualizer data={entry.output ?? {}} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <SidebarComponent
+      id="execution-history-sidebar"
+      className="execution-history-panel"
+      width="340px"
+      position="Right"
+      type="Over"
+      isOpen={isOpen}
+      close={onClose}
+      enableGestures={false}
+      target=".editor-content"
+    >
+      <div className="history-panel-header">
+        <h3>Execution History</h3>
+        <div>
+          <ButtonComponent
+            cssClass="e-flat"
+            iconCss="e-icons e-trash"
+            title="Clear history"
+            disabled={runs.length === 0}
+            onClick={onClearHistory}
+          />
+          <ButtonComponent cssClass="e-flat" iconCss="e-icons e-close" onClick={onClose} />
+        </div>
+      </div>
+      <div className="history-panel-content">
+        {renderRunList()}
+        {activeRun && renderRunDetails(activeRun)}
+      </div>
+    </SidebarComponent>
+  );
+};
+
+export default ExecutionHistoryPanel;
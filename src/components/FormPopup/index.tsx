@@ -5,6 +5,7 @@ import { Draggable } from '@syncfusion/ej2-base';
 import { ensurePortalRoot } from '../../utilities/variablePickerUtils';
 import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
 import { DatePickerComponent, TimePickerComponent } from '@syncfusion/ej2-react-calendars';
+import { WorkflowEventBus } from '../../types';
 import './FormPopup.css';
 
 export type FormField = {
@@ -344,70 +345,57 @@ export default FormPopup;
 // Global host initializer
 // ---------------------------------------------
 let __formPopupRoot: Root | null = null;
-let __formPopupInitialized = false;
-
-export function ensureGlobalFormPopupHost() {
-  if (__formPopupInitialized) return;
-  __formPopupInitialized = true;
 
+// Form popup host bound to the given editor's event bus (re-binding replaces the previous bus)
+export function ensureGlobalFormPopupHost(eventBus: WorkflowEventBus) {
   const container = ensurePortalRoot();
   if (!__formPopupRoot) {
     __formPopupRoot = createRoot(container);
   }
 
-  const Host: React.FC = () => {
-    const [open, setOpen] = useState(false);
-    const [title, setTitle] = useState('');
-    const [description, setDescription] = useState<string | undefined>('');
-    const [fields, setFields] = useState<FormField[]>([]);
-
-    useEffect(() => {
-      const onOpen = (e: Event) => {
-        const ce = e as CustomEvent<{ title?: string; description?: string; fields?: FormField[] }>;
-        setTitle(ce.detail?.title || 'Form');
-        setDescription(ce.detail?.description || '');
-        setFields(Array.isArray(ce.detail?.fields) ? (ce.detail!.fields! as FormField[]) : []);
-        setOpen(true);
-      };
-      const onClear = () => setOpen(false);
-
-      window.addEventListener('wf:form:open', onOpen as EventListener);
-      window.addEventListener('wf:trigger:clear', onClear as EventListener);
-      window.addEventListener('wf:trigger:resumed', onClear as EventListener);
-
-      return () => {
-        window.removeEventListener('wf:form:open', onOpen as EventListener);
-        window.removeEventListener('wf:trigger:clear', onClear as EventListener);
-        window.removeEventListener('wf:trigger:resumed', onClear as EventListener);
-      };
-    }, []);
-
-    const handleClose = () => {
-      setOpen(false);
-      window.dispatchEvent(new CustomEvent('wf:form:cancel'));
-    };
+  __formPopupRoot.render(<FormPopupHost eventBus={eventBus} />);
+}
 
-    const handleSubmit = (payload: { values: string[]; fields: FormField[] }) => {
-      window.dispatchEvent(
-        new CustomEvent('wf:form:submitted', {
-          detail: { values: payload.values, at: new Date().toISOString() },
-        })
-      );
-      setOpen(false);
-    };
+const FormPopupHost: React.FC<{ eventBus: WorkflowEventBus }> = ({ eventBus }) => {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState<string | undefined>('');
+  const [fields, setFields] = useState<FormField[]>([]);
+
+  useEffect(() => {
+    const onClear = () => setOpen(false);
+    const unsubscribers = [
+      eventBus.on('form:open', (payload) => {
+        setTitle(payload?.title || 'Form');
+        setDescription(payload?.description || '');
+        setFields(Array.isArray(payload?.fields) ? (payload.fields as FormField[]) : []);
+        setOpen(true);
+      }),
+      eventBus.on('trigger:clear', onClear),
+      eventBus.on('trigger:resumed', onClear),
+    ];
+    return () => unsubscribers.forEach(off => off());
+  }, [eventBus]);
+
+  const handleClose = () => {
+    setOpen(false);
+    eventBus.emit('form:cancel');
+  };
 
-    return (
-      <FormPopup
-        open={open}
-        onClose={handleClose}
-        title={title}
-        description={description}
-        fields={fields}
-        onSubmit={handleSubmit}
-        showPreviewBadge={false}
-      />
-    );
+  const handleSubmit = (payload: { values: string[]; fields: FormField[] }) => {
+    eventBus.emit('form:submitted', { values: payload.values, at: new Date().toISOString() });
+    setOpen(false);
   };
 
-  __formPopupRoot.render(<Host />);
-}
+  return (
+    <FormPopup
+      open={open}
+      onClose={handleClose}
+      title={title}
+      description={description}
+      fields={fields}
+      onSubmit={handleSubmit}
+      showPreviewBadge={false}
+    />
+  );
+};
@@ -8,7 +8,7 @@ import { NumericTextBoxComponent } from '@syncfusion/ej2-react-inputs';
 import { DiagramSettings } from '../../types';
 import { getDefaultDiagramSettings } from '../../utilities';
 import { showErrorToast } from '../Toast';
-import { CONNECTOR_STYLE_OPTIONS, GRID_STYLE_OPTIONS, SETTINGS_DROPDOWN_ITEMS } from '../../constants';
+import { CONNECTOR_STYLE_OPTIONS, DEFAULT_MAX_CONCURRENCY, EXECUTION_MODE_OPTIONS, GRID_STYLE_OPTIONS, MAX_CONCURRENCY_LIMIT, SETTINGS_DROPDOWN_ITEMS } from '../../constants';
 import './Header.css';
 
 interface EditorHeaderProps {
@@ -113,6 +113,7 @@ const EditorHeader: React.FC<EditorHeaderProps> = ({
   // Derived flags for UI state
   const isSnappingEnabled = !!(diagramSettings?.snapping && (diagramSettings.snapping.enableSnapToObjects || diagramSettings.snapping.enableSnapToGrid));
   const isOverviewEnabled = !!diagramSettings?.showOverview;
+  const isParallelExecution = diagramSettings?.executionMode === 'parallel';
 
   return (
     <AppBarComponent id="workflow-appbar">
@@ -326,6 +327,42 @@ const EditorHeader: React.FC<EditorHeaderProps> = ({
                 </div>
               </div>
             </div>
+
+            {/* Group: Execution Mode (+ conditional sub) */}
+            <div className="settings-group">
+              <div className="settings-row" title='Run the branches leaving a node one after another, or at the same time.'>
+                <p className="settings-title">Execution Mode</p>
+                <div className="settings-control">
+                  <DropDownListComponent
+                    dataSource={EXECUTION_MODE_OPTIONS}
+                    fields={{ text: 'text', value: 'value' }}
+                    value={diagramSettings.executionMode ?? 'sequential'}
+                    change={(args: any) => handleSettingsChange('executionMode', args.value)}
+                    width="220px"
+                    cssClass="settings-dropdown"
+                  />
+                </div>
+              </div>
+              <div className={`settings-subgroup ${isParallelExecution ? '' : 'is-disabled'}`}>
+                <div className="settings-sub-row" title='Maximum number of sibling branches of one node that run at the same time.'>
+                  <p className="settings-label">Max parallel branches</p>
+                  <div className="settings-control">
+                    <NumericTextBoxComponent
+                      min={1}
+                      max={MAX_CONCURRENCY_LIMIT}
+                      step={1}
+                      format="n0"
+                      width={120}
+                      enabled={isParallelExecution}
+                      value={diagramSettings.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY}
+                      change={(args) =>
+                        handleSettingsChange('maxConcurrency', (args.value as number) ?? DEFAULT_MAX_CONCURRENCY)
+                      }
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
           </div>
         </div>
       </DialogComponent>
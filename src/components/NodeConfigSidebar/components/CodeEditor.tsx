@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  readOnly?: boolean;
+  minLines?: number;
+};
+
+const INDENT = '  ';
+
+/** Plain-text code editor with line numbers; Tab indents, Shift+Tab outdents, Enter keeps the indentation */
+const CodeEditor: React.FC<Props> = ({ value, onChange, placeholder, readOnly = false, minLines = 12 }) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  // Caret to restore after a keyboard edit re-renders the text
+  const pendingSelection = useRef<[number, number] | null>(null);
+  const [text, setText] = useState(value ?? '');
+
+  // Follow outside changes (another node selected, draft reset)
+  useEffect(() => {
+    setText(value ?? '');
+  }, [value]);
+
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (el && pendingSelection.current) {
+      el.setSelectionRange(pendingSelection.current[0], pendingSelection.current[1]);
+      pendingSelection.current = null;
+    }
+  }, [text]);
+
+  const update = (next: string, selection?: [number, number]) => {
+    pendingSelection.current = selection ?? null;
+    setText(next);
+    onChange(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (readOnly) return;
+    const el = e.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = el;
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      // Indent / outdent every line touched by the selection
+      const blockEnd = end > start && text[end - 1] === '\n' ? end - 1 : end;
+      const lines = text.slice(lineStart, blockEnd).split('\n');
+      if (e.shiftKey) {
+        let removedFirst = 0;
+        const next = lines.map((line, i) => {
+          const removed = line.startsWith(INDENT) ? INDENT.length : line.startsWith(' ') || line.startsWith('\t') ? 1 : 0;
+          if (i === 0) removedFirst = removed;
+          return line.slice(removed);
+        }).join('\n');
+        const removedTotal = lines.join('\n').length - next.length;
+        update(text.slice(0, lineStart) + next + text.slice(blockEnd), [Math.max(lineStart, start - removedFirst), Math.max(lineStart, end - removedTotal)]);
+      } else if (start === end) {
+        update(text.slice(0, start) + INDENT + text.slice(end), [start + INDENT.length, start + INDENT.length]);
+      } else {
+        const next = lines.map(line => INDENT + line).join('\n');
+        update(text.slice(0, lineStart) + next + text.slice(blockEnd), [start + INDENT.length, end + INDENT.length * lines.length]);
+      }
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      const indent = (text.slice(lineStart, start).match(/^[ \t]*/) ?? [''])[0];
+      // One level deeper after an opening bracket
+      const extra = /[{[(]\s*$/.test(text.slice(lineStart, start)) ? INDENT : '';
+      const insert = `\n${indent}${extra}`;
+      update(text.slice(0, start) + insert + text.slice(end), [start + insert.length, start + insert.length]);
+    }
+  };
+
+  const lineCount = Math.max(minLines, text.split('\n').length);
+
+  return (
+    <div className="code-editor">
+      <div className="code-editor-gutter" aria-hidden="true">
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <textarea
+        ref={textareaRef}
+        className="code-editor-input"
+        value={text}
+        placeholder={placeholder}
+        readOnly={readOnly}
+        rows={lineCount}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        wrap="off"
+        onChange={(e) => update(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+    </div>
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ConsoleLogEntry } from '../../../types';
+
+type Props = {
+  logs: ConsoleLogEntry[];
+};
+
+/** Output tab: console calls captured from the last run of a Code node */
+const ConsoleOutputPanel: React.FC<Props> = ({ logs }) => {
+  return (
+    <div className="config-section">
+      <label className="config-label">Console ({logs.length})</label>
+      {logs.length === 0 ? (
+        <p className="config-hint">The code did not write to the console.</p>
+      ) : (
+        <div className="code-console">
+          {logs.map((entry, i) => (
+            <div key={i} className={`code-console-line is-${entry.level}`}>
+              <span className="code-console-time">{(entry.time / 1000).toFixed(3)}s</span>
+              <span className="code-console-message">{entry.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsoleOutputPanel;
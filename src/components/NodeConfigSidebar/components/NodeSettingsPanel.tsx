@@ -0,0 +1,147 @@
+import React from 'react';
+import { CheckBoxComponent } from '@syncfusion/ej2-react-buttons';
+import { NumericTextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { NodeConfig, RetryCondition, RetryPolicy } from '../../../types';
+import { DEFAULT_RETRY_ON, ERROR_MODE_OPTIONS, RETRY_CONDITION_OPTIONS } from '../../../constants';
+import { isRetryEnabledByDefault, supportsErrorHandling, supportsRetry } from '../../../utilities';
+
+type Props = {
+  nodeConfig: NodeConfig;
+  advanced: any;
+  onPatch: (patch: Record<string, any>) => void;
+};
+
+/** Settings tab: per-node execution behavior (error mode, retries) stored in settings.advanced */
+const NodeSettingsPanel: React.FC<Props> = ({ nodeConfig, advanced, onPatch }) => {
+  const retry: RetryPolicy = advanced?.retry ?? {};
+  const retryEnabled = supportsRetry(nodeConfig) && (retry.enabled ?? isRetryEnabledByDefault(nodeConfig));
+  const retryOn: RetryCondition[] = Array.isArray(retry.retryOn) && retry.retryOn.length > 0 ? retry.retryOn : DEFAULT_RETRY_ON;
+
+  const patchRetry = (p: Partial<RetryPolicy>) => onPatch({ retry: { ...retry, ...p } });
+
+  const toggleCondition = (value: RetryCondition, checked: boolean) => {
+    const next = checked ? [...retryOn.filter(v => v !== value), value] : retryOn.filter(v => v !== value);
+    patchRetry({ retryOn: next });
+  };
+
+  return (
+    <div className="config-tab-content">
+      {supportsErrorHandling(nodeConfig) && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">On error</label>
+            <TooltipComponent content="Continue passes the error on as this node's output. Error output adds a red port for a dedicated failure branch.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          <DropDownListComponent
+            value={advanced?.onError ?? 'stop'}
+            dataSource={ERROR_MODE_OPTIONS}
+            fields={{ text: 'text', value: 'value' }}
+            change={(e: any) => onPatch({ onError: e.value })}
+            popupHeight="220px"
+            zIndex={1000000}
+          />
+        </div>
+      )}
+
+      {supportsRetry(nodeConfig) && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <CheckBoxComponent
+              label="Retry on fail"
+              checked={retryEnabled}
+              change={(e: any) => patchRetry({ enabled: !!e.checked })}
+            />
+            <TooltipComponent content="Re-run this node when it fails with one of the selected errors. Leave fields empty to use the workflow defaults. Only HTTP Request retries unless turned on here, as repeating writes or notifications duplicates them.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+        </div>
+      )}
+
+      {retryEnabled && (
+        <>
+          <div className="config-section grid-2">
+            <div>
+              <label className="config-label">Max retries</label>
+              <NumericTextBoxComponent
+                value={retry.maxRetries ?? (null as any)}
+                min={0}
+                max={10}
+                format="n0"
+                placeholder="Default (3)"
+                change={(e: any) => patchRetry({ maxRetries: e.value ?? undefined })}
+                cssClass="config-input"
+              />
+            </div>
+            <div>
+              <label className="config-label">Initial delay (ms)</label>
+              <NumericTextBoxComponent
+                value={retry.delayMs ?? (null as any)}
+                min={0}
+                step={500}
+                format="n0"
+                placeholder="Default (1000)"
+                change={(e: any) => patchRetry({ delayMs: e.value ?? undefined })}
+                cssClass="config-input"
+              />
+            </div>
+          </div>
+
+          <div className="config-section grid-2">
+            <div>
+              <label className="config-label">Backoff factor</label>
+              <NumericTextBoxComponent
+                value={retry.backoffFactor ?? (null as any)}
+                min={1}
+                step={0.5}
+                format="n1"
+                placeholder="Default (2)"
+                change={(e: any) => patchRetry({ backoffFactor: e.value ?? undefined })}
+                cssClass="config-input"
+              />
+            </div>
+            <div>
+              <label className="config-label">Max delay (ms)</label>
+              <NumericTextBoxComponent
+                value={retry.maxDelayMs ?? (null as any)}
+                min={0}
+                step={1000}
+                format="n0"
+                placeholder="Default (30000)"
+                change={(e: any) => patchRetry({ maxDelayMs: e.value ?? undefined })}
+                cssClass="config-input"
+              />
+            </div>
+          </div>
+
+          <div className="config-section">
+            <CheckBoxComponent
+              label="Add random jitter to delays"
+              checked={retry.jitter ?? true}
+              change={(e: any) => patchRetry({ jitter: !!e.checked })}
+            />
+          </div>
+
+          <div className="config-section">
+            <label className="config-label">Retry only on</label>
+            {RETRY_CONDITION_OPTIONS.map(opt => (
+              <div key={opt.value} style={{ marginBottom: 6 }}>
+                <CheckBoxComponent
+                  label={opt.text}
+                  checked={retryOn.includes(opt.value)}
+                  change={(e: any) => toggleCondition(opt.value, !!e.checked)}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NodeSettingsPanel;
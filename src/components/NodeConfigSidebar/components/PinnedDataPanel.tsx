@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { PinnedData } from '../../../types';
+import JsonVisualizer from './JsonVisualizer';
+
+type Props = {
+  pinnedData?: PinnedData;
+  currentOutput: any;                 // Latest output of the node from the execution context
+  readOnly?: boolean;
+  onChange: (pinnedData: PinnedData | undefined) => void;
+};
+
+/** Pin Data tab: store mock output on the node so execution reuses it instead of running the node */
+const PinnedDataPanel: React.FC<Props> = ({ pinnedData, currentOutput, readOnly = false, onChange }) => {
+  const [jsonText, setJsonText] = useState('');
+  const [jsonError, setJsonError] = useState('');
+
+  const pin = (data: any, source: PinnedData['source']) => {
+    setJsonError('');
+    // Store a detached copy so later runs cannot mutate the pinned value
+    onChange({ data: JSON.parse(JSON.stringify(data)), pinnedAt: new Date().toISOString(), source });
+  };
+
+  const pinFromText = (text: string) => {
+    if (!text.trim()) {
+      setJsonError('Enter the JSON output to pin.');
+      return;
+    }
+    try {
+      pin(JSON.parse(text), 'manual');
+      setJsonText('');
+    } catch (error) {
+      setJsonError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const importFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (e) => pinFromText(String(e.target?.result ?? ''));
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="config-tab-content">
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Pinned output</label>
+          <TooltipComponent content="While data is pinned, running the workflow skips this node and passes the pinned output downstream.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        {pinnedData ? (
+          <>
+            <p className="config-hint">
+              Pinned {new Date(pinnedData.pinnedAt).toLocaleString()} ({pinnedData.source === 'execution' ? 'from an execution' : 'entered manually'})
+            </p>
+            <div style={{ border: '1px solid var(--border-color)', borderRadius: 8, padding: '.4rem', marginBottom: 8 }}>
+              <JsonVisualizer data={pinnedData.data} collapsed={false} />
+            </div>
+            <ButtonComponent cssClass="e-outline e-small" iconCss="e-icons e-unpin" disabled={readOnly} onClick={() => onChange(undefined)}>
+              Unpin
+            </ButtonComponent>
+          </>
+        ) : (
+          <p className="config-hint">No data pinned. This node runs normally.</p>
+        )}
+      </div>
+
+      <div className="config-section">
+        <ButtonComponent
+          cssClass="e-outline e-small"
+          iconCss="e-icons e-pin"
+          disabled={readOnly || currentOutput === undefined}
+          onClick={() => pin(currentOutput, 'execution')}
+        >
+          Pin current output
+        </ButtonComponent>
+      </div>
+
+      <div className="config-section">
+        <label className="config-label">Pin JSON</label>
+        <TextBoxComponent
+          value={jsonText}
+          placeholder='e.g. { "email": "jane@example.com" }'
+          input={(e: any) => { setJsonText(e.value); setJsonError(''); }}
+          cssClass="config-textarea"
+          multiline
+        />
+        {jsonError && <div style={{ color: 'var(--danger-color)', marginTop: 4 }}>{jsonError}</div>}
+        <div className="config-row" style={{ justifyContent: 'flex-start', gap: 8, marginTop: 8 }}>
+          <ButtonComponent cssClass="e-outline e-small" disabled={readOnly} onClick={() => pinFromText(jsonText)}>
+            Pin JSON
+          </ButtonComponent>
+          <ButtonComponent cssClass="e-flat e-small" iconCss="e-icons e-import" disabled={readOnly} onClick={importFile}>
+            Import file
+          </ButtonComponent>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PinnedDataPanel;
@@ -1,8 +1,19 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
-import { Variable, VariableGroup } from '../../../types';
-import { buildJsonFromVariables, ensurePortalRoot, findNativeInput, insertAtCaret } from '../../../utilities';
+import { ExpressionFieldPreview, ExpressionFunctionDoc, ExpressionTokenPreview, Variable, VariableGroup } from '../../../types';
+import {
+  buildJsonFromVariables,
+  ensurePortalRoot,
+  findNativeInput,
+  formatNodeReference,
+  formatValueSnippet,
+  getExpressionCompletionContext,
+  getExpressionFunctionCompletions,
+  insertAtCaret,
+  previewExpressionField,
+} from '../../../utilities';
+import { useExpressionPreviewContext } from '../../../contexts/ExpressionPreviewContext';
 import JsonVisualizer from './JsonVisualizer';
 import ValuePeekPanel, { PeekInfo } from './ValuePeekPanel';
 import { Draggable } from '@syncfusion/ej2-base';
@@ -187,9 +198,12 @@ export const VariablePickerPopup: React.FC<PickerPopupProps> = ({
                   collapsed={false}
                   onValuePeek={(info) => setPeek(info)}
                   onKeyClick={(path) => {
-                    // Build a readable node-qualified path using only node name: $.<NodeName>.<relativePath>
+                    // Node outputs are referenced explicitly by name: $node("<NodeName>").<relativePath>
+                    // (loop frame groups carry their own prefix, e.g. $loop.parent)
                     const relative = String(path).replace(/^\$\./, '');
-                    const qualifiedPath = `$.${g.nodeType}.${relative}`;
+                    const qualifiedPath = g.pathPrefix
+                      ? `${g.pathPrefix}.${relative}`
+                      : formatNodeReference(g.nodeName, relative);
                     const fakeVar = {
                       key: qualifiedPath,
                       path: qualifiedPath,
@@ -213,6 +227,134 @@ export const VariablePickerPopup: React.FC<PickerPopupProps> = ({
   );
 };
 
+/* -----------------------------------------------------------------------------
+ * Expression Completion List (built-in helpers typed inside {{ }})
+ * -------------------------------------------------------------------------- */
+
+type CompletionListProps = {
+  anchorEl: HTMLElement;                      // native input the list drops down from
+  items: ExpressionFunctionDoc[];
+  activeIndex: number;
+  onPick: (doc: ExpressionFunctionDoc) => void;
+  onHover: (index: number) => void;
+  zIndex?: number;
+};
+
+const ExpressionCompletionList: React.FC<CompletionListProps> = ({
+  anchorEl,
+  items,
+  activeIndex,
+  onPick,
+  onHover,
+  zIndex = 1000020,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const rect = anchorEl.getBoundingClientRect();
+
+  // Keep the highlighted row visible while navigating with the arrow keys
+  useEffect(() => {
+    const row = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return createPortal(
+    <div
+      ref={listRef}
+      className="vp-completions"
+      style={{ position: 'fixed', top: rect.bottom + 4, left: rect.left, width: Math.max(rect.width, 320), zIndex }}
+      onMouseDown={(e) => e.preventDefault()} // keep focus in textbox
+    >
+      {items.map((doc, i) => (
+        <div
+          key={doc.name}
+          className={`vp-completion-item${i === activeIndex ? ' active' : ''}`}
+          onMouseEnter={() => onHover(i)}
+          onClick={() => onPick(doc)}
+        >
+          <div className="vp-completion-head">
+            <span className="vp-completion-signature">{doc.signature}</span>
+            <span className="vp-completion-category">{doc.category}</span>
+          </div>
+          <div className="vp-completion-desc">{doc.description}</div>
+        </div>
+      ))}
+    </div>,
+    ensurePortalRoot()
+  );
+};
+
+/* -----------------------------------------------------------------------------
+ * Expression Preview (resolved value, per-token hover popovers, underlined errors)
+ * -------------------------------------------------------------------------- */
+
+type ExpressionPreviewProps = {
+  text: string;                     // field text the preview was computed for
+  preview: ExpressionFieldPreview;
+  zIndex?: number;
+};
+
+const ExpressionPreview: React.FC<ExpressionPreviewProps> = ({ text, preview, zIndex = 1000030 }) => {
+  const [hover, setHover] = useState<{ token: ExpressionTokenPreview; rect: DOMRect } | null>(null);
+
+  // Token text with the erroneous span wrapped for the wavy underline
+  const renderToken = (token: ExpressionTokenPreview) => {
+    const raw = text.slice(token.start, token.end);
+    if (token.errorStart === undefined || token.errorEnd === undefined) return raw;
+    const from = Math.max(0, token.errorStart - token.start);
+    const to = Math.min(raw.length, token.errorEnd - token.start);
+    return (
+      <>
+        {raw.slice(0, from)}
+        <span className="vp-token-error">{raw.slice(from, to)}</span>
+        {raw.slice(to)}
+      </>
+    );
+  };
+
+  let summary: React.ReactNode;
+  if (preview.error) summary = preview.error;
+  else if (!preview.hasRun) summary = 'Run the workflow to preview values';
+  else summary = (
+    <>
+      <span className="vp-preview-type">{preview.valueType}</span>
+      {formatValueSnippet(preview.value)}
+    </>
+  );
+
+  return (
+    <div className="vp-preview">
+      <div className="vp-preview-tokens">
+        {preview.tokens.map((token, i) => (
+          <span
+            key={`${token.start}-${i}`}
+            className={`vp-token${token.error ? ' has-error' : ''}`}
+            onMouseEnter={(e) => setHover({ token, rect: e.currentTarget.getBoundingClientRect() })}
+            onMouseLeave={() => setHover(null)}
+          >
+            {renderToken(token)}
+          </span>
+        ))}
+      </div>
+      <div className={`vp-preview-result${preview.error ? ' is-error' : ''}`}>{summary}</div>
+
+      {hover && createPortal(
+        <div
+          className="vp-token-popover"
+          style={{ position: 'fixed', top: hover.rect.bottom + 6, left: hover.rect.left, zIndex }}
+        >
+          <div className="vp-token-popover-type">
+            {hover.token.error ? 'Error' : preview.hasRun ? hover.token.valueType : 'Not evaluated yet'}
+          </div>
+          <div className="vp-token-popover-value">
+            {hover.token.error ?? (preview.hasRun ? formatValueSnippet(hover.token.value, 400) : 'Run the workflow to see this value.')}
+          </div>
+        </div>,
+        ensurePortalRoot()
+      )}
+    </div>
+  );
+};
+
 /* -----------------------------------------------------------------------------
  * VariablePickerTextBox (opens popup; inserts via caret on pick)
  * -------------------------------------------------------------------------- */
@@ -226,10 +368,12 @@ type VariablePickerTextBoxProps = {
   variableGroups: VariableGroup[];
   tokenFormatter?: (v: Variable) => string; // default: {{ <path> }}
   ej2Props?: Partial<TextBoxComponent>;
-  // Insert mode: 'value' inserts a {{ $.node#id.path }} token; 'itemField' inserts $.item.<field>
+  // Insert mode: 'value' inserts a {{ $node("Name").path }} token; 'itemField' inserts $.item.<field>
   mode?: 'value' | 'itemField';
-  // Base list expression for itemField mode, e.g., $.Employees#node123.rows
+  // Base list expression for itemField mode, e.g., $node("Employees").rows
   baseListExpr?: string;
+  // Live preview of {{ }} tokens against the last run (value mode inside the config panel only)
+  preview?: boolean;
 };
 
 export const VariablePickerTextBox: React.FC<VariablePickerTextBoxProps> = ({
@@ -243,6 +387,7 @@ export const VariablePickerTextBox: React.FC<VariablePickerTextBoxProps> = ({
   ej2Props = {},
   mode = 'value',
   baseListExpr,
+  preview = true,
 }) => {
   // Wrapper helps locate the native EJ2 input
   const wrapperRef = useRef<HTMLDivElement>(null);
@@ -259,12 +404,29 @@ export const VariablePickerTextBox: React.FC<VariablePickerTextBoxProps> = ({
     captureInput();
   }, [captureInput, multiline]);
 
-  // Subtle token class if value contains any {{ ... }}
+  // Text as typed (the value prop only updates on change/blur) and its debounced expression preview
+  const previewContext = useExpressionPreviewContext();
+  const [liveText, setLiveText] = useState(value ?? '');
+  const [fieldPreview, setFieldPreview] = useState<{ text: string; result: ExpressionFieldPreview } | null>(null);
+  useEffect(() => setLiveText(value ?? ''), [value]);
+  useEffect(() => {
+    if (!preview || mode !== 'value' || !previewContext || !/\{\{|^\s*\$(?:\.|node\b|loops?\b)/.test(liveText)) {
+      setFieldPreview(null);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setFieldPreview({ text: liveText, result: previewExpressionField(liveText, previewContext) });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [preview, mode, previewContext, liveText]);
+
+  // Subtle token class if value contains any {{ ... }}; EJ2 error state when the preview found an error
   const computedCssClass = useMemo(() => {
     const base = cssClass ?? '';
     const tokenClass = /\{\{[^}]+\}\}/.test(value) ? ' has-variables' : '';
-    return `${base}${tokenClass}`.trim();
-  }, [cssClass, value]);
+    const errorClass = fieldPreview?.result.tokens.some((t) => t.error) ? ' e-error' : '';
+    return `${base}${tokenClass}${errorClass}`.trim();
+  }, [cssClass, value, fieldPreview]);
 
   // When a variable is picked from the popup
   const handlePick = useCallback(
@@ -335,6 +497,67 @@ export const VariablePickerTextBox: React.FC<VariablePickerTextBoxProps> = ({
   // Open the popup when focusing into the textbox
   const onFocusIn = useCallback(() => setOpen(true), []);
 
+  // Helper completions for the identifier being typed inside {{ }}
+  const [completion, setCompletion] = useState<{
+    items: ExpressionFunctionDoc[];
+    start: number;
+    end: number;
+    active: number;
+  } | null>(null);
+
+  const updateCompletion = useCallback(() => {
+    const el = inputRef.current;
+    if (!el) return;
+    setLiveText(el.value);
+    const caret = el.selectionStart ?? el.value.length;
+    const ctx = getExpressionCompletionContext(el.value, caret);
+    const items = ctx ? getExpressionFunctionCompletions(ctx.prefix) : [];
+    setCompletion(ctx && items.length ? { items, start: ctx.start, end: caret, active: 0 } : null);
+  }, []);
+
+  const acceptCompletion = useCallback(
+    (doc: ExpressionFunctionDoc) => {
+      const el = inputRef.current;
+      if (!el || !completion) return;
+      const text = doc.kind === 'function' ? `${doc.name}(` : doc.name;
+      const nextValue = el.value.slice(0, completion.start) + text + el.value.slice(completion.end);
+      const nextCaret = completion.start + text.length;
+      el.value = nextValue;
+      onChange(nextValue);
+      setLiveText(nextValue);
+      setCompletion(null);
+
+      requestAnimationFrame(() => {
+        const el2 = inputRef.current;
+        if (el2) { el2.focus(); try { el2.setSelectionRange(nextCaret, nextCaret); } catch { /* noop */ } }
+      });
+    },
+    [completion, onChange]
+  );
+
+  // Arrow keys / Enter / Tab / Escape drive the completion list while it is open
+  useEffect(() => {
+    const el = inputRef.current;
+    if (!el || !completion) return;
+    const onKeyDown = (e: Event) => {
+      const key = (e as KeyboardEvent).key;
+      if (key === 'ArrowDown' || key === 'ArrowUp') {
+        e.preventDefault();
+        const step = key === 'ArrowDown' ? 1 : -1;
+        setCompletion((c) => c && { ...c, active: (c.active + step + c.items.length) % c.items.length });
+      } else if (key === 'Enter' || key === 'Tab') {
+        e.preventDefault();
+        acceptCompletion(completion.items[completion.active]);
+      } else if (key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        setCompletion(null);
+      }
+    };
+    el.addEventListener('keydown', onKeyDown);
+    return () => el.removeEventListener('keydown', onKeyDown);
+  }, [completion, acceptCompletion]);
+
   return (
     <div ref={wrapperRef} style={{width: '100%'}}>
       <TextBoxComponent
@@ -342,11 +565,25 @@ export const VariablePickerTextBox: React.FC<VariablePickerTextBoxProps> = ({
         placeholder={placeholder}
         change={(e: any) => onChange(e.value)}
         focus={onFocusIn}
+        input={updateCompletion}
+        blur={() => setCompletion(null)}
         multiline={multiline}
         cssClass={computedCssClass}
         {...ej2Props}
       />
 
+      {fieldPreview && <ExpressionPreview text={fieldPreview.text} preview={fieldPreview.result} />}
+
+      {completion && inputRef.current && (
+        <ExpressionCompletionList
+          anchorEl={inputRef.current}
+          items={completion.items}
+          activeIndex={completion.active}
+          onPick={acceptCompletion}
+          onHover={(i) => setCompletion((c) => c && { ...c, active: i })}
+        />
+      )}
+
       <VariablePickerPopup
         anchorEl={inputRef.current}
         open={open}
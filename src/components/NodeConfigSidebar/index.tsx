@@ -4,19 +4,44 @@ import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
 import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
 import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
 import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { MessageComponent } from '@syncfusion/ej2-react-notifications';
 import { IconRegistry } from '../../assets/icons';
-import { ExecutionContext, NodeConfig, NodeType } from '../../types';
+import { ExecutionContext, NodeConfig, NodeType, PinnedData } from '../../types';
 import { Diagram } from '@syncfusion/ej2-diagrams';
 import { VariablePickerTextBox } from './components/VariablePickerTextBox';
 import JsonVisualizer from './components/JsonVisualizer';
 import ValuePeekPanel, { PeekInfo } from './components/ValuePeekPanel';
-import { updateSwitchPorts, getAvailableVariablesForNode, getNodeOutputAsVariableGroup, buildJsonFromVariables } from '../../utilities';
+import NodeSettingsPanel from './components/NodeSettingsPanel';
+import PinnedDataPanel from './components/PinnedDataPanel';
+import {
+  updateSwitchPorts,
+  getAvailableVariablesForNode,
+  getNodeOutputAsVariableGroup,
+  buildJsonFromVariables,
+  renameNodeReferences,
+  renameNodeReferencesInDiagram,
+  withCurrentNode,
+} from '../../utilities';
+import { showInfoToast } from '../Toast';
 import WordNodeConfig from './nodeConfigs/WordNodeConfig';
 import ExcelNodeConfig from './nodeConfigs/ExcelNodeConfig';
 import ConditionNodeConfig from './nodeConfigs/ConditionNodeConfig';
 import FormNodeConfig from './nodeConfigs/FormNodeConfig';
 import FormPopup from '../FormPopup';
 import NotifyNodeConfig from './nodeConfigs/NotifyNodeConfig';
+import MergeNodeConfig from './nodeConfigs/MergeNodeConfig';
+import LoopNodeConfig from './nodeConfigs/LoopNodeConfig';
+import ExecuteWorkflowNodeConfig from './nodeConfigs/ExecuteWorkflowNodeConfig';
+import WorkflowInputNodeConfig from './nodeConfigs/WorkflowInputNodeConfig';
+import WorkflowOutputNodeConfig from './nodeConfigs/WorkflowOutputNodeConfig';
+import CodeNodeConfig from './nodeConfigs/CodeNodeConfig';
+import EditFieldsNodeConfig from './nodeConfigs/EditFieldsNodeConfig';
+import CollectionNodeConfig from './nodeConfigs/CollectionNodeConfig';
+import DateTimeNodeConfig from './nodeConfigs/DateTimeNodeConfig';
+import ConvertNodeConfig from './nodeConfigs/ConvertNodeConfig';
+import ConsoleOutputPanel from './components/ConsoleOutputPanel';
+import { useWorkflowEventBus } from '../../contexts/WorkflowEventBusContext';
+import { ExpressionPreviewProvider } from '../../contexts/ExpressionPreviewContext';
 import './NodeConfigSidebar.css';
 
 interface ConfigPanelProps {
@@ -29,6 +54,8 @@ interface ConfigPanelProps {
   onNodeConfigChange: (nodeId: string, config: NodeConfig) => void;
   isChatOpen: boolean;
   setChatOpen: React.Dispatch<React.SetStateAction<boolean>>
+  readOnly?: boolean; // Viewing a past run: configuration changes cannot be applied
+  pausedNodeId?: string | null; // Debugger: node the run is paused before
 }
 
 const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
@@ -41,11 +68,14 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
   onNodeConfigChange,
   isChatOpen,
   setChatOpen,
+  readOnly = false,
+  pausedNodeId = null,
 }) => {
   // ========================================================================
   // State Management - UI & Data
   // ========================================================================
   const [activeTab, setActiveTab] = useState(0); // Current tab index 
+  const eventBus = useWorkflowEventBus();
   const [availableVariables, setAvailableVariables] = useState<any[]>([]); // Variables from previous executed nodes
   const [nodeOutput, setNodeOutput] = useState<any>(null); // Execution output of selected node
   const [peek, setPeek] = useState<PeekInfo>(null); // JSON value peek info for visualization
@@ -54,12 +84,15 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
 
   // Draft state for non-destructive editing
   const [draftGeneral, setDraftGeneral] = useState<any>({});
+  const [draftAdvanced, setDraftAdvanced] = useState<any>({});
   const [draftName, setDraftName] = useState<string>('');
 
   // Initialize/reset draft when node changes
   useEffect(() => {
     const g = (selectedNodeConfig?.settings && (selectedNodeConfig.settings as any).general) || {};
+    const a = (selectedNodeConfig?.settings && (selectedNodeConfig.settings as any).advanced) || {};
     setDraftGeneral(g);
+    setDraftAdvanced(a);
     setDraftName(selectedNodeConfig?.displayName ?? '');
   }, [selectedNodeConfig?.id]);
 
@@ -67,33 +100,59 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
     if (!selectedNodeConfig) return false;
     try {
       const current = (selectedNodeConfig.settings && (selectedNodeConfig.settings as any).general) || {};
+      const currentAdvanced = (selectedNodeConfig.settings && (selectedNodeConfig.settings as any).advanced) || {};
       const sameGeneral = JSON.stringify(current) === JSON.stringify(draftGeneral || {});
+      const sameAdvanced = JSON.stringify(currentAdvanced) === JSON.stringify(draftAdvanced || {});
       const sameName = (selectedNodeConfig.displayName ?? '') === (draftName ?? '');
-      return !(sameGeneral && sameName);
+      return !(sameGeneral && sameAdvanced && sameName);
     } catch {
       return true;
     }
-  }, [selectedNodeConfig, draftGeneral, draftName]);
+  }, [selectedNodeConfig, draftGeneral, draftAdvanced, draftName]);
 
   // Commit draft to parent config
   const commitDraft = useCallback(() => {
     if (!selectedNodeConfig || !isDirty) return;
+    const previousName = selectedNodeConfig.displayName ?? '';
+    const renamed = !!previousName && !!draftName && previousName !== draftName;
+
+    // A rename rewrites $node("old") / $loops["old"] / $.old references, in this node's draft and in every other node
+    const rename = <T,>(value: T): T => (renamed ? renameNodeReferences(value, previousName, draftName) : value);
     const updatedConfig: NodeConfig = {
       ...selectedNodeConfig,
       displayName: draftName,
       settings: {
         ...selectedNodeConfig.settings,
-        general: { ...(draftGeneral || {}) },
+        general: rename({ ...(draftGeneral || {}) }),
+        advanced: rename({ ...(draftAdvanced || {}) }),
       },
     };
+    if (renamed) {
+      const updated = renameNodeReferencesInDiagram(diagram, previousName, draftName, selectedNodeConfig.id);
+      updated.forEach(config => onNodeConfigChange(config.id, config));
+      if (updated.length > 0) {
+        showInfoToast('References Updated', `Renamed "${previousName}" to "${draftName}" in ${updated.length} node${updated.length === 1 ? '' : 's'}.`);
+      }
+      // Keep the draft in step with the rewritten settings
+      setDraftGeneral(updatedConfig.settings.general);
+      setDraftAdvanced(updatedConfig.settings.advanced);
+    }
     onNodeConfigChange(selectedNodeConfig.id, updatedConfig);
-  }, [selectedNodeConfig, draftGeneral, draftName, isDirty, onNodeConfigChange]);
+  }, [selectedNodeConfig, draftGeneral, draftAdvanced, draftName, isDirty, onNodeConfigChange, diagram]);
 
   // ========================================================================
   // Derived State & Icons
   // ========================================================================
   const nodeIconSrc = selectedNodeConfig?.icon ? IconRegistry[selectedNodeConfig.icon] : null; // Node type icon
 
+  // Last run as seen from this node: config fields preview their {{ }} expressions against it
+  const previewContext = React.useMemo(
+    () => (selectedNodeConfig && executionContext
+      ? withCurrentNode({ ...executionContext, diagram } as ExecutionContext, selectedNodeConfig.id)
+      : null),
+    [executionContext, diagram, selectedNodeConfig]
+  );
+
   // ========================================================================
   // Effects - Data Fetching & Sync
   // ========================================================================
@@ -150,13 +209,12 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
 
   // Update a config field or section; skip if no actual change detected
   // Update config field or section; skip if no actual change detected to optimize re-renders
-  const handleConfigChange = (
+  const handleConfigChange = useCallback((
     fieldOrPatch: string | Record<string, any>,
     value?: any,
-    section: 'general' = 'general'
+    section: 'general' | 'advanced' = 'general'
   ) => {
-    if (section !== 'general') return; // only general supported here
-    const prevSection = draftGeneral || {};
+    const prevSection = (section === 'advanced' ? draftAdvanced : draftGeneral) || {};
     const nextSection =
       typeof fieldOrPatch === 'object' && fieldOrPatch !== null
         ? { ...prevSection, ...fieldOrPatch }
@@ -169,13 +227,17 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
     }
     if (same) return;
 
+    if (section === 'advanced') {
+      setDraftAdvanced(nextSection);
+      return;
+    }
     setDraftGeneral(nextSection);
 
     // Close form preview if form settings changed
     if (selectedNodeConfig?.nodeType === 'Form' && formPreviewOpen) {
       setFormPreviewOpen(false);
     }
-  };
+  }, [draftGeneral, draftAdvanced, selectedNodeConfig?.nodeType, formPreviewOpen]);
 
   // Update the node's display name
   const handleNameChange = (value: string) => {
@@ -269,11 +331,7 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
 
     const updateBanner = (val: string) => {
       handleConfigChange({ bannerText: val });
-      try {
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new CustomEvent('wf:chat:update-banner', { detail: { text: (val || '').trim() } }));
-        }
-      } catch {}
+      eventBus.emit('chat:update-banner', { text: (val || '').trim() });
     };
 
     return (
@@ -551,7 +609,7 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
             <div className="config-section">
               <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
                 <label className="config-label">Items (list) to filter</label>
-                <TooltipComponent content="Select an array from previous nodes using the picker (e.g., $.NodeName#ID.rows). This defines $.item for conditions.">
+                <TooltipComponent content='Select an array from previous nodes using the picker (e.g., $node("Node name").rows). This defines $.item for conditions.'>
                   <span className="e-icons e-circle-info help-icon"></span>
                 </TooltipComponent>
               </div>
@@ -576,25 +634,107 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
         );
       }
 
-      case 'Loop': {
+      case 'Loop':
         return (
-          <div className="config-section">
-            <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
-              <label className="config-label">Items (list) to iterate</label>
-              <TooltipComponent content="Choose an array from previous nodes. Each downstream node will run once per item.">
-                <span className="e-icons e-circle-info help-icon"></span>
-              </TooltipComponent>
-            </div>
-            <VariablePickerTextBox
-              value={settings.input ?? ''}
-              placeholder="$.previousNode.items"
-              onChange={(val) => handleConfigChange('input', val)}
-              cssClass="config-input"
-              variableGroups={availableVariables}
-            />
-          </div>
+          <LoopNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Sort':
+      case 'Limit':
+      case 'Remove Duplicates':
+      case 'Aggregate':
+      case 'Split Out':
+        return (
+          <CollectionNodeConfig
+            nodeType={type}
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Break':
+      case 'Continue':
+        return (
+          <p className="config-hint">
+            {type === 'Break'
+              ? 'Ends the enclosing Loop: the remaining items are skipped and the loop continues via its done port.'
+              : 'Ends the current Loop iteration and moves on to the next item. The skipped iteration adds nothing to outputs.'}
+          </p>
+        );
+
+      case 'Merge':
+        return (
+          <MergeNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+          />
+        );
+
+      case 'Execute Workflow':
+        return (
+          <ExecuteWorkflowNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Workflow Input':
+        return (
+          <WorkflowInputNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+          />
+        );
+
+      case 'Workflow Output':
+        return (
+          <WorkflowOutputNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Edit Fields':
+        return (
+          <EditFieldsNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Date & Time':
+        return (
+          <DateTimeNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Convert':
+        return (
+          <ConvertNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+            variableGroups={availableVariables}
+          />
+        );
+
+      case 'Code':
+        return (
+          <CodeNodeConfig
+            settings={settings}
+            onPatch={(patch) => handleConfigChange(patch, undefined, 'general')}
+          />
         );
-      }
 
       default:
         return null;
@@ -625,11 +765,67 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
     );
   }, [selectedNodeConfig?.id, draftGeneral, availableVariables, isChatOpen, formPreviewOpen, formPreviewError]);
 
-  // Output tab: execution results (JSON visualizer + value peek)
+  // Settings tab: per-node execution behavior (error mode, retry policy)
+  const renderSettingsTab = useCallback(() => {
+    return (
+      <NodeSettingsPanel
+        nodeConfig={selectedNodeConfig!}
+        advanced={draftAdvanced || {}}
+        onPatch={(patch) => handleConfigChange(patch, undefined, 'advanced')}
+      />
+    );
+  }, [selectedNodeConfig, draftAdvanced, handleConfigChange]);
+
+  // Pin Data tab: pinned mock output is applied immediately (not part of the Update draft)
+  const handlePinnedDataChange = useCallback((pinnedData: PinnedData | undefined) => {
+    if (!selectedNodeConfig) return;
+    const updatedConfig: NodeConfig = { ...selectedNodeConfig, pinnedData };
+    if (!pinnedData) delete updatedConfig.pinnedData;
+    onNodeConfigChange(selectedNodeConfig.id, updatedConfig);
+  }, [selectedNodeConfig, onNodeConfigChange]);
+
+  const renderPinDataTab = useCallback(() => {
+    const results = (executionContext?.results ?? {}) as Record<string, any>;
+    return (
+      <PinnedDataPanel
+        pinnedData={selectedNodeConfig?.pinnedData}
+        currentOutput={selectedNodeConfig ? results[selectedNodeConfig.id] : undefined}
+        readOnly={readOnly}
+        onChange={handlePinnedDataChange}
+      />
+    );
+  }, [selectedNodeConfig, executionContext, readOnly, handlePinnedDataChange]);
+
+  // Context tab: live execution context while the run is paused (results keyed by node name)
+  const renderContextTab = useCallback(() => {
+    const results = (executionContext?.results ?? {}) as Record<string, any>;
+    const byName: Record<string, any> = {};
+    Object.keys(results).forEach(nodeId => {
+      const cfg = (diagram as any)?.getObject(nodeId)?.addInfo?.nodeConfig as NodeConfig | undefined;
+      byName[cfg?.displayName || nodeId] = results[nodeId];
+    });
+    const variables = executionContext?.variables ?? {};
+    const contextJson = Object.keys(variables).length > 0 ? { results: byName, variables } : byName;
+
+    return (
+      <div className="config-tab-content">
+        <div style={{ border: '1px solid var(--border-color)', borderRadius: 8, padding: '.4rem', background: 'var(--surface-color)' }}>
+          <JsonVisualizer data={contextJson} collapsed={false} onValuePeek={(info) => setPeek(info)} />
+        </div>
+        <ValuePeekPanel peek={peek} onClose={() => setPeek(null)} />
+      </div>
+    );
+  }, [executionContext, diagram, peek]);
+
+  // Console output captured from the last run of a Code node
+  const nodeLogs = selectedNodeConfig ? executionContext?.logs?.[selectedNodeConfig.id] : undefined;
+
+  // Output tab: execution results (JSON visualizer + value peek) and Code node console
   const renderOutputTab = useCallback(() => {
     if (!nodeOutput) {
       return (
         <div className="config-tab-content">
+          {nodeLogs && <ConsoleOutputPanel logs={nodeLogs} />}
           <div className="config-section-empty">
             <p>This node has not been executed yet or did not produce an output.</p>
             <p>Run the workflow to see the output here.</p>
@@ -642,6 +838,7 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
 
     return (
       <div className="config-tab-content">
+        {nodeLogs && <ConsoleOutputPanel logs={nodeLogs} />}
         <div
           style={{
             border: '1px solid var(--border-color)',
@@ -661,7 +858,7 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
         </div>
       </div>
     );
-  }, [nodeOutput, peek]);
+  }, [nodeOutput, nodeLogs, peek]);
 
   // ========================================================================
   // Render
@@ -720,32 +917,54 @@ const NodeConfigSidebar: React.FC<ConfigPanelProps> = ({
             </div>
           </div>
 
+          {/* -------- Paused banner: shown while the run waits before this node -------- */}
+          {pausedNodeId === selectedNodeConfig.id && (
+            <MessageComponent severity="Warning" cssClass="debug-paused-message">
+              Paused before this node. Use Continue or Step Over in the toolbar to resume.
+            </MessageComponent>
+          )}
+
           {/* -------- Body: tabs with General / Auth / Output -------- */}
-          <div className="config-panel-content">
-            <TabComponent
-              heightAdjustMode="None"
-              selected={(e: any) => setActiveTab(e.selectedIndex)}
-              selectedItem={activeTab}
-              cssClass="config-tabs"
-            >
-              <TabItemsDirective>
-                {/* General tab: always shown */}
-                <TabItemDirective header={{ text: 'General' }} content={renderGeneralTab} />
-
-                {/* Output tab: shown when node has been executed and produced output */}
-                {nodeOutput && (
-                  <TabItemDirective header={{ text: 'Output' }} content={renderOutputTab} />)
-                }
-              </TabItemsDirective>
-            </TabComponent>
-          </div>
+          <ExpressionPreviewProvider value={previewContext}>
+            <div className="config-panel-content">
+              <TabComponent
+                heightAdjustMode="None"
+                selected={(e: any) => setActiveTab(e.selectedIndex)}
+                selectedItem={activeTab}
+                cssClass="config-tabs"
+              >
+                <TabItemsDirective>
+                  {/* General tab: always shown */}
+                  <TabItemDirective header={{ text: 'General' }} content={renderGeneralTab} />
+
+                  {/* Settings tab: execution behavior for non-trigger nodes */}
+                  {selectedNodeConfig.category !== 'trigger' && (
+                    <TabItemDirective header={{ text: 'Settings' }} content={renderSettingsTab} />
+                  )}
+
+                  {/* Pin Data tab: mock output used instead of executing the node */}
+                  <TabItemDirective header={{ text: 'Pin Data' }} content={renderPinDataTab} />
+
+                  {/* Context tab: live execution context while the debugger is paused */}
+                  {pausedNodeId && (
+                    <TabItemDirective header={{ text: 'Context' }} content={renderContextTab} />
+                  )}
+
+                  {/* Output tab: shown when node has been executed and produced output (or console output) */}
+                  {(nodeOutput || nodeLogs) && (
+                    <TabItemDirective header={{ text: 'Output' }} content={renderOutputTab} />)
+                  }
+                </TabItemsDirective>
+              </TabComponent>
+            </div>
+          </ExpressionPreviewProvider>
 
           {/* -------- Footer: fixed at bottom with Update button -------- */}
           <div className="config-panel-footer">
             <ButtonComponent
               cssClass="e-secondary update-btn"
               onClick={commitDraft}
-              disabled={!isDirty}
+              disabled={!isDirty || readOnly}
             >
               Update
             </ButtonComponent>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { NumericTextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { CODE_LANGUAGE_OPTIONS, CODE_NODE_DEFAULT_TIMEOUT_MS, CODE_NODE_MAX_TIMEOUT_MS } from '../../../constants';
+import CodeEditor from '../components/CodeEditor';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+};
+
+const CODE_PLACEHOLDER = `// $input is the output of the previous node
+const rows = $input.rows ?? [];
+console.log('rows:', rows.length);
+
+return rows.map(row => ({ ...row, total: row.qty * row.price }));`;
+
+const CodeNodeConfig: React.FC<Props> = ({ settings, onPatch }) => {
+  return (
+    <>
+      <div className="config-section">
+        <label className="config-label">Language</label>
+        <DropDownListComponent
+          value={settings.language ?? 'javascript'}
+          dataSource={CODE_LANGUAGE_OPTIONS}
+          fields={{ text: 'text', value: 'value' }}
+          change={(e: any) => onPatch({ language: e.value })}
+          popupHeight="220px"
+          zIndex={1000000}
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Code</label>
+          <TooltipComponent content='Runs as the body of an async function in an isolated worker (no page, network or storage access). Use $input (previous node output), $node("Node name"), $vars and $loop; the returned value becomes the node output. console output is shown in the Output tab.'>
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <CodeEditor
+          value={settings.code ?? ''}
+          placeholder={CODE_PLACEHOLDER}
+          onChange={(code) => onPatch({ code })}
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Time limit (seconds)</label>
+          <TooltipComponent content={`The code is stopped when it runs longer (default ${CODE_NODE_DEFAULT_TIMEOUT_MS / 1000}, at most ${CODE_NODE_MAX_TIMEOUT_MS / 1000}).`}>
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <NumericTextBoxComponent
+          value={settings.timeoutSeconds ?? null}
+          placeholder={String(CODE_NODE_DEFAULT_TIMEOUT_MS / 1000)}
+          min={0.1}
+          max={CODE_NODE_MAX_TIMEOUT_MS / 1000}
+          step={1}
+          format="n1"
+          change={(e: any) => onPatch({ timeoutSeconds: e.value ?? undefined })}
+          cssClass="config-input"
+        />
+      </div>
+    </>
+  );
+};
+
+export default CodeNodeConfig;
@@ -0,0 +1,293 @@
+import React from 'react';
+import { ButtonComponent, CheckBoxComponent } from '@syncfusion/ej2-react-buttons';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { NumericTextBoxComponent, TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { AggregateColumn, NodeType, SortKey } from '../../../types';
+import { AGGREGATE_OPERATION_OPTIONS, LIMIT_FROM_OPTIONS, SORT_DIRECTION_OPTIONS } from '../../../constants';
+import { getAggregateColumnName } from '../../../utilities/collectionUtils';
+
+type Props = {
+  nodeType: NodeType;
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const EMPTY_SORT_KEY: SortKey = { field: '', direction: 'asc' };
+const EMPTY_AGGREGATION: AggregateColumn = { operation: 'count', field: '' };
+
+const INPUT_HINTS: Partial<Record<NodeType, string>> = {
+  'Sort': 'Choose an array from previous nodes. The sorted list is returned as items.',
+  'Limit': 'Choose an array from previous nodes. The kept items are returned as items.',
+  'Remove Duplicates': 'Choose an array from previous nodes. The first of each set of duplicates is kept.',
+  'Aggregate': 'Choose an array from previous nodes. One row per group is returned as items.',
+  'Split Out': 'Choose an array (or a single object) from previous nodes whose items hold a nested list.',
+};
+
+/** Settings of the list nodes: Sort, Limit, Remove Duplicates, Aggregate and Split Out */
+const CollectionNodeConfig: React.FC<Props> = ({ nodeType, settings, onPatch, variableGroups }) => {
+  return (
+    <>
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Items (list)</label>
+          <TooltipComponent content={INPUT_HINTS[nodeType] ?? ''}>
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <VariablePickerTextBox
+          value={settings.input ?? ''}
+          placeholder="$.previousNode.items"
+          onChange={(val) => onPatch({ input: val })}
+          cssClass="config-input"
+          variableGroups={variableGroups}
+        />
+      </div>
+
+      {nodeType === 'Sort' && <SortFields settings={settings} onPatch={onPatch} />}
+      {nodeType === 'Limit' && <LimitFields settings={settings} onPatch={onPatch} />}
+      {nodeType === 'Remove Duplicates' && <RemoveDuplicatesFields settings={settings} onPatch={onPatch} />}
+      {nodeType === 'Aggregate' && <AggregateFields settings={settings} onPatch={onPatch} />}
+      {nodeType === 'Split Out' && <SplitOutFields settings={settings} onPatch={onPatch} />}
+    </>
+  );
+};
+
+type FieldProps = Pick<Props, 'settings' | 'onPatch'>;
+
+const SortFields: React.FC<FieldProps> = ({ settings, onPatch }) => {
+  const keys: SortKey[] =
+    Array.isArray(settings.sortKeys) && settings.sortKeys.length
+      ? settings.sortKeys
+      : [EMPTY_SORT_KEY];
+
+  const updateKey = (i: number, patch: Partial<SortKey>) => {
+    const next = keys.slice();
+    next[i] = { ...next[i], ...patch };
+    onPatch({ sortKeys: next });
+  };
+
+  const removeKey = (i: number) => {
+    const next = keys.filter((_, idx) => idx !== i);
+    onPatch({ sortKeys: next.length ? next : [EMPTY_SORT_KEY] });
+  };
+
+  return (
+    <div className="config-section">
+      <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+        <label className="config-label">Sort by</label>
+        <TooltipComponent content="Field path of each item (e.g. customer.name). Later keys order items whose earlier keys are equal; leave the field empty to sort plain values. Empty values always come last.">
+          <span className="e-icons e-circle-info help-icon"></span>
+        </TooltipComponent>
+      </div>
+
+      {keys.map((key, i) => (
+        <div key={i} style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 6 }}>
+          <TextBoxComponent
+            value={key.field}
+            placeholder="field, e.g. createdAt"
+            change={(e: any) => updateKey(i, { field: e.value })}
+            cssClass="config-input"
+          />
+          <DropDownListComponent
+            value={key.direction ?? 'asc'}
+            dataSource={SORT_DIRECTION_OPTIONS}
+            fields={{ text: 'text', value: 'value' }}
+            change={(e: any) => updateKey(i, { direction: e.value })}
+            width="130px"
+            popupHeight="220px"
+            zIndex={1000000}
+          />
+          <ButtonComponent
+            cssClass="flat-btn e-flat"
+            iconCss="e-icons e-trash"
+            onClick={() => removeKey(i)}
+            title="Remove"
+          />
+        </div>
+      ))}
+
+      <ButtonComponent
+        className="add-field-btn e-secondary"
+        iconCss="e-icons e-plus"
+        onClick={() => onPatch({ sortKeys: [...keys, EMPTY_SORT_KEY] })}
+      >
+        Add Sort Key
+      </ButtonComponent>
+    </div>
+  );
+};
+
+const LimitFields: React.FC<FieldProps> = ({ settings, onPatch }) => (
+  <div className="config-section">
+    <label className="config-label">Keep</label>
+    <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+      <DropDownListComponent
+        value={settings.from ?? 'first'}
+        dataSource={LIMIT_FROM_OPTIONS}
+        fields={{ text: 'text', value: 'value' }}
+        change={(e: any) => onPatch({ from: e.value })}
+        width="140px"
+        popupHeight="220px"
+        zIndex={1000000}
+      />
+      <NumericTextBoxComponent
+        value={settings.count ?? null}
+        placeholder="Max items"
+        min={0}
+        step={1}
+        format="n0"
+        change={(e: any) => onPatch({ count: e.value ?? undefined })}
+        cssClass="config-input"
+      />
+    </div>
+  </div>
+);
+
+const RemoveDuplicatesFields: React.FC<FieldProps> = ({ settings, onPatch }) => (
+  <div className="config-section">
+    <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+      <label className="config-label">Compare fields</label>
+      <TooltipComponent content="Comma-separated field paths (e.g. email or firstName, lastName). Items with equal values in all of them are duplicates. Leave empty to compare whole items.">
+        <span className="e-icons e-circle-info help-icon"></span>
+      </TooltipComponent>
+    </div>
+    <TextBoxComponent
+      value={settings.fields ?? ''}
+      placeholder="All fields"
+      change={(e: any) => onPatch({ fields: e.value })}
+      cssClass="config-input"
+    />
+  </div>
+);
+
+const AggregateFields: React.FC<FieldProps> = ({ settings, onPatch }) => {
+  const columns: AggregateColumn[] =
+    Array.isArray(settings.aggregations) && settings.aggregations.length
+      ? settings.aggregations
+      : [EMPTY_AGGREGATION];
+
+  const updateColumn = (i: number, patch: Partial<AggregateColumn>) => {
+    const next = columns.slice();
+    next[i] = { ...next[i], ...patch };
+    onPatch({ aggregations: next });
+  };
+
+  const removeColumn = (i: number) => {
+    const next = columns.filter((_, idx) => idx !== i);
+    onPatch({ aggregations: next.length ? next : [EMPTY_AGGREGATION] });
+  };
+
+  return (
+    <>
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Group by</label>
+          <TooltipComponent content="Field path whose value splits the items into groups. Leave empty to aggregate all items into a single row.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <TextBoxComponent
+          value={settings.groupBy ?? ''}
+          placeholder="No grouping"
+          change={(e: any) => onPatch({ groupBy: e.value })}
+          cssClass="config-input"
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Aggregations</label>
+          <TooltipComponent content="Sum and Average use the numeric values of the field; Min and Max also compare dates and text. Count without a field counts the items of the group.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+
+        {columns.map((column, i) => (
+          <div key={i} className="edit-field-row">
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 6 }}>
+              <DropDownListComponent
+                value={column.operation ?? 'count'}
+                dataSource={AGGREGATE_OPERATION_OPTIONS}
+                fields={{ text: 'text', value: 'value' }}
+                change={(e: any) => updateColumn(i, { operation: e.value })}
+                width="120px"
+                popupHeight="220px"
+                zIndex={1000000}
+              />
+              <TextBoxComponent
+                value={column.field}
+                placeholder={column.operation === 'count' ? 'field (optional)' : 'field, e.g. amount'}
+                change={(e: any) => updateColumn(i, { field: e.value })}
+                cssClass="config-input"
+              />
+              <ButtonComponent
+                cssClass="flat-btn e-flat"
+                iconCss="e-icons e-trash"
+                onClick={() => removeColumn(i)}
+                title="Remove"
+              />
+            </div>
+            <TextBoxComponent
+              value={column.name ?? ''}
+              placeholder={`Output name (${getAggregateColumnName({ ...column, name: '' })})`}
+              change={(e: any) => updateColumn(i, { name: e.value })}
+              cssClass="config-input"
+            />
+          </div>
+        ))}
+
+        <ButtonComponent
+          className="add-field-btn e-secondary"
+          iconCss="e-icons e-plus"
+          onClick={() => onPatch({ aggregations: [...columns, EMPTY_AGGREGATION] })}
+        >
+          Add Aggregation
+        </ButtonComponent>
+      </div>
+    </>
+  );
+};
+
+const SplitOutFields: React.FC<FieldProps> = ({ settings, onPatch }) => (
+  <>
+    <div className="config-section">
+      <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+        <label className="config-label">Field to split out</label>
+        <TooltipComponent content="Field path of the nested list in each item (e.g. order.lineItems). Every entry of that list becomes an item of its own.">
+          <span className="e-icons e-circle-info help-icon"></span>
+        </TooltipComponent>
+      </div>
+      <TextBoxComponent
+        value={settings.field ?? ''}
+        placeholder="lineItems"
+        change={(e: any) => onPatch({ field: e.value })}
+        cssClass="config-input"
+      />
+    </div>
+
+    <div className="config-section">
+      <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+        <CheckBoxComponent
+          label="Keep other fields"
+          checked={!!settings.includeOtherFields}
+          change={(e: any) => onPatch({ includeOtherFields: !!e.checked })}
+        />
+        <TooltipComponent content="Copy the remaining fields of the parent item into every new item, with the list entry stored under the destination field.">
+          <span className="e-icons e-circle-info help-icon"></span>
+        </TooltipComponent>
+      </div>
+      <label className="config-label">Destination field</label>
+      <TextBoxComponent
+        value={settings.destinationField ?? ''}
+        placeholder="Same as the split field"
+        change={(e: any) => onPatch({ destinationField: e.value })}
+        cssClass="config-input"
+      />
+    </div>
+  </>
+);
+
+export default CollectionNodeConfig;
@@ -16,7 +16,7 @@ export interface ConditionNodeConfigProps {
   showJoiners?: boolean;
   // When provided, the left textbox will insert item-relative paths (e.g., $.item.name)
   leftMode?: 'value' | 'itemField';
-  // Base list expression (e.g., $.Employees#node123.rows) used to map picked keys to $.item.*
+  // Base list expression (e.g., $node("Employees").rows) used to map picked keys to $.item.*
   leftBaseListExpr?: string;
 }
 
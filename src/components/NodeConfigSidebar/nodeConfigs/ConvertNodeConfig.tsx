@@ -0,0 +1,142 @@
+import React from 'react';
+import { CheckBoxComponent } from '@syncfusion/ej2-react-buttons';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { ConvertOperation } from '../../../types';
+import { CONVERT_OPERATION_OPTIONS, CSV_DELIMITER_OPTIONS } from '../../../constants';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const INPUT_HINTS: Record<ConvertOperation, string> = {
+  csvToJson: 'CSV text, e.g. an HTTP response body. The rows are returned as items for Loop, Filter and Excel.',
+  jsonToCsv: 'A list of objects (or lists). Columns come from the object keys.',
+  xmlToJson: 'XML text. Attributes become "@name" keys, repeated elements become lists and mixed text "#text".',
+  jsonToXml: 'An object or list (or JSON text), using "@name" keys for attributes and "#text" for element text.',
+  parseJson: 'JSON text to turn into an object or list.',
+  stringifyJson: 'Any value to write as JSON text.',
+  toHtmlTable: 'A list of objects (or lists). Insert the html output into a Word Write template with {{ }}.',
+};
+
+const ConvertNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups }) => {
+  const operation: ConvertOperation = settings.operation ?? 'csvToJson';
+  const isCsv = operation === 'csvToJson' || operation === 'jsonToCsv';
+
+  return (
+    <>
+      <div className="config-section">
+        <label className="config-label">Operation</label>
+        <DropDownListComponent
+          value={operation}
+          dataSource={CONVERT_OPERATION_OPTIONS}
+          fields={{ text: 'text', value: 'value' }}
+          change={(e: any) => onPatch({ operation: e.value })}
+          popupHeight="260px"
+          zIndex={1000000}
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Input</label>
+          <TooltipComponent content={INPUT_HINTS[operation]}>
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <VariablePickerTextBox
+          value={settings.input ?? ''}
+          placeholder="$.previousNode.body"
+          onChange={(val) => onPatch({ input: val })}
+          cssClass="config-input"
+          variableGroups={variableGroups}
+        />
+      </div>
+
+      {isCsv && (
+        <div className="config-section">
+          <label className="config-label">Delimiter</label>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            <DropDownListComponent
+              value={settings.delimiter ?? ','}
+              dataSource={CSV_DELIMITER_OPTIONS}
+              fields={{ text: 'text', value: 'value' }}
+              change={(e: any) => onPatch({ delimiter: e.value })}
+              popupHeight="220px"
+              zIndex={1000000}
+            />
+            <TextBoxComponent
+              value={settings.quote ?? '"'}
+              placeholder="No quoting"
+              change={(e: any) => onPatch({ quote: e.value ?? '' })}
+              cssClass="config-input"
+              width="110px"
+            />
+            <TooltipComponent content="Quote character around values holding the delimiter, quotes or line breaks. A quote inside a value is doubled. Leave empty to turn quoting off.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+        </div>
+      )}
+
+      {(isCsv || operation === 'toHtmlTable') && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <CheckBoxComponent
+              label="Header row"
+              checked={settings.header !== false}
+              change={(e: any) => onPatch({ header: !!e.checked })}
+            />
+            <TooltipComponent content={operation === 'csvToJson'
+              ? 'The first line holds column names and every other line becomes an object. Otherwise every line becomes an object keyed column_1, column_2, ...'
+              : 'Write the column names as the first row.'}>
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          {operation === 'jsonToCsv' && (
+            <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+              <CheckBoxComponent
+                label="Quote every value"
+                checked={!!settings.quoteAll}
+                change={(e: any) => onPatch({ quoteAll: !!e.checked })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {operation === 'jsonToXml' && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">Root element</label>
+            <TooltipComponent content="Name of the outer element. Leave empty to use the single top-level key of the input, or root.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          <TextBoxComponent
+            value={settings.rootName ?? ''}
+            placeholder="root"
+            change={(e: any) => onPatch({ rootName: e.value })}
+            cssClass="config-input"
+          />
+        </div>
+      )}
+
+      {(operation === 'jsonToXml' || operation === 'stringifyJson') && (
+        <div className="config-section">
+          <CheckBoxComponent
+            label="Indent output"
+            checked={settings.pretty !== false}
+            change={(e: any) => onPatch({ pretty: !!e.checked })}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ConvertNodeConfig;
@@ -0,0 +1,215 @@
+import React from 'react';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { DateTimeOperation } from '../../../types';
+import { DATE_DURATION_UNIT_OPTIONS, DATE_ROUND_EDGE_OPTIONS, DATE_ROUND_UNIT_OPTIONS, DATE_TIME_OPERATION_OPTIONS, DEFAULT_DATE_TIME_FORMAT } from '../../../constants';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const FORMAT_HINT = "Tokens: yyyy yy MMMM MMM MM M dd d EEEE EEE HH H hh h mm m ss s SSS a Z; text in 'quotes' is kept as-is.";
+
+// IANA zones known to the browser (a short list where Intl cannot enumerate them)
+const TIME_ZONES: string[] = (Intl as any).supportedValuesOf?.('timeZone') ?? [
+  'UTC', 'Europe/London', 'Europe/Berlin', 'Europe/Paris', 'America/New_York', 'America/Chicago',
+  'America/Denver', 'America/Los_Angeles', 'America/Sao_Paulo', 'Asia/Kolkata', 'Asia/Singapore',
+  'Asia/Tokyo', 'Australia/Sydney',
+];
+
+const TimeZoneDropDown: React.FC<{ value: string; placeholder: string; onChange: (zone: string) => void }> = ({ value, placeholder, onChange }) => (
+  <DropDownListComponent
+    value={value || null}
+    dataSource={value && !TIME_ZONES.includes(value) ? [value, ...TIME_ZONES] : TIME_ZONES}
+    allowFiltering={true}
+    filterBarPlaceholder="Search time zones…"
+    showClearButton={true}
+    placeholder={placeholder}
+    popupHeight="300px"
+    zIndex={1000000}
+    change={(e: any) => onChange(e.value ?? '')}
+  />
+);
+
+const DateTimeNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups }) => {
+  const operation: DateTimeOperation = settings.operation ?? 'format';
+
+  return (
+    <>
+      <div className="config-section">
+        <label className="config-label">Operation</label>
+        <DropDownListComponent
+          value={operation}
+          dataSource={DATE_TIME_OPERATION_OPTIONS}
+          fields={{ text: 'text', value: 'value' }}
+          change={(e: any) => onPatch({ operation: e.value })}
+          popupHeight="260px"
+          zIndex={1000000}
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">{operation === 'difference' ? 'Start date' : 'Date'}</label>
+          <TooltipComponent content="A date from previous nodes, an ISO date, a timestamp or {{ $now }}.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <VariablePickerTextBox
+          value={settings.value ?? ''}
+          placeholder="{{ $now }}"
+          onChange={(val) => onPatch({ value: val })}
+          cssClass="config-input"
+          variableGroups={variableGroups}
+        />
+        {operation === 'difference' && (
+          <>
+            <label className="config-label">End date</label>
+            <VariablePickerTextBox
+              value={settings.endValue ?? ''}
+              placeholder="{{ $now }}"
+              onChange={(val) => onPatch({ endValue: val })}
+              cssClass="config-input"
+              variableGroups={variableGroups}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Input format</label>
+          <TooltipComponent content={`How the date text is written, e.g. dd/MM/yyyy or MMM d, yyyy h:mm a. Leave empty for ISO dates and timestamps. ${FORMAT_HINT}`}>
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <TextBoxComponent
+          value={settings.inputFormat ?? ''}
+          placeholder="Auto (ISO date or timestamp)"
+          change={(e: any) => onPatch({ inputFormat: e.value })}
+          cssClass="config-input"
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">{operation === 'convertTimeZone' ? 'From time zone' : 'Time zone'}</label>
+          <TooltipComponent content="Zone of dates written without an offset, and of the calendar used for days, months and rounding. Empty uses the browser's time zone.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <TimeZoneDropDown
+          value={settings.timeZone ?? ''}
+          placeholder="Local time zone"
+          onChange={(zone) => onPatch({ timeZone: zone })}
+        />
+      </div>
+
+      {(operation === 'add' || operation === 'subtract') && (
+        <div className="config-section">
+          <label className="config-label">Amount</label>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            <VariablePickerTextBox
+              value={settings.amount ?? ''}
+              placeholder="3"
+              onChange={(val) => onPatch({ amount: val })}
+              cssClass="config-input"
+              variableGroups={variableGroups}
+            />
+            <DropDownListComponent
+              value={settings.unit ?? 'days'}
+              dataSource={DATE_DURATION_UNIT_OPTIONS}
+              fields={{ text: 'text', value: 'value' }}
+              change={(e: any) => onPatch({ unit: e.value })}
+              width="150px"
+              popupHeight="260px"
+              zIndex={1000000}
+            />
+          </div>
+        </div>
+      )}
+
+      {operation === 'difference' && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">Unit</label>
+            <TooltipComponent content="Whole units from the start to the end date; negative when the end is earlier. Business days count Monday to Friday after the start date up to the end date.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          <DropDownListComponent
+            value={settings.unit ?? 'days'}
+            dataSource={DATE_DURATION_UNIT_OPTIONS}
+            fields={{ text: 'text', value: 'value' }}
+            change={(e: any) => onPatch({ unit: e.value })}
+            popupHeight="260px"
+            zIndex={1000000}
+          />
+        </div>
+      )}
+
+      {operation === 'round' && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">Round to</label>
+            <TooltipComponent content="Start of moves to the first moment of the period, End of to its last millisecond. Weeks start on Monday.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            <DropDownListComponent
+              value={settings.roundEdge ?? 'start'}
+              dataSource={DATE_ROUND_EDGE_OPTIONS}
+              fields={{ text: 'text', value: 'value' }}
+              change={(e: any) => onPatch({ roundEdge: e.value })}
+              popupHeight="220px"
+              zIndex={1000000}
+            />
+            <DropDownListComponent
+              value={settings.roundUnit ?? 'days'}
+              dataSource={DATE_ROUND_UNIT_OPTIONS}
+              fields={{ text: 'text', value: 'value' }}
+              change={(e: any) => onPatch({ roundUnit: e.value })}
+              popupHeight="260px"
+              zIndex={1000000}
+            />
+          </div>
+        </div>
+      )}
+
+      {operation === 'convertTimeZone' && (
+        <div className="config-section">
+          <label className="config-label">To time zone</label>
+          <TimeZoneDropDown
+            value={settings.toTimeZone ?? ''}
+            placeholder="Choose a time zone"
+            onChange={(zone) => onPatch({ toTimeZone: zone })}
+          />
+        </div>
+      )}
+
+      {operation !== 'difference' && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">Output format</label>
+            <TooltipComponent content={`Pattern of the formatted output. The output also holds the ISO date and timestamp for date conditions. ${FORMAT_HINT}`}>
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          <TextBoxComponent
+            value={settings.outputFormat ?? ''}
+            placeholder={DEFAULT_DATE_TIME_FORMAT}
+            change={(e: any) => onPatch({ outputFormat: e.value })}
+            cssClass="config-input"
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DateTimeNodeConfig;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { ButtonComponent, CheckBoxComponent } from '@syncfusion/ej2-react-buttons';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { EditFieldAssignment } from '../../../types';
+import { WORKFLOW_FIELD_TYPE_OPTIONS } from '../../../constants';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const EMPTY_ROW: EditFieldAssignment = { name: '', type: 'any', value: '' };
+
+const EditFieldsNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups }) => {
+  const rows: EditFieldAssignment[] =
+    Array.isArray(settings.fields) && settings.fields.length
+      ? settings.fields
+      : [EMPTY_ROW];
+  const dotNotation = settings.dotNotation !== false;
+
+  const updateRow = (i: number, patch: Partial<EditFieldAssignment>) => {
+    const next = rows.slice();
+    next[i] = { ...next[i], ...patch };
+    onPatch({ fields: next });
+  };
+
+  const removeRow = (i: number) => {
+    const next = rows.filter((_, idx) => idx !== i);
+    onPatch({ fields: next.length ? next : [EMPTY_ROW] });
+  };
+
+  return (
+    <>
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Fields to Set</label>
+          <TooltipComponent content="Each row sets one field of the output. Values are converted to the chosen type; Any keeps the resolved value (a single {{ }} expression keeps objects, lists and numbers).">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+
+        {rows.map((row, i) => (
+          <div key={i} className="edit-field-row">
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 6 }}>
+              <TextBoxComponent
+                value={row.name}
+                placeholder={dotNotation ? 'name or customer.address.city' : 'name'}
+                change={(e: any) => updateRow(i, { name: e.value })}
+                cssClass="config-input"
+              />
+              <DropDownListComponent
+                value={row.type ?? 'any'}
+                dataSource={WORKFLOW_FIELD_TYPE_OPTIONS}
+                fields={{ text: 'text', value: 'value' }}
+                change={(e: any) => updateRow(i, { type: e.value })}
+                width="110px"
+                popupHeight="220px"
+                zIndex={1000000}
+              />
+              <ButtonComponent
+                cssClass="flat-btn e-flat"
+                iconCss="e-icons e-trash"
+                onClick={() => removeRow(i)}
+                title="Remove"
+              />
+            </div>
+            <VariablePickerTextBox
+              value={row.value ?? ''}
+              placeholder="value"
+              onChange={(val) => updateRow(i, { value: val })}
+              cssClass="config-input"
+              variableGroups={variableGroups}
+            />
+          </div>
+        ))}
+
+        <ButtonComponent
+          className="add-field-btn e-secondary"
+          iconCss="e-icons e-plus"
+          onClick={() => onPatch({ fields: [...rows, EMPTY_ROW] })}
+        >
+          Add Field
+        </ButtonComponent>
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <CheckBoxComponent
+            label="Keep incoming fields"
+            checked={!!settings.includeInput}
+            change={(e: any) => onPatch({ includeInput: !!e.checked })}
+          />
+          <TooltipComponent content="Start from the previous node's output and add or overwrite the fields above. Otherwise the output holds only these fields.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <CheckBoxComponent
+            label="Dot notation for nested fields"
+            checked={dotNotation}
+            change={(e: any) => onPatch({ dotNotation: !!e.checked })}
+          />
+          <TooltipComponent content='"customer.name" sets { customer: { name } } and "tags[0]" the first list item. Turn off to use names containing dots as-is.'>
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default EditFieldsNodeConfig;
@@ -0,0 +1,167 @@
+import React, { useMemo } from 'react';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { MessageComponent } from '@syncfusion/ej2-react-notifications';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { WorkflowFieldMapping } from '../../../types';
+import { getWorkflowInterface } from '../../../utilities/subWorkflowUtils';
+import WorkflowProjectService from '../../../services/WorkflowProjectService';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const ExecuteWorkflowNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups }) => {
+  const projectId: string = settings.projectId ?? '';
+  const mappings: WorkflowFieldMapping[] = Array.isArray(settings.inputMappings) ? settings.inputMappings : [];
+
+  // Saved projects are read once per opened node; the selected project is looked up again when it changes
+  const projects = useMemo(
+    () => WorkflowProjectService.getSortedProjects().map(p => ({ text: p.name, value: p.id })),
+    []
+  );
+  const selectedProject = useMemo(() => (projectId ? WorkflowProjectService.getProjectById(projectId) : null), [projectId]);
+  const workflowInterface = useMemo(
+    () => getWorkflowInterface(selectedProject?.workflowData?.diagramString),
+    [selectedProject]
+  );
+  const declaredInputs = workflowInterface.inputFields;
+
+  const getMappedValue = (name: string) => mappings.find(m => m.name === name)?.value ?? '';
+
+  const selectProject = (nextId: string) => {
+    if (nextId === projectId) return;
+    // Pre-fill one mapping row per input the chosen workflow declares, keeping values of matching names
+    const next = WorkflowProjectService.getProjectById(nextId);
+    const inputs = getWorkflowInterface(next?.workflowData?.diagramString).inputFields;
+    onPatch({
+      projectId: nextId,
+      inputMappings: inputs.map(field => ({ name: field.name, value: getMappedValue(field.name) })),
+    });
+  };
+
+  const setDeclaredValue = (name: string, value: string) => {
+    const rest = mappings.filter(m => m.name !== name);
+    onPatch({ inputMappings: [...rest, { name, value }] });
+  };
+
+  // Free-form rows, used when the called workflow does not declare its inputs
+  const freeRows = mappings.length ? mappings : [{ name: '', value: '' }];
+  const updateFreeRow = (i: number, field: keyof WorkflowFieldMapping, val: string) => {
+    const next = freeRows.slice();
+    next[i] = { ...next[i], [field]: val };
+    onPatch({ inputMappings: next });
+  };
+  const removeFreeRow = (i: number) => {
+    const next = freeRows.filter((_, idx) => idx !== i);
+    onPatch({ inputMappings: next });
+  };
+
+  return (
+    <>
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Workflow</label>
+          <TooltipComponent content="Saved workflow to run. It must start with a Workflow Input trigger; its Workflow Output becomes this node's output.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <DropDownListComponent
+          value={projectId || undefined}
+          dataSource={projects}
+          fields={{ text: 'text', value: 'value' }}
+          placeholder="Select a workflow"
+          change={(e: any) => selectProject(e.value)}
+          popupHeight="240px"
+          zIndex={1000000}
+        />
+      </div>
+
+      {projectId && !selectedProject && (
+        <MessageComponent severity="Error">
+          The selected workflow no longer exists. Choose another one.
+        </MessageComponent>
+      )}
+
+      {selectedProject && !workflowInterface.hasInputTrigger && (
+        <MessageComponent severity="Warning">
+          "{selectedProject.name}" has no Workflow Input trigger. Add one to that workflow (and save it) so it can be called.
+        </MessageComponent>
+      )}
+
+      {selectedProject && declaredInputs.length > 0 && (
+        <div className="config-section">
+          <label className="config-label">Inputs</label>
+          {declaredInputs.map(field => (
+            <div key={field.name} style={{ marginBottom: 10 }}>
+              <p className="config-hint">
+                <strong>{field.name}</strong> · {field.type}{field.defaultValue ? ` · default: ${field.defaultValue}` : ''}
+              </p>
+              <VariablePickerTextBox
+                value={getMappedValue(field.name)}
+                placeholder={field.defaultValue || 'value'}
+                onChange={(val) => setDeclaredValue(field.name, val)}
+                cssClass="config-input"
+                variableGroups={variableGroups}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedProject && declaredInputs.length === 0 && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">Inputs</label>
+            <TooltipComponent content="The workflow declares no input fields, so every value mapped here is passed to it as-is.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          {freeRows.map((row, i) => (
+            <div key={i} style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+              <TextBoxComponent
+                value={row.name}
+                placeholder="name"
+                change={(e: any) => updateFreeRow(i, 'name', e.value)}
+                cssClass="config-input"
+              />
+              <VariablePickerTextBox
+                value={row.value}
+                placeholder="value"
+                onChange={(val) => updateFreeRow(i, 'value', val)}
+                cssClass="config-input"
+                variableGroups={variableGroups}
+              />
+              <ButtonComponent
+                cssClass="flat-btn e-flat"
+                iconCss="e-icons e-trash"
+                onClick={() => removeFreeRow(i)}
+                title="Remove"
+              />
+            </div>
+          ))}
+          <ButtonComponent
+            className="add-field-btn e-secondary"
+            iconCss="e-icons e-plus"
+            onClick={() => onPatch({ inputMappings: [...freeRows, { name: '', value: '' }] })}
+          >
+            Add Input
+          </ButtonComponent>
+        </div>
+      )}
+
+      {selectedProject && workflowInterface.outputFields.length > 0 && (
+        <div className="config-section">
+          <label className="config-label">Returns</label>
+          <p className="config-hint">{workflowInterface.outputFields.join(', ')}</p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ExecuteWorkflowNodeConfig;
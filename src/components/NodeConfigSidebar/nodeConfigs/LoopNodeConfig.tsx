@@ -0,0 +1,86 @@
+import React from 'react';
+import { CheckBoxComponent } from '@syncfusion/ej2-react-buttons';
+import { NumericTextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { DEFAULT_MAX_CONCURRENCY, MAX_CONCURRENCY_LIMIT } from '../../../constants';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const LoopNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups }) => {
+  const parallel = !!settings.parallel;
+
+  return (
+    <>
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Items (list) to iterate</label>
+          <TooltipComponent content="Choose an array from previous nodes. Each downstream node will run once per item.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <VariablePickerTextBox
+          value={settings.input ?? ''}
+          placeholder="$.previousNode.items"
+          onChange={(val) => onPatch({ input: val })}
+          cssClass="config-input"
+          variableGroups={variableGroups}
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Batch size</label>
+          <TooltipComponent content="Items passed to each iteration. Above 1, the current loop item is a list of up to that many items.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <NumericTextBoxComponent
+          value={settings.batchSize ?? 1}
+          min={1}
+          format="n0"
+          change={(e: any) => onPatch({ batchSize: e.value ?? 1 })}
+          cssClass="config-input"
+        />
+      </div>
+
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <CheckBoxComponent
+            label="Run iterations in parallel"
+            checked={parallel}
+            change={(e: any) => onPatch({ parallel: !!e.checked })}
+          />
+          <TooltipComponent content="Run several iterations at once. Each iteration sees its own loop item; a Break stops iterations that have not started yet.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        {parallel && (
+          <>
+            <label className="config-label">Max parallel iterations</label>
+            <NumericTextBoxComponent
+              value={settings.concurrency ?? DEFAULT_MAX_CONCURRENCY}
+              min={1}
+              max={MAX_CONCURRENCY_LIMIT}
+              format="n0"
+              change={(e: any) => onPatch({ concurrency: e.value ?? DEFAULT_MAX_CONCURRENCY })}
+              cssClass="config-input"
+            />
+          </>
+        )}
+      </div>
+
+      <p className="config-hint">
+        In the body, <code>$loop.item</code> is the current item; nested loops reach outer ones with <code>$loop.parent</code> or <code>$loops["Loop name"]</code>.
+        Add Break or Continue nodes in the loop body to exit early or skip an item.
+        On the done port, <code>outputs</code> lists each completed iteration's last result.
+      </p>
+    </>
+  );
+};
+
+export default LoopNodeConfig;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+};
+
+const MODES = [
+  { text: 'Append (wait for all)', value: 'append' },
+  { text: 'Combine by key (wait for all)', value: 'combineByKey' },
+  { text: 'Wait for first', value: 'waitForFirst' },
+];
+
+const MergeNodeConfig: React.FC<Props> = ({ settings, onPatch }) => {
+  const mode = settings.mode ?? 'append';
+
+  return (
+    <>
+      <div className="config-section">
+        <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+          <label className="config-label">Mode</label>
+          <TooltipComponent content="Branches that are not taken (e.g. the other side of an If) are not waited for.">
+            <span className="e-icons e-circle-info help-icon"></span>
+          </TooltipComponent>
+        </div>
+        <DropDownListComponent
+          value={mode}
+          dataSource={MODES}
+          fields={{ text: 'text', value: 'value' }}
+          change={(e: any) => onPatch({ mode: e.value })}
+          popupHeight="220px"
+          zIndex={1000000}
+        />
+      </div>
+
+      {mode !== 'waitForFirst' && (
+        <div className="config-section">
+          <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+            <label className="config-label">Items field (optional)</label>
+            <TooltipComponent content="Field holding the list in each input (e.g. filtered or rows). Leave empty to use the whole input.">
+              <span className="e-icons e-circle-info help-icon"></span>
+            </TooltipComponent>
+          </div>
+          <TextBoxComponent
+            value={settings.itemsField ?? ''}
+            placeholder="rows"
+            change={(e: any) => onPatch({ itemsField: e.value })}
+            cssClass="config-input"
+          />
+        </div>
+      )}
+
+      {mode === 'combineByKey' && (
+        <div className="config-section">
+          <label className="config-label">Key field</label>
+          <TextBoxComponent
+            value={settings.key ?? ''}
+            placeholder="id"
+            change={(e: any) => onPatch({ key: e.value })}
+            cssClass="config-input"
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MergeNodeConfig;
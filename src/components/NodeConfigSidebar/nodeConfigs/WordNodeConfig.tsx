@@ -358,7 +358,7 @@ const WordNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups })
         {/* Rich Text Editor for content input */}
         <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
           <label className="config-label">Content to Write</label>
-          <TooltipComponent content="Enter formatted content to write into the document.">
+          <TooltipComponent content="Enter formatted content to write into the document. {{#each list}}…{{/each}} repeats its content per item ($item, $index); opened and closed inside one table row it repeats the row. {{#if condition}}…{{else}}…{{/if}} shows optional parts.">
             <span className="e-icons e-circle-info help-icon"></span>
           </TooltipComponent>
         </div>
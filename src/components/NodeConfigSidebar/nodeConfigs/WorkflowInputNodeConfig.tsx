@@ -0,0 +1,80 @@
+import React from 'react';
+import { DropDownListComponent } from '@syncfusion/ej2-react-dropdowns';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { WorkflowInputField } from '../../../types';
+import { WORKFLOW_FIELD_TYPE_OPTIONS } from '../../../constants';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+};
+
+const WorkflowInputNodeConfig: React.FC<Props> = ({ settings, onPatch }) => {
+  const fields: WorkflowInputField[] = Array.isArray(settings.inputFields) ? settings.inputFields : [];
+
+  const updateField = (i: number, patch: Partial<WorkflowInputField>) => {
+    const next = fields.slice();
+    next[i] = { ...next[i], ...patch };
+    onPatch({ inputFields: next });
+  };
+
+  const removeField = (i: number) => onPatch({ inputFields: fields.filter((_, idx) => idx !== i) });
+
+  return (
+    <div className="config-section">
+      <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+        <label className="config-label">Input Fields</label>
+        <TooltipComponent content="Values this workflow expects from an Execute Workflow node. Values are converted to the chosen type; the default is used when a field is not mapped or the workflow is run manually.">
+          <span className="e-icons e-circle-info help-icon"></span>
+        </TooltipComponent>
+      </div>
+      {fields.length === 0 && (
+        <p className="config-hint">No fields declared: the caller's input is passed through as-is.</p>
+      )}
+
+      {fields.map((field, i) => (
+        <div key={i} style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+          <TextBoxComponent
+            value={field.name}
+            placeholder="name"
+            change={(e: any) => updateField(i, { name: e.value })}
+            cssClass="config-input"
+          />
+          <DropDownListComponent
+            value={field.type ?? 'any'}
+            dataSource={WORKFLOW_FIELD_TYPE_OPTIONS}
+            fields={{ text: 'text', value: 'value' }}
+            change={(e: any) => updateField(i, { type: e.value })}
+            width="110px"
+            popupHeight="220px"
+            zIndex={1000000}
+          />
+          <TextBoxComponent
+            value={field.defaultValue ?? ''}
+            placeholder="default"
+            change={(e: any) => updateField(i, { defaultValue: e.value })}
+            cssClass="config-input"
+          />
+          <ButtonComponent
+            cssClass="flat-btn e-flat"
+            iconCss="e-icons e-trash"
+            onClick={() => removeField(i)}
+            title="Remove"
+          />
+        </div>
+      ))}
+
+      <ButtonComponent
+        className="add-field-btn e-secondary"
+        iconCss="e-icons e-plus"
+        onClick={() => onPatch({ inputFields: [...fields, { name: '', type: 'any', defaultValue: '' }] })}
+      >
+        Add Field
+      </ButtonComponent>
+    </div>
+  );
+};
+
+export default WorkflowInputNodeConfig;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
+import { TextBoxComponent } from '@syncfusion/ej2-react-inputs';
+import { TooltipComponent } from '@syncfusion/ej2-react-popups';
+import { VariablePickerTextBox } from '../components/VariablePickerTextBox';
+import { WorkflowFieldMapping } from '../../../types';
+
+type Props = {
+  settings: any;
+  onPatch: (patch: Record<string, any>) => void;
+  variableGroups: any[];
+};
+
+const WorkflowOutputNodeConfig: React.FC<Props> = ({ settings, onPatch, variableGroups }) => {
+  const rows: WorkflowFieldMapping[] =
+    Array.isArray(settings.outputFields) && settings.outputFields.length
+      ? settings.outputFields
+      : [{ name: '', value: '' }];
+
+  const updateRow = (i: number, field: keyof WorkflowFieldMapping, val: string) => {
+    const next = rows.slice();
+    next[i] = { ...next[i], [field]: val };
+    onPatch({ outputFields: next });
+  };
+
+  const removeRow = (i: number) => {
+    const next = rows.filter((_, idx) => idx !== i);
+    onPatch({ outputFields: next.length ? next : [{ name: '', value: '' }] });
+  };
+
+  return (
+    <div className="config-section">
+      <div className="config-row" style={{ alignItems: 'center', gap: 8 }}>
+        <label className="config-label">Output Fields</label>
+        <TooltipComponent content="Returned to the Execute Workflow node that called this workflow. A single {{ }} expression keeps its value type (object, list, number).">
+          <span className="e-icons e-circle-info help-icon"></span>
+        </TooltipComponent>
+      </div>
+
+      {rows.map((row, i) => (
+        <div key={i} style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+          <TextBoxComponent
+            value={row.name}
+            placeholder="name"
+            change={(e: any) => updateRow(i, 'name', e.value)}
+            cssClass="config-input"
+          />
+          <VariablePickerTextBox
+            value={row.value}
+            placeholder="value"
+            onChange={(val) => updateRow(i, 'value', val)}
+            cssClass="config-input"
+            variableGroups={variableGroups}
+          />
+          <ButtonComponent
+            cssClass="flat-btn e-flat"
+            iconCss="e-icons e-trash"
+            onClick={() => removeRow(i)}
+            title="Remove"
+          />
+        </div>
+      ))}
+
+      <ButtonComponent
+        className="add-field-btn e-secondary"
+        iconCss="e-icons e-plus"
+        onClick={() => onPatch({ outputFields: [...rows, { name: '', value: '' }] })}
+      >
+        Add Field
+      </ButtonComponent>
+    </div>
+  );
+};
+
+export default WorkflowOutputNodeConfig;
@@ -10,6 +10,9 @@ interface ToolbarProps {
   isExecuting: boolean;
   isPanActive: boolean;
   isLocked: boolean;
+  isHistoryOpen?: boolean;
+  isValidationOpen?: boolean;
+  isPaused?: boolean;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -17,6 +20,9 @@ const Toolbar: React.FC<ToolbarProps> = ({
   isExecuting = false,
   isPanActive,
   isLocked,
+  isHistoryOpen = false,
+  isValidationOpen = false,
+  isPaused = false,
 }) => {
   // Template for execute button
   const executeButtonTemplate = () => {
@@ -31,6 +37,36 @@ const Toolbar: React.FC<ToolbarProps> = ({
     );
   };
 
+  // Debugger controls, shown while the run is paused at a breakpoint
+  const debugItems: any[] = isPaused
+    ? [
+        {
+          prefixIcon: 'e-icons e-play',
+          tooltipText: 'Continue',
+          id: 'debug-continue',
+          click: () => onAction('continue'),
+          overflow: 'Show',
+        },
+        {
+          prefixIcon: 'e-icons e-chevron-right-double',
+          tooltipText: 'Step Over',
+          id: 'debug-step-over',
+          click: () => onAction('stepOver'),
+          overflow: 'Show',
+        },
+        {
+          prefixIcon: 'e-icons e-stop-rectangle',
+          tooltipText: 'Stop',
+          id: 'debug-stop',
+          click: () => onAction('cancel'),
+          overflow: 'Show',
+        },
+        {
+          type: 'Separator'
+        },
+      ]
+    : [];
+
   const toolbarItems = [
     {
       prefixIcon: 'e-icons e-plus',
@@ -105,6 +141,24 @@ const Toolbar: React.FC<ToolbarProps> = ({
     {
       type: 'Separator'
     },
+    {
+      prefixIcon: 'e-icons e-clock',
+      tooltipText: 'Execution History',
+      id: 'execution-history',
+      click: () => onAction('history'),
+      cssClass: isHistoryOpen ? 'e-active' : '',
+    },
+    {
+      prefixIcon: 'e-icons e-circle-check',
+      tooltipText: 'Validate Workflow',
+      id: 'validate-workflow',
+      click: () => onAction('validate'),
+      cssClass: isValidationOpen ? 'e-active' : '',
+    },
+    {
+      type: 'Separator'
+    },
+    ...debugItems,
     {
       template: executeButtonTemplate,
       tooltipText: isExecuting ? 'Cancel Execution' : 'Execute Workflow',
@@ -145,6 +199,8 @@ const Toolbar: React.FC<ToolbarProps> = ({
           'Fit to Page': 'Fit to Page <kbd>Ctrl</kbd> <kbd>1</kbd>',
           'Execute Workflow': 'Execute <kbd>Ctrl</kbd> <kbd>Enter</kbd>',
           'Cancel Execution': 'Cancel <kbd>Ctrl</kbd> <kbd>Enter</kbd>',
+          'Continue': 'Continue <kbd>F8</kbd>',
+          'Step Over': 'Step Over <kbd>F10</kbd>',
         };
         const content = shortcutMap[title];
         if (content) {
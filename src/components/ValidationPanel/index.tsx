@@ -0,0 +1,82 @@
+import React from 'react';
+import { SidebarComponent } from '@syncfusion/ej2-react-navigations';
+import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
+import { ValidationIssue } from '../../types';
+import './ValidationPanel.css';
+
+interface ValidationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  issues: ValidationIssue[];
+  onRevalidate: () => void;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({
+  isOpen,
+  onClose,
+  issues,
+  onRevalidate,
+  onSelectNode,
+}) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const renderIssues = () => {
+    if (issues.length === 0) {
+      return (
+        <div className="validation-empty">
+          <div className="empty-state-icon">✅</div>
+          <p>No problems found. The workflow is ready to run.</p>
+        </div>
+      );
+    }
+    return issues.map(issue => (
+      <div
+        key={issue.id}
+        className={`validation-issue ${issue.nodeId ? 'clickable' : ''}`}
+        onClick={() => issue.nodeId && onSelectNode(issue.nodeId)}
+        title={issue.nodeId ? 'Show node' : undefined}
+      >
+        <span className={`validation-severity-dot ${issue.severity}`} title={issue.severity} />
+        <div className="validation-issue-info">
+          <div className="validation-issue-node">{issue.nodeName ?? 'Workflow'}</div>
+          <div className="validation-issue-message">{issue.message}</div>
+        </div>
+      </div>
+    ));
+  };
+
+  return (
+    <SidebarComponent
+      id="validation-sidebar"
+      className="validation-panel"
+      width="340px"
+      position="Right"
+      type="Over"
+      isOpen={isOpen}
+      close={onClose}
+      enableGestures={false}
+      target=".editor-content"
+    >
+      <div className="validation-panel-header">
+        <h3>Validation</h3>
+        <div>
+          <ButtonComponent cssClass="e-flat" iconCss="e-icons e-refresh" title="Validate again" onClick={onRevalidate} />
+          <ButtonComponent cssClass="e-flat" iconCss="e-icons e-close" onClick={onClose} />
+        </div>
+      </div>
+      <div className="validation-panel-content">
+        {issues.length > 0 && (
+          <div className="validation-summary">
+            {errorCount} error{errorCount === 1 ? '' : 's'} · {warningCount} warning{warningCount === 1 ? '' : 's'}
+            {errorCount > 0 && <span> — fix the errors to run the workflow</span>}
+          </div>
+        )}
+        {renderIssues()}
+      </div>
+    </SidebarComponent>
+  );
+};
+
+export default ValidationPanel;
@@ -1,5 +1,5 @@
 import { ItemModel } from "@syncfusion/ej2-react-splitbuttons";
-import { OpOption, OpKind, ConditionComparator } from "../types";
+import { OpOption, OpKind, ConditionComparator, NodeErrorMode, NodeType, RetryCondition, WorkflowExecutionMode, WorkflowFieldType, CodeLanguage, SortDirection, LimitFrom, AggregateOperation, DateTimeOperation, DateRoundEdge, ConvertOperation } from "../types";
 
 export const NODE_MENU = ['editNode', 'delete'];
 export const DIAGRAM_MENU = ['addNode', 'addSticky', 'lockWorkflow', 'selectAll', 'autoAlign'];
@@ -60,8 +60,135 @@ export const PORT_POSITIONS = {
     RIGHT: { x: 1, y: 0.5 },
     RIGHT_TOP: { x: 1, y: 0.3 },
     RIGHT_BOTTOM: { x: 1, y: 0.7 },
+    RIGHT_ERROR: { x: 1, y: 0.85 },
 };
 
+export const RETRY_CONDITION_OPTIONS: Array<{ text: string; value: RetryCondition }> = [
+    { text: 'Timeout', value: 'timeout' },
+    { text: 'Network error', value: 'network' },
+    { text: 'HTTP 5xx', value: 'http5xx' },
+    { text: 'HTTP 429 (rate limited)', value: 'http429' },
+    { text: 'Any error', value: 'any' },
+];
+
+export const ERROR_MODE_OPTIONS: Array<{ text: string; value: NodeErrorMode }> = [
+    { text: 'Stop workflow (default)', value: 'stop' },
+    { text: 'Continue with error as output', value: 'continue' },
+    { text: 'Route to error output', value: 'errorOutput' },
+];
+
+export const DEFAULT_RETRY_ON: RetryCondition[] = ['timeout', 'network', 'http5xx'];
+
+// Nodes retried on failure unless turned off; others may have side effects (writes, notifications) and only retry when enabled
+export const RETRY_BY_DEFAULT_NODE_TYPES: NodeType[] = ['HTTP Request'];
+
+// Nodes never retried: a second attempt would run a whole sub-workflow again
+export const NO_RETRY_NODE_TYPES: NodeType[] = ['Execute Workflow'];
+
+export const EXECUTION_MODE_OPTIONS: Array<{ text: string; value: WorkflowExecutionMode }> = [
+    { text: 'Sequential', value: 'sequential' },
+    { text: 'Parallel', value: 'parallel' },
+];
+
+// Parallel mode: default and upper bound for sibling branches running at once
+export const DEFAULT_MAX_CONCURRENCY = 4;
+export const MAX_CONCURRENCY_LIMIT = 16;
+
+// Expression sandbox: evaluation steps allowed per expression, and the longest string it may build
+export const EXPRESSION_STEP_BUDGET = 50000;
+export const EXPRESSION_MAX_STRING_LENGTH = 1000000;
+
+// Code node: run time limit (default and upper bound) and console calls kept per run
+export const CODE_NODE_DEFAULT_TIMEOUT_MS = 5000;
+export const CODE_NODE_MAX_TIMEOUT_MS = 60000;
+export const CODE_NODE_MAX_LOG_ENTRIES = 200;
+// Time the engine allows on top of the Code node limit for compiling the code and starting the worker
+export const CODE_NODE_STARTUP_GRACE_MS = 5000;
+
+export const CODE_LANGUAGE_OPTIONS: Array<{ text: string; value: CodeLanguage }> = [
+    { text: 'JavaScript', value: 'javascript' },
+    { text: 'TypeScript', value: 'typescript' },
+];
+
+export const SORT_DIRECTION_OPTIONS: Array<{ text: string; value: SortDirection }> = [
+    { text: 'Ascending', value: 'asc' },
+    { text: 'Descending', value: 'desc' },
+];
+
+export const LIMIT_FROM_OPTIONS: Array<{ text: string; value: LimitFrom }> = [
+    { text: 'First items', value: 'first' },
+    { text: 'Last items', value: 'last' },
+];
+
+export const AGGREGATE_OPERATION_OPTIONS: Array<{ text: string; value: AggregateOperation }> = [
+    { text: 'Count', value: 'count' },
+    { text: 'Sum', value: 'sum' },
+    { text: 'Average', value: 'avg' },
+    { text: 'Min', value: 'min' },
+    { text: 'Max', value: 'max' },
+];
+
+export const DATE_TIME_OPERATION_OPTIONS: Array<{ text: string; value: DateTimeOperation }> = [
+    { text: 'Format date', value: 'format' },
+    { text: 'Add to date', value: 'add' },
+    { text: 'Subtract from date', value: 'subtract' },
+    { text: 'Difference between dates', value: 'difference' },
+    { text: 'Round to start / end of', value: 'round' },
+    { text: 'Convert time zone', value: 'convertTimeZone' },
+];
+
+// Units of the Date & Time node; business days (Monday to Friday) only apply to add, subtract and difference
+export const DATE_DURATION_UNIT_OPTIONS: Array<{ text: string; value: string }> = [
+    { text: 'Years', value: 'years' },
+    { text: 'Months', value: 'months' },
+    { text: 'Weeks', value: 'weeks' },
+    { text: 'Days', value: 'days' },
+    { text: 'Business days', value: 'businessDays' },
+    { text: 'Hours', value: 'hours' },
+    { text: 'Minutes', value: 'minutes' },
+    { text: 'Seconds', value: 'seconds' },
+];
+
+export const DATE_ROUND_UNIT_OPTIONS: Array<{ text: string; value: string }> = DATE_DURATION_UNIT_OPTIONS
+    .filter(option => option.value !== 'businessDays')
+    .map(option => ({ text: option.text.replace(/s$/, ''), value: option.value }));
+
+export const DATE_ROUND_EDGE_OPTIONS: Array<{ text: string; value: DateRoundEdge }> = [
+    { text: 'Start of', value: 'start' },
+    { text: 'End of', value: 'end' },
+];
+
+// Pattern of the formatted output when none is set
+export const DEFAULT_DATE_TIME_FORMAT = 'yyyy-MM-dd HH:mm:ss';
+
+export const CONVERT_OPERATION_OPTIONS: Array<{ text: string; value: ConvertOperation }> = [
+    { text: 'CSV to list of objects', value: 'csvToJson' },
+    { text: 'List to CSV', value: 'jsonToCsv' },
+    { text: 'XML to JSON', value: 'xmlToJson' },
+    { text: 'JSON to XML', value: 'jsonToXml' },
+    { text: 'JSON text to object', value: 'parseJson' },
+    { text: 'Object to JSON text', value: 'stringifyJson' },
+    { text: 'List to HTML table', value: 'toHtmlTable' },
+];
+
+export const CSV_DELIMITER_OPTIONS: Array<{ text: string; value: string }> = [
+    { text: 'Comma (,)', value: ',' },
+    { text: 'Semicolon (;)', value: ';' },
+    { text: 'Tab', value: '\\t' },
+    { text: 'Pipe (|)', value: '|' },
+];
+
+// Execute Workflow: deepest allowed chain of nested sub-workflow calls
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+export const WORKFLOW_FIELD_TYPE_OPTIONS: Array<{ text: string; value: WorkflowFieldType }> = [
+    { text: 'Any', value: 'any' },
+    { text: 'String', value: 'string' },
+    { text: 'Number', value: 'number' },
+    { text: 'Boolean', value: 'boolean' },
+    { text: 'Object', value: 'object' },
+    { text: 'Array', value: 'array' },
+];
 
 export const OP_OPTIONS: OpOption[] = [
   // String
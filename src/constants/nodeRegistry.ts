@@ -38,6 +38,15 @@ export const NODE_REGISTRY: Partial<Record<NodeType, NodeRegistryEntry>> = {
     iconId: 'ChatIcon',
     portConfig: { rightPort: true },
   },
+  'Workflow Input': {
+    type: 'Workflow Input',
+    category: 'trigger',
+    paletteCategory: 'Triggers',
+    label: 'Workflow Input',
+    description: 'Start when called by an Execute Workflow node',
+    iconId: 'ThunderIcon',
+    portConfig: { rightPort: true },
+  },
   'HTTP Request': {
     type: 'HTTP Request',
     category: 'action',
@@ -90,6 +99,51 @@ export const NODE_REGISTRY: Partial<Record<NodeType, NodeRegistryEntry>> = {
     iconId: 'FilterIcon',
     portConfig: { leftPort: true, rightPort: true },
   },
+  'Sort': {
+    type: 'Sort',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Sort',
+    description: 'Sort items by one or more fields',
+    iconId: 'SortIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Limit': {
+    type: 'Limit',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Limit',
+    description: 'Keep the first or last N items',
+    iconId: 'LimitIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Remove Duplicates': {
+    type: 'Remove Duplicates',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Remove Duplicates',
+    description: 'Drop repeated items by field',
+    iconId: 'RemoveDuplicatesIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Aggregate': {
+    type: 'Aggregate',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Aggregate',
+    description: 'Count, sum, average, min or max by group',
+    iconId: 'AggregateIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Split Out': {
+    type: 'Split Out',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Split Out',
+    description: 'Turn a nested list into separate items',
+    iconId: 'SplitOutIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
   'Loop': {
     type: 'Loop',
     category: 'condition',
@@ -99,6 +153,33 @@ export const NODE_REGISTRY: Partial<Record<NodeType, NodeRegistryEntry>> = {
     iconId: 'LoopIcon',
     portConfig: { leftPort: true, rightTopPort: true, rightBottomPort: true },
   },
+  'Merge': {
+    type: 'Merge',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Merge',
+    description: 'Wait for all incoming branches and combine them',
+    iconId: 'MergeIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Break': {
+    type: 'Break',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Break',
+    description: 'Exit the enclosing loop early',
+    iconId: 'LoopBreakIcon',
+    portConfig: { leftPort: true },
+  },
+  'Continue': {
+    type: 'Continue',
+    category: 'condition',
+    paletteCategory: 'Flow',
+    label: 'Continue',
+    description: 'Skip to the next loop item',
+    iconId: 'LoopContinueIcon',
+    portConfig: { leftPort: true },
+  },
   'Stop': {
     type: 'Stop',
     category: 'condition',
@@ -117,6 +198,60 @@ export const NODE_REGISTRY: Partial<Record<NodeType, NodeRegistryEntry>> = {
     iconId: 'BellIcon',
     portConfig: { leftPort: true, rightPort: true },
   },
+  'Code': {
+    type: 'Code',
+    category: 'action',
+    paletteCategory: 'Core',
+    label: 'Code',
+    description: 'Transform data with JavaScript or TypeScript',
+    iconId: 'CodeIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Edit Fields': {
+    type: 'Edit Fields',
+    category: 'action',
+    paletteCategory: 'Core',
+    label: 'Edit Fields',
+    description: 'Set, rename and reshape fields of the data',
+    iconId: 'EditFieldsIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Date & Time': {
+    type: 'Date & Time',
+    category: 'action',
+    paletteCategory: 'Core',
+    label: 'Date & Time',
+    description: 'Parse, format, shift and compare dates across time zones',
+    iconId: 'DateTimeIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Convert': {
+    type: 'Convert',
+    category: 'action',
+    paletteCategory: 'Core',
+    label: 'Convert',
+    description: 'Convert between CSV, JSON, XML and HTML tables',
+    iconId: 'ConvertIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Execute Workflow': {
+    type: 'Execute Workflow',
+    category: 'action',
+    paletteCategory: 'Core',
+    label: 'Execute Workflow',
+    description: 'Run another saved workflow and use its output',
+    iconId: 'SubWorkflowIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
+  'Workflow Output': {
+    type: 'Workflow Output',
+    category: 'action',
+    paletteCategory: 'Core',
+    label: 'Workflow Output',
+    description: 'Return values to the calling workflow',
+    iconId: 'WorkflowOutputIcon',
+    portConfig: { leftPort: true, rightPort: true },
+  },
 };
 
 // Helper functions to get node lists by different criteria
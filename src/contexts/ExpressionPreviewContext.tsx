@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { ExecutionContext } from '../types';
+
+// Last execution context of the node being configured, used by config fields to preview their expressions.
+// Null outside the config panel (no preview is shown).
+const ExpressionPreviewContext = createContext<ExecutionContext | null>(null);
+
+// Hook to access the context expressions are previewed against
+export const useExpressionPreviewContext = () => useContext(ExpressionPreviewContext);
+
+export const ExpressionPreviewProvider = ExpressionPreviewContext.Provider;
+
+export default ExpressionPreviewContext;
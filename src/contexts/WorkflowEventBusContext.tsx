@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { WorkflowEventBus } from '../types';
+import { globalWorkflowEventBus } from '../execution/WorkflowEventBus';
+
+// Event bus of the surrounding editor; components outside an editor fall back to the shared bus
+const WorkflowEventBusContext = createContext<WorkflowEventBus>(globalWorkflowEventBus);
+
+// Hook to access the editor's workflow event bus
+export const useWorkflowEventBus = () => useContext(WorkflowEventBusContext);
+
+export const WorkflowEventBusProvider = WorkflowEventBusContext.Provider;
+
+export default WorkflowEventBusContext;
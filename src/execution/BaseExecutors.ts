@@ -1,5 +1,5 @@
 import { NodeModel } from '@syncfusion/ej2-diagrams';
-import { ExecutionContext, NodeConfig, NodeExecutionResult, NodeExecutor } from '../types';
+import { ExecutionContext, NodeConfig, NodeExecutionResult, NodeExecutor, NodeNotification } from '../types';
 
 export abstract class BaseNodeExecutor implements NodeExecutor {
   abstract executeNode(node: NodeModel, context: ExecutionContext): Promise<NodeExecutionResult>;
@@ -21,3 +21,17 @@ export abstract class BaseNodeExecutor implements NodeExecutor {
     }
   }
 }
+
+/**
+ * Report why a node failed. The engine shows it once the node has failed for good, not on every retry attempt.
+ */
+export function reportNodeError(context: ExecutionContext, title: string, message: string): void {
+  context.onNodeError?.(title, message);
+}
+
+/**
+ * Show a message from a node (e.g. Notify) to whoever runs the workflow
+ */
+export function showNodeNotification(context: ExecutionContext, notification: NodeNotification): void {
+  context.onNodeNotification?.(notification);
+}
@@ -0,0 +1,199 @@
+import { NodeModel } from '@syncfusion/ej2-diagrams';
+import { ExecutionContext, NodeConfig, NodeExecutionResult, WorkflowEngineEvent, WorkflowModel } from '../types';
+import { reportNodeError } from './BaseExecutors';
+import { ClientSideNodeExecutor } from './ClientSideNodeExecutor';
+import { WorkflowEngine } from './WorkflowEngine';
+
+type Edge = WorkflowModel['edges'][number];
+
+const CATEGORIES: Record<string, string> = { 'Manual Click': 'trigger', 'Merge': 'condition', 'Loop': 'condition' };
+
+const node = (id: string, nodeType: string, advanced: Record<string, any> = {}) => ({
+  id,
+  config: { id, nodeType, displayName: id, category: CATEGORIES[nodeType] ?? 'action', settings: { general: {}, advanced } } as unknown as NodeConfig,
+});
+
+const edge = (source: string, target: string, sourcePort = 'right-port'): Edge => ({ source, target, sourcePort });
+
+// Node outcomes by id; nodes without one succeed with { from: id }
+let outcomes: Record<string, NodeExecutionResult | (() => Promise<NodeExecutionResult>)>;
+let executed: string[];
+
+beforeEach(() => {
+  outcomes = {};
+  executed = [];
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(ClientSideNodeExecutor.prototype, 'executeNode').mockImplementation(async (model: NodeModel, context: ExecutionContext) => {
+    const id = model.id!;
+    executed.push(id);
+    const outcome = outcomes[id];
+    const result = typeof outcome === 'function' ? await outcome() : outcome ?? { success: true, data: { from: id } };
+    if (result.success) (context.results as Record<string, any>)[id] = result.data;
+    return result;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// trigger -> step (error output) -> ok -> merge; step error port -> recover -> merge
+const errorBranchModel = (): WorkflowModel => ({
+  nodes: [
+    node('trigger', 'Manual Click'),
+    node('step', 'Notify', { onError: 'errorOutput' }),
+    node('ok', 'Notify'),
+    node('recover', 'Notify'),
+    node('merge', 'Merge'),
+  ],
+  edges: [
+    edge('trigger', 'step'),
+    edge('step', 'ok'),
+    edge('step', 'recover', 'error-port'),
+    edge('ok', 'merge'),
+    edge('recover', 'merge'),
+  ],
+});
+
+describe('WorkflowEngine error output', () => {
+  it('skips the error branch when the node succeeds, so a joining Merge still runs', async () => {
+    const engine = WorkflowEngine.fromModel(errorBranchModel(), { retryCount: 0 });
+
+    await expect(engine.executeWorkflow()).resolves.toBe(true);
+    expect(executed).toEqual(['trigger', 'step', 'ok', 'merge']);
+  });
+
+  it('skips the success branch and follows the error port when the node fails', async () => {
+    outcomes.step = { success: false, error: 'Bad request' };
+    const engine = WorkflowEngine.fromModel(errorBranchModel(), { retryCount: 0 });
+
+    await engine.executeWorkflow();
+    expect(executed).toEqual(['trigger', 'step', 'recover', 'merge']);
+    expect(engine.getExecutionContext().results.step.error.message).toBe('Bad request');
+  });
+});
+
+describe('WorkflowEngine merge', () => {
+  it('waits for every incoming branch and runs the Merge once', async () => {
+    const engine = WorkflowEngine.fromModel({
+      nodes: [node('trigger', 'Manual Click'), node('left', 'Notify'), node('right', 'Notify'), node('merge', 'Merge')],
+      edges: [edge('trigger', 'left'), edge('trigger', 'right'), edge('left', 'merge'), edge('right', 'merge')],
+    }, { retryCount: 0, executionMode: 'parallel' });
+
+    await expect(engine.executeWorkflow()).resolves.toBe(true);
+    expect(executed.filter(id => id === 'merge')).toHaveLength(1);
+    expect(executed.indexOf('merge')).toBeGreaterThan(Math.max(executed.indexOf('left'), executed.indexOf('right')));
+  });
+
+  // trigger -> setup -> merge, setup -> loop; each loop iteration runs body -> merge
+  const loopFeedingMerge = (parallel: boolean): WorkflowModel => {
+    const loop = node('loop', 'Loop');
+    loop.config.settings.general = { parallel };
+    return {
+      nodes: [node('trigger', 'Manual Click'), node('setup', 'Notify'), loop, node('body', 'Notify'), node('merge', 'Merge')],
+      edges: [edge('trigger', 'setup'), edge('setup', 'merge'), edge('setup', 'loop'), edge('loop', 'body', 'right-top-port'), edge('body', 'merge')],
+    };
+  };
+
+  it.each([false, true])('runs a Merge in a loop body on every iteration when its other input comes from outside the loop (parallel: %s)', async parallel => {
+    outcomes.loop = { success: true, data: { items: [1, 2, 3] } };
+    const engine = WorkflowEngine.fromModel(loopFeedingMerge(parallel), { retryCount: 0 });
+
+    await expect(engine.executeWorkflow()).resolves.toBe(true);
+    expect(executed.filter(id => id === 'body')).toHaveLength(3);
+    expect(executed.filter(id => id === 'merge')).toHaveLength(3);
+  });
+});
+
+describe('WorkflowEngine retries', () => {
+  const single = (nodeType: string, advanced: Record<string, any> = {}): WorkflowModel => ({
+    nodes: [node('trigger', 'Manual Click'), node('step', nodeType, advanced)],
+    edges: [edge('trigger', 'step')],
+  });
+  const count = (id: string) => executed.filter(e => e === id).length;
+
+  it('does not retry nodes with side effects unless retries are turned on', async () => {
+    outcomes.step = { success: false, error: 'Failed to fetch' };
+    const engine = WorkflowEngine.fromModel(single('Notify'), { retryCount: 2, retryDelay: 0 });
+
+    await expect(engine.executeWorkflow()).resolves.toBe(false);
+    expect(count('step')).toBe(1);
+  });
+
+  it('retries HTTP Request by default and other nodes when enabled', async () => {
+    outcomes.step = { success: false, error: 'Failed to fetch' };
+    await WorkflowEngine.fromModel(single('HTTP Request'), { retryCount: 2, retryDelay: 0 }).executeWorkflow();
+    expect(count('step')).toBe(3);
+
+    executed = [];
+    await WorkflowEngine.fromModel(single('Notify', { retry: { enabled: true, maxRetries: 1 } }), { retryDelay: 0 }).executeWorkflow();
+    expect(count('step')).toBe(2);
+  });
+
+  it('shows the error of a retried node once, after its last attempt', async () => {
+    let attempt = 0;
+    jest.spyOn(ClientSideNodeExecutor.prototype, 'executeNode').mockImplementation(async (model: NodeModel, context: ExecutionContext) => {
+      if (model.id !== 'step') return { success: true, data: {} };
+      attempt++;
+      reportNodeError(context, 'HTTP Request Failed', `Attempt ${attempt} failed`);
+      return { success: false, error: 'Failed to fetch' };
+    });
+    const engine = WorkflowEngine.fromModel(single('HTTP Request'), { retryCount: 2, retryDelay: 0 });
+    const notifications: WorkflowEngineEvent[] = [];
+    engine.subscribe(event => {
+      if (event.type === 'notification' && event.nodeId) notifications.push(event);
+    });
+
+    await engine.executeWorkflow();
+    expect(notifications).toEqual([
+      { type: 'notification', level: 'error', title: 'HTTP Request Failed', message: 'Attempt 3 failed', nodeId: 'step' },
+    ]);
+  });
+
+  it('aborts a timed-out attempt and waits for it before the next one starts', async () => {
+    let running = 0;
+    let overlapped = false;
+    const aborted: boolean[] = [];
+    jest.spyOn(ClientSideNodeExecutor.prototype, 'executeNode').mockImplementation(async (model: NodeModel, context: ExecutionContext) => {
+      if (model.id !== 'step') return { success: true, data: {} };
+      overlapped = overlapped || running > 0;
+      running++;
+      const signal = context.abortSignal!;
+      // Ignores the abort for a moment, like a request that is already being answered
+      await new Promise(resolve => signal.addEventListener('abort', () => setTimeout(resolve, 30), { once: true }));
+      aborted.push(signal.aborted);
+      running--;
+      return { success: true, data: {} };
+    });
+    const engine = WorkflowEngine.fromModel(single('HTTP Request'), { timeout: 20, retryCount: 1, retryDelay: 0 });
+
+    await expect(engine.executeWorkflow()).resolves.toBe(false);
+    // The first attempt finished before the retry; the last one is left to finish on its own
+    expect(aborted).toEqual([true]);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(aborted).toEqual([true, true]);
+    expect(overlapped).toBe(false);
+    expect(engine.getExecutionContext().results.step.attempts.map((a: any) => a.error)).toEqual(['Execution timeout', 'Execution timeout']);
+  });
+
+  it('lets a Code node run up to its own time limit instead of the engine timeout', async () => {
+    outcomes.step = () => new Promise(resolve => setTimeout(() => resolve({ success: true, data: { done: true } }), 40));
+    const model = single('Code');
+    model.nodes[1].config.settings.general = { code: 'return 1', timeoutSeconds: 10 };
+    const engine = WorkflowEngine.fromModel(model, { timeout: 20, retryCount: 0 });
+
+    await expect(engine.executeWorkflow()).resolves.toBe(true);
+    expect(engine.getExecutionContext().results.step).toEqual({ done: true });
+  });
+
+  it('never times out or retries Execute Workflow, so the sub-workflow runs once', async () => {
+    outcomes.step = () => new Promise(resolve => setTimeout(() => resolve({ success: false, error: 'Failed to fetch' }), 40));
+    const advanced = { retry: { enabled: true, maxRetries: 2 } };
+    const engine = WorkflowEngine.fromModel(single('Execute Workflow', advanced), { timeout: 20, retryDelay: 0 });
+
+    await engine.executeWorkflow();
+    expect(count('step')).toBe(1);
+    expect(engine.getExecutionContext().results.step).toBeUndefined();
+    expect(engine.getExecutionStatus().error).toBe('Failed to fetch');
+  });
+});
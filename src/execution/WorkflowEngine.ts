@@ -0,0 +1,1403 @@
+import { NodeModel } from '@syncfusion/ej2-diagrams';
+import { DebugAction, ExecutionContext, ExecutionRecord, ExecutionRuntime, LoopControl, LoopIterationOutcome, LoopIterationScope, NodeConfig, NodeExecutionResult, NodeExecutionRecord, NodeNotification, NodeStatus, PinnedData, RetryAttempt, WorkflowEngineEvent, WorkflowEventBus, WorkflowExecutionOptions, WorkflowExecutionStatus, WorkflowGraphSource, WorkflowModel } from '../types';
+import { WorkflowGraph } from './WorkflowGraph';
+import { findTriggerNodes, findConnectedNodes, getTargetsByPort, getIncomingSourceIds, getAllOutgoingTargets, getAncestorIds, getDescendantIds } from '../utilities/graphUtils';
+import { getNodeConfig, isIfConditionNode, isLoopNode, isSwitchNode, isMergeNode } from '../utilities/nodeUtils';
+import { resolveRetryPolicy, isRetryableFailure, computeRetryDelay } from '../utilities/retryUtils';
+import { getNodeErrorMode } from '../utilities/portUtils';
+import { buildLoopFrame, getLoopIteration, toPositiveInt } from '../utilities/loopUtils';
+import { withCurrentNode } from '../utilities/nodeReferenceUtils';
+import { getCodeNodeTimeoutMs } from '../utilities/codeSandbox';
+import { globalExecutorRegistry } from './ExecutorRegistry';
+import { ClientSideNodeExecutor } from './ClientSideNodeExecutor';
+import { DefaultWorkflowEventBus } from './WorkflowEventBus';
+import { CODE_NODE_STARTUP_GRACE_MS, DEFAULT_MAX_CONCURRENCY, MAX_CONCURRENCY_LIMIT } from '../constants';
+
+// Marker resolved by the node timeout, so a timed-out attempt can be told apart from an executor result
+const TIMED_OUT: unique symbol = Symbol('timed out');
+
+// Fan-in state of one Merge node: which upstream branches arrived (with their data) or were skipped
+type MergeState = { arrived: Record<string, any>; skipped: string[]; fired: boolean };
+
+/**
+ * Headless workflow engine: traverses a workflow graph, runs the node executors and emits status events.
+ * It never touches the DOM; the canvas (WorkflowExecutionService) is just one subscriber.
+ */
+export class WorkflowEngine {
+  private graph: WorkflowGraphSource;
+  private executionStatus: WorkflowExecutionStatus;
+  private executionContext: ExecutionContext;
+  private options: WorkflowExecutionOptions;
+  private abortController: AbortController;
+  // Fan-in bookkeeping for Merge nodes, keyed by scoped node id
+  private mergeStates: Record<string, MergeState> = {};
+  // Run record of the current full workflow execution (single-step runs are not recorded)
+  private executionRecord: ExecutionRecord | null = null;
+  // Debugger: branches waiting at a breakpoint, in the order they paused
+  private pausedNodes: Array<{ nodeId: string; resume: (action: DebugAction) => void }> = [];
+  // Step Over: pause again before the next node that runs
+  private stepMode = false;
+  // Partial runs (run up to / from a node): only these nodes may execute
+  private runScope: Set<string> | null = null;
+  // Per-node execution lock: a node reached by concurrent branches runs one arrival at a time
+  private nodeLocks: Record<string, Promise<void>> = {};
+  // Catalog events (node lifecycle, triggers, chat/form, run completed) shared with executors and UI
+  readonly eventBus: WorkflowEventBus;
+
+  constructor(graph: WorkflowGraphSource, options: WorkflowExecutionOptions = {}) {
+    this.graph = graph;
+    this.options = {
+      timeout: 30000,
+      retryCount: 3,
+      retryDelay: 1000,
+      enableDebug: false,
+      ...options
+    };
+    this.eventBus = options.eventBus ?? new DefaultWorkflowEventBus();
+    this.executionStatus = {
+      isExecuting: false,
+      executionPath: []
+    };
+    this.executionContext = {
+      variables: {},
+      results: {},
+      logs: {}
+    };
+    this.abortController = new AbortController();
+
+    // Initialize executors
+    this.initializeExecutors();
+  }
+
+  /**
+   * Create an engine for a serialized diagram (WorkflowData.diagramString)
+   */
+  static fromDiagramString(diagramString: string, options: WorkflowExecutionOptions = {}): WorkflowEngine {
+    return new WorkflowEngine(WorkflowGraph.fromDiagramString(diagramString), options);
+  }
+
+  /**
+   * Create an engine for a plain node/edge model
+   */
+  static fromModel(model: WorkflowModel, options: WorkflowExecutionOptions = {}): WorkflowEngine {
+    return new WorkflowEngine(WorkflowGraph.fromModel(model), options);
+  }
+
+  /**
+   * Update execution options (e.g. mode and concurrency from the workflow settings); applies from the next branch fork
+   */
+  configure(options: Partial<WorkflowExecutionOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Initialize and register node executors
+   */
+  private initializeExecutors() {
+    // Register client-side executor for logical operations
+    globalExecutorRegistry.registerExecutor('client', new ClientSideNodeExecutor());
+  }
+
+  /**
+   * Start workflow execution from trigger nodes
+   */
+  async executeWorkflow(): Promise<boolean> {
+    return this.runWorkflow(() => this.findAndValidateTriggerNodes());
+  }
+
+  /**
+   * Run up to here: execute only the ancestors of a node and the node itself, starting from its triggers
+   */
+  async executeUpToNode(nodeId: string): Promise<boolean> {
+    const scope = new Set([...getAncestorIds(this.graph, nodeId), nodeId]);
+    return this.runWorkflow(() => {
+      const triggerNodes = findTriggerNodes(this.graph).filter(node => scope.has(node.id as string));
+      if (triggerNodes.length === 0) {
+        this.notify('error', 'Execution Failed', 'No trigger node leads to this node');
+        return null;
+      }
+      return triggerNodes;
+    }, { scope });
+  }
+
+  /**
+   * Run from here: re-execute a node and everything downstream, reusing the cached results of its upstream nodes
+   */
+  async executeFromNode(nodeId: string): Promise<boolean> {
+    const node = this.graph.getObject(nodeId) as NodeModel | null;
+    if (!node) return false;
+
+    const scope = new Set([nodeId, ...getDescendantIds(this.graph, nodeId)]);
+    const cachedResults: Record<string, any> = {};
+    Object.entries(this.executionContext.results as Record<string, any>).forEach(([id, value]) => {
+      if (!scope.has(id)) cachedResults[id] = value;
+    });
+
+    const upstream = getIncomingSourceIds(this.graph, nodeId);
+    if (upstream.length > 0 && !upstream.some(id => id in cachedResults)) {
+      this.notify('error', 'Execution Failed', 'No cached results for the upstream nodes. Run the workflow or "Run up to here" first.');
+      return false;
+    }
+
+    return this.runWorkflow(() => [node], { scope, cachedResults });
+  }
+
+  /**
+   * Run as a sub-workflow of an Execute Workflow node: start from the Workflow Input triggers
+   * and return the workflow output (the last Workflow Output node reached, else the last node that ran)
+   */
+  async executeAsSubWorkflow(): Promise<{ success: boolean; output?: any; error?: string }> {
+    const success = await this.runWorkflow(() => {
+      const inputTriggers = findTriggerNodes(this.graph).filter(node => getNodeConfig(node)?.nodeType === 'Workflow Input');
+      if (inputTriggers.length === 0) {
+        this.executionStatus.error = 'The workflow has no Workflow Input trigger, so it cannot be called from another workflow';
+        return null;
+      }
+      return inputTriggers;
+    });
+    if (!success) {
+      return { success: false, error: this.executionStatus.error || 'Sub-workflow execution failed' };
+    }
+
+    const results = this.executionContext.results as Record<string, any>;
+    const path = this.executionStatus.executionPath.filter(id => id in results);
+    const outputNodeId = [...path].reverse().find(id => getNodeConfig(this.graph.getObject(id) as NodeModel)?.nodeType === 'Workflow Output');
+    const lastNodeId = outputNodeId ?? path[path.length - 1];
+    return { success: true, output: lastNodeId ? results[lastNodeId] : undefined };
+  }
+
+  /**
+   * Shared run loop for full and partial executions.
+   * Nodes outside `scope` are not executed; `cachedResults` seed the context before the run starts.
+   */
+  private async runWorkflow(
+    resolveStartNodes: () => NodeModel[] | null,
+    opts: { scope?: Set<string>; cachedResults?: Record<string, any> } = {}
+  ): Promise<boolean> {
+    let success = false;
+    try {
+      await this.prepareExecution();
+      this.runScope = opts.scope ?? null;
+      if (opts.cachedResults) {
+        Object.assign(this.executionContext.results, opts.cachedResults);
+        this.notifyContextUpdate();
+      }
+      this.startExecutionRecord();
+      
+      const startNodes = resolveStartNodes();
+      if (!startNodes) return false;
+
+      // Execute each start node branch
+      const results = await Promise.all(
+        startNodes.map(node => this.executeBranchWithErrorHandling(node))
+      );
+
+      // Check if any branch failed or any node error was recorded
+      const allBranchesOk = results.every(result => result);
+      const hadError = Boolean(this.executionStatus.error);
+      success = allBranchesOk && !hadError;
+      if (success) {
+        this.notify('success', 'Execution Complete', 'Workflow executed successfully');
+      }
+      return success;
+
+    } catch (error) {
+      this.handleExecutionError(error);
+      return false;
+    } finally {
+      this.runScope = null;
+      this.finishExecutionRecord(success);
+      this.cleanupExecution();
+    }
+  }
+
+  /**
+   * Prepare the workflow for execution
+   */
+  private async prepareExecution() {
+    this.resetExecution();
+    this.abortController = new AbortController();
+    this.executionStatus.isExecuting = true;
+    this.attachRunContext();
+    // Lets long-running executors (Execute Workflow) stop their own work when the run is cancelled
+    this.executionContext.abortSignal = this.abortController.signal;
+
+    // Notify UI that a new execution cycle started (clear any previous waiting banners)
+    this.eventBus.emit('trigger:clear');
+  }
+
+  /**
+   * Expose the graph, event bus and sub-workflow call to executors through the context
+   */
+  private attachRunContext() {
+    // Allow client executors (AI Agent) to resolve connected nodes/port
+    this.executionContext.diagram = this.graph;
+    this.executionContext.eventBus = this.eventBus;
+    this.executionContext.projectId = this.options.projectId;
+    this.executionContext.subWorkflow = this.options.subWorkflow;
+    // Runtime bookkeeping (Merge inputs, Loop items) must live on the run context so Loop iteration views share it
+    if (!this.executionContext.__runtime) this.executionContext.__runtime = { mergeInputs: {}, loopItems: {} };
+  }
+
+  /**
+   * Find and validate trigger nodes
+   */
+  private findAndValidateTriggerNodes(): NodeModel[] | null {
+    const triggerNodes = findTriggerNodes(this.graph);
+    if (triggerNodes.length === 0) {
+      this.notify('error', 'Execution Failed', 'No trigger nodes found in the workflow');
+      return null;
+    }
+    return triggerNodes;
+  }
+
+  /**
+   * Execute a branch with error handling
+   */
+  private async executeBranchWithErrorHandling(node: NodeModel, sourceId?: string, ctx: ExecutionContext = this.executionContext): Promise<boolean> {
+    try {
+      return await this.executeBranch(node, sourceId, ctx);
+    } catch (error: any) {
+      // Treat user/navigation cancellations as graceful (no error paint)
+      const msg = String(error?.message || error);
+      const isCancelled =
+        this.abortController.signal.aborted ||
+        msg === 'Execution cancelled' ||
+        msg === 'Form trigger cancelled';
+      if (isCancelled) {
+        return false; // stop traversal quietly
+      }
+      console.error(`Branch execution failed at node ${node.id}:`, error);
+      if (node.id) {
+        this.emitNodeStatus(node.id, 'error');
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Execute a branch of the workflow
+   * @param ctx Context the branch runs in: the run context, or a Loop iteration view of it
+   */
+  private async executeBranch(node: NodeModel, sourceId?: string, ctx: ExecutionContext = this.executionContext): Promise<boolean> {
+    if (!node.id) return false;
+
+    // Loop body: a Break / Continue node already ended this iteration
+    const iteration = getLoopIteration(ctx);
+    if (iteration?.control) return true;
+
+    try {
+      await this.checkExecutionCancelled();
+
+      // Partial run: leave nodes outside the requested range untouched
+      if (this.runScope && !this.runScope.has(node.id)) return true;
+
+      // Merge: park this branch until every other incoming branch has arrived or been skipped
+      const nodeCfg = getNodeConfig(node);
+      if (nodeCfg && isMergeNode(nodeCfg) && sourceId) {
+        if (this.registerMergeInput(node, sourceId, 'arrived', ctx) !== 'execute') return true;
+      }
+      
+      // Status painting, the node result and its run record are written under the node lock,
+      // so concurrent branches reaching the same node never interleave them
+      const release = await this.acquireNodeLock(this.getScopedKey(ctx, node.id));
+      let result: NodeExecutionResult;
+      try {
+        // Debugger: wait here when the node has a breakpoint or the user is stepping
+        await this.waitAtBreakpoint(node);
+
+        // Update status and track execution
+        this.updateNodeExecutionStatus(node.id, ctx);
+
+        // Execute the node
+        result = await this.executeNodeWithTimeout(node, ctx);
+        if (result.success) this.markNodeSucceeded(node, result, ctx);
+      } finally {
+        release();
+      }
+
+      if (!result.success) {
+        // Nodes configured to continue/route on failure keep the branch alive
+        const errorMode = nodeCfg ? getNodeErrorMode(nodeCfg) : 'stop';
+        if (errorMode !== 'stop' && !this.abortController.signal.aborted) {
+          await this.routeNodeFailure(node, result, errorMode, ctx);
+          return true;
+        }
+        throw new Error(result.error || 'Node execution failed');
+      }
+
+      // If a Stop (Do Nothing) node signalled a stop, abort the entire workflow immediately
+      if (result.data?.stopped === true) {
+        // Abort the whole workflow so loops and pending branches halt
+        this.abortController.abort();
+        // Optionally, record a friendly reason (not treated as error)
+        this.executionStatus.error = undefined;
+        return true;
+      }
+
+      // Break / Continue: end the iteration here; the loop handler decides what runs next (Break wins over Continue)
+      const loopControl = result.data?.loopControl as LoopControl | undefined;
+      if (loopControl && iteration) {
+        if (iteration.control !== 'break') iteration.control = loopControl;
+        return true;
+      }
+
+      await this.executeConnectedNodes(node, ctx);
+
+      return true;
+    } catch (error) {
+      this.handleNodeError(node.id, error, ctx);
+      return false;
+    }
+  }
+
+  /**
+   * Paint a successfully executed node (only the taken port for branching nodes) and record it
+   */
+  private markNodeSucceeded(node: NodeModel, result: NodeExecutionResult, ctx: ExecutionContext = this.executionContext): void {
+    const nodeId = node.id!;
+    const cfg = getNodeConfig(node);
+    const out = (ctx.results as Record<string, any>)[nodeId];
+
+    if (result.data?.stopped === true) {
+      // Stop node: mark success; traversal ends in executeBranch
+      this.emitNodeStatus(nodeId, 'success');
+    } else if (cfg && isIfConditionNode(cfg)) {
+      // Reset once and then paint only the matched connector
+      const portId = Boolean(out?.conditionResult) ? 'right-top-port' : 'right-bottom-port';
+      this.emitNodeStatus(nodeId, 'success', { restrictToSourcePortId: portId });
+    } else if (cfg && isSwitchNode(cfg)) {
+      const portId: string | null = out?.matchedPortId ?? null;
+      // Reset once and then paint only the matched connector
+      this.emitNodeStatus(nodeId, 'success', portId ? { restrictToSourcePortId: portId } : undefined);
+    } else if (cfg && isLoopNode(cfg)) {
+      // For Loop on single step exec: only mark loop body connector now; 'done' will be painted after loop handler
+      const hasItems = Array.isArray(out?.items) && out.items.length > 0;
+      const portId = hasItems ? 'right-top-port' : 'right-bottom-port';
+      this.emitNodeStatus(nodeId, 'success', { restrictToSourcePortId: portId });
+    } else {
+      // Default: Mark success and continue with connected nodes
+      this.emitNodeStatus(nodeId, 'success');
+    }
+
+    // The last body node to finish provides the iteration's output (Break / Continue produce none)
+    const iteration = getLoopIteration(ctx);
+    if (iteration && !result.data?.loopControl) iteration.lastNodeId = nodeId;
+
+    this.recordNodeEnd(nodeId, 'success', undefined, ctx);
+  }
+
+  /**
+   * Wait until no other branch is executing the node, then hold it
+   * @returns Function that releases the node for the next arrival
+   */
+  private async acquireNodeLock(nodeId: string): Promise<() => void> {
+    const previous = this.nodeLocks[nodeId] ?? Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    const current = previous.then(() => held);
+    this.nodeLocks[nodeId] = current;
+    await previous;
+    return () => {
+      release();
+      if (this.nodeLocks[nodeId] === current) delete this.nodeLocks[nodeId];
+    };
+  }
+
+  /**
+   * Bookkeeping shared by the run (or parallel Loop iteration) `ctx` belongs to
+   */
+  private getRuntime(ctx: ExecutionContext): ExecutionRuntime {
+    return ctx.__runtime ?? this.executionContext.__runtime ?? (this.executionContext.__runtime = { mergeInputs: {}, loopItems: {} });
+  }
+
+  /**
+   * Key for per-node engine state (locks, Merge fan-in); each parallel Loop iteration has its own scope
+   */
+  private getScopedKey(ctx: ExecutionContext, nodeId: string): string {
+    const scope = ctx.__scopeKey;
+    return scope ? `${scope}|${nodeId}` : nodeId;
+  }
+
+  /**
+   * Key of the same node in the scope enclosing `scope` (the parallel Loop iteration, or run, a Loop node runs in)
+   */
+  private getParentScopedKey(scope: string, nodeId: string): string {
+    const parentScope = scope.slice(0, scope.lastIndexOf('/'));
+    return parentScope ? `${parentScope}|${nodeId}` : nodeId;
+  }
+
+  /**
+   * Execute connected nodes
+   */
+  private async executeConnectedNodes(node: NodeModel, ctx: ExecutionContext = this.executionContext): Promise<void> {
+    const nodeConfig = getNodeConfig(node);
+    if (!nodeConfig) return;
+
+    if (isLoopNode(nodeConfig)) {
+      await this.handleLoopNode(node, ctx);
+      return;
+    }
+    if (isIfConditionNode(nodeConfig)) {
+      await this.handleIfConditionNode(node, ctx);
+      return;
+    }
+    if (isSwitchNode(nodeConfig)) {
+      await this.handleSwitchCaseNode(node, ctx);
+      return;
+    }
+    await this.handleDefaultTraversal(node, ctx);
+  }
+
+  /**
+   * Execute a single node with timeout, retrying transient failures per the node's retry policy
+   */
+  private async executeNodeWithTimeout(node: NodeModel, ctx: ExecutionContext = this.executionContext): Promise<NodeExecutionResult> {
+    const nodeConfig = getNodeConfig(node);
+    if (!nodeConfig) {
+      return { success: false, error: 'Invalid node configuration' };
+    }
+
+    // Pinned data: skip the executor (and any trigger wait) and reuse the stored output
+    if (nodeConfig.pinnedData) {
+      return this.usePinnedData(node, nodeConfig.pinnedData, ctx);
+    }
+
+    const executor = this.getExecutorForNode();
+    if (!executor) {
+      return { success: false, error: `No executor found for node type: ${nodeConfig.nodeType}` };
+    }
+
+    // If a trigger that waits for external input (e.g., Chat/Form), do not timeout and show waiting banner
+    const isWaitingTrigger = nodeConfig.nodeType === 'Chat' || nodeConfig.nodeType === 'Webhook' || nodeConfig.nodeType === 'Form';
+    if (isWaitingTrigger) {
+      this.eventBus.emit('trigger:waiting', { type: nodeConfig.nodeType });
+    }
+
+    const timeoutMs = this.getNodeTimeout(nodeConfig, isWaitingTrigger);
+
+    // Waiting triggers depend on user input, so they are never retried
+    const policy = resolveRetryPolicy(nodeConfig, this.options);
+    const maxAttempts = isWaitingTrigger || !policy.enabled ? 1 : policy.maxRetries + 1;
+    const attempts: RetryAttempt[] = [];
+
+    let result: NodeExecutionResult = { success: false, error: 'Node execution failed' };
+    let reportedError: NodeNotification | undefined;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const startedAt = new Date().toISOString();
+      const run = await this.runNodeAttempt(node, timeoutMs, ctx);
+      result = run.result;
+      reportedError = run.reportedError;
+      const record: RetryAttempt = { attempt, startedAt, endedAt: new Date().toISOString(), success: result.success };
+      if (!result.success) record.error = result.error;
+      attempts.push(record);
+
+      if (result.success || attempt === maxAttempts || !isRetryableFailure(result, policy)) break;
+      if (this.abortController.signal.aborted) break;
+
+      record.nextDelayMs = computeRetryDelay(policy, attempt);
+      // A timed-out attempt was aborted; never let it overlap with the next one
+      await run.settled;
+      await this.waitForRetry(record.nextDelayMs);
+      await this.checkExecutionCancelled();
+    }
+
+    // Record every attempt in the node output once a retry happened
+    if (attempts.length > 1) {
+      const base = result.data && typeof result.data === 'object' && !Array.isArray(result.data)
+        ? result.data
+        : (result.data !== undefined ? { value: result.data } : {});
+      result = { ...result, data: { ...base, attempts } };
+      if (node.id) {
+        (ctx.results as Record<string, any>)[node.id] = result.data;
+      }
+    }
+
+    // After successful execution, notify context update
+    if (result.success) {
+      // Clear waiting banner once the trigger resumes/completes
+      if (isWaitingTrigger) {
+        this.eventBus.emit('trigger:resumed', { type: nodeConfig.nodeType });
+      }
+      this.notifyContextUpdate();
+    } else {
+      // Only the error of the final attempt is shown, so a retried node does not report every attempt
+      if (reportedError) this.emit({ type: 'notification', ...reportedError, nodeId: node.id });
+      // Show the console output of a failed Code node
+      if (node.id && ctx.logs?.[node.id]) this.notifyContextUpdate();
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish a node's pinned output as its result
+   */
+  private usePinnedData(node: NodeModel, pinned: PinnedData, ctx: ExecutionContext = this.executionContext): NodeExecutionResult {
+    // Copy so downstream nodes cannot mutate the pinned data stored in the node config
+    const data = pinned.data === undefined ? undefined : JSON.parse(JSON.stringify(pinned.data));
+    if (node.id) {
+      (ctx.results as Record<string, any>)[node.id] = data;
+    }
+    this.notifyContextUpdate();
+    return { success: true, data };
+  }
+
+  /**
+   * Longest time one attempt of a node may run (null: no limit)
+   */
+  private getNodeTimeout(nodeConfig: NodeConfig, isWaitingTrigger: boolean): number | null {
+    // Execute Workflow runs a whole workflow whose nodes have their own timeouts; it stops only when the run is cancelled
+    if (isWaitingTrigger || nodeConfig.nodeType === 'Execute Workflow') return null;
+    const timeout = this.options.timeout ?? 30000;
+    // Code nodes stop their worker at their own limit (up to a minute), so the engine must not give up first
+    if (nodeConfig.nodeType === 'Code') {
+      return Math.max(timeout, getCodeNodeTimeoutMs(nodeConfig.settings?.general?.timeoutSeconds) + CODE_NODE_STARTUP_GRACE_MS);
+    }
+    return timeout;
+  }
+
+  /**
+   * Run one attempt of a node, stopped after `timeoutMs` (null: no limit).
+   * The attempt gets its own abort signal, aborted when it times out or the run is cancelled.
+   * Notifications from the node are emitted right away; the error it reports is returned to the caller.
+   * @returns The attempt result, the error the executor reported, and a promise that settles once the executor has actually finished
+   */
+  private async runNodeAttempt(
+    node: NodeModel,
+    timeoutMs: number | null,
+    ctx: ExecutionContext = this.executionContext
+  ): Promise<{ result: NodeExecutionResult; reportedError?: NodeNotification; settled: Promise<unknown> }> {
+    const executor = this.getExecutorForNode()!;
+    const attempt = new AbortController();
+    const stopAttempt = () => attempt.abort();
+    this.abortController.signal.addEventListener('abort', stopAttempt, { once: true });
+
+    let reportedError: NodeNotification | undefined;
+    // $node("...") references resolve relative to the node being run
+    const nodeCtx: ExecutionContext = {
+      ...withCurrentNode(ctx, node.id!),
+      abortSignal: attempt.signal,
+      onNodeError: (title: string, message: string) => { reportedError = { level: 'error', title, message }; },
+      onNodeNotification: (notification: NodeNotification) => this.emit({ type: 'notification', ...notification, nodeId: node.id }),
+    };
+    const running: Promise<NodeExecutionResult> = executor.executeNode(node, nodeCtx).catch(error => ({
+      success: false,
+      error: error instanceof Error ? error.message : 'Node execution failed'
+    }));
+
+    const timeout = timeoutMs === null ? null : this.createTimeout(timeoutMs);
+    try {
+      const result = timeout ? await Promise.race([running, timeout.promise]) : await running;
+      if (result === TIMED_OUT) {
+        attempt.abort();
+        return { result: { success: false, error: 'Execution timeout' }, settled: running };
+      }
+      return { result, reportedError, settled: running };
+    } finally {
+      timeout?.clear();
+      this.abortController.signal.removeEventListener('abort', stopAttempt);
+    }
+  }
+
+  // --- Loop handler: runs the branch on Loop's right-top port once per item (or batch), then the 'done' branch
+  private async handleLoopNode(node: NodeModel, ctx: ExecutionContext): Promise<void> {
+    const nodeId = node.id!;
+    const results = ctx.results as Record<string, any>;
+    const out = results[nodeId];
+    const items: any[] = Array.isArray(out?.items) ? out.items : [];
+    const gen = getNodeConfig(node)?.settings?.general ?? {};
+
+    // 1) Update context RIGHT AFTER the loop node executed (default view) — no 'items'
+    results[nodeId] = buildLoopFrame(nodeId, items, 0);
+    this.notifyContextUpdate();
+
+    // 2) Run the body (right-top-port "loop") per item; with no items it is a dead branch for downstream Merge nodes
+    const loopTargets = getTargetsByPort(this.graph, nodeId, 'right-top-port');
+    let outcomes: LoopIterationOutcome[] = [];
+    if (items.length === 0) {
+      await this.skipTargets(loopTargets, nodeId, new Set(), ctx);
+    } else {
+      try {
+        outcomes = gen.parallel
+          ? await this.runParallelIterations(nodeId, items, loopTargets, ctx, toPositiveInt(gen.concurrency, DEFAULT_MAX_CONCURRENCY))
+          : await this.runSequentialIterations(nodeId, items, loopTargets, ctx);
+      } catch (err) {
+        // If we threw because abortController was tripped, stop looping quietly
+        if (this.abortController.signal.aborted) {
+          return;
+        }
+        throw err;
+      }
+    }
+
+    // 3) After the loop, keep the first frame plus the collected outputs of the completed iterations
+    const broken = outcomes.find(o => o.status === 'broken');
+    results[nodeId] = {
+      ...buildLoopFrame(nodeId, items, 0),
+      outputs: outcomes.filter(o => o.status === 'completed').map(o => o.output),
+      iterationCount: outcomes.length,
+      skippedCount: outcomes.filter(o => o.status === 'skipped').length,
+      stoppedEarly: Boolean(broken),
+      breakIndex: broken ? broken.index : null,
+    };
+    const record = this.executionRecord?.nodes[nodeId];
+    if (record) record.output = results[nodeId];
+    this.notifyContextUpdate();
+
+    // 4) Continue the workflow via the 'done' branch connected to right-bottom-port
+    const doneTargets = getTargetsByPort(this.graph, nodeId, 'right-bottom-port');
+    if (items.length > 0) {
+      // Paint 'done' connector now that loop is finished, without clearing earlier painted loop connectors
+      this.emitNodeStatus(nodeId, 'success', { restrictToSourcePortId: 'right-bottom-port', appendConnectorStatus: true });
+    }
+    await this.executeTargets(doneTargets, { sourceId: nodeId }, ctx);
+  }
+
+  /**
+   * Run loop iterations one after another; each sees the outer results, so later iterations overwrite body outputs
+   */
+  private async runSequentialIterations(
+    loopNodeId: string,
+    items: any[],
+    targets: NodeModel[],
+    ctx: ExecutionContext
+  ): Promise<LoopIterationOutcome[]> {
+    const results = ctx.results as Record<string, any>;
+    const outcomes: LoopIterationOutcome[] = [];
+
+    for (let index = 0; index < items.length; index++) {
+      await this.checkExecutionCancelled();
+
+      // Publish the LIVE frame (still no 'items' in context)
+      results[loopNodeId] = buildLoopFrame(loopNodeId, items, index);
+      this.notifyContextUpdate();
+
+      const iteration = this.createLoopIteration(loopNodeId, items, index, ctx);
+      const iterationCtx: ExecutionContext = { ...ctx, __loopIteration: iteration };
+      // Critical: abort whole workflow on first error in this loop
+      await this.executeTargets(targets, { abortOnError: true, sourceId: loopNodeId }, iterationCtx);
+
+      outcomes.push(this.toIterationOutcome(iteration, results));
+      if (iteration.control === 'break') break;
+    }
+    return outcomes;
+  }
+
+  /**
+   * Run up to `limit` loop iterations at once, each on its own copy of the results.
+   * A Break stops iterations that have not started; body outputs are published back in iteration order.
+   */
+  private async runParallelIterations(
+    loopNodeId: string,
+    items: any[],
+    targets: NodeModel[],
+    ctx: ExecutionContext,
+    limit: number
+  ): Promise<LoopIterationOutcome[]> {
+    const shared = ctx.results as Record<string, any>;
+    const before = { ...shared };
+    const runtime = this.getRuntime(ctx);
+    const parentScope = ctx.__scopeKey ?? '';
+    const outcomes: LoopIterationOutcome[] = [];
+    const forks: Array<Record<string, any>> = [];
+    let broken = false;
+
+    const indexes = items.map((_, index) => index);
+    await this.runWithConcurrency(indexes, Math.min(limit, MAX_CONCURRENCY_LIMIT), async index => {
+      if (broken) return;
+      await this.checkExecutionCancelled();
+
+      const iteration = this.createLoopIteration(loopNodeId, items, index, ctx);
+      const results = { ...shared, [loopNodeId]: buildLoopFrame(loopNodeId, items, index) };
+      const iterationCtx: ExecutionContext = {
+        ...ctx,
+        results,
+        __runtime: { mergeInputs: {}, loopItems: { ...runtime.loopItems } },
+        __scopeKey: `${parentScope}/${loopNodeId}#${index}`,
+        __loopIteration: iteration,
+      };
+      // Critical: abort whole workflow on first error in this loop
+      await this.executeTargets(targets, { abortOnError: true, sourceId: loopNodeId }, iterationCtx);
+
+      outcomes[index] = this.toIterationOutcome(iteration, results);
+      forks[index] = results;
+      if (iteration.control === 'break') broken = true;
+    });
+
+    // Same end state as a sequential run: the latest iteration's output wins for each body node
+    forks.forEach(results => {
+      Object.keys(results).forEach(id => {
+        if (id !== loopNodeId && results[id] !== before[id]) shared[id] = results[id];
+      });
+    });
+    return outcomes.filter(Boolean);
+  }
+
+  /**
+   * Scope of one loop iteration, nested under the iteration the Loop node itself runs in (if any)
+   */
+  private createLoopIteration(loopNodeId: string, items: any[], index: number, ctx: ExecutionContext): LoopIterationScope {
+    const loopNodeName = getNodeConfig(this.graph.getObject(loopNodeId) as NodeModel)?.displayName || loopNodeId;
+    return { loopNodeId, loopNodeName, index, count: items.length, item: items[index], control: null, parent: getLoopIteration(ctx) };
+  }
+
+  /**
+   * Outcome of a finished iteration: the last body node's output, unless Break / Continue ended it
+   */
+  private toIterationOutcome(iteration: LoopIterationScope, results: Record<string, any>): LoopIterationOutcome {
+    if (iteration.control) {
+      return { index: iteration.index, status: iteration.control === 'break' ? 'broken' : 'skipped' };
+    }
+    const output = iteration.lastNodeId ? results[iteration.lastNodeId] : undefined;
+    return { index: iteration.index, status: 'completed', output };
+  }
+
+  // IF: traverse only the chosen port (top=true, bottom=false)
+  private async handleIfConditionNode(node: NodeModel, ctx: ExecutionContext): Promise<void> {
+    const out = (ctx.results as Record<string, any>)[node.id!];
+    const isTrue = Boolean(out?.conditionResult);
+
+    const desiredPort = isTrue ? 'right-top-port' : 'right-bottom-port';
+    const skippedPort = isTrue ? 'right-bottom-port' : 'right-top-port';
+    const targets = getTargetsByPort(this.graph, node.id!, desiredPort);
+
+    // Tell downstream Merge nodes that the other branch will never arrive
+    await this.skipTargets(getTargetsByPort(this.graph, node.id!, skippedPort), node.id!, new Set(), ctx);
+    await this.executeTargets(targets, { sourceId: node.id! }, ctx);
+  }
+
+  // SWITCH: traverse only the matched port (or none)
+  private async handleSwitchCaseNode(node: NodeModel, ctx: ExecutionContext): Promise<void> {
+    const out = (ctx.results as Record<string, any>)[node.id!];
+    const portId: string | null = out?.matchedPortId ?? null;
+
+    // Every case port other than the matched one is a dead branch for downstream Merge nodes
+    const skipped = this.graph.connectors
+      .filter(c => c.sourceID === node.id && c.sourcePortID !== portId)
+      .map(c => this.graph.getObject(c.targetID!) as NodeModel);
+    await this.skipTargets(skipped, node.id!, new Set(), ctx);
+
+    if (!portId) return; // no match → stop branch
+
+    const targets = getTargetsByPort(this.graph, node.id!, portId);
+    await this.executeTargets(targets, { sourceId: node.id! }, ctx);
+  }
+
+  // --- Default traversal for non-conditional nodes ---
+  private async handleDefaultTraversal(node: NodeModel, ctx: ExecutionContext): Promise<void> {
+    this.emitNodeStatus(node.id!, 'success');
+    // The error branch of a node that succeeded never runs; downstream Merge nodes must not wait for it
+    await this.skipTargets(getTargetsByPort(this.graph, node.id!, 'error-port'), node.id!, new Set(), ctx);
+    const targets = findConnectedNodes(this.graph, node.id!);
+    await this.executeTargets(targets, { sourceId: node.id! }, ctx);
+  }
+
+  //  execute next nodes (sibling branches run concurrently in parallel mode)
+  private async executeTargets(
+    targets: NodeModel[],
+    opts?: { abortOnError?: boolean; sourceId?: string },
+    ctx: ExecutionContext = this.executionContext
+  ): Promise<void> {
+    const runTarget = async (nxt: NodeModel) => {
+      // Respect global cancellation (user cancel or programmatic abort)
+      await this.checkExecutionCancelled();
+
+      const ok = await this.executeBranchWithErrorHandling(nxt, opts?.sourceId, ctx);
+
+      if (!ok) {
+        // abort the whole workflow immediately when requested
+        if (opts?.abortOnError) {
+          this.abortController.abort();                 // cancels everything in-flight
+        }
+      }
+    };
+
+    if (this.options.executionMode === 'parallel' && targets.length > 1) {
+      await this.runWithConcurrency(targets, this.getMaxConcurrency(), runTarget);
+      return;
+    }
+    for (const nxt of targets) {
+      await runTarget(nxt);
+    }
+  }
+
+  /**
+   * Run items through a pool of at most `limit` concurrent workers; rejects with the first failure once all settle
+   */
+  private async runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    let firstError: unknown = null;
+    const runNext = async (): Promise<void> => {
+      while (next < items.length) {
+        const item = items[next++];
+        try {
+          await worker(item);
+        } catch (error) {
+          if (firstError === null) firstError = error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => runNext()));
+    if (firstError !== null) throw firstError;
+  }
+
+  /**
+   * Sibling branches allowed to run at once in parallel mode
+   */
+  private getMaxConcurrency(): number {
+    const limit = Math.floor(Number(this.options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY));
+    return Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_CONCURRENCY_LIMIT) : DEFAULT_MAX_CONCURRENCY;
+  }
+
+  // --- Error handling: expose the failure as the node output, then continue or follow the error port
+  private async routeNodeFailure(
+    node: NodeModel,
+    result: NodeExecutionResult,
+    mode: 'continue' | 'errorOutput',
+    ctx: ExecutionContext = this.executionContext
+  ): Promise<void> {
+    const nodeId = node.id!;
+    const cfg = getNodeConfig(node);
+    const base = result.data && typeof result.data === 'object' && !Array.isArray(result.data) ? result.data : {};
+    (ctx.results as Record<string, any>)[nodeId] = {
+      ...base,
+      error: {
+        message: result.error || 'Node execution failed',
+        nodeName: cfg?.displayName,
+        nodeType: cfg?.nodeType,
+        failedAt: new Date().toISOString(),
+      },
+    };
+    this.notifyContextUpdate();
+    this.recordNodeEnd(nodeId, 'error', result.error || 'Node execution failed', ctx);
+
+    if (mode === 'continue') {
+      this.emitNodeStatus(nodeId, 'error', { restrictToSourcePortId: 'right-port' });
+      await this.skipTargets(getTargetsByPort(this.graph, nodeId, 'error-port'), nodeId, new Set(), ctx);
+      await this.executeTargets(findConnectedNodes(this.graph, nodeId), { sourceId: nodeId }, ctx);
+      return;
+    }
+
+    this.emitNodeStatus(nodeId, 'error', { restrictToSourcePortId: 'error-port' });
+    await this.skipTargets(findConnectedNodes(this.graph, nodeId), nodeId, new Set(), ctx);
+    await this.executeTargets(getTargetsByPort(this.graph, nodeId, 'error-port'), { sourceId: nodeId }, ctx);
+  }
+
+  // --- Merge: record a branch arrival/skip and decide whether the merge should run now
+  private registerMergeInput(
+    node: NodeModel,
+    sourceId: string,
+    kind: 'arrived' | 'skipped',
+    ctx: ExecutionContext = this.executionContext
+  ): 'execute' | 'wait' | 'skip' {
+    const nodeId = node.id!;
+    const stateKey = this.getScopedKey(ctx, nodeId);
+    const results = ctx.results as Record<string, any>;
+    const expected = getIncomingSourceIds(this.graph, nodeId);
+    let state = this.mergeStates[stateKey];
+    if (!state) {
+      // A parallel Loop iteration starts with the inputs that reached the Merge from outside the loop
+      const parentState = ctx.__scopeKey ? this.mergeStates[this.getParentScopedKey(ctx.__scopeKey, nodeId)] : undefined;
+      state = this.mergeStates[stateKey] = (parentState && this.keepInputsFromOutsideLoop(parentState, ctx)) ?? { arrived: {}, skipped: [], fired: false };
+      // Partial run: inputs outside the range will not run again, so use their cached output (or treat them as skipped)
+      if (this.runScope) {
+        expected.filter(id => !this.runScope!.has(id)).forEach(id => {
+          if (id in results) state.arrived[id] = results[id];
+          else state.skipped.push(id);
+        });
+      }
+    }
+
+    if (kind === 'arrived') {
+      // Snapshot the source output now; loops may overwrite it before the merge fires
+      state.arrived[sourceId] = results[sourceId];
+    } else if (!state.skipped.includes(sourceId)) {
+      state.skipped.push(sourceId);
+    }
+
+    const arrivedIds = expected.filter(id => id in state.arrived);
+    const settled = expected.every(id => id in state.arrived || state.skipped.includes(id));
+    const mode = getNodeConfig(node)?.settings?.general?.mode ?? 'append';
+
+    let decision: 'execute' | 'wait' | 'skip' = 'wait';
+    if (!state.fired && arrivedIds.length > 0 && (mode === 'waitForFirst' || settled)) {
+      decision = 'execute';
+      state.fired = true;
+      this.getRuntime(ctx).mergeInputs[nodeId] = arrivedIds.map(id => ({
+        sourceId: id,
+        sourceName: getNodeConfig(this.graph.getObject(id))?.displayName ?? id,
+        data: state.arrived[id],
+      }));
+    } else if (settled && arrivedIds.length === 0) {
+      decision = 'skip';
+    }
+
+    // Once every input is accounted for, reset so the merge can fire again (e.g. inside a loop body);
+    // inputs from outside the loop arrive only once, so the next iterations keep them
+    if (settled) {
+      const kept = this.keepInputsFromOutsideLoop(state, ctx);
+      if (kept) this.mergeStates[stateKey] = kept;
+      else delete this.mergeStates[stateKey];
+    }
+    return decision;
+  }
+
+  /**
+   * Merge state holding only the inputs from outside the Loop body `ctx` runs in (null outside a loop or when there are none)
+   */
+  private keepInputsFromOutsideLoop(state: MergeState, ctx: ExecutionContext): MergeState | null {
+    const iteration = getLoopIteration(ctx);
+    if (!iteration) return null;
+    const body = new Set([iteration.loopNodeId, ...getDescendantIds(this.graph, iteration.loopNodeId)]);
+    const kept: MergeState = { arrived: {}, skipped: state.skipped.filter(id => !body.has(id)), fired: false };
+    Object.keys(state.arrived).forEach(id => {
+      if (!body.has(id)) kept.arrived[id] = state.arrived[id];
+    });
+    return Object.keys(kept.arrived).length > 0 || kept.skipped.length > 0 ? kept : null;
+  }
+
+  // --- Propagate "branch not taken" downstream so Merge nodes do not wait for it
+  private async skipTargets(
+    targets: NodeModel[],
+    sourceId: string,
+    visited: Set<string> = new Set(),
+    ctx: ExecutionContext = this.executionContext
+  ): Promise<void> {
+    for (const target of targets) {
+      if (!target?.id) continue;
+      const cfg = getNodeConfig(target);
+
+      if (cfg && isMergeNode(cfg)) {
+        const decision = this.registerMergeInput(target, sourceId, 'skipped', ctx);
+        if (decision === 'execute') {
+          // Inputs are already registered; run the merge and its tail directly
+          await this.executeBranchWithErrorHandling(target, undefined, ctx);
+        } else if (decision === 'skip') {
+          await this.skipTargets(getAllOutgoingTargets(this.graph, target.id), target.id, visited, ctx);
+        }
+        continue;
+      }
+
+      if (visited.has(target.id)) continue;
+      visited.add(target.id);
+      await this.skipTargets(getAllOutgoingTargets(this.graph, target.id), target.id, visited, ctx);
+    }
+  }
+
+  // success status for single-node runs ---
+  private emitSingleNodeSuccess(node: NodeModel): void {
+    const cfg = getNodeConfig(node);
+    if (!cfg) return;
+
+    if (isIfConditionNode(cfg)) {
+      // Read outcome set by the IF executor
+      const out = (this.executionContext.results as Record<string, any>)[node.id!];
+      const isTrue = Boolean(out?.conditionResult);
+      const portId = isTrue ? 'right-top-port' : 'right-bottom-port';
+      // Paint ONLY the chosen connector (like your branch logic)
+      this.emitNodeStatus(node.id!, 'success', { restrictToSourcePortId: portId });
+      return;
+    }
+
+    if (isSwitchNode(cfg)) {
+      const out = (this.executionContext.results as Record<string, any>)[node.id!];
+      const portId: string | null = out?.matchedPortId ?? null;
+      this.emitNodeStatus(node.id!, 'success', portId ? { restrictToSourcePortId: portId } : undefined);
+      return;
+    }
+
+    // Default: just mark the node as success
+    this.emitNodeStatus(node.id!, 'success');
+  }
+
+  /**
+   * Execute ONLY the selected node (no upstream/downstream traversal).
+   */
+  public async executeSingleNode(nodeId: string): Promise<{ success: boolean; error?: string; output?: any }> {
+    try {
+      const node = this.graph.getObject(nodeId) as NodeModel | null;
+      if (!node) return { success: false, error: `Node ${nodeId} not found` };
+
+      this.attachRunContext();
+
+      // Paint "running" for the node only (no connectors).
+      this.emitNodeStatus(nodeId, 'running');
+
+      // Reuse the existing node execution (same timeout & error path as full run).
+      const result = await this.executeNodeWithTimeout(node);
+
+      if (!result.success) {
+        // Mirror your existing error handling for a single node
+        this.handleNodeError(nodeId, result.error);
+        return { success: false, error: result.error };
+      }
+
+      // On success, paint like in executeBranch (IF/Switch painting; else just success)
+      this.emitSingleNodeSuccess(node);
+
+      // Notify consumers (variable picker / side panels) that context changed
+      this.notifyContextUpdate();
+
+      return { success: true, output: result.data };
+    } catch (err: any) {
+      const message = err?.message ?? String(err);
+      this.handleNodeError(nodeId, message);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Get appropriate executor for node type
+   */
+  private getExecutorForNode() {
+    // In client-only mode always use the registered client executor
+    return globalExecutorRegistry.getExecutor('client');
+  }
+
+  /**
+   * Update node execution status
+   */
+  private updateNodeExecutionStatus(nodeId: string, ctx: ExecutionContext = this.executionContext) {
+    this.emitNodeStatus(nodeId, 'running');
+    this.executionStatus.currentNodeId = nodeId;
+    this.executionStatus.executionPath.push(nodeId);
+    this.recordNodeStart(nodeId, ctx);
+  }
+
+  /**
+   * Pause before a node until the user continues, steps over or stops the run
+   */
+  private async waitAtBreakpoint(node: NodeModel): Promise<void> {
+    const nodeId = node.id;
+    const cfg = getNodeConfig(node);
+    if (!nodeId || !(cfg?.breakpoint || this.stepMode)) return;
+    // Sub-workflows run unattended; their breakpoints apply only when the project itself is debugged
+    if (this.options.subWorkflow) return;
+
+    const action = await new Promise<DebugAction>(resolve => {
+      const signal = this.abortController.signal;
+      const entry = {
+        nodeId,
+        resume: (next: DebugAction) => {
+          signal.removeEventListener('abort', onAbort);
+          this.emit({ type: 'node-paused', nodeId, paused: false });
+          resolve(next);
+        }
+      };
+      // Stopping the run releases the pause; checkExecutionCancelled below ends the branch
+      const onAbort = () => {
+        this.pausedNodes = this.pausedNodes.filter(p => p !== entry);
+        entry.resume('continue');
+        this.notifyPauseChange();
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.pausedNodes.push(entry);
+      this.emit({ type: 'node-paused', nodeId, paused: true });
+      this.notifyPauseChange();
+    });
+
+    this.stepMode = action === 'step';
+    await this.checkExecutionCancelled();
+  }
+
+  /**
+   * Resume the first paused branch
+   */
+  private resumePaused(action: DebugAction) {
+    const paused = this.pausedNodes.shift();
+    if (!paused) return;
+    paused.resume(action);
+    this.notifyPauseChange();
+  }
+
+  /**
+   * Check if execution was cancelled
+   */
+  private async checkExecutionCancelled() {
+    if (this.abortController.signal.aborted) {
+      throw new Error('Execution cancelled');
+    }
+  }
+
+  /**
+   * Create the node execution timeout; resolves with TIMED_OUT unless cleared first
+   */
+  private createTimeout(timeoutMs: number): { promise: Promise<typeof TIMED_OUT>; clear: () => void } {
+    let timer: ReturnType<typeof setTimeout>;
+    const promise = new Promise<typeof TIMED_OUT>(resolve => {
+      timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs);
+    });
+    return { promise, clear: () => clearTimeout(timer) };
+  }
+
+  /**
+   * Wait between retry attempts; resolves early when execution is cancelled
+   */
+  private waitForRetry(delayMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const signal = this.abortController.signal;
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Handle node execution error
+   */
+  private handleNodeError(nodeId: string, error: unknown, ctx: ExecutionContext = this.executionContext) {
+    // Ignore cancellation signals caused by Stop/Do Nothing
+    const msg = error instanceof Error ? error.message : String(error);
+    if (this.abortController.signal.aborted && msg === 'Execution cancelled') {
+      return;
+    }
+    console.error(`Error executing node ${nodeId}:`, error);
+    this.emitNodeStatus(nodeId, 'error');
+    this.executionStatus.error = error instanceof Error ? error.message : 'Unknown error';
+    this.recordNodeEnd(nodeId, 'error', this.executionStatus.error, ctx);
+  }
+
+  /**
+   * Start a new run record for the history
+   */
+  private startExecutionRecord() {
+    this.executionRecord = {
+      id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      status: 'success',
+      startedAt: new Date().toISOString(),
+      executionPath: [],
+      nodes: {}
+    };
+  }
+
+  /**
+   * Record that a node started, capturing the outputs of its direct upstream nodes as input
+   */
+  private recordNodeStart(nodeId: string, ctx: ExecutionContext = this.executionContext) {
+    const cfg = getNodeConfig(this.graph?.getObject(nodeId) as NodeModel);
+    if (!cfg) return;
+    this.eventBus.emit('node:started', { nodeId, nodeName: cfg.displayName || nodeId, nodeType: cfg.nodeType });
+    if (!this.executionRecord) return;
+    const results = ctx.results as Record<string, any>;
+    const input: Record<string, any> = {};
+    getIncomingSourceIds(this.graph, nodeId).forEach(sourceId => {
+      if (!(sourceId in results)) return;
+      const sourceCfg = getNodeConfig(this.graph?.getObject(sourceId) as NodeModel);
+      input[sourceCfg?.displayName || sourceId] = results[sourceId];
+    });
+
+    const previous = this.executionRecord.nodes[nodeId];
+    this.executionRecord.nodes[nodeId] = {
+      nodeId,
+      nodeName: cfg.displayName || nodeId,
+      nodeType: cfg.nodeType,
+      status: 'running',
+      input,
+      startedAt: new Date().toISOString(),
+      runCount: (previous?.runCount ?? 0) + 1
+    };
+  }
+
+  /**
+   * Record the outcome of a node (latest run wins for nodes executed multiple times)
+   */
+  private recordNodeEnd(nodeId: string, status: 'success' | 'error', error?: string, ctx: ExecutionContext = this.executionContext) {
+    const entry: NodeExecutionRecord | undefined = this.executionRecord?.nodes[nodeId];
+    if (!this.executionRecord || !entry) return;
+    const endedAt = new Date();
+    entry.status = status;
+    entry.output = (ctx.results as Record<string, any>)[nodeId];
+    entry.error = error;
+    entry.endedAt = endedAt.toISOString();
+    entry.durationMs = entry.startedAt ? endedAt.getTime() - new Date(entry.startedAt).getTime() : undefined;
+
+    const { nodeName, nodeType, output, durationMs } = entry;
+    if (status === 'success') {
+      this.eventBus.emit('node:finished', { nodeId, nodeName, nodeType, output, durationMs });
+    } else {
+      this.eventBus.emit('node:failed', { nodeId, nodeName, nodeType, error: error || 'Node execution failed', durationMs });
+    }
+
+    const cfg = getNodeConfig(this.graph?.getObject(nodeId) as NodeModel);
+    if (cfg?.category === 'trigger' && !this.executionRecord.triggerNodeId) {
+      this.executionRecord.triggerNodeId = nodeId;
+      this.executionRecord.triggerPayload = entry.output;
+    }
+  }
+
+  /**
+   * Finalize the run record and hand it to subscribers
+   */
+  private finishExecutionRecord(success: boolean) {
+    const record = this.executionRecord;
+    this.executionRecord = null;
+    if (!record || Object.keys(record.nodes).length === 0) return;
+
+    const endedAt = new Date();
+    const cancelled = this.executionStatus.error === 'Execution cancelled by user';
+    record.status = success ? 'success' : cancelled ? 'cancelled' : 'error';
+    record.error = success ? undefined : this.executionStatus.error;
+    record.endedAt = endedAt.toISOString();
+    record.durationMs = endedAt.getTime() - new Date(record.startedAt).getTime();
+    record.executionPath = [...this.executionStatus.executionPath];
+
+    // Nodes still running at this point were interrupted (cancelled or aborted by a Stop node)
+    Object.values(record.nodes).forEach(entry => {
+      if (entry.status === 'running') entry.status = 'idle';
+    });
+
+    this.emit({ type: 'finished', record });
+    this.eventBus.emit('run:completed', { record });
+  }
+
+  /**
+   * Handle workflow execution error
+   */
+  private handleExecutionError(error: unknown) {
+    console.error('Workflow execution failed:', error);
+    this.notify('error', 
+      'Execution Failed',
+      error instanceof Error ? error.message : 'Unknown error occurred'
+    );
+  }
+
+  /**
+   * Clean up after execution
+   */
+  private cleanupExecution() {
+    this.executionStatus.isExecuting = false;
+    this.executionStatus.currentNodeId = undefined;
+    // Ensure any waiting banner is cleared when execution finishes
+    this.eventBus.emit('trigger:clear');
+  }
+
+  /**
+   * Reset execution state
+   */
+  private resetExecution() {
+    this.executionStatus = {
+      isExecuting: false,
+      executionPath: []
+    };
+    this.executionContext = {
+      variables: {},
+      results: {},
+      logs: {}
+    };
+    this.mergeStates = {};
+    this.nodeLocks = {};
+    this.pausedNodes = [];
+    this.stepMode = false;
+    this.emit({ type: 'reset' });
+    
+    // Notify context reset
+    this.notifyContextUpdate();
+  }
+
+  /**
+   * Get current execution status
+   */
+  getExecutionStatus(): WorkflowExecutionStatus {
+    return { ...this.executionStatus };
+  }
+
+  /**
+   * Get execution results
+   */
+  getExecutionContext(): ExecutionContext {
+    // Copy the results too: concurrent branches keep writing to the live object after a snapshot is taken
+    return { ...this.executionContext, results: { ...this.executionContext.results }, logs: { ...this.executionContext.logs } };
+  }
+
+  /**
+   * Subscribe to engine events (status, context, pauses, notifications, finished runs)
+   * @returns Function that removes the listener
+   */
+  private listeners: Array<(event: WorkflowEngineEvent) => void> = [];
+
+  subscribe(listener: (event: WorkflowEngineEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit(event: WorkflowEngineEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private emitNodeStatus(nodeId: string, status: NodeStatus, opts?: { restrictToSourcePortId?: string; appendConnectorStatus?: boolean }): void {
+    this.emit({ type: 'node-status', nodeId, status, ...opts });
+  }
+
+  private notify(level: 'success' | 'error', title: string, message: string): void {
+    this.emit({ type: 'notification', level, title, message });
+  }
+
+  private notifyContextUpdate(): void {
+    this.emit({ type: 'context', context: this.getExecutionContext() });
+  }
+
+  private notifyPauseChange(): void {
+    const nodeId = this.pausedNodes[0]?.nodeId ?? null;
+    this.executionStatus.pausedNodeId = nodeId ?? undefined;
+    this.emit({ type: 'pause-change', nodeId });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // Clear all subscriptions
+    this.listeners = [];
+    
+    // Stop any ongoing execution (silent to avoid notifications during unmount/navigation)
+    if (this.executionStatus.isExecuting) {
+      this.stopExecution(true);
+    }
+  }
+
+  /**
+   * Debugger: resume a paused run until the next breakpoint
+   */
+  continueExecution() {
+    this.stepMode = false;
+    this.resumePaused('continue');
+  }
+
+  /**
+   * Debugger: execute the paused node and pause again before the next one
+   */
+  stepOver() {
+    this.resumePaused('step');
+  }
+
+  /**
+   * Stop the current execution
+   */
+  stopExecution(silent?: boolean) {
+    if (!this.executionStatus.isExecuting) return;
+
+    this.abortController.abort();
+    this.emit({ type: 'reset' });
+    
+    this.executionStatus.isExecuting = false;
+    this.executionStatus.error = 'Execution cancelled by user';
+
+    // Only show toast when not in silent mode
+    if (!silent) {
+      this.notify('error', 'Execution Cancelled', 'Workflow execution was cancelled');
+    }
+
+    // Clear any waiting banner on cancel
+    this.eventBus.emit('trigger:clear');
+  }
+}
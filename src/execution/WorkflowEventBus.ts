@@ -0,0 +1,62 @@
+import { ExecutionContext, WorkflowEventArgs, WorkflowEventBus, WorkflowEventHandler, WorkflowEventName } from '../types';
+
+/**
+ * In-memory implementation of the typed workflow event bus (see WorkflowEventMap for the catalog).
+ * Handlers run synchronously in subscription order; a throwing handler does not stop the others.
+ */
+export class DefaultWorkflowEventBus implements WorkflowEventBus {
+  private handlers: Map<WorkflowEventName, Array<(payload: any) => void>> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the handler
+   */
+  on<K extends WorkflowEventName>(name: K, handler: WorkflowEventHandler<K>): () => void {
+    const list = this.handlers.get(name) ?? [];
+    this.handlers.set(name, [...list, handler]);
+    return () => {
+      this.handlers.set(name, (this.handlers.get(name) ?? []).filter(h => h !== handler));
+    };
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends WorkflowEventName>(name: K, handler: WorkflowEventHandler<K>): () => void {
+    const off = this.on(name, (payload) => {
+      off();
+      handler(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Publish an event to every current subscriber
+   */
+  emit<K extends WorkflowEventName>(name: K, ...args: WorkflowEventArgs<K>): void {
+    const payload = args[0];
+    (this.handlers.get(name) ?? []).forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Workflow event handler for "${name}" failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Remove every subscription
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
+
+// Shared bus used when no run-specific bus is available (e.g. components outside an editor)
+export const globalWorkflowEventBus = new DefaultWorkflowEventBus();
+
+/**
+ * Bus of the run an executor is part of (the engine stores it on the execution context)
+ */
+export const getWorkflowEventBus = (context?: ExecutionContext): WorkflowEventBus =>
+  context?.eventBus ?? globalWorkflowEventBus;
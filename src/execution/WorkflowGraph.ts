@@ -0,0 +1,70 @@
+import { NodeModel } from '@syncfusion/ej2-diagrams';
+import { NodeConfig, WorkflowGraphSource, WorkflowModel } from '../types';
+
+type GraphConnector = WorkflowGraphSource['connectors'][number];
+
+/**
+ * Plain, DOM-free workflow graph used by the headless engine.
+ * Nodes keep the diagram shape (`addInfo.nodeConfig`) so executors and graph helpers work unchanged.
+ */
+export class WorkflowGraph implements WorkflowGraphSource {
+  nodes: NodeModel[];
+  connectors: GraphConnector[];
+  private index: Record<string, any> = {};
+
+  constructor(nodes: NodeModel[], connectors: GraphConnector[]) {
+    this.nodes = nodes;
+    this.connectors = connectors;
+    [...nodes, ...connectors].forEach((item: any) => {
+      if (item?.id) this.index[item.id] = item;
+    });
+  }
+
+  /**
+   * Build a graph from a serialized diagram (WorkflowData.diagramString)
+   */
+  static fromDiagramString(diagramString: string): WorkflowGraph {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(diagramString);
+    } catch {
+      throw new Error('Invalid diagram string: expected serialized diagram JSON');
+    }
+    // Only workflow nodes take part in execution (sticky notes have no nodeConfig)
+    const nodes: NodeModel[] = (Array.isArray(parsed?.nodes) ? parsed.nodes : [])
+      .filter((n: any) => n?.id && n?.addInfo?.nodeConfig)
+      .map((n: any) => ({ id: n.id, addInfo: n.addInfo }));
+    const connectors: GraphConnector[] = (Array.isArray(parsed?.connectors) ? parsed.connectors : [])
+      .filter((c: any) => c?.sourceID && c?.targetID)
+      .map((c: any) => ({
+        id: c.id,
+        sourceID: c.sourceID,
+        targetID: c.targetID,
+        sourcePortID: c.sourcePortID,
+        targetPortID: c.targetPortID,
+      }));
+    return new WorkflowGraph(nodes, connectors);
+  }
+
+  /**
+   * Build a graph from a plain node/edge model
+   */
+  static fromModel(model: WorkflowModel): WorkflowGraph {
+    const nodes: NodeModel[] = model.nodes.map(n => ({
+      id: n.id,
+      addInfo: { nodeConfig: { ...n.config, id: n.id } as NodeConfig },
+    }));
+    const connectors: GraphConnector[] = model.edges.map((e, i) => ({
+      id: e.id ?? `edge-${i}`,
+      sourceID: e.source,
+      targetID: e.target,
+      sourcePortID: e.sourcePort ?? 'right-port',
+      targetPortID: e.targetPort ?? 'left-port',
+    }));
+    return new WorkflowGraph(nodes, connectors);
+  }
+
+  getObject(id: string): any {
+    return this.index[id];
+  }
+}
@@ -1,11 +1,23 @@
-import { ExecutionContext, NodeConfig, NodeExecutionResult } from '../../types';
+import { ConvertOperation, DateTimeOperation, EditFieldAssignment, ExecutionContext, NodeConfig, NodeExecutionResult } from '../../types';
 import { NodeModel } from '@syncfusion/ej2-react-diagrams';
-import { showErrorToast, showToast } from '../../components/Toast';
-import { resolveTemplate } from '../../utilities/expression';
+import { evaluateTemplate, prepareHtmlTemplate, resolveTemplate, stringifyExpressionValue } from '../../utilities/expression';
 import { createDocxFromHtml, appendHtmlToDocx, downloadBlob } from '../../utilities/wordExecutionUtils';
+import { getWorkflowEventBus } from '../WorkflowEventBus';
+import { reportNodeError, showNodeNotification } from '../BaseExecutors';
+import { resolveValue } from '../../utilities/conditionUtils';
+import { coerceWorkflowFieldValue, getSubWorkflowCall } from '../../utilities/subWorkflowUtils';
+import { DEFAULT_DATE_TIME_FORMAT, MAX_SUB_WORKFLOW_DEPTH } from '../../constants';
+import WorkflowProjectService from '../../services/WorkflowProjectService';
+import { getCodeNodeTimeoutMs, runSandboxedCode } from '../../utilities/codeSandbox';
+import { getAncestorIds, getIncomingSourceIds } from '../../utilities/graphUtils';
+import { getNodeConfig } from '../../utilities/nodeUtils';
+import { getLoopExpressionScope } from '../../utilities/loopUtils';
+import { setValueAtPath } from '../../utilities/objectPathUtils';
+import { addBusinessDays, addToDate, diffBusinessDays, diffDates, formatDate, getZonedParts, isValidTimeZone, parseDate, roundDate, toDateValue } from '../../utilities/dateUtils';
+import { jsonToXml, parseCsv, toCsv, toHtmlTable, xmlToJson } from '../../utilities/convertUtils';
 
 export async function executeActionCategory(
-  _node: NodeModel,
+  node: NodeModel,
   nodeConfig: NodeConfig,
   context: ExecutionContext
 ): Promise<NodeExecutionResult> {
@@ -18,6 +30,18 @@ export async function executeActionCategory(
       return executeExcelNode(nodeConfig, context);
     case 'Notify':
       return executeNotifyNode(nodeConfig, context);
+    case 'Execute Workflow':
+      return executeSubWorkflowNode(nodeConfig, context);
+    case 'Workflow Output':
+      return executeWorkflowOutputNode(nodeConfig, context);
+    case 'Code':
+      return executeCodeNode(node, nodeConfig, context);
+    case 'Edit Fields':
+      return executeEditFieldsNode(node, nodeConfig, context);
+    case 'Date & Time':
+      return executeDateTimeNode(nodeConfig, context);
+    case 'Convert':
+      return executeConvertNode(nodeConfig, context);
 
     default:
       return { success: false, error: `Unsupported trigger node type: ${nodeConfig.nodeType}` };
@@ -31,7 +55,7 @@ async function executeWordNode(nodeConfig: NodeConfig, context: ExecutionContext
     const op = String(gen.operation ?? '').trim();
 
     // Validate configuration
-    const validation = validateWordConfig(gen);
+    const validation = validateWordConfig(gen, context);
     if (!validation.valid) {
       return { success: false, error: validation.error };
     }
@@ -54,7 +78,7 @@ async function executeWordNode(nodeConfig: NodeConfig, context: ExecutionContext
 
       default: {
         const msg = 'Word: Unsupported or missing operation.';
-        showErrorToast('Word: Operation error', msg);
+        reportNodeError(context, 'Word: Operation error', msg);
         return { success: false, error: msg };
       }
     }
@@ -75,19 +99,15 @@ async function executeNotifyNode(nodeConfig: NodeConfig, context: ExecutionConte
   const title = resolveTemplate(rawTitle, { context });
   const content = resolveTemplate(rawMessage, { context });
 
-  // Show toast using modern variant
-  showToast({ id: `notify-${Date.now()}`, title, content, type: rawType, variant: 'notification' });
-
-  // Sound cue
-  const { playNotificationSound } = await import('../../utilities/soundUtils');
-  playNotificationSound(rawType);
+  // Shown by the canvas as a notification toast with its sound cue
+  showNodeNotification(context, { level: rawType, title, message: content, variant: 'notification' });
 
   const out: NodeExecutionResult = { success: true, data: { shown: true, title, content, type: rawType, variant: 'notification' } };
   try {
     const raw = String((nodeConfig.settings as any)?.general?.chatResponse ?? '').trim();
     const inputResolvedValue = raw ? resolveTemplate(raw, { context }) : '';
-    if (typeof window !== 'undefined' && inputResolvedValue) {
-      window.dispatchEvent(new CustomEvent('wf:chat:assistant-response', { detail: { text: inputResolvedValue, triggeredFrom:'Notify Node' } }));
+    if (inputResolvedValue) {
+      getWorkflowEventBus(context).emit('chat:assistant-response', { text: inputResolvedValue, triggeredFrom: 'Notify Node' });
     }
   } catch {}
   return out;
@@ -100,7 +120,7 @@ async function executeExcelNode(nodeConfig: NodeConfig, context: ExecutionContex
     const op = String(gen.operation ?? '').trim();
 
     // Validate configuration
-    const validation = validateExcelConfig(gen);
+    const validation = validateExcelConfig(gen, context);
     if (!validation.valid) {
       return { success: false, error: validation.error };
     }
@@ -137,7 +157,7 @@ async function executeExcelNode(nodeConfig: NodeConfig, context: ExecutionContex
 
       default: {
         const msg = 'Excel: Unsupported or missing operation.';
-        showErrorToast('Excel: Operation error', msg);
+        reportNodeError(context, 'Excel: Operation error', msg);
         return { success: false, error: msg };
       }
     }
@@ -169,19 +189,334 @@ async function executeHttpRequestNode(nodeConfig: NodeConfig, context: Execution
     return await executeHttpFetch(urlObj, method, headersResult.data, qpArray, context);
   } catch (err: any) {
     const message = (err?.message ?? `${err}`)?.toString();
-    showErrorToast('HTTP Request Failed', message);
+    reportNodeError(context, 'HTTP Request Failed', message);
     return { success: false, error: message };
   }
 }
 
+// ---------------- Execute Workflow ----------------
+async function executeSubWorkflowNode(nodeConfig: NodeConfig, context: ExecutionContext): Promise<NodeExecutionResult> {
+  const gen = (nodeConfig.settings?.general ?? {}) as any;
+  const projectId = String(gen.projectId ?? '').trim();
+  if (!projectId) {
+    const msg = 'Execute Workflow: Please select the workflow to run.';
+    reportNodeError(context, 'Execute Workflow: No workflow selected', msg);
+    return { success: false, error: msg };
+  }
+
+  const project = WorkflowProjectService.getProjectById(projectId);
+  if (!project?.workflowData?.diagramString) {
+    const msg = 'Execute Workflow: The selected workflow no longer exists or has not been saved yet.';
+    reportNodeError(context, 'Execute Workflow: Workflow not found', msg);
+    return { success: false, error: msg };
+  }
+
+  // Recursion protection: a workflow may not call itself (directly or through others), and nesting is capped
+  const call = getSubWorkflowCall(context);
+  const callStack = call?.callStack ?? (context.projectId ? [context.projectId] : []);
+  const depth = (call?.depth ?? 0) + 1;
+  if (callStack.includes(projectId)) {
+    const msg = `Execute Workflow: "${project.name}" is already running in this call chain (recursive call).`;
+    reportNodeError(context, 'Execute Workflow: Recursive call', msg);
+    return { success: false, error: msg };
+  }
+  if (depth > MAX_SUB_WORKFLOW_DEPTH) {
+    const msg = `Execute Workflow: Sub-workflows can be nested at most ${MAX_SUB_WORKFLOW_DEPTH} levels deep.`;
+    reportNodeError(context, 'Execute Workflow: Too many nested calls', msg);
+    return { success: false, error: msg };
+  }
+
+  const input = resolveSubWorkflowInput(gen, context);
+
+  // Loaded lazily: the engine imports the executors, so a static import would be circular
+  const { WorkflowEngine } = await import('../WorkflowEngine');
+  let engine: InstanceType<typeof WorkflowEngine>;
+  try {
+    engine = WorkflowEngine.fromDiagramString(project.workflowData.diagramString, {
+      projectId,
+      subWorkflow: { input, callStack: [...callStack, projectId], depth },
+      // The called workflow runs with its own execution settings
+      executionMode: project.diagramSettings?.executionMode,
+      maxConcurrency: project.diagramSettings?.maxConcurrency,
+    });
+  } catch (err: any) {
+    const msg = `Execute Workflow: ${err?.message ?? err}`;
+    reportNodeError(context, 'Execute Workflow: Invalid workflow', msg);
+    return { success: false, error: msg };
+  }
+
+  // Cancelling (or stopping) the calling run cancels the sub-workflow as well
+  const signal = context.abortSignal;
+  const onAbort = () => engine.stopExecution(true);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  // Messages from the called workflow's nodes reach the user through this node; its own run notices do not
+  const unsubscribe = engine.subscribe(event => {
+    if (event.type === 'notification' && event.nodeId) {
+      showNodeNotification(context, { level: event.level, title: event.title, message: event.message, variant: event.variant });
+    }
+  });
+  try {
+    const run = await engine.executeAsSubWorkflow();
+    if (!run.success) {
+      return { success: false, error: `Execute Workflow: "${project.name}" failed: ${run.error}` };
+    }
+    return { success: true, data: run.output };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    unsubscribe();
+    engine.cleanup();
+  }
+}
+
+// ---------------- Workflow Output ----------------
+function executeWorkflowOutputNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = (nodeConfig.settings?.general ?? {}) as any;
+  const rows: Array<{ name?: string; value?: string }> = Array.isArray(gen.outputFields) ? gen.outputFields : [];
+
+  const data: Record<string, any> = {};
+  rows.forEach(row => {
+    const name = String(row?.name ?? '').trim();
+    if (name) data[name] = resolveValue(String(row?.value ?? ''), context);
+  });
+  return { success: true, data };
+}
+
+// ---------------- Code ----------------
+async function executeCodeNode(node: NodeModel, nodeConfig: NodeConfig, context: ExecutionContext): Promise<NodeExecutionResult> {
+  const gen = (nodeConfig.settings?.general ?? {}) as any;
+  const code = String(gen.code ?? '');
+  if (!code.trim()) {
+    const msg = 'Code: Please write the code to run.';
+    reportNodeError(context, 'Code: No code', msg);
+    return { success: false, error: msg };
+  }
+
+  const nodeId = node.id!;
+  const { globals, nodes, ambiguousNodes } = getCodeNodeInputs(nodeId, context);
+  const run = await runSandboxedCode({
+    code,
+    language: gen.language === 'typescript' ? 'typescript' : 'javascript',
+    globals,
+    nodes,
+    ambiguousNodes,
+    timeoutMs: getCodeNodeTimeoutMs(gen.timeoutSeconds),
+    signal: context.abortSignal,
+  });
+
+  // Console output is kept next to the results (latest run of the node) for the Output tab
+  if (context.logs) context.logs[nodeId] = run.logs;
+
+  if (!run.success) {
+    return { success: false, error: run.error };
+  }
+  return { success: true, data: run.value };
+}
+
+// ---------------- Edit Fields ----------------
+function executeEditFieldsNode(node: NodeModel, nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = (nodeConfig.settings?.general ?? {}) as any;
+  const rows: EditFieldAssignment[] = Array.isArray(gen.fields) ? gen.fields : [];
+  const dotNotation = gen.dotNotation !== false;
+
+  // Keeping the incoming fields starts from a copy of the previous node's output (objects only)
+  const input = getDirectInput(node.id!, context);
+  const data: Record<string, any> = gen.includeInput && isPlainObject(input) ? JSON.parse(JSON.stringify(input)) : {};
+
+  for (const row of rows) {
+    const name = String(row?.name ?? '').trim();
+    if (!name) continue;
+    const type = row?.type ?? 'any';
+    const raw = String(row?.value ?? '');
+
+    // An empty value sets an empty string, or null for the other declared types
+    let value: any = raw.trim() === '' ? (type === 'string' || type === 'any' ? '' : null) : resolveValue(raw, context);
+    const coerced = coerceWorkflowFieldValue(value, type);
+    if (coerced.error) {
+      const msg = `Edit Fields: "${name}" ${coerced.error}.`;
+      reportNodeError(context, 'Edit Fields: Invalid value', msg);
+      return { success: false, error: msg };
+    }
+    value = coerced.value;
+
+    try {
+      setValueAtPath(data, name, value, dotNotation);
+    } catch (err: any) {
+      const msg = `Edit Fields: ${err?.message ?? err}.`;
+      reportNodeError(context, 'Edit Fields: Invalid field name', msg);
+      return { success: false, error: msg };
+    }
+  }
+  return { success: true, data };
+}
+
+// ---------------- Date & Time ----------------
+function executeDateTimeNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = (nodeConfig.settings?.general ?? {}) as any;
+  const operation: DateTimeOperation = gen.operation ?? 'format';
+  const fail = (title: string, msg: string): NodeExecutionResult => {
+    reportNodeError(context, `Date & Time: ${title}`, `Date & Time: ${msg}`);
+    return { success: false, error: `Date & Time: ${msg}` };
+  };
+
+  // Empty time zone fields use the browser's zone
+  const timeZone = String(gen.timeZone ?? '').trim() || undefined;
+  const toTimeZone = String(gen.toTimeZone ?? '').trim() || undefined;
+  for (const zone of [timeZone, operation === 'convertTimeZone' ? toTimeZone : undefined]) {
+    if (zone && !isValidTimeZone(zone)) return fail('Invalid time zone', `"${zone}" is not a known IANA time zone (e.g. Europe/Berlin).`);
+  }
+  if (operation === 'convertTimeZone' && !toTimeZone) return fail('Missing time zone', 'Choose the time zone to convert to.');
+
+  try {
+    const inputFormat = String(gen.inputFormat ?? '').trim();
+    const date = readDateInput(gen.value, 'Date', inputFormat, timeZone, context);
+
+    if (operation === 'difference') {
+      const end = readDateInput(gen.endValue, 'End date', inputFormat, timeZone, context);
+      const unit = String(gen.unit || 'days');
+      const difference = unit === 'businessDays' ? diffBusinessDays(date, end, timeZone) : diffDates(date, end, unit, timeZone);
+      return {
+        success: true,
+        data: { difference, unit, start: formatDate(date, 'iso', timeZone), end: formatDate(end, 'iso', timeZone) },
+      };
+    }
+
+    let result = date;
+    switch (operation) {
+      case 'add':
+      case 'subtract': {
+        const rawAmount = resolveValue(String(gen.amount ?? ''), context);
+        const amount = String(rawAmount ?? '').trim() === '' ? NaN : Number(rawAmount);
+        if (!Number.isFinite(amount)) return fail('Invalid amount', `"${rawAmount ?? ''}" is not a number.`);
+        const signed = operation === 'subtract' ? -amount : amount;
+        const unit = String(gen.unit || 'days');
+        result = unit === 'businessDays' ? addBusinessDays(date, signed, timeZone) : addToDate(date, signed, unit, timeZone);
+        break;
+      }
+      case 'round':
+        result = roundDate(date, gen.roundEdge === 'end' ? 'end' : 'start', String(gen.roundUnit || 'days'), timeZone);
+        break;
+    }
+
+    const outputZone = operation === 'convertTimeZone' ? toTimeZone : timeZone;
+    return { success: true, data: describeDate(result, String(gen.outputFormat ?? '').trim() || DEFAULT_DATE_TIME_FORMAT, outputZone) };
+  } catch (err: any) {
+    return fail('Failed', `${err?.message ?? err}.`);
+  }
+}
+
+// ---------------- Convert ----------------
+function executeConvertNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = (nodeConfig.settings?.general ?? {}) as any;
+  const operation: ConvertOperation = gen.operation ?? 'csvToJson';
+  const fail = (title: string, msg: string): NodeExecutionResult => {
+    reportNodeError(context, `Convert: ${title}`, `Convert: ${msg}`);
+    return { success: false, error: `Convert: ${msg}` };
+  };
+
+  const inputExpr = String(gen.input ?? '').trim();
+  if (!inputExpr) return fail('Missing input', 'Please provide the value to convert.');
+  const input = resolveValue(inputExpr, context);
+  if (input === undefined || input === null) return fail('Missing input', `"${inputExpr}" has no value.`);
+
+  const csvOptions = { delimiter: gen.delimiter, header: gen.header !== false, quote: gen.quote, quoteAll: !!gen.quoteAll };
+  const pretty = gen.pretty !== false;
+
+  try {
+    switch (operation) {
+      case 'csvToJson': {
+        if (typeof input !== 'string') return fail('Invalid input', `CSV input must be text. Got ${describeType(input)}.`);
+        const { rows, columns } = parseCsv(input, csvOptions);
+        return { success: true, data: { items: rows, count: rows.length, columns } };
+      }
+      case 'xmlToJson':
+        if (typeof input !== 'string') return fail('Invalid input', `XML input must be text. Got ${describeType(input)}.`);
+        return { success: true, data: { data: xmlToJson(input) } };
+      case 'parseJson':
+        // Values that are already objects (e.g. parsed HTTP responses) pass through
+        return { success: true, data: { data: typeof input === 'string' ? JSON.parse(input) : input } };
+      case 'stringifyJson':
+        return { success: true, data: { json: JSON.stringify(input, null, pretty ? 2 : undefined) } };
+      case 'jsonToXml':
+        return { success: true, data: { xml: jsonToXml(readJsonInput(input), { rootName: gen.rootName, pretty }) } };
+      case 'jsonToCsv':
+      case 'toHtmlTable': {
+        const value = readJsonInput(input);
+        const items = Array.isArray(value) ? value : isPlainObject(value) ? [value] : null;
+        if (!items) return fail('Invalid input', `Input must be a list of items. Got ${describeType(value)}.`);
+        return operation === 'jsonToCsv'
+          ? { success: true, data: { csv: toCsv(items, csvOptions), count: items.length } }
+          : { success: true, data: { html: toHtmlTable(items, csvOptions.header), count: items.length } };
+      }
+      default:
+        return fail('Unknown operation', `Unsupported operation "${operation}".`);
+    }
+  } catch (err: any) {
+    return fail('Failed', `${err?.message ?? err}.`);
+  }
+}
+
 // ----- Helper Methods --------------
 
+// Output of the nodes connected to this node's input: one node's output as-is, several keyed by node name
+function getDirectInput(nodeId: string, context: ExecutionContext): any {
+  const diagram = context.diagram;
+  const results = (context.results ?? {}) as Record<string, any>;
+  const incoming = getIncomingSourceIds(diagram, nodeId).filter(id => id in results);
+  if (incoming.length <= 1) return incoming.length ? results[incoming[0]] : undefined;
+
+  const input: Record<string, any> = {};
+  incoming.forEach(id => { input[getNodeConfig(diagram?.getObject?.(id))?.displayName || id] = results[id]; });
+  return input;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Values the Code node sees: $input (direct upstream output), $vars, $loop, and upstream outputs by name for $node()
+function getCodeNodeInputs(nodeId: string, context: ExecutionContext): { globals: Record<string, any>; nodes: Record<string, any>; ambiguousNodes: string[] } {
+  const diagram = context.diagram;
+  const results = (context.results ?? {}) as Record<string, any>;
+  const nameOf = (id: string) => getNodeConfig(diagram?.getObject?.(id))?.displayName || id;
+
+  const nodes: Record<string, any> = {};
+  const ambiguousNodes: string[] = [];
+  getAncestorIds(diagram, nodeId).forEach(id => {
+    if (!(id in results)) return;
+    const name = nameOf(id);
+    if (Object.prototype.hasOwnProperty.call(nodes, name)) {
+      if (!ambiguousNodes.includes(name)) ambiguousNodes.push(name);
+      return;
+    }
+    nodes[name] = results[id];
+  });
+  ambiguousNodes.forEach(name => delete nodes[name]);
+
+  return {
+    globals: { $input: getDirectInput(nodeId, context), $vars: context.variables ?? {}, $loop: getLoopExpressionScope(context).$loop },
+    nodes,
+    ambiguousNodes,
+  };
+}
+
+// Resolves the Execute Workflow input mapping rows into the sub-workflow input object
+function resolveSubWorkflowInput(gen: any, context: ExecutionContext): Record<string, any> {
+  const rows: Array<{ name?: string; value?: string }> = Array.isArray(gen.inputMappings) ? gen.inputMappings : [];
+  const input: Record<string, any> = {};
+  rows.forEach(row => {
+    const name = String(row?.name ?? '').trim();
+    // Unmapped fields are left out so the sub-workflow applies its defaults
+    if (name && String(row?.value ?? '').trim() !== '') input[name] = resolveValue(String(row?.value), context);
+  });
+  return input;
+}
+
 // Validates and builds the URL with query parameters
 function validateAndBuildUrl(general: any, context: ExecutionContext): { valid: boolean; error?: string; urlObj?: URL; method?: string; qpArray?: Array<{ key: string; value: string }> } {
   const rawUrl = resolveTemplate(String(general.url ?? ''), { context }).trim();
   if (!rawUrl) {
     const msg = 'HTTP Request: Please provide a URL.';
-    showErrorToast('HTTP Request Missing URL', msg);
+    reportNodeError(context, 'HTTP Request Missing URL', msg);
     return { valid: false, error: msg };
   }
 
@@ -193,20 +528,21 @@ function validateAndBuildUrl(general: any, context: ExecutionContext): { valid:
     urlObj = new URL(rawUrl);
   } catch {
     const msg = 'HTTP Request: Invalid URL. Provide a valid absolute URL starting with http(s)://';
-    showErrorToast('HTTP Request Invalid URL', msg);
+    reportNodeError(context, 'HTTP Request Invalid URL', msg);
     return { valid: false, error: msg };
   }
   if (!/^https?:$/i.test(urlObj.protocol)) {
     const msg = 'HTTP Request: Only http(s) URLs are supported.';
-    showErrorToast('HTTP Request Unsupported Protocol', msg);
+    reportNodeError(context, 'HTTP Request Unsupported Protocol', msg);
     return { valid: false, error: msg };
   }
 
   for (const row of qpArray) {
     const name = resolveTemplate(String(row?.key ?? ''), { context }).trim();
     if (!name) continue;
-    const value = resolveTemplate(String(row?.value ?? ''), { context });
-    urlObj.searchParams.append(name, String(value));
+    // A list value repeats the parameter (?id=1&id=2); other values keep their text form
+    const value = evaluateTemplate(String(row?.value ?? ''), { context });
+    (Array.isArray(value) ? value : [value]).forEach(v => urlObj.searchParams.append(name, stringifyExpressionValue(v)));
   }
 
   return { valid: true, urlObj, method, qpArray };
@@ -224,7 +560,7 @@ function resolveHeaders(general: any, context: ExecutionContext): { error?: stri
       return { data: headers };
     } catch (e: any) {
       const msg = 'HTTP Request: Headers must be valid JSON.';
-      showErrorToast('HTTP Request Invalid Headers', msg);
+      reportNodeError(context, 'HTTP Request Invalid Headers', msg);
       return { error: msg };
     }
   }
@@ -233,7 +569,8 @@ function resolveHeaders(general: any, context: ExecutionContext): { error?: stri
 
 // Executes the HTTP fetch and processes the response
 async function executeHttpFetch(urlObj: URL, method: string, headers: Record<string, string> | undefined, qpArray: Array<{ key: string; value: string }>, context: ExecutionContext): Promise<NodeExecutionResult> {
-  const requestInit: RequestInit = { method, headers };
+  // Aborted when the attempt times out or the run is cancelled
+  const requestInit: RequestInit = { method, headers, signal: context.abortSignal };
 
   const startedAt = Date.now();
   const response = await fetch(urlObj.toString(), requestInit);
@@ -269,7 +606,7 @@ async function executeHttpFetch(urlObj: URL, method: string, headers: Record<str
     request: {
       queryParams: qpArray.map(q => ({
         key: resolveTemplate(String(q?.key ?? ''), { context }).trim(),
-        value: resolveTemplate(String(q?.value ?? ''), { context }),
+        value: evaluateTemplate(String(q?.value ?? ''), { context }),
       })),
       headers: headers ?? {},
     },
@@ -289,21 +626,21 @@ async function executeHttpFetch(urlObj: URL, method: string, headers: Record<str
 }
 
 // Validates the Word node configuration settings
-function validateWordConfig(gen: any): { valid: boolean; error?: string; fileSource?: string; defaultFileKey?: string; fileName?: string } {
+function validateWordConfig(gen: any, context: ExecutionContext): { valid: boolean; error?: string; fileSource?: string; defaultFileKey?: string; fileName?: string } {
   const fileSource = String(gen.fileSource ?? '').trim();
   const defaultFileKey = String(gen.defaultFileKey ?? '').trim();
   const fileName = String(gen.fileName ?? '').trim();
 
   if (!fileSource || (!defaultFileKey && fileSource === 'default') || (!fileName && fileSource === 'device')) {
     const msg = 'Word: Please select a document (upload or choose a template) in the configuration panel.';
-    showErrorToast('Word: No document selected', msg);
+    reportNodeError(context, 'Word: No document selected', msg);
     return { valid: false, error: msg };
   }
 
   const op = String(gen.operation ?? '').trim();
   if (!op) {
     const msg = 'Word: Please choose an operation (Write, Read, or Update).';
-    showErrorToast('Word: Operation missing', msg);
+    reportNodeError(context, 'Word: Operation missing', msg);
     return { valid: false, error: msg };
   }
 
@@ -312,7 +649,7 @@ function validateWordConfig(gen: any): { valid: boolean; error?: string; fileSou
 
 // Executes the Word Read operation
 async function executeWordReadOperation(gen: any, nodeConfig: NodeConfig, context: ExecutionContext, fileName: string, fileSource: string): Promise<NodeExecutionResult> {
-  const buf = await loadSelectedWordFile(gen, nodeConfig);
+  const buf = await loadSelectedWordFile(gen, nodeConfig, context);
   // Extract plain text from all XML parts
   const { default: PizZip } = await import('pizzip');
   const zip = new PizZip(buf);
@@ -337,12 +674,12 @@ async function executeWordWriteOperation(gen: any, nodeConfig: NodeConfig, conte
   
   if (!rawHtml) {
     const msg = 'Word Write: Enter content in the editor before running.';
-    showErrorToast('Word: No content', msg);
+    reportNodeError(context, 'Word: No content', msg);
     return { success: false, error: msg };
   }
 
-  // Resolve {{variables}} in HTML
-  const resolvedHtml = resolveTemplate(rawHtml, { context });
+  // Resolve {{variables}} and {{#each}} / {{#if}} blocks in HTML
+  const resolvedHtml = resolveTemplate(prepareHtmlTemplate(rawHtml), { context });
 
   let downloaded = false;
   try {
@@ -350,7 +687,7 @@ async function executeWordWriteOperation(gen: any, nodeConfig: NodeConfig, conte
 
     if (mode === 'Append') {
       try {
-        const originalBuf = await loadSelectedWordFile(gen, nodeConfig);
+        const originalBuf = await loadSelectedWordFile(gen, nodeConfig, context);
         outBlob = await appendHtmlToDocx(originalBuf, resolvedHtml);
       } catch {
         // Fallback when original cannot be loaded
@@ -368,7 +705,8 @@ async function executeWordWriteOperation(gen: any, nodeConfig: NodeConfig, conte
     downloaded = true;
   } catch (e: any) {
     console.error('DOCX generation failed:', e);
-    showErrorToast('Word: DOCX export failed', e?.message || 'Could not generate file');
+    // The node still succeeds (its output says downloaded: false), so the message is shown right away
+    showNodeNotification(context, { level: 'error', title: 'Word: DOCX export failed', message: e?.message || 'Could not generate file' });
   }
 
   const out: NodeExecutionResult = {
@@ -392,7 +730,7 @@ async function executeWordUpdateOperation(gen: any, nodeConfig: NodeConfig, cont
   const keys = Object.keys(rawValues || {});
   if (keys.length === 0) {
     const msg = 'Word Update: No placeholders provided to update the document.';
-    showErrorToast('Word: Missing placeholders', msg);
+    reportNodeError(context, 'Word: Missing placeholders', msg);
     return { success: false, error: msg };
   }
 
@@ -402,13 +740,13 @@ async function executeWordUpdateOperation(gen: any, nodeConfig: NodeConfig, cont
     const val = resolveTemplate(String(rawValues[k] ?? ''), { context });
     if (val === undefined || val === null || String(val).length === 0) {
       const msg = `Word Update: Value missing for placeholder "${k}".`;
-      showErrorToast('Word: Value missing', msg);
+      reportNodeError(context, 'Word: Value missing', msg);
       return { success: false, error: msg };
     }
     dataMap[k] = val;
   }
 
-  const buf = await loadSelectedWordFile(gen, nodeConfig);
+  const buf = await loadSelectedWordFile(gen, nodeConfig, context);
   const [{ default: PizZip }, { default: Docxtemplater }] = await Promise.all([
     import('pizzip'),
     import('docxtemplater'),
@@ -440,7 +778,7 @@ async function executeWordUpdateOperation(gen: any, nodeConfig: NodeConfig, cont
       ? e.errors.map((er: any) => er?.properties?.explanation || er?.message).filter(Boolean).join('; ')
       : '';
     const message = details || e?.message || 'Template replacement failed.';
-    showErrorToast('Word Update Failed', message);
+    reportNodeError(context, 'Word Update Failed', message);
     return { success: false, error: message };
   }
 }
@@ -464,7 +802,7 @@ function loadDefaultWordFiles(): Array<{ key: string; name: string; url: string
 }
 
 // Loads the selected Word file as ArrayBuffer
-async function loadSelectedWordFile(gen: any, nodeConfig: NodeConfig): Promise<ArrayBuffer> {
+async function loadSelectedWordFile(gen: any, nodeConfig: NodeConfig, context: ExecutionContext): Promise<ArrayBuffer> {
   const fileSource = String(gen.fileSource ?? '').trim();
   const defaultFileKey = String(gen.defaultFileKey ?? '').trim();
   if (fileSource === 'default') {
@@ -477,7 +815,7 @@ async function loadSelectedWordFile(gen: any, nodeConfig: NodeConfig): Promise<A
       return await res.arrayBuffer();
     } catch (e: any) {
       const message = e?.message || 'Unable to load the selected template.';
-      showErrorToast('Word: Load failed', message);
+      reportNodeError(context, 'Word: Load failed', message);
       throw e;
     }
   }
@@ -487,7 +825,7 @@ async function loadSelectedWordFile(gen: any, nodeConfig: NodeConfig): Promise<A
     const blobUrl = String((nodeConfig.settings?.general as any)?.deviceFileUrl || '').trim();
     if (!blobUrl) {
       const msg = 'Word: Local file is not available at runtime. Reattach the file in the node settings and run again.';
-      showErrorToast('Word: Missing local file', msg);
+      reportNodeError(context, 'Word: Missing local file', msg);
       throw new Error(msg);
     }
     try {
@@ -496,13 +834,13 @@ async function loadSelectedWordFile(gen: any, nodeConfig: NodeConfig): Promise<A
       return await res.arrayBuffer();
     } catch (e: any) {
       const message = e?.message || 'Unable to read the local file. Please reattach it.';
-      showErrorToast('Word: Local file error', message);
+      reportNodeError(context, 'Word: Local file error', message);
       throw e;
     }
   }
 
   const msg = 'Word: Unknown file source.';
-  showErrorToast('Word: Load failed', msg);
+  reportNodeError(context, 'Word: Load failed', msg);
   throw new Error(msg);
 }
 
@@ -511,28 +849,28 @@ function dispatchChatResponse(nodeConfig: NodeConfig, context: ExecutionContext,
   try {
     const raw = String((nodeConfig.settings as any)?.general?.chatResponse ?? '').trim();
     const inputResolvedValue = raw ? resolveTemplate(raw, { context }) : '';
-    if (typeof window !== 'undefined' && inputResolvedValue) {
-      window.dispatchEvent(new CustomEvent('wf:chat:assistant-response', { detail: { text: inputResolvedValue, triggeredFrom } }));
+    if (inputResolvedValue) {
+      getWorkflowEventBus(context).emit('chat:assistant-response', { text: inputResolvedValue, triggeredFrom });
     }
   } catch {}
 }
 
 // Validates the Excel node configuration settings
-function validateExcelConfig(gen: any): { valid: boolean; error?: string; fileSource?: string; defaultFileKey?: string; fileName?: string } {
+function validateExcelConfig(gen: any, context: ExecutionContext): { valid: boolean; error?: string; fileSource?: string; defaultFileKey?: string; fileName?: string } {
   const fileSource = String(gen.fileSource ?? '').trim();
   const defaultFileKey = String(gen.defaultFileKey ?? '').trim();
   const fileName = String(gen.fileName ?? '').trim();
 
   if (!fileSource || (!defaultFileKey && fileSource === 'default') || (!fileName && fileSource === 'device')) {
     const msg = 'Excel: Please select a document (upload or choose a template) in the configuration panel.';
-    showErrorToast('Excel: No document selected', msg);
+    reportNodeError(context, 'Excel: No document selected', msg);
     return { valid: false, error: msg };
   }
 
   const op = String(gen.operation ?? '').trim();
   if (!op) {
     const msg = 'Excel: Please choose an operation.';
-    showErrorToast('Excel: Operation missing', msg);
+    reportNodeError(context, 'Excel: Operation missing', msg);
     return { valid: false, error: msg };
   }
 
@@ -544,7 +882,7 @@ async function executeExcelCreateSheet(gen: any, nodeConfig: NodeConfig, context
   const title = resolveTemplate(String(gen.title ?? ''), { context }).trim();
   if (!title) {
     const msg = 'Create Sheet: Please provide a Title.';
-    showErrorToast('Excel Missing Fields', msg);
+    reportNodeError(context, 'Excel Missing Fields', msg);
     return { success: false, error: msg };
   }
 
@@ -553,7 +891,7 @@ async function executeExcelCreateSheet(gen: any, nodeConfig: NodeConfig, context
 
   let wb;
   try {
-    const buf = await loadSelectedExcelFile(gen, nodeConfig);
+    const buf = await loadSelectedExcelFile(gen, nodeConfig, context);
     wb = XLSX.read(buf, { type: 'array' });
   } catch {
     // If failing to read, start a new workbook
@@ -582,10 +920,10 @@ async function executeExcelDeleteSheet(gen: any, nodeConfig: NodeConfig, context
   const sheetName = resolveTemplate(String(gen.sheetName ?? ''), { context }).trim();
   if (!sheetName) {
     const msg = 'Delete Sheet: Select a sheet to delete.';
-    showErrorToast('Excel Missing Fields', msg);
+    reportNodeError(context, 'Excel Missing Fields', msg);
     return { success: false, error: msg };
   }
-  const buf = await loadSelectedExcelFile(gen, nodeConfig);
+  const buf = await loadSelectedExcelFile(gen, nodeConfig, context);
   const wb = XLSX.read(buf, { type: 'array' });
   const idx = wb.SheetNames.indexOf(sheetName);
   if (idx === -1) {
@@ -598,19 +936,26 @@ async function executeExcelDeleteSheet(gen: any, nodeConfig: NodeConfig, context
   return { success: true, data: { deleted: true, sheetName, downloadedFile: outName } };
 }
 
+// Resolves an Excel cell value: a single {{ }} keeps numbers, booleans and dates; lists and objects become JSON text
+function resolveCellValue(raw: any, context: ExecutionContext): any {
+  const value = evaluateTemplate(String(raw ?? ''), { context });
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' && !(value instanceof Date) ? stringifyExpressionValue(value) : value;
+}
+
 // Executes the Excel Append Row operation
 async function executeExcelAppendRow(gen: any, nodeConfig: NodeConfig, context: ExecutionContext, XLSX: any): Promise<NodeExecutionResult> {
   const sheetName = resolveTemplate(String(gen.sheetName ?? ''), { context }).trim();
   if (!sheetName) {
     const msg = 'Append Row: Select a sheet.';
-    showErrorToast('Excel Missing Fields', msg);
+    reportNodeError(context, 'Excel Missing Fields', msg);
     return { success: false, error: msg };
   }
-  const buf = await loadSelectedExcelFile(gen, nodeConfig);
+  const buf = await loadSelectedExcelFile(gen, nodeConfig, context);
   const wb = XLSX.read(buf, { type: 'array' });
   if (!wb.Sheets[sheetName]) {
     const msg = `Append Row: Sheet "${sheetName}" not found.`;
-    showErrorToast('Excel Sheet Not Found', msg);
+    reportNodeError(context, 'Excel Sheet Not Found', msg);
     return { success: false, error: msg };
   }
   const ws = wb.Sheets[sheetName];
@@ -618,13 +963,13 @@ async function executeExcelAppendRow(gen: any, nodeConfig: NodeConfig, context:
   const headers: string[] = (aoa[0] || []).map((h: any) => String(h));
   if (!headers.length) {
     const msg = 'Append Row: No column headers found. Create headers in row 1 and try again.';
-    showErrorToast('Excel Headers Missing', msg);
+    reportNodeError(context, 'Excel Headers Missing', msg);
     return { success: false, error: msg };
   }
 
   // Build row in header order
   const appendValues = (gen.appendValues ?? {}) as Record<string, any>;
-  const row: any[] = headers.map((h) => resolveTemplate(String(appendValues[h] ?? ''), { context }));
+  const row: any[] = headers.map((h) => resolveCellValue(appendValues[h], context));
   if (aoa.length === 0) aoa.push(headers);
   aoa.push(row);
   const nextWs = XLSX.utils.aoa_to_sheet(aoa);
@@ -639,14 +984,14 @@ async function executeExcelUpdateRow(gen: any, nodeConfig: NodeConfig, context:
   const matchColumn = resolveTemplate(String(gen.update?.matchColumn ?? ''), { context }).trim();
   if (!sheetName || !matchColumn) {
     const msg = 'Update Row: Provide Sheet Name and Column to match.';
-    showErrorToast('Excel Missing Fields', msg);
+    reportNodeError(context, 'Excel Missing Fields', msg);
     return { success: false, error: msg };
   }
-  const buf = await loadSelectedExcelFile(gen, nodeConfig);
+  const buf = await loadSelectedExcelFile(gen, nodeConfig, context);
   const wb = XLSX.read(buf, { type: 'array' });
   if (!wb.Sheets[sheetName]) {
     const msg = `Update Row: Sheet "${sheetName}" not found.`;
-    showErrorToast('Excel Sheet Not Found', msg);
+    reportNodeError(context, 'Excel Sheet Not Found', msg);
     return { success: false, error: msg };
   }
   const ws = wb.Sheets[sheetName];
@@ -655,7 +1000,7 @@ async function executeExcelUpdateRow(gen: any, nodeConfig: NodeConfig, context:
   const colIndex = headers.indexOf(matchColumn);
   if (colIndex === -1) {
     const msg = `Update Row: Match column "${matchColumn}" not found in headers.`;
-    showErrorToast('Excel Header Missing', msg);
+    reportNodeError(context, 'Excel Header Missing', msg);
     return { success: false, error: msg };
   }
   const rawValuesMap = (gen.update?.values ?? {}) as Record<string, any>;
@@ -663,7 +1008,7 @@ async function executeExcelUpdateRow(gen: any, nodeConfig: NodeConfig, context:
   const matchValue = hasMatchKey ? resolveTemplate(String(rawValuesMap[matchColumn] ?? ''), { context }).trim() : '';
   if (!matchValue) {
     const msg = `Update Row: Provide a value under "${matchColumn}" in Values to locate the row.`;
-    showErrorToast('Excel Missing Match Value', msg);
+    reportNodeError(context, 'Excel Missing Match Value', msg);
     return { success: false, error: msg };
   }
 
@@ -674,7 +1019,7 @@ async function executeExcelUpdateRow(gen: any, nodeConfig: NodeConfig, context:
   }
   if (foundRow === -1) {
     const msg = `Update Row: No row matched where "${matchColumn}" equals "${matchValue}".`;
-    showErrorToast('Excel No Match', msg);
+    reportNodeError(context, 'Excel No Match', msg);
     return { success: false, error: msg };
   }
 
@@ -684,7 +1029,7 @@ async function executeExcelUpdateRow(gen: any, nodeConfig: NodeConfig, context:
   for (const [k, v] of Object.entries(rawValuesMap)) {
     if (k === matchColumn) continue;
     const idx = headers.indexOf(k);
-    if (idx >= 0) row[idx] = resolveTemplate(String(v ?? ''), { context });
+    if (idx >= 0) row[idx] = resolveCellValue(v, context);
   }
   const nextWs = XLSX.utils.aoa_to_sheet(next);
   wb.Sheets[sheetName] = nextWs;
@@ -700,14 +1045,14 @@ async function executeExcelDeleteRowColumn(gen: any, nodeConfig: NodeConfig, con
   const count = Math.max(1, Number(gen.delete?.count ?? 1));
   if (!sheetName) {
     const msg = 'Delete Row/Column: Provide Sheet Name.';
-    showErrorToast('Excel Missing Fields', msg);
+    reportNodeError(context, 'Excel Missing Fields', msg);
     return { success: false, error: msg };
   }
-  const buf = await loadSelectedExcelFile(gen, nodeConfig);
+  const buf = await loadSelectedExcelFile(gen, nodeConfig, context);
   const wb = XLSX.read(buf, { type: 'array' });
   if (!wb.Sheets[sheetName]) {
     const msg = `Delete Row/Column: Sheet "${sheetName}" not found.`;
-    showErrorToast('Excel Sheet Not Found', msg);
+    reportNodeError(context, 'Excel Sheet Not Found', msg);
     return { success: false, error: msg };
   }
   const ws = wb.Sheets[sheetName];
@@ -738,14 +1083,14 @@ async function executeExcelGetRows(gen: any, nodeConfig: NodeConfig, context: Ex
   const sheetName = resolveTemplate(String(gen.sheetName ?? ''), { context }).trim();
   if (!sheetName) {
     const msg = 'Get Row(s): Provide Sheet Name.';
-    showErrorToast('Excel Missing Fields', msg);
+    reportNodeError(context, 'Excel Missing Fields', msg);
     return { success: false, error: msg };
   }
-  const buf = await loadSelectedExcelFile(gen, nodeConfig);
+  const buf = await loadSelectedExcelFile(gen, nodeConfig, context);
   const wb = XLSX.read(buf, { type: 'array' });
   if (!wb.Sheets[sheetName]) {
     const msg = `Get Row(s): Sheet "${sheetName}" not found.`;
-    showErrorToast('Excel Sheet Not Found', msg);
+    reportNodeError(context, 'Excel Sheet Not Found', msg);
     return { success: false, error: msg };
   }
   const ws = wb.Sheets[sheetName];
@@ -757,7 +1102,7 @@ async function executeExcelGetRows(gen: any, nodeConfig: NodeConfig, context: Ex
   const headers: string[] = (aoa[0] || []).map((h: any) => String(h));
   if (!headers.length) {
     const msg = 'Get Row(s): No columns found. Create headers in row 1 and try again.';
-    showErrorToast('Excel Headers Missing', msg);
+    reportNodeError(context, 'Excel Headers Missing', msg);
     return { success: false, error: msg };
   }
   const rows = (aoa.slice(1) || []).map((r) => {
@@ -805,7 +1150,7 @@ function loadDefaultExcelFiles(): Array<{ key: string; name: string; url: string
 }
 
 // Loads the selected Excel file as ArrayBuffer
-async function loadSelectedExcelFile(gen: any, nodeConfig: NodeConfig): Promise<ArrayBuffer> {
+async function loadSelectedExcelFile(gen: any, nodeConfig: NodeConfig, context: ExecutionContext): Promise<ArrayBuffer> {
   const fileSource = String(gen.fileSource ?? '').trim();
   const defaultFileKey = String(gen.defaultFileKey ?? '').trim();
   if (fileSource === 'default') {
@@ -813,7 +1158,7 @@ async function loadSelectedExcelFile(gen: any, nodeConfig: NodeConfig): Promise<
     const match = files.find((f) => f.key === defaultFileKey);
     if (!match) {
       const msg = 'Excel: Unknown default template key';
-      showErrorToast('Excel: Load failed', msg);
+      reportNodeError(context, 'Excel: Load failed', msg);
       throw new Error(msg);
     }
     const res = await fetch(match.url);
@@ -824,7 +1169,7 @@ async function loadSelectedExcelFile(gen: any, nodeConfig: NodeConfig): Promise<
     const blobUrl = String(gen.deviceFileUrl || '').trim();
     if (!blobUrl) {
       const msg = 'Excel: Local file is not available at runtime. Reattach the file and run again.';
-      showErrorToast('Excel: Missing local file', msg);
+      reportNodeError(context, 'Excel: Missing local file', msg);
       throw new Error(msg);
     }
     const res = await fetch(blobUrl);
@@ -832,7 +1177,7 @@ async function loadSelectedExcelFile(gen: any, nodeConfig: NodeConfig): Promise<
     return await res.arrayBuffer();
   }
   const msg = 'Excel: Unknown file source.';
-  showErrorToast('Excel: Load failed', msg);
+  reportNodeError(context, 'Excel: Load failed', msg);
   throw new Error(msg);
 }
 
@@ -846,3 +1191,52 @@ async function saveWorkbook(wb: any, suffix: string, fileName: string): Promise<
   downloadBlob(blob, outName);
   return outName;
 }
+
+// Resolve a date field of the Date & Time node; text that does not match the input format is still
+// read when it is an ISO date or timestamp, so values from other nodes need no extra format
+function readDateInput(raw: any, label: string, inputFormat: string, timeZone: string | undefined, context: ExecutionContext): Date {
+  const value = typeof raw === 'string' ? resolveValue(raw, context) : raw;
+  if (value === undefined || value === null || String(value).trim() === '') throw new Error(`${label} is empty`);
+  try {
+    return parseDate(value, inputFormat || undefined, timeZone);
+  } catch (err) {
+    const loose = typeof value === 'string' ? toDateValue(value) : null;
+    if (loose) return loose;
+    throw err;
+  }
+}
+
+// Date & Time output: ISO string with the zone's offset and epoch milliseconds (both work with the
+// If Condition date comparators), the formatted text and the calendar fields in that zone
+function describeDate(date: Date, pattern: string, timeZone?: string) {
+  const p = getZonedParts(date, timeZone);
+  return {
+    date: formatDate(date, 'iso', timeZone),
+    timestamp: date.getTime(),
+    formatted: formatDate(date, pattern, timeZone),
+    timeZone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    year: p.year,
+    month: p.month,
+    day: p.day,
+    hour: p.hour,
+    minute: p.minute,
+    second: p.second,
+    weekday: p.weekday,
+    weekdayName: formatDate(date, 'EEEE', timeZone),
+  };
+}
+
+// Text input of the Convert node's JSON operations is parsed first; other values are used as-is
+function readJsonInput(input: any): any {
+  if (typeof input !== 'string') return input;
+  try {
+    return JSON.parse(input);
+  } catch (err: any) {
+    throw new Error(`Input is text but not valid JSON (${err?.message ?? err})`);
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -1,8 +1,13 @@
-import { ExecutionContext, NodeConfig, NodeExecutionResult, ConditionComparator } from '../../types';
-import { showErrorToast } from '../../components/Toast';
-import { evaluateExpression, resolveTemplate } from '../../utilities/expression'
+import { ExecutionContext, NodeConfig, NodeExecutionResult, ConditionComparator, LoopControl, SortKey, AggregateColumn, MergeInput } from '../../types';
+import { evaluateExpression, evaluateWithScope, resolveTemplate } from '../../utilities/expression';
+import { compileExpression } from '../../utilities/expressionSandbox';
 import { resolveValue, parsePairValues, compareValues, toTimestamp } from '../../utilities/conditionUtils';
 import { UNARY_COMPARATORS, NUMERIC_RIGHT_COMPARATORS, PAIR_COMPARATORS, REGEX_COMPARATORS, KEY_PROP_COMPARATORS } from '../../constants';
+import { getIncomingSourceIds } from '../../utilities/graphUtils';
+import { getWorkflowEventBus } from '../WorkflowEventBus';
+import { reportNodeError } from '../BaseExecutors';
+import { buildLoopFrame, chunkItems, getLoopIteration, toPositiveInt } from '../../utilities/loopUtils';
+import { aggregateItems, limitItems, removeDuplicateItems, sortItems, splitOutItems } from '../../utilities/collectionUtils';
 import { NodeModel } from '@syncfusion/ej2-react-diagrams';
 
 export async function executeConditionCategory(
@@ -18,10 +23,26 @@ export async function executeConditionCategory(
       return executeSwitchNode(nodeConfig, context);
     case 'Filter':
       return executeFilterNode(nodeConfig, context);
+    case 'Sort':
+      return executeSortNode(nodeConfig, context);
+    case 'Limit':
+      return executeLimitNode(nodeConfig, context);
+    case 'Remove Duplicates':
+      return executeRemoveDuplicatesNode(nodeConfig, context);
+    case 'Aggregate':
+      return executeAggregateNode(nodeConfig, context);
+    case 'Split Out':
+      return executeSplitOutNode(nodeConfig, context);
     case 'Loop':
       return executeLoopNode(_node, nodeConfig, context);
+    case 'Merge':
+      return executeMergeNode(_node, nodeConfig, context);
     case 'Stop':
       return executeStopNode(nodeConfig, context);
+    case 'Break':
+      return executeLoopControlNode('break', nodeConfig, context);
+    case 'Continue':
+      return executeLoopControlNode('continue', nodeConfig, context);
     default:
       return { success: false, error: `Unsupported condition node type: ${nodeConfig.nodeType}` };
   }
@@ -41,8 +62,8 @@ function executeStopNode(nodeConfig?: NodeConfig, context?: ExecutionContext): N
   try {
     const raw = String((nodeConfig as any)?.settings?.general?.chatResponse ?? '').trim();
     const inputResolvedValue = raw ? resolveTemplate(raw, { context: context as ExecutionContext }) : '';
-    if (typeof window !== 'undefined' && inputResolvedValue) {
-      window.dispatchEvent(new CustomEvent('wf:chat:assistant-response', { detail: { text: inputResolvedValue, triggeredFrom:'Stop Node' } }));
+    if (inputResolvedValue) {
+      getWorkflowEventBus(context).emit('chat:assistant-response', { text: inputResolvedValue, triggeredFrom: 'Stop Node' });
     }
   } catch {}
   return res;
@@ -50,15 +71,15 @@ function executeStopNode(nodeConfig?: NodeConfig, context?: ExecutionContext): N
 
 // ---------------- If Condition ----------------
 async function executeIfConditionNode(nodeConfig: NodeConfig, context: ExecutionContext): Promise<NodeExecutionResult> {
-  const toast = (title: string, detail: string) => showErrorToast(title, detail);
+  const reportError = (title: string, detail: string) => reportNodeError(context, title, detail);
   
   try {
     // Get condition rows data
-    const rowsOrResult = getIfRows(nodeConfig, context, toast);
+    const rowsOrResult = getIfRows(nodeConfig, context, reportError);
     if (!Array.isArray(rowsOrResult)) return rowsOrResult;
 
     // Validate rows and stop on first error
-    const validationError = validateRows(rowsOrResult, context, 'If Condition', toast);
+    const validationError = validateRows(rowsOrResult, context, 'If Condition', reportError);
     if (validationError) return validationError;
 
     // Compare each row and fold results using AND/OR
@@ -67,7 +88,7 @@ async function executeIfConditionNode(nodeConfig: NodeConfig, context: Execution
     return { success: true, data: { conditionResult: Boolean(evaluated.cumulative), rowResults: evaluated.rowResults, evaluatedAt: new Date().toISOString() } };
   } catch (error: any) {
     const msg = `If Condition execution failed: ${error?.message ?? String(error)}`;
-    showErrorToast('If Condition Failed', msg);
+    reportNodeError(context, 'If Condition Failed', msg);
     return { success: false, error: msg };
   }
 }
@@ -81,7 +102,7 @@ async function executeSwitchNode(nodeConfig: NodeConfig, context: ExecutionConte
 
     if (rules.length === 0) {
       const msg = 'Switch Case: Please add at least one case.';
-      showErrorToast('Switch Case Missing', msg);
+      reportNodeError(context, 'Switch Case Missing', msg);
       return { success: false, error: msg };
     }
 
@@ -90,7 +111,7 @@ async function executeSwitchNode(nodeConfig: NodeConfig, context: ExecutionConte
       rules.map(r => ({ ...r, joiner: 'OR' as const })),
       context,
       'If Condition',
-      (t, d) => showErrorToast(t, d)
+      (t, d) => reportNodeError(context, t, d)
     );
     if (validateError) return validateError;
 
@@ -122,7 +143,7 @@ async function executeSwitchNode(nodeConfig: NodeConfig, context: ExecutionConte
     };
   } catch (error: any) {
     const msg = `Switch Case execution failed: ${error?.message ?? String(error)}`;
-    showErrorToast('Switch Case Failed', msg);
+    reportNodeError(context, 'Switch Case Failed', msg);
     return { success: false, error: msg };
   }
 }
@@ -136,7 +157,7 @@ async function executeFilterNode(nodeConfig: NodeConfig, context: ExecutionConte
     const inputExpr = String(gen.input ?? '').trim();
     if (!inputExpr) {
       const msg = 'Filter: Please provide the Items (list) input.';
-      showErrorToast('Filter Missing Input', msg);
+      reportNodeError(context, 'Filter Missing Input', msg);
       return { success: false, error: msg };
     }
 
@@ -145,7 +166,7 @@ async function executeFilterNode(nodeConfig: NodeConfig, context: ExecutionConte
     if (!Array.isArray(resolved)) {
       const got = resolved === null ? 'null' : typeof resolved;
       const msg = `Filter: Items input must resolve to an array. Got ${got}.`;
-      showErrorToast('Filter Invalid Input', msg);
+      reportNodeError(context, 'Filter Invalid Input', msg);
       return { success: false, error: msg };
     }
     const inputArr: any[] = resolved as any[];
@@ -159,19 +180,20 @@ async function executeFilterNode(nodeConfig: NodeConfig, context: ExecutionConte
       const conditionRaw = gen.predicate ?? gen.filterCondition;
       if (!conditionRaw) {
         const msg = 'Filter: Please configure at least one condition row or a predicate.';
-        showErrorToast('Filter Missing Condition', msg);
+        reportNodeError(context, 'Filter Missing Condition', msg);
         return { success: false, error: msg };
       }
       const predicateStr = resolveTemplate(String(conditionRaw), { context }).trim();
-      const fn = new Function('item', 'context', 'evaluateExpression', '"use strict"; return ( ' + predicateStr + ' );');
-      const filtered = inputArr.filter((item: any) => {
-        try { return !!fn(item, context, evaluateExpression); } catch { return false; }
-      });
+      // Sandboxed: syntax errors fail the node even for an empty list
+      compileExpression(predicateStr);
+      const filtered = inputArr.filter((item: any) =>
+        !!evaluateWithScope(predicateStr, { context }, { item, evaluateExpression })
+      );
       return { success: true, data: { filtered, count: filtered.length } };
     }
 
     // Validate rows and stop on first error
-    const validateError = validateRows(rows, context, 'Filter', (t, d) => showErrorToast(t, d));
+    const validateError = validateRows(rows, context, 'Filter', (t, d) => reportNodeError(context, t, d));
     if (validateError) return validateError;
 
     // Evaluate each item with $.item available in the context
@@ -188,8 +210,95 @@ async function executeFilterNode(nodeConfig: NodeConfig, context: ExecutionConte
 
     return { success: true, data: { filtered, filteredCount: filtered.length } };
   } catch (error: any) {
-    return { success: false, error: `Filter execution failed: ${error?.message ?? String(error)}` };
+    const msg = `Filter execution failed: ${error?.message ?? String(error)}`;
+    reportNodeError(context, 'Filter Failed', msg);
+    return { success: false, error: msg };
+  }
+}
+
+// ---------------- Sort ----------------
+function executeSortNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = nodeConfig.settings?.general ?? {};
+  const input = resolveItemsInput('Sort', gen, context);
+  if ('error' in input) return input.error;
+
+  const keys: SortKey[] = (Array.isArray(gen.sortKeys) ? gen.sortKeys : [])
+    .map((key: any) => ({ field: String(key?.field ?? '').trim(), direction: key?.direction === 'desc' ? 'desc' : 'asc' }))
+    .filter((key: SortKey) => key.field);
+
+  const items = sortItems(input.items, keys);
+  return { success: true, data: { items, count: items.length } };
+}
+
+// ---------------- Limit ----------------
+function executeLimitNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = nodeConfig.settings?.general ?? {};
+  const input = resolveItemsInput('Limit', gen, context);
+  if ('error' in input) return input.error;
+
+  const countRaw = String(gen.count ?? '').trim();
+  const count = countRaw ? Number(resolveValue(countRaw, context)) : NaN;
+  if (!Number.isFinite(count) || count < 0) {
+    const msg = 'Limit: Max items must be a number of 0 or more.';
+    reportNodeError(context, 'Limit Invalid Count', msg);
+    return { success: false, error: msg };
+  }
+
+  const items = limitItems(input.items, count, gen.from === 'last' ? 'last' : 'first');
+  return { success: true, data: { items, count: items.length } };
+}
+
+// ---------------- Remove Duplicates ----------------
+function executeRemoveDuplicatesNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = nodeConfig.settings?.general ?? {};
+  const input = resolveItemsInput('Remove Duplicates', gen, context);
+  if ('error' in input) return input.error;
+
+  // Comma-separated field paths; empty compares whole items
+  const fields = String(gen.fields ?? '').split(',').map(field => field.trim()).filter(Boolean);
+  const items = removeDuplicateItems(input.items, fields);
+  return { success: true, data: { items, count: items.length, removedCount: input.items.length - items.length } };
+}
+
+// ---------------- Aggregate ----------------
+function executeAggregateNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = nodeConfig.settings?.general ?? {};
+  const input = resolveItemsInput('Aggregate', gen, context);
+  if ('error' in input) return input.error;
+
+  const columns: AggregateColumn[] = Array.isArray(gen.aggregations) ? gen.aggregations : [];
+  if (columns.length === 0) {
+    const msg = 'Aggregate: Please add at least one aggregation.';
+    reportNodeError(context, 'Aggregate Missing Aggregation', msg);
+    return { success: false, error: msg };
+  }
+  const missingField = columns.find(column => column.operation !== 'count' && !String(column.field ?? '').trim());
+  if (missingField) {
+    const msg = `Aggregate: The ${missingField.operation} aggregation needs a field.`;
+    reportNodeError(context, 'Aggregate Missing Field', msg);
+    return { success: false, error: msg };
   }
+
+  const rows = aggregateItems(input.items, columns, String(gen.groupBy ?? ''));
+  return { success: true, data: { items: rows, count: rows.length } };
+}
+
+// ---------------- Split Out ----------------
+function executeSplitOutNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const gen = nodeConfig.settings?.general ?? {};
+  // A single object is split like a one-item list
+  const input = resolveItemsInput('Split Out', gen, context, true);
+  if ('error' in input) return input.error;
+
+  const field = String(gen.field ?? '').trim();
+  if (!field) {
+    const msg = 'Split Out: Please provide the field holding the list.';
+    reportNodeError(context, 'Split Out Missing Field', msg);
+    return { success: false, error: msg };
+  }
+
+  const items = splitOutItems(input.items, field, !!gen.includeOtherFields, String(gen.destinationField ?? ''));
+  return { success: true, data: { items, count: items.length } };
 }
 
 // ---------------- Loop ----------------
@@ -204,7 +313,7 @@ export async function executeLoopNode(
     const inputExpr = String(gen.input ?? '').trim();
     if (!inputExpr) {
       const msg = 'Loop: Please provide the Items (list) input.';
-      showErrorToast('Loop Missing Input', msg);
+      reportNodeError(context, 'Loop Missing Input', msg);
       return { success: false, error: msg };
     }
 
@@ -212,40 +321,30 @@ export async function executeLoopNode(
     if (!Array.isArray(resolved)) {
       const got = resolved === null ? 'null' : typeof resolved;
       const msg = `Loop: Items input must resolve to an array. Got ${got}.`;
-      showErrorToast('Loop Invalid Input', msg);
+      reportNodeError(context, 'Loop Invalid Input', msg);
       return { success: false, error: msg };
     }
 
-    const items = resolved as any[];
-    const total = items.length;
+    // Batch size > 1: each iteration receives a list of up to N items
+    const batchSize = toPositiveInt(gen.batchSize, 1);
+    const itemList = resolved as any[];
+    const items: any[] = batchSize > 1 ? chunkItems(itemList, batchSize) : itemList;
     const nodeId = node.id as string;
 
-    const rt: any = (context as any).__runtime ?? ((context as any).__runtime = {});
-    const loops: Record<string, any[]> = rt.loopItems ?? (rt.loopItems = {});
-    loops[nodeId] = items;
-
-    (context.results as any)[nodeId] = {
-      currentloopitem: total > 0 ? items[0] : {},     // object to expose the key even when empty
-      currentLoopIndex: total > 0 ? 0 : null,         // 0-based
-      currentLoopIteration: total > 0 ? 1 : null,     // 1-based
-      currentLoopCount: total,
-      currentLoopNodeId: nodeId,
-      currentLoopIsFirst: total > 0 ? true : null,
-      currentLoopIsLast:  total > 0 ? (total === 1) : null,
-    };
+    // Written through the shared run state: the context is this node's own copy
+    if (context.__runtime) context.__runtime.loopItems[nodeId] = items;
+
+    const frame = buildLoopFrame(nodeId, items, 0);
+    (context.results as any)[nodeId] = frame;
 
     return {
       success: true,
       data: {
         items,
-        count: total,
-        currentloopitem: total > 0 ? items[0] : {},
-        currentLoopIndex: total > 0 ? 0 : null,
-        currentLoopIteration: total > 0 ? 1 : null,
-        currentLoopCount: total,
-        currentLoopNodeId: nodeId,
-        currentLoopIsFirst: total > 0 ? true : null,
-        currentLoopIsLast:  total > 0 ? (total === 1) : null,
+        count: items.length,
+        itemCount: itemList.length,
+        batchSize,
+        ...frame,
       },
     };
   } catch (error: any) {
@@ -253,13 +352,148 @@ export async function executeLoopNode(
   }
 }
 
+// ---------------- Break / Continue ----------------
+function executeLoopControlNode(control: LoopControl, nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const label = nodeConfig.nodeType;
+  const iteration = getLoopIteration(context);
+  if (!iteration) {
+    const msg = `${label}: This node only works inside a Loop body (connected after a Loop's loop port).`;
+    reportNodeError(context, `${label} Outside Loop`, msg);
+    return { success: false, error: msg };
+  }
+  // The engine ends the iteration on `loopControl`; Break also stops the remaining iterations
+  return {
+    success: true,
+    data: { loopControl: control, loopNodeId: iteration.loopNodeId, iterationIndex: iteration.index, at: new Date().toISOString() },
+  };
+}
+
+// ---------------- Merge ----------------
+function executeMergeNode(node: NodeModel, nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  try {
+    const gen = nodeConfig.settings?.general ?? {};
+    const mode: 'append' | 'combineByKey' | 'waitForFirst' = gen.mode ?? 'append';
+    const itemsField = String(gen.itemsField ?? '').trim();
+
+    const inputs = getMergeInputs(node, context);
+    if (inputs.length === 0) {
+      const msg = 'Merge: No input data available. Run the upstream nodes first.';
+      reportNodeError(context, 'Merge Missing Input', msg);
+      return { success: false, error: msg };
+    }
+
+    if (mode === 'waitForFirst') {
+      const first = inputs[0];
+      return {
+        success: true,
+        data: { mode, source: first.sourceName, sourceId: first.sourceId, data: first.data, inputCount: inputs.length },
+      };
+    }
+
+    const lists = inputs.map(input => toItemList(input.data, itemsField));
+
+    if (mode === 'combineByKey') {
+      const key = String(gen.key ?? '').trim();
+      if (!key) {
+        const msg = 'Merge: Please provide the key field to combine items by.';
+        reportNodeError(context, 'Merge Missing Key', msg);
+        return { success: false, error: msg };
+      }
+      const items = combineItemsByKey(lists, key);
+      return { success: true, data: { mode, key, items, count: items.length, inputCount: inputs.length } };
+    }
+
+    // Append: concatenate every input's items in connector order
+    const items = lists.reduce<any[]>((acc, list) => acc.concat(list), []);
+    const bySource: Record<string, any> = {};
+    inputs.forEach(input => { bySource[input.sourceName] = input.data; });
+    return { success: true, data: { mode: 'append', items, count: items.length, inputCount: inputs.length, inputs: bySource } };
+  } catch (error: any) {
+    const msg = `Merge execution failed: ${error?.message ?? String(error)}`;
+    reportNodeError(context, 'Merge Failed', msg);
+    return { success: false, error: msg };
+  }
+}
+
 // ----- Helper Methods --------------
 
+// Collect merge inputs published by the scheduler, or fall back to upstream results (single-step runs)
+function getMergeInputs(node: NodeModel, context: ExecutionContext): MergeInput[] {
+  const nodeId = node.id as string;
+  const published = context.__runtime?.mergeInputs[nodeId];
+  if (Array.isArray(published)) return published;
+
+  const diagram = context.diagram;
+  const results = (context.results || {}) as Record<string, any>;
+  return getIncomingSourceIds(diagram, nodeId)
+    .filter(id => results[id] !== undefined)
+    .map(id => ({
+      sourceId: id,
+      sourceName: diagram?.getObject?.(id)?.addInfo?.nodeConfig?.displayName ?? id,
+      data: results[id],
+    }));
+}
+
+// Normalize one merge input to a list of items, optionally reading a nested field first
+function toItemList(data: any, itemsField: string): any[] {
+  let value = data;
+  if (itemsField) {
+    value = itemsField.split('.').filter(Boolean).reduce((acc: any, seg: string) => (acc == null ? undefined : acc[seg]), data);
+  }
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Combine items sharing the same key value into one object (later inputs override earlier fields)
+function combineItemsByKey(lists: any[][], key: string): any[] {
+  const order: string[] = [];
+  const byKey: Record<string, any> = {};
+  lists.forEach(list => {
+    list.forEach(item => {
+      if (item == null || typeof item !== 'object') return;
+      const raw = item[key];
+      if (raw === undefined || raw === null) return;
+      const k = typeof raw === 'object' ? JSON.stringify(raw) : String(raw);
+      if (!(k in byKey)) {
+        order.push(k);
+        byKey[k] = {};
+      }
+      byKey[k] = { ...byKey[k], ...item };
+    });
+  });
+  return order.map(k => byKey[k]);
+}
+
+// Resolve the Items (list) input shared by the collection nodes; reports errors like Filter and Loop
+function resolveItemsInput(
+  label: string,
+  gen: Record<string, any>,
+  context: ExecutionContext,
+  allowObject = false
+): { items: any[] } | { error: NodeExecutionResult } {
+  const inputExpr = String(gen.input ?? '').trim();
+  if (!inputExpr) {
+    const msg = `${label}: Please provide the Items (list) input.`;
+    reportNodeError(context, `${label} Missing Input`, msg);
+    return { error: { success: false, error: msg } };
+  }
+
+  const resolved = resolveValue(inputExpr, context);
+  if (Array.isArray(resolved)) return { items: resolved };
+  if (allowObject && resolved !== null && typeof resolved === 'object') return { items: [resolved] };
+
+  const got = resolved === null ? 'null' : typeof resolved;
+  const msg = `${label}: Items input must resolve to an array. Got ${got}.`;
+  reportNodeError(context, `${label} Invalid Input`, msg);
+  return { error: { success: false, error: msg } };
+}
+
+
 // Return structured rows or evaluate a legacy boolean expression
 function getIfRows(
   nodeConfig: NodeConfig,
   context: ExecutionContext,
-  toast: (t: string, d: string) => void
+  reportError: (t: string, d: string) => void
 ): Array<{ left: string; comparator: ConditionComparator; right: string; joiner?: 'AND' | 'OR' }>|NodeExecutionResult {
   const rows = Array.isArray(nodeConfig.settings?.general?.conditions)
     ? (nodeConfig.settings!.general!.conditions as Array<{ left: string; comparator: ConditionComparator; right: string; joiner?: 'AND' | 'OR' }>)
@@ -270,10 +504,10 @@ function getIfRows(
     const prepared = resolveTemplate(String(raw), { context }).trim();
     if (!prepared) {
       const msg = 'If Condition: Please configure at least one condition row or a valid expression.';
-      toast('If Condition Missing', msg);
+      reportError('If Condition Missing', msg);
       return { success: false, error: msg };
     }
-    const result = !!new Function('context', 'evaluateExpression', '"use strict"; return ( ' + prepared + ' );')(context, evaluateExpression);
+    const result = !!evaluateWithScope(prepared, { context }, { evaluateExpression });
     return { success: true, data: { conditionResult: result, rowResults: [result], evaluatedAt: new Date().toISOString() } } as any;
   }
   return rows;
@@ -284,7 +518,7 @@ function validateRows(
   rows: Array<{ left: string; comparator: ConditionComparator; right: string; joiner?: 'AND' | 'OR' }>,
   context: ExecutionContext,
   title: 'If Condition'|'Filter',
-  toast: (t: string, d: string) => void
+  reportError: (t: string, d: string) => void
 ): NodeExecutionResult | null {
   const isBlank = (s: unknown) => (typeof s !== 'string') || s.trim().length === 0;
   for (let index = 0; index < rows.length; index++) {
@@ -293,20 +527,20 @@ function validateRows(
 
     if (isBlank(left)) {
       const message = `Row ${rowNumber}: "Value 1" is required.`;
-      toast(`${title}: Missing Input`, message);
+      reportError(`${title}: Missing Input`, message);
       return { success: false, error: message };
     }
 
     if (!UNARY_COMPARATORS.has(comparator as ConditionComparator) && isBlank(right)) {
       const message = `Row ${rowNumber}: "Value 2" is required for "${comparator}".`;
-      toast(`${title}: Missing Input`, message);
+      reportError(`${title}: Missing Input`, message);
       return { success: false, error: message };
     }
 
     if (REGEX_COMPARATORS.has(comparator as ConditionComparator) && !isBlank(right)) {
       try { new RegExp(String(resolveValue(right, context))); } catch (e: any) {
         const message = `Row ${rowNumber}: Invalid regular expression in "Value 2" — ${e?.message ?? 'syntax error'}.`;
-        toast(`${title}: Invalid Regex`, message);
+        reportError(`${title}: Invalid Regex`, message);
         return { success: false, error: message };
       }
     }
@@ -316,7 +550,7 @@ function validateRows(
       const [first, second] = parsePairValues(rightResolved);
       if (first == null || second == null || (String(first).length === 0) || (String(second).length === 0)) {
         const message = `Row ${rowNumber}: "${comparator}" expects two values (e.g., "min,max").`;
-        toast(`${title}: Invalid Range`, message);
+        reportError(`${title}: Invalid Range`, message);
         return { success: false, error: message };
       }
 
@@ -326,7 +560,7 @@ function validateRows(
       const datesOk = !Number.isNaN(toTimestamp(first)) && !Number.isNaN(toTimestamp(second)) && !Number.isNaN(toTimestamp(leftResolved));
       if (!numbersOk && !datesOk) {
         const message = `Row ${rowNumber}: "${comparator}" requires numeric or date values (e.g., "10,20" or "2024-01-01,2024-12-31").`;
-        toast(`${title}: Invalid Range`, message);
+        reportError(`${title}: Invalid Range`, message);
         return { success: false, error: message };
       }
     }
@@ -335,7 +569,7 @@ function validateRows(
       const numericRight = Number(resolveValue(right, context));
       if (Number.isNaN(numericRight)) {
         const message = `Row ${rowNumber}: "Value 2" must be a number for "${comparator}".`;
-        toast(`${title}: Invalid Number`, message);
+        reportError(`${title}: Invalid Number`, message);
         return { success: false, error: message };
       }
     }
@@ -344,7 +578,7 @@ function validateRows(
       const rightText = String(resolveValue(right, context)).trim();
       if (!rightText) {
         const message = `Row ${rowNumber}: "Value 2" must be a non-empty key/property name.`;
-        toast(`${title}: Invalid Field`, message);
+        reportError(`${title}: Invalid Field`, message);
         return { success: false, error: message };
       }
     }
@@ -1,6 +1,8 @@
 import { NodeModel } from '@syncfusion/ej2-react-diagrams';
-import { ExecutionContext, NodeConfig, NodeExecutionResult } from '../../types';
-import { showErrorToast } from '../../components/Toast';
+import { ExecutionContext, NodeConfig, NodeExecutionResult, WorkflowEventBus } from '../../types';
+import { getWorkflowEventBus } from '../WorkflowEventBus';
+import { reportNodeError } from '../BaseExecutors';
+import { coerceWorkflowFieldValue, getDeclaredInputFields, getSubWorkflowCall } from '../../utilities/subWorkflowUtils';
 
 export async function executeTriggerCategory(
   _node: NodeModel,
@@ -9,10 +11,10 @@ export async function executeTriggerCategory(
 ): Promise<NodeExecutionResult> {
   switch (nodeConfig.nodeType) {
     case 'Chat':
-      return executeChatTriggerNode();
+      return executeChatTriggerNode(getWorkflowEventBus(context));
 
     case 'Form':
-      return executeFormTriggerNode(nodeConfig);
+      return executeFormTriggerNode(nodeConfig, context);
 
     case 'Manual Trigger':
       return {
@@ -24,13 +26,41 @@ export async function executeTriggerCategory(
         }
       };
 
+    case 'Workflow Input':
+      return executeWorkflowInputNode(nodeConfig, context);
+
     default:
       return { success: false, error: `Unsupported trigger node type: ${nodeConfig.nodeType}` };
   }
 }
 
+// ---------------- Workflow Input Trigger ----------------
+function executeWorkflowInputNode(nodeConfig: NodeConfig, context: ExecutionContext): NodeExecutionResult {
+  const fields = getDeclaredInputFields(nodeConfig.settings?.general);
+  // Values mapped by the calling Execute Workflow node; manual runs fall back to the defaults
+  const provided = getSubWorkflowCall(context)?.input ?? {};
+
+  // Without declared fields the trigger passes the caller's input through as-is
+  if (fields.length === 0) {
+    return { success: true, data: { ...provided } };
+  }
+
+  const data: Record<string, any> = {};
+  for (const field of fields) {
+    const raw = field.name in provided ? provided[field.name] : field.defaultValue;
+    const coerced = coerceWorkflowFieldValue(raw === '' ? undefined : raw, field.type);
+    if (coerced.error) {
+      const msg = `Workflow Input: "${field.name}" ${coerced.error}.`;
+      reportNodeError(context, 'Workflow Input: Invalid value', msg);
+      return { success: false, error: msg };
+    }
+    data[field.name] = coerced.value;
+  }
+  return { success: true, data };
+}
+
 // ---------------- Form Trigger ----------------
-async function executeFormTriggerNode(nodeConfig: NodeConfig): Promise<NodeExecutionResult> {
+async function executeFormTriggerNode(nodeConfig: NodeConfig, context: ExecutionContext): Promise<NodeExecutionResult> {
   try {
     // Read config
     const title = ((nodeConfig.settings as any)?.general?.formTitle ?? '').trim();
@@ -40,13 +70,13 @@ async function executeFormTriggerNode(nodeConfig: NodeConfig): Promise<NodeExecu
       : [];
 
     // Validate config
-    const validation = validateFormConfig(title, fields);
+    const validation = validateFormConfig(title, fields, context);
     if (!validation.valid) {
       return { success: false, error: validation.error };
     }
 
     // Wait for submit
-    const submitted = await waitForFormSubmit(title, description, fields);
+    const submitted = await waitForFormSubmit(getWorkflowEventBus(context), title, description, fields);
 
     // Map values
     const valueRows = mapFormValues(fields, submitted);
@@ -72,15 +102,15 @@ async function executeFormTriggerNode(nodeConfig: NodeConfig): Promise<NodeExecu
     if (message === 'Form trigger cancelled') {
       return { success: false, error: message };
     }
-    showErrorToast('Form Trigger Error', message);
+    reportNodeError(context, 'Form Trigger Error', message);
     return { success: false, error: message };
   }
 }
 
 // ---------------- Chat Trigger ----------------
-async function executeChatTriggerNode(): Promise<NodeExecutionResult> {
+async function executeChatTriggerNode(eventBus: WorkflowEventBus): Promise<NodeExecutionResult> {
   try {
-    const message = await waitForChatMessage();
+    const message = await waitForChatMessage(eventBus);
 
     // Success payload
     return {
@@ -124,7 +154,7 @@ function buildDateDetails(d: Date) {
 // ----- Helper Methods --------------
 
 // Validates the form trigger configuration
-function validateFormConfig(title: string, fields: any[]): { valid: boolean; error?: string } {
+function validateFormConfig(title: string, fields: any[], context: ExecutionContext): { valid: boolean; error?: string } {
   const invalid = !title || fields.length === 0 || fields.some((f: any) => {
     if (!f || !f.type) return true;
     if (!f.label || String(f.label).trim() === '') return true;
@@ -136,47 +166,40 @@ function validateFormConfig(title: string, fields: any[]): { valid: boolean; err
   });
   if (invalid) {
     const msg = 'Form trigger misconfigured. Ensure title and valid fields (labels, options for dropdowns) are set.';
-    showErrorToast('Form Trigger Configuration', msg);
+    reportNodeError(context, 'Form Trigger Configuration', msg);
     return { valid: false, error: msg };
   }
   return { valid: true };
 }
 
 // Waits for the form to be submitted or cancelled
-async function waitForFormSubmit(title: string, description: string, fields: any[]): Promise<{ values: string[]; at: string }> {
+async function waitForFormSubmit(eventBus: WorkflowEventBus, title: string, description: string, fields: any[]): Promise<{ values: string[]; at: string }> {
   const waitForSubmit = () =>
     new Promise<{ values: string[]; at: string }>((resolve, reject) => {
-      const onSubmitted = (e: Event) => {
-        const ce = e as CustomEvent<{ values?: string[]; at?: string }>;
-        const vals = Array.isArray(ce.detail?.values) ? ce.detail!.values : [];
+      const offSubmitted = eventBus.on('form:submitted', (payload) => {
+        const vals = Array.isArray(payload?.values) ? payload.values : [];
         cleanup();
-        resolve({ values: vals, at: ce.detail?.at || new Date().toISOString() });
-      };
-      const onCancel = () => {
+        resolve({ values: vals, at: payload?.at || new Date().toISOString() });
+      });
+      const offCancel = eventBus.on('form:cancel', () => {
         const err = new Error('Form trigger cancelled');
         cleanup(err);
-      };
+      });
       const cleanup = (err?: Error) => {
-        window.removeEventListener('wf:form:submitted', onSubmitted as EventListener);
-        window.removeEventListener('wf:form:cancel', onCancel as EventListener);
+        offSubmitted();
+        offCancel();
         if (err) reject(err);
       };
-      window.addEventListener('wf:form:submitted', onSubmitted as EventListener, { once: true });
-      window.addEventListener('wf:form:cancel', onCancel as EventListener, { once: true });
     });
 
   const pending = waitForSubmit();
 
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new CustomEvent('wf:form:open', { detail: { title, description, fields } }));
-    window.dispatchEvent(new CustomEvent('wf:trigger:waiting', { detail: { type: 'Form' } }));
-  }
+  eventBus.emit('form:open', { title, description, fields });
+  eventBus.emit('trigger:waiting', { type: 'Form' });
 
   const submitted = await pending;
 
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new CustomEvent('wf:trigger:resumed'));
-  }
+  eventBus.emit('trigger:resumed', { type: 'Form' });
 
   return submitted;
 }
@@ -216,36 +239,31 @@ function buildFormDataDictionary(valueRows: any[]): Record<string, any> {
 }
 
 // Waits for a chat message or cancel
-async function waitForChatMessage(): Promise<{ text: string; at: string }> {
+async function waitForChatMessage(eventBus: WorkflowEventBus): Promise<{ text: string; at: string }> {
   const waitForMessage = () =>
     new Promise<{ text: string; at: string }>((resolve, reject) => {
-      const onMessage = (e: Event) => {
-        const ce = e as CustomEvent<{ text?: string; at?: string }>;
-        const text = (ce.detail?.text || '').trim();
+      const offMessage = eventBus.on('chat:message', (payload) => {
+        const text = (payload?.text || '').trim();
         if (text.length > 0) {
           cleanup();
-          resolve({ text, at: ce.detail?.at || new Date().toISOString() });
+          resolve({ text, at: payload?.at || new Date().toISOString() });
         }
-      };
-      const onCancel = () => {
+      });
+      const offCancel = eventBus.on('chat:cancel', () => {
         const err = new Error('Chat trigger cancelled');
         cleanup(err);
-      };
+      });
       const cleanup = (err?: Error) => {
-        window.removeEventListener('wf:chat:message', onMessage as EventListener);
-        window.removeEventListener('wf:chat:cancel', onCancel as EventListener);
+        offMessage();
+        offCancel();
         if (err) reject(err);
       };
-      window.addEventListener('wf:chat:message', onMessage as EventListener, { once: true });
-      window.addEventListener('wf:chat:cancel', onCancel as EventListener, { once: true });
     });
 
   const pending = waitForMessage();
 
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new CustomEvent('wf:chat:open', { detail: { reason: 'chat-trigger' } }));
-    window.dispatchEvent(new CustomEvent('wf:chat:ready'));
-  }
+  eventBus.emit('chat:open', { reason: 'chat-trigger' });
+  eventBus.emit('chat:ready');
 
   return await pending;
 }
\ No newline at end of file
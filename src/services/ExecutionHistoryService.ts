@@ -0,0 +1,119 @@
+import { ExecutionRecord } from "../types";
+
+/**
+ * Service for persisting workflow execution history per project
+ * Keeps the most recent runs in local storage
+ */
+export class ExecutionHistoryService {
+  private STORAGE_KEY = 'workflow_automation_execution_history';
+  private MAX_RUNS_PER_PROJECT = 20;
+
+  /**
+   * Get all runs of a project (newest first)
+   */
+  getHistory(projectId: string): ExecutionRecord[] {
+    const all = this.readAll();
+    return all[projectId] ?? [];
+  }
+
+  /**
+   * Get a single run by ID
+   */
+  getExecution(projectId: string, executionId: string): ExecutionRecord | null {
+    return this.getHistory(projectId).find(run => run.id === executionId) || null;
+  }
+
+  /**
+   * Save a finished run; older runs beyond the limit are dropped
+   */
+  saveExecution(projectId: string, record: ExecutionRecord): ExecutionRecord | null {
+    const stored: ExecutionRecord = { ...this.toSerializable(record), projectId };
+    const all = this.readAll();
+    const runs = [stored, ...(all[projectId] ?? []).filter(run => run.id !== stored.id)];
+    all[projectId] = runs.slice(0, this.MAX_RUNS_PER_PROJECT);
+
+    // If storage is full, keep dropping the oldest runs of this project until it fits
+    while (all[projectId].length > 0) {
+      try {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+        return stored;
+      } catch (error) {
+        if (all[projectId].length === 1) {
+          console.error('Failed to save execution history:', error);
+          return null;
+        }
+        all[projectId] = all[projectId].slice(0, -1);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Delete a single run
+   */
+  deleteExecution(projectId: string, executionId: string): boolean {
+    try {
+      const all = this.readAll();
+      const runs = all[projectId] ?? [];
+      const remaining = runs.filter(run => run.id !== executionId);
+      if (remaining.length === runs.length) return false;
+      all[projectId] = remaining;
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+      return true;
+    } catch (error) {
+      console.error('Failed to delete execution:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove every run of a project (e.g. when the project is deleted)
+   */
+  clearHistory(projectId: string): void {
+    try {
+      const all = this.readAll();
+      if (!(projectId in all)) return;
+      delete all[projectId];
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      console.error('Failed to clear execution history:', error);
+    }
+  }
+
+  private readAll(): Record<string, ExecutionRecord[]> {
+    try {
+      const json = localStorage.getItem(this.STORAGE_KEY);
+      return json ? JSON.parse(json) : {};
+    } catch (error) {
+      console.error('Failed to load execution history:', error);
+      return {};
+    }
+  }
+
+  // Drop values that cannot be stored as JSON (files, blobs, DOM references, cycles)
+  private toSerializable(record: ExecutionRecord): ExecutionRecord {
+    const replaceBinary = (_key: string, value: any) => {
+      if (typeof Blob !== 'undefined' && value instanceof Blob) return `[${value.type || 'binary'} data]`;
+      if (typeof value === 'function') return undefined;
+      return value;
+    };
+    try {
+      return JSON.parse(JSON.stringify(record, replaceBinary));
+    } catch {
+      // Cyclic data: replace repeated objects with a marker
+      const seen: object[] = [];
+      return JSON.parse(JSON.stringify(record, (key, value) => {
+        const next = replaceBinary(key, value);
+        if (next && typeof next === 'object') {
+          if (seen.indexOf(next) >= 0) return '[Circular]';
+          seen.push(next);
+        }
+        return next;
+      }));
+    }
+  }
+}
+
+const executionHistoryService = new ExecutionHistoryService();
+
+export default executionHistoryService;
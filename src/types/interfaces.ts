@@ -1,5 +1,5 @@
 import { NodeModel } from "@syncfusion/ej2-react-diagrams";
-import { ConditionComparator, ConditionJoiner, ConnectorType, GridStyle, NodeCategories, NodeStatus, NodeType, OpKind, PaletteCategoryLabel, PaletteFilterMode, SnappingSettings, ToastType } from "./types";
+import { AggregateOperation, ConditionComparator, ConditionJoiner, ConnectorType, ConsoleLogLevel, GridStyle, LoopControl, NodeCategories, NodeStatus, NodeType, OpKind, PaletteCategoryLabel, PaletteFilterMode, RetryCondition, SnappingSettings, SortDirection, ToastType, ValidationRule, ValidationSeverity, WorkflowExecutionMode, WorkflowFieldType } from "./types";
 
 export interface NodeConfig {
   id: string;
@@ -17,6 +17,15 @@ export interface NodeConfig {
     start?: Date;
     end?: Date;
   };
+  pinnedData?: PinnedData;
+  breakpoint?: boolean;          // Pause the run before executing this node
+}
+
+// Mock output stored on a node; when present the node is not executed and this data is returned instead
+export interface PinnedData {
+  data: any;
+  pinnedAt: string;
+  source: 'execution' | 'manual';
 }
 
 export interface WorkflowData {
@@ -96,6 +105,8 @@ export interface DiagramSettings {
   connectorCornerRadius: number;
   showOverview: boolean;
   showOverviewAlways: boolean; 
+  executionMode?: WorkflowExecutionMode;
+  maxConcurrency?: number;
 }
 
 export interface StickyNotePosition {
@@ -109,6 +120,7 @@ export interface PortConfiguration {
   rightPort?: boolean;
   rightTopPort?: boolean;
   rightBottomPort?: boolean;
+  errorPort?: boolean;
 }
 
 export interface ToastMessage {
@@ -124,7 +136,59 @@ export interface ToastMessage {
 export interface ExecutionContext {
   variables: Record<string, any>;
   results: Record<string, any>;
+  logs?: Record<string, ConsoleLogEntry[]>; // console output of Code nodes, keyed by node id (latest run)
   lastError?: string;
+  // Attached by the engine for the run
+  diagram?: WorkflowGraphSource;  // Graph being run, for executors that look up connected nodes
+  eventBus?: WorkflowEventBus;    // Bus of the run (read through getWorkflowEventBus)
+  projectId?: string;             // Saved project being run
+  subWorkflow?: SubWorkflowCall;  // Set when the run was started by an Execute Workflow node
+  abortSignal?: AbortSignal;      // Aborted when the run is cancelled or the node attempt times out
+  __runtime?: ExecutionRuntime;   // Shared by reference with every context derived from this one
+  __scopeKey?: string;            // Parallel Loop iteration the context belongs to
+  __loopIteration?: LoopIterationScope; // Loop iteration the node runs in
+  __nodeId?: string;              // Node being run, so $node() can tell which nodes are upstream
+  // Set by the engine for the node being run; executors report through reportNodeError / showNodeNotification
+  onNodeError?: (title: string, message: string) => void;
+  onNodeNotification?: (notification: NodeNotification) => void;
+}
+
+// Engine bookkeeping of a run (or one parallel Loop iteration). Node contexts are shallow copies,
+// so this state is only ever written through the shared object, never as a field of a copy.
+export interface ExecutionRuntime {
+  mergeInputs: Record<string, MergeInput[]>; // Inputs the scheduler collected for each Merge node
+  loopItems: Record<string, any[]>;          // Items (or batches) of each Loop node
+}
+
+// One branch output handed to a Merge node
+export interface MergeInput {
+  sourceId: string;
+  sourceName: string;
+  data: any;
+}
+
+// Message a node shows to whoever runs the workflow (the canvas turns it into a toast)
+export interface NodeNotification {
+  level: ToastType;
+  title: string;
+  message: string;
+  variant?: 'default' | 'notification';
+}
+
+// One console call captured from a Code node
+export interface ConsoleLogEntry {
+  level: ConsoleLogLevel;
+  message: string;
+  time: number;                  // ms since the code started
+}
+
+// Outcome of running Code node source in the sandbox worker
+export interface CodeRunResult {
+  success: boolean;
+  value?: any;                   // Returned value (copied out of the worker)
+  error?: string;
+  logs: ConsoleLogEntry[];
+  durationMs: number;
 }
 
 // Node Execution Result
@@ -140,6 +204,7 @@ export interface WorkflowExecutionStatus {
   currentNodeId?: string;
   error?: string;
   executionPath: string[];
+  pausedNodeId?: string;         // Node the run is paused before (debugger)
 }
 
 // Workflow Execution Options
@@ -147,7 +212,261 @@ export interface WorkflowExecutionOptions {
   timeout?: number;
   retryCount?: number;
   retryDelay?: number;
+  retryBackoffFactor?: number;
+  retryMaxDelay?: number;
+  retryJitter?: boolean;
+  retryOn?: RetryCondition[];
   enableDebug?: boolean;
+  executionMode?: WorkflowExecutionMode; // 'parallel' runs the sibling branches of a fork concurrently
+  maxConcurrency?: number;       // Parallel mode: sibling branches of one fork running at the same time
+  eventBus?: WorkflowEventBus;   // Channel for catalog events; each engine gets a private bus when omitted
+  projectId?: string;            // Saved project being run; lets Execute Workflow nodes detect recursive calls
+  subWorkflow?: SubWorkflowCall; // Set when the run was started by an Execute Workflow node
+}
+
+// One run of a Loop body; Break / Continue nodes inside the body set `control`
+export interface LoopIterationScope {
+  loopNodeId: string;
+  loopNodeName: string;
+  index: number;                 // 0-based iteration (batch) index
+  count: number;                 // Iterations in this loop run
+  item: any;                     // Current item (or batch)
+  control: LoopControl | null;
+  lastNodeId?: string;           // Last body node that finished; its result is the iteration output
+  parent: LoopIterationScope | null; // Iteration of the enclosing loop (nested loops)
+}
+
+// Loop frame exposed to expressions as $loop / $loop.parent / $loops["Loop name"]
+export interface LoopFrame {
+  item: any;
+  index: number;                 // 0-based
+  iteration: number;             // 1-based
+  count: number;
+  isFirst: boolean;
+  isLast: boolean;
+  nodeId: string;
+  nodeName: string;
+  parent: LoopFrame | null;
+}
+
+// Built-in expression helper, listed as a completion in variable picker text boxes
+export interface ExpressionFunctionDoc {
+  name: string;                  // Identifier used in expressions, e.g. formatDate or $now
+  kind: 'function' | 'value';
+  category: 'Date' | 'String' | 'Number' | 'Array' | 'JSON';
+  signature: string;             // e.g. formatDate(date, pattern?, timeZone?)
+  description: string;
+  example: string;
+}
+
+// Evaluation of one {{ ... }} token of a config field against the last run (live preview)
+export interface ExpressionTokenPreview {
+  start: number;                 // Offsets of the whole token in the field text
+  end: number;
+  expression: string;            // Token content without the braces
+  value?: any;
+  valueType: string;             // e.g. "string", "number", "array (3)", "object", "undefined"
+  error?: string;
+  errorStart?: number;           // Offsets (in the field text) of the span to underline
+  errorEnd?: number;
+}
+
+// Live preview of a whole config field
+export interface ExpressionFieldPreview {
+  tokens: ExpressionTokenPreview[];
+  value?: any;                   // Resolved field value (typed for a single token, text otherwise)
+  valueType: string;
+  error?: string;                // First error of any token
+  hasRun: boolean;               // False when there is no previous run to evaluate against
+}
+
+// Result of one Loop iteration, collected for the done port
+export interface LoopIterationOutcome {
+  index: number;
+  status: 'completed' | 'skipped' | 'broken';
+  output?: any;
+}
+
+// Invocation of a workflow by an Execute Workflow node
+export interface SubWorkflowCall {
+  input: Record<string, any>;    // Values mapped by the caller, read by the Workflow Input trigger
+  callStack: string[];           // Project ids of the calling workflows, outermost first
+  depth: number;                 // Nesting level (1 = called from a top-level run)
+}
+
+// Input a sub-workflow accepts (stored in the Workflow Input trigger's settings.general.inputFields)
+export interface WorkflowInputField {
+  name: string;
+  type: WorkflowFieldType;
+  defaultValue?: string;         // Used when the caller does not map the field (and on manual runs)
+}
+
+// Name/value row: Execute Workflow input mappings and Workflow Output fields
+export interface WorkflowFieldMapping {
+  name: string;
+  value: string;                 // Literal or {{ }} / $. expression
+}
+
+// Edit Fields row: field name (a nested path with dot notation), declared type and value expression
+export interface EditFieldAssignment {
+  name: string;
+  type?: WorkflowFieldType;      // Value is converted to this type ('any' keeps it as resolved)
+  value: string;                 // Literal or {{ }} / $. expression
+}
+
+// Sort node key: field path of each item ('' sorts by the item itself)
+export interface SortKey {
+  field: string;
+  direction: SortDirection;
+}
+
+// Aggregate node column: function applied to a field of every item in a group
+export interface AggregateColumn {
+  operation: AggregateOperation;
+  field: string;                 // Optional for count (counts items where the field has a value)
+  name?: string;                 // Output name; defaults to e.g. "sum_amount"
+}
+
+// Interface a saved workflow exposes to Execute Workflow nodes
+export interface WorkflowInterface {
+  hasInputTrigger: boolean;
+  inputFields: WorkflowInputField[];
+  outputFields: string[];
+}
+
+// Per-node retry override (stored in NodeConfig.settings.advanced.retry)
+export interface RetryPolicy {
+  enabled?: boolean;
+  maxRetries?: number;
+  delayMs?: number;
+  backoffFactor?: number;
+  maxDelayMs?: number;
+  jitter?: boolean;
+  retryOn?: RetryCondition[];
+}
+
+// One execution attempt of a node, recorded in its output when retries happen
+export interface RetryAttempt {
+  attempt: number;
+  startedAt: string;
+  endedAt: string;
+  success: boolean;
+  error?: string;
+  nextDelayMs?: number;
+}
+
+// One node's data captured during a recorded run
+export interface NodeExecutionRecord {
+  nodeId: string;
+  nodeName: string;
+  nodeType: NodeType;
+  status: NodeStatus;
+  input?: Record<string, any>;   // outputs of the direct upstream nodes, keyed by node name
+  output?: any;
+  error?: string;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs?: number;
+  runCount?: number;             // > 1 when executed repeatedly (e.g. inside a loop)
+}
+
+// A full workflow run saved to the execution history
+export interface ExecutionRecord {
+  id: string;
+  projectId?: string;
+  status: 'success' | 'error' | 'cancelled';
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  triggerNodeId?: string;
+  triggerPayload?: any;
+  executionPath: string[];
+  nodes: Record<string, NodeExecutionRecord>;
+  error?: string;
+}
+
+// One problem reported by the pre-execution workflow validator
+export interface ValidationIssue {
+  id: string;
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+  nodeId?: string;               // Absent for workflow-level issues (e.g. no trigger)
+  nodeName?: string;
+}
+
+// Minimal graph shape the execution engine traverses; a live DiagramComponent satisfies it as well as WorkflowGraph
+export interface WorkflowGraphSource {
+  nodes: NodeModel[];
+  connectors: Array<{ id?: string; sourceID?: string; targetID?: string; sourcePortID?: string; targetPortID?: string }>;
+  getObject(id: string): any;
+}
+
+// Plain node/edge model accepted by the headless engine (e.g. from tests or scripts)
+export interface WorkflowModel {
+  nodes: Array<{ id: string; config: NodeConfig }>;
+  edges: Array<{ id?: string; source: string; target: string; sourcePort?: string; targetPort?: string }>;
+}
+
+// Events emitted by the headless WorkflowEngine; the canvas is one subscriber
+export type WorkflowEngineEvent =
+  | { type: 'reset' }
+  | { type: 'node-status'; nodeId: string; status: NodeStatus; restrictToSourcePortId?: string; appendConnectorStatus?: boolean }
+  | { type: 'node-paused'; nodeId: string; paused: boolean }
+  | { type: 'pause-change'; nodeId: string | null }
+  | { type: 'context'; context: ExecutionContext }
+  | { type: 'notification'; level: ToastType; title: string; message: string; variant?: 'default' | 'notification'; nodeId?: string }
+  | { type: 'finished'; record: ExecutionRecord };
+
+/**
+ * Event catalog of the workflow event bus: every event the runtime and the UI exchange, with its payload.
+ * Each editor (or headless run) owns its own bus, so events never leak between runs.
+ */
+export interface WorkflowEventMap {
+  // ---- Node lifecycle (published by the engine during full runs)
+  'node:started': { nodeId: string; nodeName: string; nodeType: NodeType };
+  'node:finished': { nodeId: string; nodeName: string; nodeType: NodeType; output?: any; durationMs?: number };
+  'node:failed': { nodeId: string; nodeName: string; nodeType: NodeType; error: string; durationMs?: number };
+
+  // ---- Waiting triggers (Chat/Form/Webhook): drive the "waiting for trigger" banner
+  'trigger:waiting': { type?: NodeType };
+  'trigger:resumed': { type?: NodeType };
+  'trigger:clear': void;                      // A run started or ended; drop any waiting state
+
+  // ---- Form trigger <-> form popup
+  'form:open': { title: string; description?: string; fields: any[] };
+  'form:submitted': { values: string[]; at: string };
+  'form:cancel': void;
+
+  // ---- Chat trigger <-> chat popup
+  'chat:open': { reason?: string };           // Ask the editor to show the chat popup
+  'chat:ready': void;                         // The Chat trigger is listening for a message
+  'chat:prompt': { text: string; at: string };  // User submitted a prompt in the popup
+  'chat:message': { text: string; at: string }; // Prompt forwarded to the waiting Chat trigger
+  'chat:cancel': void;                        // Stop waiting for a chat message
+  'chat:assistant-response': { text: string; triggeredFrom?: string };
+  'chat:update-banner': { text: string };     // Banner text edited in the Chat node config
+
+  // ---- Run lifecycle
+  'run:completed': { record: ExecutionRecord };
+
+  // ---- Editor state
+  'workflow:lock-changed': { locked: boolean };  // The diagram was locked or unlocked for editing
+}
+
+export type WorkflowEventName = keyof WorkflowEventMap;
+
+// Payload argument of an event; events typed as void take none
+export type WorkflowEventArgs<K extends WorkflowEventName> = WorkflowEventMap[K] extends void ? [] : [WorkflowEventMap[K]];
+
+export type WorkflowEventHandler<K extends WorkflowEventName> = (payload: WorkflowEventMap[K]) => void;
+
+// Typed publish/subscribe channel for the catalog above
+export interface WorkflowEventBus {
+  on<K extends WorkflowEventName>(name: K, handler: WorkflowEventHandler<K>): () => void;
+  once<K extends WorkflowEventName>(name: K, handler: WorkflowEventHandler<K>): () => void;
+  emit<K extends WorkflowEventName>(name: K, ...args: WorkflowEventArgs<K>): void;
+  clear(): void;
 }
 
 export interface NodeExecutor {
@@ -1,6 +1,6 @@
-export type ToolbarAction = 'addNode' | 'execute' | 'cancel' | 'fitToPage' | 'zoomIn' | 'zoomOut' | 'resetZoom' | 'addSticky' | 'togglePan' | 'autoAlign';
+export type ToolbarAction = 'addNode' | 'execute' | 'cancel' | 'fitToPage' | 'zoomIn' | 'zoomOut' | 'resetZoom' | 'addSticky' | 'togglePan' | 'autoAlign' | 'history' | 'validate' | 'continue' | 'stepOver';
 
-export type NodeToolbarAction = 'edit' | 'delete' | 'execute-step';
+export type NodeToolbarAction = 'edit' | 'delete' | 'execute-step' | 'run-up-to' | 'run-from' | 'toggle-breakpoint';
 
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
 
@@ -55,7 +55,22 @@ export type NodeType =
   | 'Switch Case'
   | 'Filter'
   | 'Loop'
+  | 'Merge'
   | 'Stop'
+  | 'Execute Workflow'
+  | 'Workflow Input'
+  | 'Workflow Output'
+  | 'Break'
+  | 'Continue'
+  | 'Code'
+  | 'Edit Fields'
+  | 'Sort'
+  | 'Limit'
+  | 'Remove Duplicates'
+  | 'Aggregate'
+  | 'Split Out'
+  | 'Date & Time'
+  | 'Convert'
 ;
 
 export type Variable = {
@@ -71,11 +86,54 @@ export type VariableGroup = {
   nodeType: string;       // "Gmail" | "Google Sheets" | "Webhook" ...
   variables: Variable[];
   raw?: any;              // full raw output for accurate preview/copy
+  pathPrefix?: string;    // inserted before picked keys instead of "$.<nodeType>" (e.g. "$loop.parent")
 };
 
 // Node Status for workflow execution
 export type NodeStatus = 'idle' | 'running' | 'success' | 'error';
 
+// What happens when a node fails (stored in NodeConfig.settings.advanced.onError)
+export type NodeErrorMode = 'stop' | 'continue' | 'errorOutput';
+
+// How sibling branches of a fork are run: one after another, or concurrently up to a limit
+export type WorkflowExecutionMode = 'sequential' | 'parallel';
+
+// How a Break / Continue node ends the current Loop iteration
+export type LoopControl = 'break' | 'continue';
+
+// How a run paused at a breakpoint is resumed: run to the next breakpoint, or pause again before the next node
+export type DebugAction = 'continue' | 'step';
+
+// Pre-execution validation: errors block a run, warnings are only reported
+export type ValidationSeverity = 'error' | 'warning';
+
+// Checks performed by the workflow validator
+export type ValidationRule = 'no-trigger' | 'missing-config' | 'unreachable' | 'unconnected-port' | 'invalid-reference' | 'invalid-expression' | 'cycle' | 'misplaced-node';
+
+// Value type a sub-workflow declares for one of its inputs (Workflow Input trigger)
+export type WorkflowFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+// Source language of a Code node (TypeScript is transpiled before it runs)
+export type CodeLanguage = 'javascript' | 'typescript';
+
+// console method a Code node called
+export type ConsoleLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// Collection nodes: sort order, which end Limit keeps, and Aggregate functions
+export type SortDirection = 'asc' | 'desc';
+export type LimitFrom = 'first' | 'last';
+export type AggregateOperation = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Date & Time node: what it does with the date, and which edge of a period Round moves to
+export type DateTimeOperation = 'format' | 'add' | 'subtract' | 'difference' | 'round' | 'convertTimeZone';
+export type DateRoundEdge = 'start' | 'end';
+
+// Convert node: source and target format of the conversion
+export type ConvertOperation = 'csvToJson' | 'jsonToCsv' | 'xmlToJson' | 'jsonToXml' | 'parseJson' | 'stringifyJson' | 'toHtmlTable';
+
+// Failure kinds a retry policy can be limited to
+export type RetryCondition = 'timeout' | 'network' | 'http5xx' | 'http429' | 'any';
+
 export type ConditionJoiner = 'AND' | 'OR';
 
 export type ConditionComparator =
@@ -0,0 +1,240 @@
+import { CodeLanguage, CodeRunResult, ConsoleLogEntry } from '../types';
+import { CODE_NODE_DEFAULT_TIMEOUT_MS, CODE_NODE_MAX_LOG_ENTRIES, CODE_NODE_MAX_TIMEOUT_MS } from '../constants';
+
+// Code node sandbox: user code runs in a throwaway Web Worker, so it cannot touch the page, the diagram or
+// the app state, and a runaway loop is ended by terminating the worker. Network and storage APIs are
+// removed inside the worker; data goes in and out only as structured-cloned copies.
+
+type SandboxRunOptions = {
+  code: string;
+  language?: CodeLanguage;
+  globals?: Record<string, any>;   // Values exposed to the code under their key ($input, $vars, ...)
+  nodes?: Record<string, any>;     // Outputs read with $node("Name")
+  ambiguousNodes?: string[];       // Names shared by several upstream nodes; $node() rejects them
+  timeoutMs?: number;
+  signal?: AbortSignal;            // Aborting (run cancelled) terminates the worker
+};
+
+// Parameters the user code sees, in the order the worker passes them
+const FIXED_PARAMETERS = ['console', '$node'];
+
+// Source of the worker; kept in plain ES2017 since it is not compiled with the app
+const WORKER_SOURCE = `
+'use strict';
+var post = self.postMessage.bind(self);
+var hasOwn = Object.prototype.hasOwnProperty;
+
+self.onmessage = function (event) {
+  var data = event.data || {};
+  var started = Date.now();
+  var logged = 0;
+  var dropped = 0;
+
+  function formatArg(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return String(value);
+    try {
+      var seen = [];
+      return JSON.stringify(value, function (key, v) {
+        if (v && typeof v === 'object') {
+          if (seen.indexOf(v) >= 0) return '[Circular]';
+          seen.push(v);
+        }
+        return typeof v === 'bigint' ? String(v) : v;
+      }, 2);
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  function write(level) {
+    return function () {
+      if (logged >= data.maxLogs) { dropped++; return; }
+      logged++;
+      var args = Array.prototype.slice.call(arguments);
+      post({ type: 'log', level: level, message: args.map(formatArg).join(' '), time: Date.now() - started });
+    };
+  }
+
+  var sandboxConsole = {
+    log: write('log'), info: write('info'), warn: write('warn'), error: write('error'), debug: write('debug')
+  };
+
+  function $node(name) {
+    var key = String(name);
+    if ((data.ambiguousNodes || []).indexOf(key) >= 0) throw new Error('Several upstream nodes are named "' + key + '"; rename one of them');
+    if (!hasOwn.call(data.nodes || {}, key)) throw new Error('No upstream node named "' + key + '" has output in this run');
+    return data.nodes[key];
+  }
+
+  function describeError(error) {
+    if (!(error instanceof Error)) return 'Uncaught ' + formatArg(error);
+    var line = /eval at .*?, <anonymous>:(\\d+):\\d+/.exec(error.stack || '');
+    // new Function adds two lines and the wrapper one more before the first line of user code
+    var at = line && Number(line[1]) > 3 ? ' (line ' + (Number(line[1]) - 3) + ')' : '';
+    return error.name + ': ' + error.message + at;
+  }
+
+  function finish(message) {
+    message.dropped = dropped;
+    try {
+      post(message);
+    } catch (cloneError) {
+      // Values structured clone cannot copy (functions, class instances, ...) go out as JSON
+      try {
+        var json = JSON.stringify(message.value);
+        if (json === undefined) throw new Error('a ' + typeof message.value + ' has no JSON form');
+        message.value = JSON.parse(json);
+        post(message);
+      } catch (jsonError) {
+        post({ type: 'error', message: 'The returned value cannot be copied out of the sandbox (' + jsonError.message + ')', dropped: dropped });
+      }
+    }
+  }
+
+  Promise.resolve()
+    .then(function () {
+      var run = new Function(data.source + '\\nreturn __codeNode;')();
+      return run.apply(undefined, [sandboxConsole, $node].concat(data.args || []));
+    })
+    .then(
+      function (value) { finish({ type: 'result', value: value }); },
+      function (error) { finish({ type: 'error', message: describeError(error) }); }
+    );
+};
+
+// No network, storage or nested workers for user code
+['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'SharedWorker', 'BroadcastChannel', 'postMessage']
+  .forEach(function (name) {
+    for (var target = self; target; target = Object.getPrototypeOf(target)) {
+      try { if (hasOwn.call(target, name)) delete target[name]; } catch (e) {}
+    }
+    try { Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false }); } catch (e) {}
+  });
+`;
+
+/**
+ * Run time limit of a Code node from its "timeout (seconds)" setting, clamped to the allowed range
+ */
+export const getCodeNodeTimeoutMs = (timeoutSeconds: unknown): number =>
+  clampTimeout(Number(timeoutSeconds) > 0 ? Number(timeoutSeconds) * 1000 : undefined);
+
+/**
+ * Run Code node source in a sandboxed worker. The code is the body of an async function: it may use
+ * await, reads its inputs from the `globals` names and `$node("Name")`, and its return value is the result.
+ * Never rejects; failures (syntax errors, exceptions, timeout, cancellation) come back as `error`.
+ */
+export const runSandboxedCode = async (options: SandboxRunOptions): Promise<CodeRunResult> => {
+  const started = Date.now();
+  const logs: ConsoleLogEntry[] = [];
+  const fail = (error: string): CodeRunResult => ({ success: false, error, logs, durationMs: Date.now() - started });
+
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined') {
+    return fail('Code: Web Workers are not available in this browser');
+  }
+  if (options.signal?.aborted) return fail('Code: Execution cancelled');
+
+  const globals = options.globals ?? {};
+  const names = Object.keys(globals);
+  let source: string;
+  try {
+    source = await buildSource(options.code, options.language ?? 'javascript', [...FIXED_PARAMETERS, ...names]);
+  } catch (err: any) {
+    return fail(`Code: ${err?.message ?? err}`);
+  }
+
+  const timeoutMs = clampTimeout(options.timeoutMs);
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+
+  return new Promise<CodeRunResult>(resolve => {
+    let settled = false;
+    const settle = (result: Omit<CodeRunResult, 'logs' | 'durationMs'>, dropped = 0) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      if (dropped > 0) {
+        logs.push({ level: 'warn', message: `${dropped} more console message${dropped === 1 ? '' : 's'} not shown`, time: Date.now() - started });
+      }
+      resolve({ ...result, logs, durationMs: Date.now() - started });
+    };
+    const onAbort = () => settle({ success: false, error: 'Code: Execution cancelled' });
+    const timer = setTimeout(
+      () => settle({ success: false, error: `Code: Timed out after ${formatSeconds(timeoutMs)} (the code was stopped)` }),
+      timeoutMs
+    );
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data ?? {};
+      if (message.type === 'log') {
+        logs.push({ level: message.level, message: String(message.message), time: Number(message.time) || 0 });
+      } else if (message.type === 'result') {
+        settle({ success: true, value: message.value }, message.dropped);
+      } else if (message.type === 'error') {
+        settle({ success: false, error: `Code: ${message.message}` }, message.dropped);
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      settle({ success: false, error: `Code: ${event.message || 'The sandbox failed to start'}` });
+    };
+
+    const payload = {
+      source,
+      args: names.map(name => globals[name]),
+      nodes: options.nodes ?? {},
+      ambiguousNodes: options.ambiguousNodes ?? [],
+      maxLogs: CODE_NODE_MAX_LOG_ENTRIES,
+    };
+    try {
+      worker.postMessage(payload);
+    } catch {
+      // Inputs structured clone cannot copy are sent as JSON
+      try {
+        worker.postMessage(JSON.parse(JSON.stringify(payload)));
+      } catch (err: any) {
+        settle({ success: false, error: `Code: The inputs cannot be copied into the sandbox (${err?.message ?? err})` });
+      }
+    }
+  });
+};
+
+// ----- Helper Methods --------------
+
+// Wrap the code in an async function taking the sandbox parameters; TypeScript is transpiled first
+async function buildSource(code: string, language: CodeLanguage, parameters: string[]): Promise<string> {
+  const wrapped = `async function __codeNode(${parameters.join(', ')}) {\n${code}\n}`;
+  if (language !== 'typescript') return wrapped;
+
+  // Loaded on first use: only TypeScript Code nodes need the compiler
+  const ts = await import('typescript');
+  const output = ts.transpileModule(wrapped, {
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2017, module: ts.ModuleKind.None, removeComments: false },
+  });
+  const diagnostic = output.diagnostics?.find(d => d.category === ts.DiagnosticCategory.Error);
+  if (diagnostic) {
+    const text = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    const line = diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line // 0-based in the wrapper = 1-based in the code
+      : 0;
+    throw new Error(line > 0 ? `TypeScript error (line ${line}): ${text}` : `TypeScript error: ${text}`);
+  }
+  return output.outputText;
+}
+
+function clampTimeout(timeoutMs?: number): number {
+  const n = Number(timeoutMs);
+  if (!Number.isFinite(n) || n <= 0) return CODE_NODE_DEFAULT_TIMEOUT_MS;
+  return Math.min(CODE_NODE_MAX_TIMEOUT_MS, Math.max(100, Math.floor(n)));
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = ms / 1000;
+  return `${Number.isInteger(seconds) ? seconds : seconds.toFixed(1)} s`;
+}
@@ -0,0 +1,217 @@
+import { AggregateColumn, LimitFrom, SortKey } from '../types';
+import { getValueAtPath, parseFieldPath } from './objectPathUtils';
+import { toTimestamp } from './conditionUtils';
+
+// List operations behind the collection nodes (Sort, Limit, Remove Duplicates, Aggregate, Split Out).
+// They never mutate the input list; fields are paths into each item ("customer.name", "tags[0]").
+
+/**
+ * Sort by one or more keys; later keys break ties of earlier ones. Empty values go last in both
+ * directions, numbers compare numerically, date strings by time and other text naturally ("item 2" < "item 10").
+ */
+export const sortItems = (items: any[], keys: SortKey[]): any[] => {
+  const sortKeys = keys.length > 0 ? keys : [{ field: '', direction: 'asc' as const }];
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      for (const key of sortKeys) {
+        const left = readField(a.item, key.field);
+        const right = readField(b.item, key.field);
+        // Empty values last, whatever the direction
+        const leftEmpty = isEmptyValue(left);
+        const rightEmpty = isEmptyValue(right);
+        if (leftEmpty || rightEmpty) {
+          if (leftEmpty !== rightEmpty) return leftEmpty ? 1 : -1;
+          continue;
+        }
+        const order = compareItemValues(left, right);
+        if (order !== 0) return key.direction === 'desc' ? -order : order;
+      }
+      return a.index - b.index; // stable
+    })
+    .map(entry => entry.item);
+};
+
+/**
+ * First or last `count` items
+ */
+export const limitItems = (items: any[], count: number, from: LimitFrom = 'first'): any[] => {
+  const n = Math.max(0, Math.floor(count));
+  if (n === 0) return [];
+  return from === 'last' ? items.slice(-n) : items.slice(0, n);
+};
+
+/**
+ * Keep the first item of every set of duplicates
+ * @param fields Field paths to compare; empty compares whole items
+ */
+export const removeDuplicateItems = (items: any[], fields: string[] = []): any[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = fields.length > 0
+      ? fields.map(field => identityKey(readField(item, field))).join('\u0000')
+      : identityKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * One row per group (or a single row without `groupBy`) holding the group value and one value per column.
+ * Groups keep the order in which their first item appears.
+ */
+export const aggregateItems = (items: any[], columns: AggregateColumn[], groupBy = ''): Record<string, any>[] => {
+  const groupField = groupBy.trim();
+  const groups: Array<{ value: any; items: any[] }> = [];
+  const index = new Map<string, number>();
+
+  if (!groupField) {
+    groups.push({ value: undefined, items });
+  } else {
+    items.forEach(item => {
+      const value = readField(item, groupField);
+      const key = identityKey(value);
+      if (!index.has(key)) {
+        index.set(key, groups.length);
+        groups.push({ value: value === undefined ? null : value, items: [] });
+      }
+      groups[index.get(key)!].items.push(item);
+    });
+  }
+
+  const groupName = groupField ? lastSegment(groupField) : '';
+  return groups.map(group => {
+    const row: Record<string, any> = {};
+    if (groupName) row[groupName] = group.value;
+    columns.forEach(column => {
+      row[getAggregateColumnName(column)] = aggregateValues(group.items, column);
+    });
+    return row;
+  });
+};
+
+/**
+ * Output name of an Aggregate column: its name, or e.g. "sum_amount" / "count"
+ */
+export const getAggregateColumnName = (column: AggregateColumn): string => {
+  const name = String(column.name ?? '').trim();
+  if (name) return name;
+  const field = String(column.field ?? '').trim();
+  return field ? `${column.operation}_${parseFieldPath(field).join('_')}` : column.operation;
+};
+
+/**
+ * Turn the list in `field` of every item into items of their own
+ * @param includeOtherFields Copy the item's remaining fields next to each list entry
+ * @param destination Key for entries that are not objects (and for every entry when other fields are kept);
+ * defaults to the last segment of `field`
+ */
+export const splitOutItems = (items: any[], field: string, includeOtherFields = false, destination = ''): any[] => {
+  const keys = parseFieldPath(field);
+  const target = destination.trim() || keys[keys.length - 1] || 'value';
+  const out: any[] = [];
+
+  items.forEach(item => {
+    const value = readField(item, field);
+    if (value === undefined || value === null) return;
+    const entries = Array.isArray(value) ? value : [value];
+    const rest = includeOtherFields && isPlainObject(item) ? withoutPath(item, keys) : null;
+
+    entries.forEach(entry => {
+      if (rest) out.push({ ...rest, [target]: entry });
+      else out.push(isPlainObject(entry) ? { ...entry } : { [target]: entry });
+    });
+  });
+  return out;
+};
+
+// ----- Helper Methods --------------
+
+function readField(item: any, field: string): any {
+  return field && field.trim() ? getValueAtPath(item, field.trim()) : item;
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === '' || (typeof value === 'number' && Number.isNaN(value));
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isNumeric(value: any): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+// Date-looking text only ("2024-05-01", "May 1, 2024"), so plain words are never read as dates
+function asDateTime(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== 'string' || !/\d/.test(value) || isNumeric(value)) return NaN;
+  return toTimestamp(value);
+}
+
+function compareItemValues(left: any, right: any): number {
+  if (isNumeric(left) && isNumeric(right)) return Number(left) - Number(right);
+
+  const leftTime = asDateTime(left);
+  const rightTime = asDateTime(right);
+  if (!Number.isNaN(leftTime) && !Number.isNaN(rightTime)) return leftTime - rightTime;
+
+  if (typeof left === 'boolean' && typeof right === 'boolean') return Number(left) - Number(right);
+
+  const leftText = typeof left === 'object' ? JSON.stringify(left) : String(left);
+  const rightText = typeof right === 'object' ? JSON.stringify(right) : String(right);
+  return leftText.localeCompare(rightText, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function aggregateValues(items: any[], column: AggregateColumn): any {
+  const field = String(column.field ?? '').trim();
+  const values = items.map(item => readField(item, field));
+
+  switch (column.operation) {
+    case 'count':
+      return field ? values.filter(value => !isEmptyValue(value)).length : items.length;
+    case 'sum':
+    case 'avg': {
+      const numbers = values.filter(isNumeric).map(Number);
+      if (column.operation === 'sum') return numbers.reduce((total, n) => total + n, 0);
+      return numbers.length ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    }
+    case 'min':
+    case 'max': {
+      const present = values.filter(value => !isEmptyValue(value));
+      if (present.length === 0) return null;
+      return present.reduce((best, value) => {
+        const order = compareItemValues(value, best);
+        return (column.operation === 'min' ? order < 0 : order > 0) ? value : best;
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+// Comparable key: objects compare by content, 1 and "1" stay distinct
+function identityKey(value: any): string {
+  return `${typeof value}:${typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)}`;
+}
+
+function lastSegment(path: string): string {
+  const keys = parseFieldPath(path);
+  return keys[keys.length - 1] ?? path;
+}
+
+// Shallow copies along the path, with the field itself removed
+function withoutPath(item: Record<string, any>, keys: string[]): Record<string, any> {
+  const copy: Record<string, any> = { ...item };
+  if (keys.length === 0) return copy;
+  const [head, ...rest] = keys;
+  if (rest.length === 0) {
+    delete copy[head];
+  } else if (isPlainObject(copy[head])) {
+    copy[head] = withoutPath(copy[head], rest);
+  }
+  return copy;
+}
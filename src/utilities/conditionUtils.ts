@@ -1,5 +1,5 @@
 import type { ExecutionContext, ConditionValueKind } from '../types';
-import { evaluateExpression, resolveTemplate } from './expression';
+import { evaluateExpression, evaluateTemplate } from './expression';
 
 /**
  * Compare two values using the selected comparator.
@@ -195,7 +195,7 @@ const toTimeOfDayMs = (x: any): number => {
 
 /**
  * Resolve a user-entered string into a real value.
- * - If it starts with $. treat it as an expression and return the raw value from context
+ * - If it starts with $. / $loop / $node(...) treat it as an expression and return the raw value from context
  * - If it is exactly a single {{ ... }} template, evaluate and return the raw value
  * - Otherwise, do string interpolation and return the resulting string
  */
@@ -203,19 +203,13 @@ export const resolveValue = (raw: string, context: ExecutionContext): any => {
   if (typeof raw !== 'string') return raw;
   const trimmed = raw.trim();
 
-  if (trimmed.startsWith('$.')) {
-    // Direct $.path expression → evaluate and return raw value (could be object/array)
+  if (trimmed.startsWith('$.') || /^\$(?:loops?|node)\b/.test(trimmed)) {
+    // Direct $.path / $loop / $node expression → evaluate and return raw value (could be object/array)
     return evaluateExpression(trimmed, { context });
   }
 
-  const singleMustache = trimmed.match(/^\{\{\s*([^}]+)\s*\}\}$/);
-  if (singleMustache) {
-    // Entire content is a single template → evaluate and return raw value
-    return evaluateExpression(singleMustache[1], { context });
-  }
-
-  // Mixed text → interpolate to a plain string
-  return resolveTemplate(raw, { context });
+  // A single {{ ... }} keeps the raw value (array, object, number, ...); mixed text is interpolated to a string
+  return evaluateTemplate(raw, { context });
 };
 
 /**
@@ -0,0 +1,58 @@
+import { parseCsv, toCsv } from './convertUtils';
+
+describe('parseCsv', () => {
+  it('reads quoted values with delimiters, line breaks and doubled quotes', () => {
+    const text = 'name,note\r\n"Smith, Ann","Said ""hi""\nthen left"\r\nBob,  plain  \r\n';
+    expect(parseCsv(text)).toEqual({
+      columns: ['name', 'note'],
+      rows: [
+        { name: 'Smith, Ann', note: 'Said "hi"\nthen left' },
+        { name: 'Bob', note: '  plain  ' },
+      ],
+    });
+  });
+
+  it('drops a byte order mark, skips blank lines and keeps a quoted empty value', () => {
+    const { rows } = parseCsv('\uFEFFname\n\nAnn\n""\n');
+    expect(rows).toEqual([{ name: 'Ann' }, { name: '' }]);
+  });
+
+  it('names blank, repeated and extra columns column_N', () => {
+    const { rows, columns } = parseCsv('id,,id\n1,2,3,4');
+    expect(columns).toEqual(['id', 'column_2', 'column_3', 'column_4']);
+    expect(rows).toEqual([{ id: '1', column_2: '2', column_3: '3', column_4: '4' }]);
+  });
+
+  it('keys every line by column_N without a header row', () => {
+    const { rows, columns } = parseCsv('a;"b;c"\nd', { delimiter: ';', header: false });
+    expect(columns).toEqual(['column_1', 'column_2']);
+    expect(rows).toEqual([
+      { column_1: 'a', column_2: 'b;c' },
+      { column_1: 'd', column_2: '' },
+    ]);
+  });
+
+  it('reads tab-separated text and custom quotes', () => {
+    expect(parseCsv("a\tb\n'x\ty'\tz", { delimiter: '\\t', quote: "'" }).rows).toEqual([{ a: 'x\ty', b: 'z' }]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the values that need it', () => {
+    const items = [{ name: 'Smith, Ann', note: 'Said "hi"' }, { name: ' padded', note: 'two\nlines' }, { name: 'Bob', note: null }];
+    expect(toCsv(items)).toBe('name,note\r\n"Smith, Ann","Said ""hi"""\r\n" padded","two\nlines"\r\nBob,');
+  });
+
+  it('quotes every value with quoteAll and writes nested values as JSON', () => {
+    expect(toCsv([{ id: 1, tags: ['a', 'b'] }], { quoteAll: true })).toBe('"id","tags"\r\n"1","[""a"",""b""]"');
+  });
+
+  it('writes lists of lists without a header', () => {
+    expect(toCsv([['a', 'b;c'], ['d']], { delimiter: ';' })).toBe('a;"b;c"\r\nd');
+  });
+
+  it('reads back what it writes', () => {
+    const items = [{ name: 'Smith, Ann', note: 'Said "hi"\nthen left' }, { name: 'Bob', note: ' x ' }];
+    expect(parseCsv(toCsv(items)).rows).toEqual(items);
+  });
+});
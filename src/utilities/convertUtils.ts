@@ -0,0 +1,304 @@
+// Format conversions behind the Convert node: CSV text <-> lists, XML <-> JSON-style objects, and lists
+// to HTML tables (for Word Write and rich text outputs). XML reading uses the browser's DOMParser.
+
+export type CsvOptions = {
+  delimiter?: string;   // ',' by default; "\t" (typed as backslash-t) for tabs
+  header?: boolean;     // First row holds column names instead of data (keys are then column_1, column_2...)
+  quote?: string;       // Quote character, '"' by default
+  quoteAll?: boolean;   // Writing: quote every value, not only those that need it
+};
+
+export type XmlOptions = {
+  attributePrefix?: string; // Key prefix of attributes ("@id")
+  textKey?: string;         // Key of an element's text next to attributes or children ("#text")
+  rootName?: string;        // Writing: root element when the value does not provide a single one
+  pretty?: boolean;         // Writing: indent nested elements
+};
+
+const DEFAULT_ATTRIBUTE_PREFIX = '@';
+const DEFAULT_TEXT_KEY = '#text';
+
+/**
+ * Read CSV text into objects keyed by column name. With a header row blank or repeated names become
+ * column_N; without one every column is column_N (column_1 first). Quoted values may hold delimiters,
+ * line breaks and doubled quotes. Blank lines are skipped; values stay text.
+ */
+export const parseCsv = (text: string, options: CsvOptions = {}): { rows: any[]; columns: string[] } => {
+  const delimiter = toDelimiter(options.delimiter);
+  const quote = options.quote === undefined ? '"' : options.quote;
+  const records = readCsvRecords(String(text ?? '').replace(/^\uFEFF/, ''), delimiter, quote);
+
+  const columns: string[] = [];
+  let body = records;
+  if (options.header === false) {
+    const width = records.reduce((max, record) => Math.max(max, record.length), 0);
+    for (let i = 0; i < width; i++) columns.push(`column_${i + 1}`);
+  } else {
+    const [head = [], ...rest] = records;
+    head.forEach((name, i) => {
+      const trimmed = name.trim();
+      columns.push(trimmed && !columns.includes(trimmed) ? trimmed : `column_${i + 1}`);
+    });
+    body = rest;
+  }
+  const rows = body.map(record => {
+    const row: Record<string, string> = {};
+    const width = Math.max(columns.length, record.length);
+    for (let i = 0; i < width; i++) {
+      if (i >= columns.length) columns.push(`column_${i + 1}`);
+      row[columns[i]] = record[i] ?? '';
+    }
+    return row;
+  });
+  return { rows, columns };
+};
+
+/**
+ * Write CSV text from a list of objects (columns in order of first appearance) or of lists.
+ * Objects and lists inside values are written as JSON; null and undefined as empty values.
+ */
+export const toCsv = (items: any[], options: CsvOptions = {}): string => {
+  const delimiter = toDelimiter(options.delimiter);
+  const quote = options.quote === undefined ? '"' : options.quote;
+  const header = options.header !== false;
+
+  const cell = (value: any): string => {
+    const textValue = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const needsQuotes = options.quoteAll || textValue.includes(delimiter) || /[\r\n]/.test(textValue)
+      || (!!quote && textValue.includes(quote)) || textValue !== textValue.trim();
+    if (!needsQuotes || !quote) return textValue;
+    return `${quote}${textValue.split(quote).join(quote + quote)}${quote}`;
+  };
+
+  const lines: string[] = [];
+  if (items.every(Array.isArray)) {
+    items.forEach(row => lines.push(row.map(cell).join(delimiter)));
+  } else {
+    const columns = getColumns(items);
+    if (header) lines.push(columns.map(cell).join(delimiter));
+    items.forEach(item => {
+      const row = isPlainObject(item) ? columns.map(column => item[column]) : [item];
+      lines.push(row.map(cell).join(delimiter));
+    });
+  }
+  return lines.join('\r\n');
+};
+
+/**
+ * Read XML into plain values: { root: ... } where an element with only text becomes that text, and
+ * other elements become objects of attributes ("@id"), child elements (repeated names as lists) and
+ * text ("#text")
+ * @throws Error when the XML is not well-formed
+ */
+export const xmlToJson = (xml: string, options: XmlOptions = {}): Record<string, any> => {
+  const prefix = options.attributePrefix ?? DEFAULT_ATTRIBUTE_PREFIX;
+  const textKey = options.textKey ?? DEFAULT_TEXT_KEY;
+  const doc = new DOMParser().parseFromString(String(xml ?? '').trim(), 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    const detail = (error.textContent || '').split('\n').map(line => line.trim()).find(Boolean);
+    throw new Error(`Invalid XML${detail ? `: ${detail}` : ''}`);
+  }
+  const root = doc.documentElement;
+  return { [root.nodeName]: readXmlElement(root, prefix, textKey) };
+};
+
+/**
+ * Write XML from plain values, the reverse of xmlToJson. An object with a single key is used as the
+ * root element; anything else is wrapped in `rootName` ("root"). List items without a name become <item>.
+ */
+export const jsonToXml = (value: any, options: XmlOptions = {}): string => {
+  const prefix = options.attributePrefix ?? DEFAULT_ATTRIBUTE_PREFIX;
+  const textKey = options.textKey ?? DEFAULT_TEXT_KEY;
+  const newline = options.pretty === false ? '' : '\n';
+  const indent = options.pretty === false ? '' : '  ';
+  const rootName = String(options.rootName ?? '').trim();
+
+  const keys = isPlainObject(value) ? Object.keys(value).filter(key => !key.startsWith(prefix) && key !== textKey) : [];
+  const useOwnRoot = !rootName && isPlainObject(value) && keys.length === 1 && Object.keys(value).length === 1 && !Array.isArray(value[keys[0]]);
+  const body = useOwnRoot
+    ? writeXmlElement(keys[0], value[keys[0]], 0, prefix, textKey, newline, indent)
+    : writeXmlElement(rootName || 'root', Array.isArray(value) ? { item: value } : value, 0, prefix, textKey, newline, indent);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+};
+
+/**
+ * HTML table of a list: columns from object keys (in order of first appearance), one row per item.
+ * Lists of lists use their first row as the header when `header` is set.
+ */
+export const toHtmlTable = (items: any[], header = true): string => {
+  const cell = (tag: 'th' | 'td', value: any) => {
+    const textValue = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return `<${tag}>${escapeXml(textValue)}</${tag}>`;
+  };
+
+  let head: any[] = [];
+  let rows: any[][];
+  if (items.every(Array.isArray)) {
+    rows = items.slice();
+    if (header && rows.length > 0) head = rows.shift()!;
+  } else {
+    const columns = getColumns(items);
+    head = header ? (columns.length ? columns : ['value']) : [];
+    rows = items.map(item => (isPlainObject(item) ? columns.map(column => item[column]) : [item]));
+  }
+
+  const thead = head.length ? `<thead><tr>${head.map(value => cell('th', value)).join('')}</tr></thead>` : '';
+  const tbody = `<tbody>${rows.map(row => `<tr>${row.map(value => cell('td', value)).join('')}</tr>`).join('')}</tbody>`;
+  return `<table border="1" style="border-collapse: collapse;">${thead}${tbody}</table>`;
+};
+
+// ----- Helper Methods --------------
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toDelimiter(delimiter?: string): string {
+  if (delimiter === undefined || delimiter === '') return ',';
+  return delimiter === '\\t' ? '\t' : delimiter;
+}
+
+function getColumns(items: any[]): string[] {
+  const columns: string[] = [];
+  items.forEach(item => {
+    if (!isPlainObject(item)) return;
+    Object.keys(item).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+  return columns;
+}
+
+// Split CSV text into records of raw values
+function readCsvRecords(text: string, delimiter: string, quote: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+  let wasQuoted = false;
+  let wasQuotedRecord = false;
+
+  const endValue = () => {
+    record.push(value);
+    value = '';
+    wasQuoted = false;
+  };
+  const endRecord = () => {
+    endValue();
+    // Skip blank lines
+    if (record.length > 1 || record[0] !== '' || wasQuotedRecord) records.push(record);
+    record = [];
+    wasQuotedRecord = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === quote) {
+        if (text[i + 1] === quote) {
+          value += quote;
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        value += ch;
+      }
+    } else if (quote && ch === quote && value.trim() === '' && !wasQuoted) {
+      quoted = true;
+      wasQuoted = true;
+      wasQuotedRecord = true;
+      value = '';
+    } else if (text.startsWith(delimiter, i)) {
+      endValue();
+      i += delimiter.length - 1;
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else if (!wasQuoted) {
+      value += ch;
+    }
+  }
+  if (quoted) throw new Error('CSV has a quoted value that is never closed');
+  if (value !== '' || record.length > 0 || wasQuoted) endRecord();
+  return records;
+}
+
+function readXmlElement(el: Element, prefix: string, textKey: string): any {
+  const children = Array.from(el.childNodes);
+  const elements = children.filter(node => node.nodeType === 1) as Element[];
+  const text = children
+    .filter(node => node.nodeType === 3 || node.nodeType === 4) // text and CDATA
+    .map(node => node.nodeValue ?? '')
+    .join('')
+    .trim();
+
+  if (el.attributes.length === 0 && elements.length === 0) return text;
+
+  const out: Record<string, any> = {};
+  Array.from(el.attributes).forEach(attr => {
+    out[`${prefix}${attr.name}`] = attr.value;
+  });
+  elements.forEach(child => {
+    const value = readXmlElement(child, prefix, textKey);
+    const name = child.nodeName;
+    if (!Object.prototype.hasOwnProperty.call(out, name)) out[name] = value;
+    else if (Array.isArray(out[name])) out[name].push(value);
+    else out[name] = [out[name], value];
+  });
+  if (text) out[textKey] = text;
+  return out;
+}
+
+function writeXmlElement(name: string, value: any, depth: number, prefix: string, textKey: string, newline: string, indent: string): string {
+  const pad = indent.repeat(depth);
+  const tag = toXmlName(name);
+
+  if (Array.isArray(value)) {
+    return value.map(entry => writeXmlElement(name, entry, depth, prefix, textKey, newline, indent)).join(newline);
+  }
+  if (!isPlainObject(value)) {
+    const textValue = value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : String(value);
+    return textValue === '' ? `${pad}<${tag}/>` : `${pad}<${tag}>${escapeXml(textValue)}</${tag}>`;
+  }
+
+  let attributes = '';
+  let text = '';
+  const children: string[] = [];
+  Object.keys(value).forEach(key => {
+    const child = value[key];
+    if (key === textKey) {
+      text = child === null || child === undefined ? '' : String(child);
+    } else if (prefix && key.startsWith(prefix)) {
+      attributes += ` ${toXmlName(key.slice(prefix.length))}="${escapeXml(child === null || child === undefined ? '' : String(child))}"`;
+    } else if (Array.isArray(child) && child.length === 0) {
+      // An empty list writes no elements
+    } else {
+      // Unnamed list items (a list inside a list) become <item>
+      const entries = Array.isArray(child) ? child.map(entry => (Array.isArray(entry) ? { item: entry } : entry)) : child;
+      children.push(writeXmlElement(key, entries, depth + 1, prefix, textKey, newline, indent));
+    }
+  });
+
+  if (children.length === 0) {
+    return text ? `${pad}<${tag}${attributes}>${escapeXml(text)}</${tag}>` : `${pad}<${tag}${attributes}/>`;
+  }
+  const inner = text ? [`${pad}${indent}${escapeXml(text)}`, ...children] : children;
+  return `${pad}<${tag}${attributes}>${newline}${inner.join(newline)}${newline}${pad}</${tag}>`;
+}
+
+// Element and attribute names: invalid characters become "_" and names cannot start with a digit
+function toXmlName(name: string): string {
+  const cleaned = String(name).replace(/[^A-Za-z0-9_.:-]/g, '_');
+  return /^[A-Za-z_:]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,66 @@
+import { addBusinessDays, addToDate, diffBusinessDays, diffDates } from './dateUtils';
+
+const iso = (date: Date) => date.toISOString();
+
+describe('addBusinessDays', () => {
+  it('skips weekends and keeps the time of day', () => {
+    expect(iso(addBusinessDays('2024-01-05T09:30:00Z', 1, 'UTC'))).toBe('2024-01-08T09:30:00.000Z');
+    expect(iso(addBusinessDays('2024-01-03T09:30:00Z', 5, 'UTC'))).toBe('2024-01-10T09:30:00.000Z');
+    expect(iso(addBusinessDays('2024-01-08T09:30:00Z', -1, 'UTC'))).toBe('2024-01-05T09:30:00.000Z');
+  });
+
+  it('counts from a weekend start', () => {
+    expect(iso(addBusinessDays('2024-01-06T00:00:00Z', 1, 'UTC'))).toBe('2024-01-08T00:00:00.000Z');
+    expect(iso(addBusinessDays('2024-01-07T00:00:00Z', -1, 'UTC'))).toBe('2024-01-05T00:00:00.000Z');
+    expect(iso(addBusinessDays('2024-01-06T00:00:00Z', 0, 'UTC'))).toBe('2024-01-06T00:00:00.000Z');
+  });
+
+  it('uses the calendar of the time zone', () => {
+    // Friday evening in New York is already Saturday in UTC
+    expect(iso(addBusinessDays('2024-01-05T23:00:00-05:00', 1, 'America/New_York'))).toBe('2024-01-09T04:00:00.000Z');
+  });
+
+  it('rejects fractional amounts and invalid dates', () => {
+    expect(() => addBusinessDays('2024-01-05', 1.5, 'UTC')).toThrow('is not a whole number of business days');
+    expect(() => addBusinessDays('not a date', 1, 'UTC')).toThrow('is not a valid date');
+  });
+});
+
+describe('diffBusinessDays', () => {
+  it('counts working days after the start up to and including the end', () => {
+    expect(diffBusinessDays('2024-01-05', '2024-01-08', 'UTC')).toBe(1);
+    expect(diffBusinessDays('2024-01-08', '2024-01-15', 'UTC')).toBe(5);
+    expect(diffBusinessDays('2024-01-06', '2024-01-07', 'UTC')).toBe(0);
+    expect(diffBusinessDays('2024-01-08T08:00:00Z', '2024-01-08T17:00:00Z', 'UTC')).toBe(0);
+  });
+
+  it('is negative when the end is earlier', () => {
+    expect(diffBusinessDays('2024-01-15', '2024-01-08', 'UTC')).toBe(-5);
+  });
+});
+
+describe('month arithmetic', () => {
+  it('clamps to the last day of shorter months', () => {
+    expect(iso(addToDate('2024-01-31T10:00:00Z', 1, 'months', 'UTC'))).toBe('2024-02-29T10:00:00.000Z');
+    expect(iso(addToDate('2023-01-31T10:00:00Z', 1, 'months', 'UTC'))).toBe('2023-02-28T10:00:00.000Z');
+    expect(iso(addToDate('2024-03-31T10:00:00Z', -1, 'months', 'UTC'))).toBe('2024-02-29T10:00:00.000Z');
+    expect(iso(addToDate('2024-02-29T10:00:00Z', 1, 'years', 'UTC'))).toBe('2025-02-28T10:00:00.000Z');
+  });
+
+  it('carries months over into years', () => {
+    expect(iso(addToDate('2024-11-15T00:00:00Z', 13, 'months', 'UTC'))).toBe('2025-12-15T00:00:00.000Z');
+    expect(iso(addToDate('2024-01-15T00:00:00Z', -13, 'months', 'UTC'))).toBe('2022-12-15T00:00:00.000Z');
+  });
+
+  it('keeps the wall-clock time across a DST change', () => {
+    expect(iso(addToDate('2024-03-09T12:00:00-05:00', 1, 'days', 'America/New_York'))).toBe('2024-03-10T16:00:00.000Z');
+    expect(iso(addToDate('2024-02-10T12:00:00-05:00', 1, 'months', 'America/New_York'))).toBe('2024-03-10T16:00:00.000Z');
+  });
+
+  it('counts only completed months', () => {
+    expect(diffDates('2024-01-15T00:00:00Z', '2024-03-15T00:00:00Z', 'months', 'UTC')).toBe(2);
+    expect(diffDates('2024-01-31T00:00:00Z', '2024-02-29T00:00:00Z', 'months', 'UTC')).toBe(0);
+    expect(diffDates('2024-03-15T00:00:00Z', '2024-01-16T00:00:00Z', 'months', 'UTC')).toBe(-1);
+    expect(diffDates('2020-02-29T00:00:00Z', '2024-02-28T00:00:00Z', 'years', 'UTC')).toBe(3);
+  });
+});
@@ -0,0 +1,466 @@
+// Date helpers shared by the expression function library and the Date & Time node: parsing loose or
+// patterned date values, reading and building wall-clock times in IANA time zones, token-based
+// formatting and calendar arithmetic.
+// Time zones go through Intl.DateTimeFormat; leaving the zone out uses the browser's local zone.
+
+export type DateUnit = 'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+
+// Wall-clock fields of an instant in a time zone (month is 1-based, weekday 0 = Sunday)
+export type ZonedDateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number;
+};
+
+const UNIT_ALIASES: Record<string, DateUnit> = {
+  y: 'years', year: 'years', years: 'years',
+  M: 'months', month: 'months', months: 'months',
+  w: 'weeks', week: 'weeks', weeks: 'weeks',
+  d: 'days', day: 'days', days: 'days',
+  h: 'hours', hour: 'hours', hours: 'hours',
+  m: 'minutes', minute: 'minutes', minutes: 'minutes',
+  s: 'seconds', second: 'seconds', seconds: 'seconds',
+  ms: 'milliseconds', millisecond: 'milliseconds', milliseconds: 'milliseconds',
+};
+
+const UNIT_MS: Partial<Record<DateUnit, number>> = {
+  weeks: 7 * 24 * 3600 * 1000,
+  days: 24 * 3600 * 1000,
+  hours: 3600 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000,
+  milliseconds: 1,
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first; quoted text ('at') is copied as-is
+const FORMAT_TOKENS = /'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|m|ss|s|SSS|a|Z/g;
+
+// Text each format token matches when parsing
+const PARSE_TOKENS: Record<string, string> = {
+  yyyy: '\\d{4}', yy: '\\d{2}', MMMM: '[A-Za-z]+', MMM: '[A-Za-z]{3}', MM: '\\d{2}', M: '\\d{1,2}',
+  dd: '\\d{2}', d: '\\d{1,2}', EEEE: '[A-Za-z]+', EEE: '[A-Za-z]{3}', HH: '\\d{2}', H: '\\d{1,2}',
+  hh: '\\d{2}', h: '\\d{1,2}', mm: '\\d{2}', m: '\\d{1,2}', ss: '\\d{2}', s: '\\d{1,2}',
+  SSS: '\\d{3}', a: '[AaPp][Mm]', Z: 'Z|[+-]\\d{2}:?\\d{2}',
+};
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * Normalize a unit name or short alias (d, h, M, ...) to a DateUnit
+ * @throws Error for unknown units
+ */
+export const toDateUnit = (unit: any): DateUnit => {
+  const key = String(unit ?? 'days');
+  const resolved = UNIT_ALIASES[key] ?? UNIT_ALIASES[key.toLowerCase()];
+  if (!resolved) throw new Error(`Unknown date unit "${key}"`);
+  return resolved;
+};
+
+/**
+ * Read a Date from a Date, epoch milliseconds or a parseable date string (null when invalid)
+ */
+export const toDateValue = (value: any): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? new Date(value.getTime()) : new Date(typeof value === 'number' ? value : String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Whether the runtime knows an IANA time zone name (e.g. "Europe/Berlin")
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock fields of a date in a time zone (local zone when omitted)
+ */
+export const getZonedParts = (date: Date, timeZone?: string): ZonedDateParts => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  const fields: Record<string, string> = {};
+  (getFormatter(timeZone) as any).formatToParts(date).forEach((part: { type: string; value: string }) => {
+    fields[part.type] = part.value;
+  });
+  const year = Number(fields.year);
+  const month = Number(fields.month);
+  const day = Number(fields.day);
+  return {
+    year,
+    month,
+    day,
+    hour: Number(fields.hour) % 24, // some engines report midnight as 24
+    minute: Number(fields.minute),
+    second: Number(fields.second),
+    millisecond: date.getUTCMilliseconds(),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+};
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes (e.g. 120 for CEST)
+ */
+export const getTimeZoneOffset = (date: Date, timeZone?: string): number => {
+  if (!timeZone) return -date.getTimezoneOffset();
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, p.millisecond);
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+/**
+ * The instant at which a time zone shows the given wall-clock time. Fields may overflow
+ * (month 13, day 0, ...) and are carried like Date.UTC does.
+ */
+export const zonedPartsToDate = (parts: Omit<ZonedDateParts, 'weekday'>, timeZone?: string): Date => {
+  if (!timeZone) {
+    return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  }
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  // Correct twice so instants next to a DST switch land on the right offset
+  const firstGuess = wall - getTimeZoneOffset(new Date(wall), timeZone) * 60000;
+  return new Date(wall - getTimeZoneOffset(new Date(firstGuess), timeZone) * 60000);
+};
+
+/**
+ * Format a date with tokens: yyyy yy MMMM MMM MM M dd d EEEE EEE HH H hh h mm m ss s SSS a Z,
+ * and 'quoted' literal text. The pattern "iso" gives an ISO 8601 string with the zone's offset.
+ * @param timeZone IANA zone to show the wall-clock time in (local zone when omitted)
+ */
+export const formatDate = (value: any, pattern = 'yyyy-MM-dd', timeZone?: string): string => {
+  const date = toDateValue(value);
+  if (!date) throw new Error(`"${value}" is not a valid date`);
+
+  const p = getZonedParts(date, timeZone);
+  const format = pattern === 'iso' ? "yyyy-MM-dd'T'HH:mm:ss.SSSZ" : pattern;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hour12 = p.hour % 12 || 12;
+
+  return format.replace(FORMAT_TOKENS, (token: string, literal?: string) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'yyyy': return pad(p.year, 4);
+      case 'yy': return pad(p.year % 100);
+      case 'MMMM': return MONTH_NAMES[p.month - 1];
+      case 'MMM': return MONTH_NAMES[p.month - 1].slice(0, 3);
+      case 'MM': return pad(p.month);
+      case 'M': return String(p.month);
+      case 'dd': return pad(p.day);
+      case 'd': return String(p.day);
+      case 'EEEE': return WEEKDAY_NAMES[p.weekday];
+      case 'EEE': return WEEKDAY_NAMES[p.weekday].slice(0, 3);
+      case 'HH': return pad(p.hour);
+      case 'H': return String(p.hour);
+      case 'hh': return pad(hour12);
+      case 'h': return String(hour12);
+      case 'mm': return pad(p.minute);
+      case 'm': return String(p.minute);
+      case 'ss': return pad(p.second);
+      case 's': return String(p.second);
+      case 'SSS': return pad(p.millisecond, 3);
+      case 'a': return p.hour < 12 ? 'AM' : 'PM';
+      case 'Z': {
+        const offset = getTimeZoneOffset(date, timeZone);
+        const abs = Math.abs(offset);
+        return `${offset < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+      }
+    }
+    return token;
+  });
+};
+
+/**
+ * Add (or with a negative amount, subtract) time. Days and larger units follow the calendar of the
+ * time zone, so "+1 day" keeps the wall-clock time across DST changes and "+1 month" from
+ * Jan 31 ends on the last day of February.
+ */
+export const addToDate = (value: any, amount: number, unit: DateUnit | string = 'days', timeZone?: string): Date => {
+  const date = toDateValue(value);
+  if (!date) throw new Error(`"${value}" is not a valid date`);
+  const n = Number(amount);
+  if (!Number.isFinite(n)) throw new Error(`"${amount}" is not a number`);
+
+  const resolved = toDateUnit(unit);
+  if (resolved === 'hours' || resolved === 'minutes' || resolved === 'seconds' || resolved === 'milliseconds') {
+    return new Date(date.getTime() + n * UNIT_MS[resolved]!);
+  }
+
+  const p = getZonedParts(date, timeZone);
+  if (resolved === 'years' || resolved === 'months') {
+    const months = p.month - 1 + (resolved === 'years' ? n * 12 : n);
+    const year = p.year + Math.floor(months / 12);
+    const month = ((months % 12) + 12) % 12 + 1;
+    const day = Math.min(p.day, daysInMonth(year, month));
+    return zonedPartsToDate({ ...p, year, month, day }, timeZone);
+  }
+  const days = resolved === 'weeks' ? n * 7 : n;
+  return zonedPartsToDate({ ...p, day: p.day + days }, timeZone);
+};
+
+/**
+ * Whole units from `start` to `end` (negative when `end` is earlier). Months and years count
+ * calendar months completed in the time zone.
+ */
+export const diffDates = (start: any, end: any, unit: DateUnit | string = 'days', timeZone?: string): number => {
+  const from = toDateValue(start);
+  const to = toDateValue(end);
+  if (!from) throw new Error(`"${start}" is not a valid date`);
+  if (!to) throw new Error(`"${end}" is not a valid date`);
+
+  const resolved = toDateUnit(unit);
+  if (resolved === 'years' || resolved === 'months') {
+    const a = getZonedParts(from, timeZone);
+    const b = getZonedParts(to, timeZone);
+    let months = (b.year - a.year) * 12 + (b.month - a.month);
+    // Drop the last month when it is not complete yet
+    const aRest = [a.day, a.hour, a.minute, a.second, a.millisecond];
+    const bRest = [b.day, b.hour, b.minute, b.second, b.millisecond];
+    const cmp = compareFields(bRest, aRest);
+    if (months > 0 && cmp < 0) months -= 1;
+    if (months < 0 && cmp > 0) months += 1;
+    return resolved === 'years' ? truncate(months / 12) : months;
+  }
+  return truncate((to.getTime() - from.getTime()) / UNIT_MS[resolved]!);
+};
+
+/**
+ * Read a date written in a pattern of the formatDate tokens ("dd/MM/yyyy HH:mm", "MMM d, yyyy h:mm a").
+ * Without a pattern any value toDateValue understands is accepted. Missing day and month default to 1;
+ * a pattern without year, month or day reads a time of today. Two-digit years 69-99 are 1969-1999.
+ * @param timeZone Zone of the wall-clock time when the text has no offset (Z token)
+ * @throws Error when the text does not match the pattern or a field is out of range
+ */
+export const parseDate = (value: any, pattern?: string, timeZone?: string): Date => {
+  if (!pattern || value instanceof Date || typeof value === 'number') {
+    const date = toDateValue(value);
+    if (!date) throw new Error(`"${value}" is not a valid date`);
+    return date;
+  }
+
+  const text = String(value ?? '').trim();
+  const tokens: string[] = [];
+  let source = '';
+  let last = 0;
+  pattern.replace(FORMAT_TOKENS, (token: string, literal: string | undefined, offset: number) => {
+    source += escapeRegExp(pattern.slice(last, offset));
+    last = offset + token.length;
+    if (literal !== undefined) {
+      source += escapeRegExp(literal);
+    } else {
+      tokens.push(token);
+      source += `(${PARSE_TOKENS[token]})`;
+    }
+    return token;
+  });
+  source += escapeRegExp(pattern.slice(last));
+
+  const match = new RegExp(`^${source}$`, 'i').exec(text);
+  const invalid = () => new Error(`"${text}" does not match the format "${pattern}"`);
+  if (!match) throw invalid();
+
+  const today = getZonedParts(new Date(), timeZone);
+  const hasDate = tokens.some(token => /^(y|M|d)/.test(token));
+  const parts = { year: today.year, month: hasDate ? 1 : today.month, day: hasDate ? 1 : today.day, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  let meridiem = '';
+  let offsetMinutes: number | null = null;
+
+  tokens.forEach((token, i) => {
+    const raw = match[i + 1];
+    const n = Number(raw);
+    switch (token) {
+      case 'yyyy': parts.year = n; break;
+      case 'yy': parts.year = n < 69 ? 2000 + n : 1900 + n; break;
+      case 'MMMM':
+      case 'MMM': {
+        const index = MONTH_NAMES.findIndex(name => (token === 'MMM' ? name.slice(0, 3) : name).toLowerCase() === raw.toLowerCase());
+        if (index < 0) throw invalid();
+        parts.month = index + 1;
+        break;
+      }
+      case 'MM': case 'M': parts.month = n; break;
+      case 'dd': case 'd': parts.day = n; break;
+      case 'HH': case 'H': case 'hh': case 'h': parts.hour = n; break;
+      case 'mm': case 'm': parts.minute = n; break;
+      case 'ss': case 's': parts.second = n; break;
+      case 'SSS': parts.millisecond = n; break;
+      case 'a': meridiem = raw.toUpperCase(); break;
+      case 'Z': {
+        const zone = /^([+-])(\d{2}):?(\d{2})$/.exec(raw);
+        offsetMinutes = zone ? (zone[1] === '-' ? -1 : 1) * (Number(zone[2]) * 60 + Number(zone[3])) : 0;
+        break;
+      }
+    }
+  });
+
+  if (meridiem) {
+    if (parts.hour < 1 || parts.hour > 12) throw invalid();
+    parts.hour = (parts.hour % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+  if (
+    parts.month < 1 || parts.month > 12 ||
+    parts.day < 1 || parts.day > daysInMonth(parts.year, parts.month) ||
+    parts.hour > 23 || parts.minute > 59 || parts.second > 59
+  ) {
+    throw invalid();
+  }
+
+  if (offsetMinutes !== null) {
+    const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+    return new Date(wall - offsetMinutes * 60000);
+  }
+  return zonedPartsToDate(parts, timeZone);
+};
+
+/**
+ * First (or with `edge` "end", last) millisecond of the year, month, week, day, hour, minute or second
+ * that contains the date, on the time zone's calendar. Weeks start on Monday.
+ */
+export const roundDate = (value: any, edge: 'start' | 'end', unit: DateUnit | string = 'days', timeZone?: string): Date => {
+  const date = toDateValue(value);
+  if (!date) throw new Error(`"${value}" is not a valid date`);
+
+  const resolved = toDateUnit(unit);
+  if (resolved === 'milliseconds') return date;
+
+  const p = getZonedParts(date, timeZone);
+  const order: DateUnit[] = ['years', 'months', 'days', 'hours', 'minutes', 'seconds'];
+  const keep = order.indexOf(resolved === 'weeks' ? 'days' : resolved);
+  const start = {
+    year: p.year,
+    month: keep >= 1 ? p.month : 1,
+    day: keep >= 2 ? p.day - (resolved === 'weeks' ? (p.weekday + 6) % 7 : 0) : 1,
+    hour: keep >= 3 ? p.hour : 0,
+    minute: keep >= 4 ? p.minute : 0,
+    second: keep >= 5 ? p.second : 0,
+    millisecond: 0,
+  };
+  if (edge === 'start') return zonedPartsToDate(start, timeZone);
+
+  const next = { ...start };
+  switch (resolved) {
+    case 'years': next.year += 1; break;
+    case 'months': next.month += 1; break;
+    case 'weeks': next.day += 7; break;
+    case 'days': next.day += 1; break;
+    case 'hours': next.hour += 1; break;
+    case 'minutes': next.minute += 1; break;
+    case 'seconds': next.second += 1; break;
+  }
+  return new Date(zonedPartsToDate(next, timeZone).getTime() - 1);
+};
+
+/**
+ * Move by whole working days (Monday to Friday), keeping the wall-clock time. A start on a weekend
+ * counts from there, so +1 from Saturday is Monday.
+ */
+export const addBusinessDays = (value: any, amount: number, timeZone?: string): Date => {
+  const date = toDateValue(value);
+  if (!date) throw new Error(`"${value}" is not a valid date`);
+  const n = Number(amount);
+  if (!Number.isInteger(n)) throw new Error(`"${amount}" is not a whole number of business days`);
+
+  const p = getZonedParts(date, timeZone);
+  const step = n < 0 ? -1 : 1;
+  let day = p.day;
+  let weekday = p.weekday;
+  for (let left = Math.abs(n); left > 0;) {
+    day += step;
+    weekday = (weekday + step + 7) % 7;
+    if (weekday !== 0 && weekday !== 6) left -= 1;
+  }
+  return zonedPartsToDate({ ...p, day }, timeZone);
+};
+
+/**
+ * Working days (Monday to Friday) after `start` up to and including `end`, by calendar date in the
+ * time zone; negative when `end` is earlier
+ */
+export const diffBusinessDays = (start: any, end: any, timeZone?: string): number => {
+  const from = toDateValue(start);
+  const to = toDateValue(end);
+  if (!from) throw new Error(`"${start}" is not a valid date`);
+  if (!to) throw new Error(`"${end}" is not a valid date`);
+
+  const a = calendarDayNumber(getZonedParts(from, timeZone));
+  const b = calendarDayNumber(getZonedParts(to, timeZone));
+  const count = countWeekdays(Math.min(a, b), Math.max(a, b));
+  return b < a ? -count : count;
+};
+
+// ----- Helper Methods --------------
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!formatterCache[timeZone]) {
+    // Throws a RangeError for unknown zones
+    formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  }
+  return formatterCache[timeZone];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function compareFields(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+function truncate(n: number): number {
+  const whole = n < 0 ? Math.ceil(n) : Math.floor(n);
+  return whole === 0 ? 0 : whole; // no -0
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Days since 1970-01-01 of a calendar date (that day was a Thursday)
+function calendarDayNumber(p: ZonedDateParts): number {
+  return Math.round(Date.UTC(p.year, p.month - 1, p.day) / 86400000);
+}
+
+// Monday-to-Friday days in (from, to]
+function countWeekdays(from: number, to: number): number {
+  const span = to - from;
+  let count = Math.floor(span / 7) * 5;
+  for (let day = from + Math.floor(span / 7) * 7 + 1; day <= to; day++) {
+    const weekday = ((day + 4) % 7 + 7) % 7;
+    if (weekday !== 0 && weekday !== 6) count += 1;
+  }
+  return count;
+}
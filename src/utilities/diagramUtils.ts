@@ -1,5 +1,6 @@
 import { DiagramComponent, NodeConstraints, NodeModel, SnapConstraints } from "@syncfusion/ej2-react-diagrams";
 import { DiagramSettings } from "../types";
+import { DEFAULT_MAX_CONCURRENCY } from "../constants";
 import { getNodeConfig, isStickyNote } from "./nodeUtils";
 import { applyStaggerMetadata, getNextStaggeredOffset } from "./stagger";
 
@@ -49,6 +50,8 @@ export const getDefaultDiagramSettings = (): DiagramSettings => {
     snapping: { isEnabled: true, enableSnapToGrid: true, enableSnapToObjects: false },
     showOverview: true,
     showOverviewAlways: false,
+    executionMode: 'sequential',
+    maxConcurrency: DEFAULT_MAX_CONCURRENCY,
   };
   return diagramSettings;
 }
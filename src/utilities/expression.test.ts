@@ -0,0 +1,69 @@
+import { ExecutionContext } from '../types';
+import { evaluateExpression, evaluateTemplate, isPlainPathExpression, resolveTemplate } from './expression';
+
+const createContext = (): ExecutionContext => ({
+  variables: {},
+  results: {
+    'excel-1': {
+      rows: [{ Name: 'Ann', 'Salary (Annual)': 90000, 'Hours/Week': 40, 'R&D Share': '20%', 'Start-Date': '2024-05-01' }],
+      total: 10,
+    },
+  },
+  diagram: { nodes: [{ id: 'excel-1', addInfo: { nodeConfig: { displayName: 'Employees' } } }] },
+} as unknown as ExecutionContext);
+
+describe('isPlainPathExpression', () => {
+  it('keeps keys with spaces, parentheses, slashes and ampersands on the path resolver', () => {
+    expect(isPlainPathExpression('$.Loop.currentloopitem.Salary (Annual)')).toBe(true);
+    expect(isPlainPathExpression('$.Employees.rows[0].Hours/Week')).toBe(true);
+    expect(isPlainPathExpression('$.Employees.rows[0].R&D Share')).toBe(true);
+    expect(isPlainPathExpression('$.HTTP Request.body.results[0].name')).toBe(true);
+  });
+
+  it('sends real operators to the sandbox', () => {
+    expect(isPlainPathExpression('$.Employees.total > 5')).toBe(false);
+    expect(isPlainPathExpression('$.Employees.total * 2')).toBe(false);
+    expect(isPlainPathExpression('$.a && $.b')).toBe(false);
+    expect(isPlainPathExpression("$.Employees.title ?? 'none'")).toBe(false);
+    expect(isPlainPathExpression('$.Employees.rows.slice(0, 1)')).toBe(false);
+    expect(isPlainPathExpression('Math.max(1, 2)')).toBe(false);
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('resolves keys with spaces and parentheses', () => {
+    const context = createContext();
+    expect(evaluateExpression('$.Employees.rows[0].Salary (Annual)', { context })).toBe(90000);
+    expect(evaluateExpression('$.Employees.rows[0].Hours/Week', { context })).toBe(40);
+    expect(evaluateExpression('$.Employees.rows[0].R&D Share', { context })).toBe('20%');
+    expect(evaluateExpression('$.Employees.rows[0].Start-Date', { context })).toBe('2024-05-01');
+  });
+
+  it('evaluates operators that are not part of a key', () => {
+    const context = createContext();
+    expect(evaluateExpression('$.Employees.total/2', { context })).toBe(5);
+    expect(evaluateExpression('$.Employees.total*2', { context })).toBe(20);
+    expect(evaluateExpression('$.Employees.total > 5', { context })).toBe(true);
+  });
+
+  it('gives undefined for a missing key instead of throwing', () => {
+    const context = createContext();
+    expect(evaluateExpression('$.Employees.rows[0].Bonus (Annual)', { context })).toBeUndefined();
+    expect(evaluateExpression('$.Employees.rows[0].Days/Week', { context })).toBeUndefined();
+  });
+});
+
+describe('templates', () => {
+  it('interpolates keys with spaces and parentheses', () => {
+    const context = createContext();
+    expect(resolveTemplate('{{ $.Employees.rows[0].Name }} earns {{ $.Employees.rows[0].Salary (Annual) }}', { context }))
+      .toBe('Ann earns 90000');
+    expect(evaluateTemplate('{{ $.Employees.rows[0].Hours/Week }}', { context })).toBe(40);
+  });
+
+  it('resolves such keys inside each blocks', () => {
+    const context = createContext();
+    const template = '{{#each $.Employees.rows}}{{ $item.Name }}: {{ $.Employees.rows[0].Salary (Annual) }}{{/each}}';
+    expect(resolveTemplate(template, { context })).toBe('Ann: 90000');
+  });
+});
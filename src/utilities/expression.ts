@@ -1,5 +1,10 @@
 // Centralized evaluation for {{ ... }} tokens supporting $.a.b and $.a[0].b paths.
 import { ExecutionContext } from '../types';
+import { getLoopExpressionScope, getLoopIteration } from './loopUtils';
+import { EXPRESSION_MATH, ExpressionError, runExpression } from './expressionSandbox';
+import { EXPRESSION_MAX_STRING_LENGTH } from '../constants';
+import { createExpressionFunctionScope } from './expressionFunctions';
+import { resolveNodeReference } from './nodeReferenceUtils';
 
 type EvalOptions = {
   context: ExecutionContext;
@@ -24,6 +29,26 @@ function getAtPath(root: any, dotPath: string): any {
   return cur;
 }
 
+const LOOP_FRAME_KEYS = new Set([
+  'currentloopitem', 'currentLoopIndex', 'currentLoopIteration', 'currentLoopCount',
+  'currentLoopNodeId', 'currentLoopIsFirst', 'currentLoopIsLast',
+]);
+
+/** Path of a bare loop variable within the innermost loop's frame (null when not in a loop or not a loop variable). */
+function getInnermostLoopPath(context: ExecutionContext, segs: string[]): { loopNodeId: string; rest: string } | null {
+  const iteration = getLoopIteration(context);
+  if (!iteration || segs.length === 0) return null;
+  if (LOOP_FRAME_KEYS.has(segs[0])) return { loopNodeId: iteration.loopNodeId, rest: segs.join('.') };
+
+  // "Loop" is the node type prefix; a node actually named "Loop" is resolved by name instead
+  const nodes: any[] = context?.diagram?.nodes ?? [];
+  const namedLoop = nodes.some((n: any) => (n?.addInfo as any)?.nodeConfig?.displayName === segs[0]);
+  if (segs[0] === 'Loop' && !namedLoop && segs.length > 1 && LOOP_FRAME_KEYS.has(segs[1])) {
+    return { loopNodeId: iteration.loopNodeId, rest: segs.slice(1).join('.') };
+  }
+  return null;
+}
+
 /** Scan results in creation/execution order and return first match for the path. */
 function resolveAcrossResults(context: ExecutionContext, dollarPath: string): any {
   const dotPath = normalizePath(dollarPath);
@@ -42,6 +67,13 @@ function resolveAcrossResults(context: ExecutionContext, dollarPath: string): an
     }
   }
 
+  // Case 1b: bare loop variables ($.currentloopitem, or $.Loop.currentloopitem as the picker inserts them)
+  // belong to the innermost running loop, not to whichever loop result is found first
+  const loopPath = getInnermostLoopPath(context, segs);
+  if (loopPath) {
+    return getAtPath(results[loopPath.loopNodeId], loopPath.rest);
+  }
+
   // Case 2: try exact path across all node outputs
   for (const nodeId of Object.keys(results)) {
     const hit = getAtPath(results[nodeId], dotPath);
@@ -52,7 +84,7 @@ function resolveAcrossResults(context: ExecutionContext, dollarPath: string): an
   if (segs.length > 1) {
     const label = segs[0];
     const rest = segs.slice(1).join('.');
-    const diagram: any = (context as any)?.diagram;
+    const diagram = context?.diagram;
     const nodes: any[] = diagram?.nodes ?? [];
     const match = nodes.find((n: any) => {
       const cfg = (n?.addInfo as any)?.nodeConfig;
@@ -86,55 +118,127 @@ function resolveAcrossResults(context: ExecutionContext, dollarPath: string): an
   return undefined;
 }
 
+// Characters that only occur in real expressions; keys may hold spaces, "(", "/", "&", "-" and the like
+const EXPRESSION_OPERATOR_PATTERN = /['"`?=<>!,{}|;\\]|&&|\s[-+*/%]\s/;
+// Could be part of a key ("Salary (Annual)", "Hours/Week") or an operator ("$.total/2", "$.total*2")
+const AMBIGUOUS_PATH_PATTERN = /[()*/+%]/;
+
+/**
+ * Whether an expression is a bare "$." path, resolved directly instead of by the sandbox. Column and
+ * node names may contain spaces, parentheses, "/" or "&" ("$.Loop.currentloopitem.Salary (Annual)"),
+ * so only characters that never occur in such names count as operators.
+ */
+export function isPlainPathExpression(expr: string): boolean {
+  return expr.startsWith('$.') && !EXPRESSION_OPERATOR_PATTERN.test(expr);
+}
+
 /** Evaluate a bare expression (no outer {{ }}), supporting:
  *   - "$.a.b" or "$.a[0].b" -> resolves across results/variables
- *   - arbitrary JS using "context", "results", "variables", "$get(path)"
+ *   - "$loop.item", "$loop.parent.index", "$loops['Outer loop'].item" -> loop frames of the running iteration
+ *   - '$node("HTTP Request 1").body' -> output of the upstream node with that name (strict, see nodeReferenceUtils)
+ *   - sandboxed expressions over "context", "results", "variables", "$get(path)" and $. paths
+ *     (e.g. `$.Orders.total > 100 ? 'big' : 'small'`); see expressionSandbox for what is allowed
+ * @throws ExpressionError with the error position when the expression is invalid
  */
 export function evaluateExpression(expr: string, opts: EvalOptions): any {
   if (!expr || typeof expr !== 'string') return expr;
 
   const trimmed = expr.trim();
 
-  // Fast-path: "$.something"
-  if (trimmed.startsWith('$.')) {
-    const path = trimmed.slice(2);           // drop "$."
-    return resolveAcrossResults(opts.context, path);
+  // Fast-path: "$.something" (a plain path; node names may contain spaces)
+  if (isPlainPathExpression(trimmed)) return resolvePlainPath(trimmed, opts);
+
+  return evaluateWithScope(trimmed, opts);
+}
+
+/**
+ * Resolve a plain "$." path. When nothing matches and the path holds characters that may also be
+ * operators, it is evaluated as an expression instead ("$.Orders.total/2", "$.Orders.total*2");
+ * an expression that fails there is a missing key like any other and gives undefined.
+ */
+function resolvePlainPath(expr: string, opts: EvalOptions, locals: Record<string, any> = {}): any {
+  const value = resolveAcrossResults(opts.context, expr.slice(2));
+  if (value !== undefined || !AMBIGUOUS_PATH_PATTERN.test(expr)) return value;
+  try {
+    return evaluateWithScope(expr, opts, locals);
+  } catch {
+    return undefined;
   }
+}
 
-  // Allow a tiny JS scope if users put expressions (rare inside tokens, but nice to have)
+/** Evaluate an expression in the sandbox with the standard scope plus extra locals (e.g. `item` for Filter predicates) */
+export function evaluateWithScope(expr: string, opts: EvalOptions, locals: Record<string, any> = {}): any {
   const scope = {
     context: opts.context,
     results: opts.context?.results ?? {},
     variables: opts.context?.variables ?? {},
-    $get: (p: string) => resolveAcrossResults(opts.context, p.startsWith('$.') ? p.slice(2) : p),
+    $get: (p: string) => resolveAcrossResults(opts.context, String(p).startsWith('$.') ? String(p).slice(2) : String(p)),
+    $node: (name: string) => resolveNodeReference(opts.context, name),
+    ...getLoopExpressionScope(opts.context),
+    Math: EXPRESSION_MATH,
+    Number: (v: any) => Number(v),
+    String: (v: any) => String(v),
+    Boolean: (v: any) => Boolean(v),
+    parseInt: (v: any, radix?: number) => parseInt(v, radix ?? 10),
+    parseFloat: (v: any) => parseFloat(v),
+    isNaN: (v: any) => isNaN(v),
+    ...createExpressionFunctionScope(),
+    ...locals,
   };
-
-  try {
-    const fn = new Function(
-      'scope',
-      `"use strict";
-       const { context, results, variables, $get } = scope;
-       return ( ${trimmed} );`
-    );
-    return fn(scope);
-  } catch {
-    return undefined;
-  }
+  return runExpression(expr, scope, { resolvePath: path => resolveAcrossResults(opts.context, path) });
 }
 
-/** Replace every {{ ... }} with its evaluated value (stringified if needed). */
+/**
+ * Replace every {{ ... }} with its evaluated value (stringified if needed). Control blocks repeat or
+ * skip parts of the text: {{#each list}}...{{else}}...{{/each}}, {{#if cond}}...{{else}}...{{/if}} and
+ * {{#unless cond}}...{{/unless}}; inside #each, $item, $index, $first, $last and $key (objects) refer to
+ * the current entry, and "{{#each list as row}}" also names it `row`.
+ * @throws ExpressionError for invalid expressions or unbalanced blocks
+ */
 export function resolveTemplate(template: string, opts: EvalOptions): string {
   if (typeof template !== 'string') return template as unknown as string;
-  return template.replace(/\{\{\s*([^}]+)\s*\}\}/g, (_m, inner) => {
-    const val = evaluateExpression(inner, opts);
-    return val == null ? '' : String(val);
-  });
+  if (!TEMPLATE_BLOCK_PATTERN.test(template)) {
+    return template.replace(/\{\{\s*([^}]+)\s*\}\}/g, (_m, inner) => stringifyExpressionValue(evaluateExpression(inner, opts)));
+  }
+  const out: string[] = [];
+  renderTemplateParts(parseTemplate(template), opts, {}, out, { length: 0, template });
+  return out.join('');
+}
+
+/** The expression of a value that is exactly one {{ ... }} token (null for plain or mixed text and block tags) */
+export function getSingleExpression(template: string): string | null {
+  if (typeof template !== 'string') return null;
+  const match = template.trim().match(/^\{\{\s*([^}]+?)\s*\}\}$/);
+  return match && parseTemplateTag(match[1]).kind === 'value' ? match[1] : null;
+}
+
+/**
+ * Evaluate a field, keeping the value's type when the whole field is a single {{ ... }} token
+ * (arrays, objects, numbers, booleans, dates); mixed text is interpolated to a string.
+ */
+export function evaluateTemplate(template: string, opts: EvalOptions): any {
+  const single = getSingleExpression(template);
+  return single !== null ? evaluateExpression(single, opts) : resolveTemplate(template, opts);
+}
+
+/** Text form of an evaluated value inside mixed text: objects and arrays as JSON, dates as ISO strings */
+export function stringifyExpressionValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
 }
 
-/** Deep evaluation: objects/arrays -> resolve all nested strings with {{ ... }} */
+/** Deep evaluation: objects/arrays -> resolve all nested strings with {{ ... }} (single tokens keep their type) */
 export function deepEvaluate<T = any>(input: T, opts: EvalOptions): T {
   if (typeof input === 'string') {
-    return resolveTemplate(input, opts) as unknown as T;
+    return evaluateTemplate(input, opts) as T;
   }
   if (Array.isArray(input)) {
     return input.map(it => deepEvaluate(it, opts)) as unknown as T;
@@ -148,3 +252,190 @@ export function deepEvaluate<T = any>(input: T, opts: EvalOptions): T {
   }
   return input;
 }
+
+// ----- Template blocks --------------
+
+export type TemplateTagKind = 'value' | 'each' | 'if' | 'unless' | 'else' | 'close';
+
+type TemplatePart =
+  | { type: 'text'; text: string }
+  | { type: 'value'; expression: string }
+  | { type: 'each'; expression: string; alias?: string; body: TemplatePart[]; otherwise: TemplatePart[] }
+  | { type: 'if'; expression: string; negate: boolean; body: TemplatePart[]; otherwise: TemplatePart[] };
+
+type BlockPart = Extract<TemplatePart, { type: 'each' | 'if' }>;
+
+const TEMPLATE_BLOCK_PATTERN = /\{\{\s*(?:[#/]|else\s*\}\})/;
+
+/**
+ * Classify the content of a {{ ... }} tag: a value expression, a block opener with its expression,
+ * {{else}} or a block closer ({{/each}})
+ */
+export function parseTemplateTag(inner: string): { kind: TemplateTagKind; expression: string; alias?: string; block?: string } {
+  const text = inner.trim();
+  if (text === 'else') return { kind: 'else', expression: '' };
+  const close = text.match(/^\/\s*(each|if|unless)$/);
+  if (close) return { kind: 'close', expression: '', block: close[1] };
+
+  const open = text.match(/^#(each|if|unless)\b\s*([\s\S]*)$/);
+  if (!open) return { kind: 'value', expression: text };
+  if (open[1] !== 'each') return { kind: open[1] as 'if' | 'unless', expression: open[2].trim() };
+
+  const aliased = open[2].match(/^([\s\S]*?)\s+as\s+([A-Za-z_][\w]*)$/);
+  return aliased
+    ? { kind: 'each', expression: aliased[1].trim(), alias: aliased[2] }
+    : { kind: 'each', expression: open[2].trim() };
+}
+
+/**
+ * Check that a template's blocks are balanced
+ * @throws ExpressionError at the offending tag
+ */
+export function compileTemplate(template: string): void {
+  if (typeof template === 'string' && TEMPLATE_BLOCK_PATTERN.test(template)) parseTemplate(template);
+}
+
+/**
+ * Make rich-text (RTE) HTML usable as a template: entities inside {{ }} tags are decoded, and an
+ * {{#each}} ... {{/each}} pair that starts and ends within one table row repeats the whole row
+ */
+export function prepareHtmlTemplate(html: string): string {
+  const decoded = html.replace(/\{\{[^}]*\}\}/g, tag =>
+    tag
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&#x27;/g, "'")
+      .replace(/&amp;/g, '&')
+  );
+  return decoded.replace(/(<tr\b[^>]*>)([\s\S]*?)(<\/tr>)/gi, (row, openTag: string, cells: string, closeTag: string) => {
+    const opener = cells.match(/^([\s\S]*?)(\{\{\s*#each\b[^}]*\}\})([\s\S]*)$/);
+    if (!opener) return row;
+    const closer = opener[3].match(/^([\s\S]*)(\{\{\s*\/\s*each\s*\}\})([\s\S]*)$/);
+    // Only a row holding exactly one #each ... /each pair is repeated as a whole
+    if (!closer || /\{\{\s*[#/]\s*each\b/.test(closer[1])) return row;
+    return `${opener[2]}${openTag}${opener[1]}${closer[1]}${closer[3]}${closeTag}${closer[2]}`;
+  });
+}
+
+function parseTemplate(template: string): TemplatePart[] {
+  const root: TemplatePart[] = [];
+  // Open blocks with the list new parts go to (body, or otherwise after {{else}})
+  const stack: Array<{ block: BlockPart; tag: string; pos: number; target: TemplatePart[]; inElse: boolean }> = [];
+  const target = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  const pattern = /\{\{\s*([^}]+?)\s*\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(template)) !== null) {
+    if (match.index > last) target().push({ type: 'text', text: template.slice(last, match.index) });
+    last = match.index + match[0].length;
+
+    const tag = parseTemplateTag(match[1]);
+    switch (tag.kind) {
+      case 'value':
+        target().push({ type: 'value', expression: tag.expression });
+        break;
+      case 'each':
+      case 'if':
+      case 'unless': {
+        if (!tag.expression) throw new ExpressionError(`{{#${tag.kind}}} needs an expression`, match.index, template);
+        const block: BlockPart = tag.kind === 'each'
+          ? { type: 'each', expression: tag.expression, alias: tag.alias, body: [], otherwise: [] }
+          : { type: 'if', expression: tag.expression, negate: tag.kind === 'unless', body: [], otherwise: [] };
+        target().push(block);
+        stack.push({ block, tag: tag.kind, pos: match.index, target: block.body, inElse: false });
+        break;
+      }
+      case 'else': {
+        const open = stack[stack.length - 1];
+        if (!open || open.inElse) throw new ExpressionError('Unexpected {{else}}', match.index, template);
+        open.inElse = true;
+        open.target = open.block.otherwise;
+        break;
+      }
+      case 'close': {
+        const open = stack.pop();
+        if (!open) throw new ExpressionError(`Unexpected {{/${tag.block}}}`, match.index, template);
+        if (open.tag !== tag.block) {
+          throw new ExpressionError(`{{/${tag.block}}} closes {{#${open.tag}}}`, match.index, template);
+        }
+        break;
+      }
+    }
+  }
+  if (last < template.length) target().push({ type: 'text', text: template.slice(last) });
+
+  if (stack.length) {
+    const open = stack[stack.length - 1];
+    throw new ExpressionError(`Missing {{/${open.tag}}} for this block`, open.pos, template);
+  }
+  return root;
+}
+
+// Expressions inside blocks see the block locals ($item, $index, ...)
+function evaluateWithLocals(expr: string, opts: EvalOptions, locals: Record<string, any>): any {
+  const trimmed = expr.trim();
+  if (isPlainPathExpression(trimmed)) return resolvePlainPath(trimmed, opts, locals);
+  if (Object.keys(locals).length === 0) return evaluateExpression(trimmed, opts);
+  return evaluateWithScope(trimmed, opts, locals);
+}
+
+function renderTemplateParts(
+  parts: TemplatePart[],
+  opts: EvalOptions,
+  locals: Record<string, any>,
+  out: string[],
+  size: { length: number; template: string }
+): void {
+  const write = (text: string) => {
+    size.length += text.length;
+    if (size.length > EXPRESSION_MAX_STRING_LENGTH) {
+      throw new ExpressionError(`Template output exceeds ${EXPRESSION_MAX_STRING_LENGTH} characters`, 0, size.template);
+    }
+    out.push(text);
+  };
+
+  parts.forEach(part => {
+    switch (part.type) {
+      case 'text':
+        write(part.text);
+        break;
+      case 'value':
+        write(stringifyExpressionValue(evaluateWithLocals(part.expression, opts, locals)));
+        break;
+      case 'if': {
+        const value = evaluateWithLocals(part.expression, opts, locals);
+        // Empty lists count as false, as in other template languages
+        const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+        renderTemplateParts(truthy !== part.negate ? part.body : part.otherwise, opts, locals, out, size);
+        break;
+      }
+      case 'each': {
+        const value = evaluateWithLocals(part.expression, opts, locals);
+        const isObject = !!value && typeof value === 'object' && !Array.isArray(value);
+        const entries: Array<[string | null, any]> = Array.isArray(value)
+          ? value.map(item => [null, item] as [null, any])
+          : isObject ? Object.keys(value).map(key => [key, value[key]] as [string, any]) : [];
+        if (entries.length === 0) {
+          renderTemplateParts(part.otherwise, opts, locals, out, size);
+          break;
+        }
+        entries.forEach(([key, item], index) => {
+          const frame: Record<string, any> = {
+            ...locals,
+            $item: item,
+            $index: index,
+            $first: index === 0,
+            $last: index === entries.length - 1,
+          };
+          if (key !== null) frame.$key = key;
+          if (part.alias) frame[part.alias] = item;
+          renderTemplateParts(part.body, opts, frame, out, size);
+        });
+        break;
+      }
+    }
+  });
+}
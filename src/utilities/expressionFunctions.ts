@@ -0,0 +1,177 @@
+import { ExpressionFunctionDoc } from '../types';
+import { addToDate, diffDates, formatDate } from './dateUtils';
+
+// Built-in helpers available inside {{ ... }} expressions (dates, strings, numbers, collections, JSON).
+// They are plain functions handed to the sandbox scope; EXPRESSION_FUNCTION_DOCS describes them for
+// completions in the variable picker, so keep both lists in sync when adding a helper.
+
+type FieldSelector = string | ((item: any) => any) | undefined;
+
+/**
+ * Helper functions callable from expressions, e.g. {{ upper($.Form.name) }}
+ */
+export const EXPRESSION_FUNCTIONS = {
+  // ---------------- Date ----------------
+  formatDate: (date: any, pattern?: string, timeZone?: string): string => formatDate(date, pattern ?? 'yyyy-MM-dd', timeZone || undefined),
+  addDate: (date: any, amount: number, unit?: string, timeZone?: string): string =>
+    addToDate(date, amount, unit ?? 'days', timeZone || undefined).toISOString(),
+  diffDate: (start: any, end: any, unit?: string, timeZone?: string): number => diffDates(start, end, unit ?? 'days', timeZone || undefined),
+
+  // ---------------- String ----------------
+  upper: (text: any): string => toText(text).toUpperCase(),
+  lower: (text: any): string => toText(text).toLowerCase(),
+  trim: (text: any): string => toText(text).trim(),
+  slug: (text: any): string => {
+    let s = toText(text);
+    // Strip accents where String.prototype.normalize exists
+    if (typeof (s as any).normalize === 'function') s = (s as any).normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    return s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  },
+
+  // ---------------- Number ----------------
+  formatNumber: (value: any, decimals?: number, locale?: string): string => {
+    const n = toNumber(value);
+    if (n === null) throw new Error(`"${value}" is not a number`);
+    const digits = decimals === undefined || decimals === null ? undefined : Math.max(0, Math.min(20, Math.floor(decimals)));
+    return new Intl.NumberFormat(locale || 'en-US', {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits ?? 3,
+    }).format(n);
+  },
+  formatCurrency: (value: any, currency?: string, locale?: string): string => {
+    const n = toNumber(value);
+    if (n === null) throw new Error(`"${value}" is not a number`);
+    return new Intl.NumberFormat(locale || 'en-US', { style: 'currency', currency: currency || 'USD' }).format(n);
+  },
+  round: (value: any, decimals?: number): number => {
+    const factor = Math.pow(10, Math.floor(decimals ?? 0));
+    return Math.round(Number(value) * factor) / factor;
+  },
+
+  // ---------------- Array ----------------
+  sum: (items: any, field?: FieldSelector): number =>
+    numericValues(items, field).reduce((total, n) => total + n, 0),
+  avg: (items: any, field?: FieldSelector): number | null => {
+    const values = numericValues(items, field);
+    return values.length ? values.reduce((total, n) => total + n, 0) / values.length : null;
+  },
+  pluck: (items: any, field: FieldSelector): any[] => toList(items).map(item => selectField(item, field)),
+  unique: (items: any, field?: FieldSelector): any[] => {
+    const seen = new Set<string>();
+    return toList(items).filter(item => {
+      const key = identityKey(field === undefined ? item : selectField(item, field));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  },
+  groupBy: (items: any, field: FieldSelector): Record<string, any[]> => {
+    const groups: Record<string, any[]> = {};
+    toList(items).forEach(item => {
+      const key = String(selectField(item, field) ?? '');
+      if (Object.prototype.hasOwnProperty.call(groups, key)) {
+        groups[key].push(item);
+      } else {
+        // defineProperty so a "__proto__" key stays a normal entry
+        Object.defineProperty(groups, key, { value: [item], enumerable: true, writable: true, configurable: true });
+      }
+    });
+    return groups;
+  },
+
+  // ---------------- JSON ----------------
+  jsonParse: function (text: any, fallback?: any): any {
+    if (typeof text !== 'string') return text;
+    try {
+      return JSON.parse(text);
+    } catch (error: any) {
+      if (arguments.length > 1) return fallback;
+      throw new Error(`Invalid JSON (${error?.message ?? 'parse error'})`);
+    }
+  },
+  jsonStringify: (value: any, indent?: number): string => JSON.stringify(value, null, indent ? Math.min(10, Math.floor(indent)) : undefined) ?? '',
+};
+
+/**
+ * Values and helpers added to every expression scope; `$now` / `$today` are fixed when the scope is built
+ */
+export const createExpressionFunctionScope = (now: Date = new Date()): Record<string, any> => ({
+  $now: now.toISOString(),
+  $today: formatDate(now, 'yyyy-MM-dd'),
+  ...EXPRESSION_FUNCTIONS,
+});
+
+/**
+ * Reference for the built-in helpers, in the order completions list them
+ */
+export const EXPRESSION_FUNCTION_DOCS: ExpressionFunctionDoc[] = [
+  { name: '$now', kind: 'value', category: 'Date', signature: '$now', description: 'Current date and time as an ISO string (UTC)', example: '{{ $now }}' },
+  { name: '$today', kind: 'value', category: 'Date', signature: '$today', description: "Today's date in the local time zone (yyyy-MM-dd)", example: '{{ $today }}' },
+  { name: 'formatDate', kind: 'function', category: 'Date', signature: 'formatDate(date, pattern?, timeZone?)', description: "Format with tokens yyyy MM dd HH mm ss EEE MMM a Z ('text' is literal); \"iso\" gives ISO 8601", example: "{{ formatDate($now, 'dd MMM yyyy HH:mm', 'Europe/Berlin') }}" },
+  { name: 'addDate', kind: 'function', category: 'Date', signature: 'addDate(date, amount, unit?, timeZone?)', description: 'Add years/months/weeks/days/hours/minutes/seconds (negative to subtract); returns an ISO string', example: "{{ addDate($now, 7, 'days', 'America/New_York') }}" },
+  { name: 'diffDate', kind: 'function', category: 'Date', signature: 'diffDate(start, end, unit?, timeZone?)', description: 'Whole units between two dates (days by default)', example: "{{ diffDate($.Form.startDate, $today, 'days') }}" },
+  { name: 'upper', kind: 'function', category: 'String', signature: 'upper(text)', description: 'Upper-case text', example: '{{ upper($.Form.name) }}' },
+  { name: 'lower', kind: 'function', category: 'String', signature: 'lower(text)', description: 'Lower-case text', example: '{{ lower($.Form.email) }}' },
+  { name: 'trim', kind: 'function', category: 'String', signature: 'trim(text)', description: 'Remove leading and trailing whitespace', example: '{{ trim($.Form.name) }}' },
+  { name: 'slug', kind: 'function', category: 'String', signature: 'slug(text)', description: 'URL-friendly slug: lower case, accents removed, words joined by "-"', example: '{{ slug($.Form.title) }}' },
+  { name: 'formatNumber', kind: 'function', category: 'Number', signature: 'formatNumber(value, decimals?, locale?)', description: 'Locale-formatted number with thousands separators', example: "{{ formatNumber($.Order.total, 2, 'de-DE') }}" },
+  { name: 'formatCurrency', kind: 'function', category: 'Number', signature: 'formatCurrency(value, currency?, locale?)', description: 'Locale-formatted amount in a currency (USD by default)', example: "{{ formatCurrency($.Order.total, 'EUR') }}" },
+  { name: 'round', kind: 'function', category: 'Number', signature: 'round(value, decimals?)', description: 'Round to a number of decimals', example: '{{ round($.Order.total * 1.2, 2) }}' },
+  { name: 'sum', kind: 'function', category: 'Array', signature: 'sum(items, field?)', description: 'Sum numbers, or a field (path or x => ...) of each item', example: "{{ sum($.Orders.rows, 'amount') }}" },
+  { name: 'avg', kind: 'function', category: 'Array', signature: 'avg(items, field?)', description: 'Average of numbers or of a field; null for an empty list', example: "{{ avg($.Orders.rows, 'amount') }}" },
+  { name: 'pluck', kind: 'function', category: 'Array', signature: 'pluck(items, field)', description: 'List of one field from every item', example: "{{ pluck($.Users.rows, 'address.city') }}" },
+  { name: 'unique', kind: 'function', category: 'Array', signature: 'unique(items, field?)', description: 'Drop duplicates, optionally comparing a field; keeps the first item', example: "{{ unique($.Users.rows, 'email') }}" },
+  { name: 'groupBy', kind: 'function', category: 'Array', signature: 'groupBy(items, field)', description: 'Object of item lists keyed by a field value', example: "{{ groupBy($.Orders.rows, 'status') }}" },
+  { name: 'jsonParse', kind: 'function', category: 'JSON', signature: 'jsonParse(text, fallback?)', description: 'Parse JSON text; returns the fallback (when given) instead of failing', example: '{{ jsonParse($.HTTP.body, null) }}' },
+  { name: 'jsonStringify', kind: 'function', category: 'JSON', signature: 'jsonStringify(value, indent?)', description: 'Serialize a value as JSON text', example: '{{ jsonStringify($.Form, 2) }}' },
+];
+
+/**
+ * Helpers whose name starts with the typed prefix (case-insensitive)
+ */
+export const getExpressionFunctionCompletions = (prefix: string): ExpressionFunctionDoc[] => {
+  const needle = prefix.toLowerCase();
+  return EXPRESSION_FUNCTION_DOCS.filter(doc => doc.name.toLowerCase().startsWith(needle) && doc.name !== prefix);
+};
+
+// ----- Helper Methods --------------
+
+function toText(value: any): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toList(items: any): any[] {
+  if (Array.isArray(items)) return items;
+  if (items === null || items === undefined) return [];
+  throw new Error(`Expected a list but got ${typeof items}`);
+}
+
+// Field path ("address.city", "tags[0]") or callback applied to an item
+function selectField(item: any, field: FieldSelector): any {
+  if (typeof field === 'function') return field(item);
+  if (field === undefined || field === null || field === '') return item;
+  return String(field)
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    // Own properties only, so paths cannot reach prototype members such as "constructor"
+    .reduce((current, key) => (current !== null && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined), item);
+}
+
+function numericValues(items: any, field: FieldSelector): number[] {
+  return toList(items)
+    .map(item => toNumber(selectField(item, field)))
+    .filter((n): n is number => n !== null);
+}
+
+// Comparable key for unique(): objects compare by content, 1 and "1" stay distinct
+function identityKey(value: any): string {
+  return `${typeof value}:${typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)}`;
+}
@@ -0,0 +1,150 @@
+import { ExecutionContext, ExpressionFieldPreview, ExpressionTokenPreview } from '../types';
+import { evaluateExpression, evaluateTemplate, isPlainPathExpression, parseTemplateTag } from './expression';
+import { ExpressionError, compileExpression } from './expressionSandbox';
+
+// Design-time preview of config fields: every {{ ... }} token is parsed and evaluated against the last
+// execution context so the config panel can show values, types and errors while the user types.
+
+// A whole field holding a bare reference ($.path, $node(...), $loop...) is evaluated like a token
+const BARE_REFERENCE = /^\$(?:\.|node\b|loops?\b)/;
+
+/**
+ * Evaluate every token of a field and the field as a whole
+ * @param context Last execution context (with the diagram and the node being configured attached)
+ */
+export function previewExpressionField(text: string, context: ExecutionContext | null): ExpressionFieldPreview {
+  const hasRun = !!context && Object.keys(context.results ?? {}).length > 0;
+  const tokens = findExpressionTokens(text).map(token => previewToken(token, context, hasRun));
+  const error = tokens.find(token => token.error)?.error;
+
+  if (!hasRun || error || tokens.length === 0) {
+    return { tokens, valueType: 'undefined', error, hasRun };
+  }
+
+  try {
+    const trimmed = text.trim();
+    const value = BARE_REFERENCE.test(trimmed) && !trimmed.includes('{{')
+      ? evaluateExpression(trimmed, { context: context! })
+      : evaluateTemplate(text, { context: context! });
+    return { tokens, value, valueType: describeValueType(value), hasRun };
+  } catch (err: any) {
+    return { tokens, valueType: 'undefined', error: err?.message ?? String(err), hasRun };
+  }
+}
+
+/**
+ * Short type label for a preview: "array (3)", "object", "date", "null", ...
+ */
+export function describeValueType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array (${value.length})`;
+  if (value instanceof Date) return 'date';
+  return typeof value;
+}
+
+/**
+ * Single-line snippet of a value, cut to `max` characters
+ */
+export function formatValueSnippet(value: any, max = 160): string {
+  let text: string;
+  if (value === undefined) text = 'undefined';
+  else if (typeof value === 'string') text = JSON.stringify(value);
+  else if (value instanceof Date) text = value.toISOString();
+  else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// ----- Helper Methods --------------
+
+type FieldToken = {
+  start: number;
+  end: number;
+  expression: string;
+  expressionStart: number;
+  structural: boolean;   // {{else}} / {{/each}}: nothing to evaluate
+  inEach: boolean;       // inside an #each block, where $item / $index only exist while rendering
+};
+
+// {{ ... }} tokens with their offsets; a field that is only a bare reference is one token
+function findExpressionTokens(text: string): FieldToken[] {
+  if (typeof text !== 'string') return [];
+  const tokens: FieldToken[] = [];
+  const pattern = /\{\{\s*([^}]*?)\s*\}\}/g;
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const tag = parseTemplateTag(match[1]);
+    const inEach = blocks.indexOf('each') >= 0;
+    if (tag.kind === 'each' || tag.kind === 'if' || tag.kind === 'unless') blocks.push(tag.kind);
+    if (tag.kind === 'close') blocks.pop();
+
+    const structural = tag.kind === 'else' || tag.kind === 'close';
+    const offset = structural ? 2 : match[0].indexOf(tag.expression, 2);
+    tokens.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      expression: structural ? match[1] : tag.expression,
+      expressionStart: match.index + Math.max(2, offset),
+      structural,
+      inEach,
+    });
+  }
+
+  const trimmed = text.trim();
+  if (tokens.length === 0 && BARE_REFERENCE.test(trimmed)) {
+    const start = text.indexOf(trimmed);
+    tokens.push({ start, end: start + trimmed.length, expression: trimmed, expressionStart: start, structural: false, inEach: false });
+  }
+  return tokens;
+}
+
+function previewToken(token: FieldToken, context: ExecutionContext | null, hasRun: boolean): ExpressionTokenPreview {
+  const base = { start: token.start, end: token.end, expression: token.expression };
+  const fail = (message: string, position?: number): ExpressionTokenPreview => {
+    const span = errorSpan(token, position);
+    return { ...base, valueType: 'undefined', error: message, errorStart: span.start, errorEnd: span.end };
+  };
+
+  if (token.structural) return { ...base, valueType: 'block' };
+  if (!token.expression) return fail('Empty expression');
+
+  // Syntax errors show without a previous run
+  if (!isPlainPathExpression(token.expression)) {
+    try {
+      compileExpression(token.expression);
+    } catch (err: any) {
+      return err instanceof ExpressionError ? fail(err.reason, err.position) : fail(err?.message ?? String(err));
+    }
+  }
+  // Block locals ($item, $index, ...) only exist while the template renders
+  if (!hasRun || token.inEach) return { ...base, valueType: token.inEach ? 'per item' : 'undefined' };
+
+  try {
+    const value = evaluateExpression(token.expression, { context: context! });
+    // A plain path that finds nothing is almost always a wrong or stale reference
+    if (value === undefined && isPlainPathExpression(token.expression)) {
+      return fail(`"${token.expression}" did not match any value in the last run`);
+    }
+    return { ...base, value, valueType: describeValueType(value) };
+  } catch (err: any) {
+    return err instanceof ExpressionError ? fail(err.reason, err.position) : fail(err?.message ?? String(err));
+  }
+}
+
+// Underline from the error position to the end of the word there (the whole expression without a position)
+function errorSpan(token: FieldToken, position?: number): { start: number; end: number } {
+  const expressionEnd = token.expressionStart + token.expression.length;
+  if (position === undefined || position < 0 || position >= token.expression.length) {
+    return { start: token.expressionStart, end: Math.max(expressionEnd, token.expressionStart + 1) };
+  }
+  const rest = token.expression.slice(position);
+  const word = rest.match(/^[\w$.#"'()[\]]+/)?.[0] ?? rest.charAt(0);
+  const start = token.expressionStart + position;
+  return { start, end: start + Math.max(1, word.length) };
+}
@@ -0,0 +1,62 @@
+import { compileExpression, EXPRESSION_MATH, ExpressionError, runExpression } from './expressionSandbox';
+
+describe('runExpression', () => {
+  it('evaluates arithmetic, comparisons, logic and ternaries', () => {
+    expect(runExpression('1 + 2 * 3', {})).toBe(7);
+    expect(runExpression('(1 + 2) * 3 % 4', {})).toBe(1);
+    expect(runExpression('a > 2 && b !== "x" ? "yes" : "no"', { a: 3, b: 'y' })).toBe('yes');
+    expect(runExpression('missing ?? "fallback"', { missing: null })).toBe('fallback');
+  });
+
+  it('reads members and calls whitelisted methods and lambdas', () => {
+    const scope = { order: { items: [{ qty: 2 }, { qty: 3 }] }, name: '  Ann  ', Math: EXPRESSION_MATH };
+    expect(runExpression('order.items.map(i => i.qty).reduce((a, b) => a + b, 0)', scope)).toBe(5);
+    expect(runExpression('name.trim().toUpperCase()', scope)).toBe('ANN');
+    expect(runExpression('Math.max(order.items[0].qty, 4)', scope)).toBe(4);
+    expect(runExpression('order?.missing?.value', scope)).toBeUndefined();
+  });
+
+  it('sorts a copy instead of the original array', () => {
+    const list = [3, 1, 2];
+    expect(runExpression('list.sort((a, b) => a - b)', { list })).toEqual([1, 2, 3]);
+    expect(list).toEqual([3, 1, 2]);
+  });
+
+  it('resolves "$." paths through the resolver', () => {
+    const resolvePath = (path: string) => (path === 'Orders.total' ? 120 : undefined);
+    expect(runExpression('$.Orders.total > 100', {}, { resolvePath })).toBe(true);
+    expect(runExpression('$.Orders.total/2', {}, { resolvePath })).toBe(60);
+    expect(runExpression('$.Orders.missing ?? 0', {}, { resolvePath })).toBe(0);
+  });
+
+  it('blocks globals, prototypes and functions outside the scope', () => {
+    expect(() => runExpression('window', {})).toThrow(ExpressionError);
+    expect(() => runExpression('order.constructor', { order: {} })).toThrow('Access to "constructor" is not allowed');
+    expect(() => runExpression('order["__proto__"]', { order: {} })).toThrow(ExpressionError);
+    expect(() => runExpression('fn()', { order: { fn: () => 1 } })).toThrow(ExpressionError);
+    expect(() => runExpression('name.link()', { name: 'a' })).toThrow('is not a function that expressions can call');
+  });
+
+  it('stops runaway expressions at the step budget', () => {
+    const list = Array.from({ length: 50 }, (_, i) => i);
+    expect(() => runExpression('list.map(a => list.map(b => a * b))', { list }, { maxSteps: 500 })).toThrow(ExpressionError);
+  });
+});
+
+describe('compileExpression', () => {
+  it('reports the position of syntax errors', () => {
+    expect(() => compileExpression('1 +')).toThrow(ExpressionError);
+    let error: any;
+    try {
+      compileExpression('a + * b');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ExpressionError);
+    expect(error.position).toBe(4);
+  });
+
+  it('accepts valid expressions', () => {
+    expect(() => compileExpression('$.Orders.total > 100 && items.length')).not.toThrow();
+  });
+});
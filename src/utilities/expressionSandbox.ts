@@ -0,0 +1,658 @@
+// Sandboxed expression language used inside {{ ... }} tokens and legacy If/Filter conditions.
+// Expressions are parsed into a small AST and interpreted: only literals, member access on plain data,
+// arithmetic, comparisons, logic, ternaries, arrow callbacks and whitelisted functions are available.
+// There is no access to globals (window, localStorage, ...), and every run is capped by a step budget.
+import { EXPRESSION_MAX_STRING_LENGTH, EXPRESSION_STEP_BUDGET } from '../constants';
+
+/**
+ * Syntax or evaluation error in an expression, with the 0-based position it refers to
+ */
+export class ExpressionError extends Error {
+  readonly reason: string;
+  readonly position: number;
+  readonly expression: string;
+
+  constructor(reason: string, position: number, expression: string) {
+    const shown = expression.length > 80 ? `${expression.slice(0, 77)}...` : expression;
+    super(`${reason} at position ${position + 1} in "${shown}"`);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ExpressionError.prototype);
+    this.name = 'ExpressionError';
+    this.reason = reason;
+    this.position = position;
+    this.expression = expression;
+  }
+}
+
+export type ExpressionRunOptions = {
+  // Resolves "$.path" references inside larger expressions (e.g. $.Orders.total > 100)
+  resolvePath?: (path: string) => any;
+  maxSteps?: number;
+};
+
+/**
+ * Parse an expression once (cached) so syntax errors surface before it is evaluated
+ * @throws ExpressionError with the position of the offending token
+ */
+export function compileExpression(source: string): void {
+  parseCached(source);
+}
+
+/**
+ * Evaluate an expression against a scope of named values and vetted functions
+ * @param scope Identifiers the expression may use; functions in it (and in registered namespaces) are callable
+ * @throws ExpressionError on syntax errors, unknown identifiers, blocked access or an exhausted step budget
+ */
+export function runExpression(source: string, scope: Record<string, any>, options: ExpressionRunOptions = {}): any {
+  const ast = parseCached(source);
+  const interpreter = new Interpreter(source, scope, options);
+  return interpreter.evaluate(ast);
+}
+
+/**
+ * Mark an object of helper functions (e.g. Math) as a namespace whose members expressions may call
+ */
+export function registerExpressionNamespace<T extends object>(namespace: T): T {
+  NAMESPACES.add(namespace);
+  return namespace;
+}
+
+// ----- Tokenizer --------------
+
+type TokenType = 'number' | 'string' | 'identifier' | 'path' | 'punctuator' | 'eof';
+type Token = { type: TokenType; value: string; pos: number };
+
+// Longest operators first so "===" wins over "=="
+const PUNCTUATORS = [
+  '===', '!==', '**', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '=>',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}',
+];
+
+const isIdentStart = (ch: string) => /[A-Za-z_$]/.test(ch);
+const isIdentPart = (ch: string) => /[\w$]/.test(ch);
+const punctuatorAt = (source: string, pos: number) => PUNCTUATORS.find(p => source.startsWith(p, pos));
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // "$.Node#id.rows[0].name": a result path, resolved the same way as a whole-token $. expression
+    if (ch === '$' && source[i + 1] === '.') {
+      const start = i;
+      i += 2;
+      // Node ids after "#" may contain "-"; elsewhere "-" is subtraction ($.count-1)
+      let inNodeId = false;
+      while (i < source.length) {
+        const c = source[i];
+        if (c === '#') inNodeId = true;
+        else if (c === '.' || c === '[') inNodeId = false;
+        if (!(/[\w$#.[\]]/.test(c) || (inNodeId && c === '-'))) break;
+        i++;
+      }
+      tokens.push({ type: 'path', value: source.slice(start + 2, i), pos: start });
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const next = source[i + 1];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', '`': '`' };
+          value += escapes[next] ?? next;
+          i += 2;
+          continue;
+        }
+        if (ch === '`' && source[i] === '$' && source[i + 1] === '{') {
+          throw new ExpressionError('Template literal placeholders are not supported; use + to join strings', i, source);
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) throw new ExpressionError('Unterminated string', start, source);
+      i++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      const start = i;
+      while (i < source.length && isIdentPart(source[i])) i++;
+      tokens.push({ type: 'identifier', value: source.slice(start, i), pos: start });
+      continue;
+    }
+
+    const punctuator = punctuatorAt(source, i);
+    // "a?.5:1" is a ternary with a decimal, not optional chaining
+    if (punctuator && !(punctuator === '?.' && /\d/.test(source[i + 2] ?? ''))) {
+      tokens.push({ type: 'punctuator', value: punctuator, pos: i });
+      i += punctuator.length;
+      continue;
+    }
+    if (ch === '?') {
+      tokens.push({ type: 'punctuator', value: '?', pos: i });
+      i++;
+      continue;
+    }
+
+    const hint = ch === '=' ? ' (assignment is not supported; use === to compare)' : '';
+    throw new ExpressionError(`Unexpected character "${ch}"${hint}`, i, source);
+  }
+
+  tokens.push({ type: 'eof', value: '', pos: source.length });
+  return tokens;
+}
+
+// ----- Parser --------------
+
+type Node =
+  | { type: 'Literal'; value: any; pos: number }
+  | { type: 'Identifier'; name: string; pos: number }
+  | { type: 'Path'; path: string; pos: number }
+  | { type: 'Member'; object: Node; property: Node; optional: boolean; pos: number }
+  | { type: 'Call'; callee: Node; args: Node[]; optional: boolean; pos: number }
+  | { type: 'Unary'; operator: string; argument: Node; pos: number }
+  | { type: 'Binary'; operator: string; left: Node; right: Node; pos: number }
+  | { type: 'Conditional'; test: Node; consequent: Node; alternate: Node; pos: number }
+  | { type: 'Array'; elements: Node[]; pos: number }
+  | { type: 'Object'; properties: Array<{ key: string; value: Node }>; pos: number }
+  | { type: 'Lambda'; params: string[]; body: Node; pos: number };
+
+// Binary operator precedence (higher binds tighter); ** is right-associative
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1, '||': 2, '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '>': 5, '<=': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '**': 8,
+};
+
+const KEYWORD_LITERALS: Record<string, any> = { true: true, false: false, null: null, undefined: undefined };
+const UNSUPPORTED_KEYWORDS = new Set([
+  'new', 'function', 'this', 'class', 'var', 'let', 'const', 'return', 'delete', 'void',
+  'import', 'export', 'await', 'async', 'yield', 'instanceof', 'in', 'super', 'with', 'eval',
+]);
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Node {
+    if (this.peek().type === 'eof') throw this.error('Empty expression', this.peek());
+    const node = this.parseExpression();
+    const rest = this.peek();
+    if (rest.type !== 'eof') throw this.error(`Unexpected "${rest.value}"`, rest);
+    return node;
+  }
+
+  private parseExpression(): Node {
+    if (this.isLambdaAhead()) return this.parseLambda();
+    const test = this.parseBinary(1);
+    if (this.isPunct('?')) {
+      const pos = this.next().pos;
+      const consequent = this.parseExpression();
+      this.expectPunct(':');
+      const alternate = this.parseExpression();
+      return { type: 'Conditional', test, consequent, alternate, pos };
+    }
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(token.value === '**' ? precedence : precedence + 1);
+      left = { type: 'Binary', operator: token.value, left, right, pos: token.pos };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token.type === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.next();
+      return { type: 'Unary', operator: token.value, argument: this.parseUnary(), pos: token.pos };
+    }
+    if (token.type === 'identifier' && token.value === 'typeof') {
+      this.next();
+      return { type: 'Unary', operator: 'typeof', argument: this.parseUnary(), pos: token.pos };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: Node): Node {
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'punctuator') return node;
+
+      if (token.value === '.' || token.value === '?.') {
+        this.next();
+        const optional = token.value === '?.';
+        if (optional && this.isPunct('(')) {
+          node = { type: 'Call', callee: node, args: this.parseArguments(), optional: true, pos: token.pos };
+          continue;
+        }
+        if (optional && this.isPunct('[')) {
+          this.next();
+          const property = this.parseExpression();
+          this.expectPunct(']');
+          node = { type: 'Member', object: node, property, optional: true, pos: token.pos };
+          continue;
+        }
+        const name = this.next();
+        if (name.type !== 'identifier') throw this.error('Expected a property name', name);
+        node = { type: 'Member', object: node, property: { type: 'Literal', value: name.value, pos: name.pos }, optional, pos: name.pos };
+      } else if (token.value === '[') {
+        this.next();
+        const property = this.parseExpression();
+        this.expectPunct(']');
+        node = { type: 'Member', object: node, property, optional: false, pos: token.pos };
+      } else if (token.value === '(') {
+        node = { type: 'Call', callee: node, args: this.parseArguments(), optional: false, pos: token.pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(): Node[] {
+    this.expectPunct('(');
+    const args: Node[] = [];
+    while (!this.isPunct(')')) {
+      args.push(this.parseExpression());
+      if (!this.isPunct(')')) this.expectPunct(',');
+    }
+    this.expectPunct(')');
+    return args;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value), pos: token.pos };
+      case 'string':
+        return { type: 'Literal', value: token.value, pos: token.pos };
+      case 'path':
+        return { type: 'Path', path: token.value, pos: token.pos };
+      case 'identifier':
+        if (token.value in KEYWORD_LITERALS) return { type: 'Literal', value: KEYWORD_LITERALS[token.value], pos: token.pos };
+        if (UNSUPPORTED_KEYWORDS.has(token.value)) throw this.error(`"${token.value}" is not supported in expressions`, token);
+        return { type: 'Identifier', name: token.value, pos: token.pos };
+      case 'punctuator':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expectPunct(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const elements: Node[] = [];
+          while (!this.isPunct(']')) {
+            elements.push(this.parseExpression());
+            if (!this.isPunct(']')) this.expectPunct(',');
+          }
+          this.expectPunct(']');
+          return { type: 'Array', elements, pos: token.pos };
+        }
+        if (token.value === '{') return this.parseObject(token.pos);
+        break;
+      case 'eof':
+        throw this.error('Unexpected end of expression', token);
+    }
+    throw this.error(`Unexpected "${token.value}"`, token);
+  }
+
+  private parseObject(pos: number): Node {
+    const properties: Array<{ key: string; value: Node }> = [];
+    while (!this.isPunct('}')) {
+      const keyToken = this.next();
+      if (keyToken.type !== 'identifier' && keyToken.type !== 'string' && keyToken.type !== 'number') {
+        throw this.error('Expected a property name', keyToken);
+      }
+      let value: Node;
+      if (keyToken.type === 'identifier' && (this.isPunct(',') || this.isPunct('}'))) {
+        // Shorthand { name } reads the identifier of the same name
+        value = { type: 'Identifier', name: keyToken.value, pos: keyToken.pos };
+      } else {
+        this.expectPunct(':');
+        value = this.parseExpression();
+      }
+      properties.push({ key: keyToken.value, value });
+      if (!this.isPunct('}')) this.expectPunct(',');
+    }
+    this.expectPunct('}');
+    return { type: 'Object', properties, pos };
+  }
+
+  // "x => ..." or "(a, b) => ..."
+  private isLambdaAhead(): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier') return this.peek(1).type === 'punctuator' && this.peek(1).value === '=>';
+    if (!(token.type === 'punctuator' && token.value === '(')) return false;
+    let offset = 1;
+    while (this.peek(offset).type === 'identifier' || (this.peek(offset).type === 'punctuator' && this.peek(offset).value === ',')) offset++;
+    const close = this.peek(offset);
+    const arrow = this.peek(offset + 1);
+    return close.value === ')' && close.type === 'punctuator' && arrow.type === 'punctuator' && arrow.value === '=>';
+  }
+
+  private parseLambda(): Node {
+    const pos = this.peek().pos;
+    const params: string[] = [];
+    if (this.isPunct('(')) {
+      this.next();
+      while (!this.isPunct(')')) {
+        params.push(this.next().value);
+        if (!this.isPunct(')')) this.expectPunct(',');
+      }
+      this.next();
+    } else {
+      params.push(this.next().value);
+    }
+    this.expectPunct('=>');
+    return { type: 'Lambda', params, body: this.parseExpression(), pos };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (this.index < this.tokens.length - 1) this.index++;
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuator' || token.value !== value) {
+      throw this.error(token.type === 'eof' ? `Expected "${value}" before the end of the expression` : `Expected "${value}" but found "${token.value}"`, token);
+    }
+  }
+
+  private error(reason: string, token: Token): ExpressionError {
+    return new ExpressionError(reason, token.pos, this.source);
+  }
+}
+
+const AST_CACHE_LIMIT = 500;
+const astCache = new Map<string, Node>();
+
+function parseCached(source: string): Node {
+  const cached = astCache.get(source);
+  if (cached) return cached;
+  const ast = new Parser(source).parse();
+  if (astCache.size >= AST_CACHE_LIMIT) astCache.clear();
+  astCache.set(source, ast);
+  return ast;
+}
+
+// ----- Interpreter --------------
+
+// Properties that would reach prototypes or the Function constructor
+const BLOCKED_PROPERTIES = new Set([
+  'constructor', 'prototype', '__proto__',
+  '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__',
+]);
+
+// Built-in methods expressions may call, per value kind. Mutating array methods run on a copy.
+const STRING_METHODS = new Set([
+  'charAt', 'charCodeAt', 'concat', 'endsWith', 'includes', 'indexOf', 'lastIndexOf', 'localeCompare',
+  'replace', 'replaceAll', 'slice', 'split', 'startsWith', 'substring', 'toLowerCase', 'toUpperCase',
+  'toString', 'trim', 'trimEnd', 'trimStart',
+]);
+const ARRAY_METHODS = new Set([
+  'concat', 'every', 'filter', 'find', 'findIndex', 'includes', 'indexOf', 'join', 'lastIndexOf',
+  'map', 'reduce', 'reverse', 'slice', 'some', 'sort',
+]);
+const COPY_ON_CALL_ARRAY_METHODS = new Set(['reverse', 'sort']);
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision', 'toString']);
+const DATE_METHODS = new Set([
+  'getTime', 'toISOString', 'toJSON', 'getFullYear', 'getMonth', 'getDate', 'getDay', 'getHours',
+  'getMinutes', 'getSeconds', 'getMilliseconds', 'getUTCFullYear', 'getUTCMonth', 'getUTCDate',
+  'getUTCDay', 'getUTCHours', 'getUTCMinutes', 'getUTCSeconds', 'getTimezoneOffset',
+]);
+
+const NAMESPACES = new WeakSet<object>();
+
+// Math functions available to expressions as Math.*
+export const EXPRESSION_MATH = registerExpressionNamespace({
+  PI: Math.PI,
+  E: Math.E,
+  abs: Math.abs,
+  ceil: Math.ceil,
+  floor: Math.floor,
+  round: Math.round,
+  trunc: (n: number) => (n < 0 ? Math.ceil(n) : Math.floor(n)),
+  sign: (n: number) => (n > 0 ? 1 : n < 0 ? -1 : n),
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+  sqrt: Math.sqrt,
+  log: Math.log,
+  exp: Math.exp,
+  random: Math.random,
+});
+
+const isPlainObject = (value: any): boolean => {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const describe = (value: any): string => {
+  if (value === null) return 'null';
+  if (typeof value !== 'object') return typeof value;
+  return value?.constructor?.name ?? 'object';
+};
+
+class Interpreter {
+  private steps = 0;
+  private maxSteps: number;
+  // Functions expressions may call: scope and namespace helpers, whitelisted methods and their own callbacks
+  private callables = new Set<Function>();
+
+  constructor(private source: string, private scope: Record<string, any>, private options: ExpressionRunOptions) {
+    this.maxSteps = options.maxSteps ?? EXPRESSION_STEP_BUDGET;
+    Object.keys(scope).forEach(key => this.trustCallable(scope[key]));
+  }
+
+  evaluate(node: Node, locals: Record<string, any> | null = null): any {
+    if (++this.steps > this.maxSteps) {
+      throw this.error(`Expression exceeded the evaluation budget of ${this.maxSteps} steps`, node);
+    }
+
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+      case 'Identifier':
+        if (locals && Object.prototype.hasOwnProperty.call(locals, node.name)) return locals[node.name];
+        if (Object.prototype.hasOwnProperty.call(this.scope, node.name)) return this.scope[node.name];
+        throw this.error(`Unknown identifier "${node.name}"`, node);
+      case 'Path':
+        return this.options.resolvePath ? this.options.resolvePath(node.path) : undefined;
+      case 'Member': {
+        const object = this.evaluate(node.object, locals);
+        if (object === null || object === undefined) return undefined;
+        return this.getMember(object, this.evaluate(node.property, locals), node);
+      }
+      case 'Call':
+        return this.evaluateCall(node, locals);
+      case 'Unary': {
+        const value = this.evaluate(node.argument, locals);
+        if (node.operator === '!') return !value;
+        if (node.operator === '-') return -value;
+        if (node.operator === '+') return +value;
+        return typeof value;
+      }
+      case 'Binary':
+        return this.evaluateBinary(node, locals);
+      case 'Conditional':
+        return this.evaluate(node.test, locals) ? this.evaluate(node.consequent, locals) : this.evaluate(node.alternate, locals);
+      case 'Array':
+        return node.elements.map(element => this.evaluate(element, locals));
+      case 'Object': {
+        const out: Record<string, any> = {};
+        node.properties.forEach(prop => {
+          if (BLOCKED_PROPERTIES.has(prop.key)) throw this.error(`Property "${prop.key}" is not allowed`, prop.value);
+          out[prop.key] = this.evaluate(prop.value, locals);
+        });
+        return out;
+      }
+      case 'Lambda':
+        return this.createLambda(node, locals);
+    }
+  }
+
+  private evaluateBinary(node: Extract<Node, { type: 'Binary' }>, locals: Record<string, any> | null): any {
+    const left = this.evaluate(node.left, locals);
+    // Short-circuit operators only evaluate the right side when needed
+    if (node.operator === '&&') return left && this.evaluate(node.right, locals);
+    if (node.operator === '||') return left || this.evaluate(node.right, locals);
+    if (node.operator === '??') return left ?? this.evaluate(node.right, locals);
+
+    const right = this.evaluate(node.right, locals);
+    switch (node.operator) {
+      case '+': {
+        const sum = left + right;
+        if (typeof sum === 'string' && sum.length > EXPRESSION_MAX_STRING_LENGTH) {
+          throw this.error(`String result exceeds ${EXPRESSION_MAX_STRING_LENGTH} characters`, node);
+        }
+        return sum;
+      }
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      case '**': return Math.pow(left, right);
+      // eslint-disable-next-line eqeqeq
+      case '==': return left == right;
+      // eslint-disable-next-line eqeqeq
+      case '!=': return left != right;
+      case '===': return left === right;
+      case '!==': return left !== right;
+      case '<': return left < right;
+      case '>': return left > right;
+      case '<=': return left <= right;
+      case '>=': return left >= right;
+    }
+    throw this.error(`Unsupported operator "${node.operator}"`, node);
+  }
+
+  private evaluateCall(node: Extract<Node, { type: 'Call' }>, locals: Record<string, any> | null): any {
+    let fn: any;
+    let label = 'value';
+    if (node.callee.type === 'Member') {
+      const object = this.evaluate(node.callee.object, locals);
+      if (object === null || object === undefined) {
+        if (node.callee.optional || node.optional) return undefined;
+        throw this.error(`Cannot call a method on ${object}`, node.callee);
+      }
+      const property = this.evaluate(node.callee.property, locals);
+      fn = this.getMember(object, property, node.callee);
+      label = String(property);
+    } else {
+      fn = this.evaluate(node.callee, locals);
+      if (node.callee.type === 'Identifier') label = node.callee.name;
+    }
+
+    if ((fn === null || fn === undefined) && node.optional) return undefined;
+    if (typeof fn !== 'function' || !this.callables.has(fn)) {
+      throw this.error(`"${label}" is not a function that expressions can call`, node);
+    }
+
+    const args = node.args.map(arg => this.evaluate(arg, locals));
+    try {
+      return fn(...args);
+    } catch (error: any) {
+      if (error instanceof ExpressionError) throw error;
+      throw this.error(`${label}() failed: ${error?.message ?? String(error)}`, node);
+    }
+  }
+
+  private getMember(object: any, property: any, node: Node): any {
+    const key = typeof property === 'number' ? property : String(property);
+    if (typeof key === 'string' && BLOCKED_PROPERTIES.has(key)) {
+      throw this.error(`Access to "${key}" is not allowed`, node);
+    }
+
+    if (typeof object === 'string') {
+      if (key === 'length' || typeof key === 'number' || /^\d+$/.test(key)) return object[key as any];
+      return STRING_METHODS.has(key) ? this.bindMethod(object, key) : undefined;
+    }
+    if (Array.isArray(object)) {
+      if (key === 'length' || typeof key === 'number' || /^\d+$/.test(key)) return object[key as any];
+      return ARRAY_METHODS.has(key) ? this.bindMethod(object, key) : undefined;
+    }
+    if (typeof object === 'number' || typeof object === 'boolean') {
+      return NUMBER_METHODS.has(key as string) ? this.bindMethod(object, key as string) : undefined;
+    }
+    if (object instanceof Date) {
+      return DATE_METHODS.has(key as string) ? this.bindMethod(object, key as string) : undefined;
+    }
+    if (isPlainObject(object) || NAMESPACES.has(object)) {
+      if (!Object.prototype.hasOwnProperty.call(object, key)) return undefined;
+      const value = object[key];
+      if (NAMESPACES.has(object)) this.trustCallable(value);
+      return value;
+    }
+    throw this.error(`Reading "${key}" of a ${describe(object)} value is not allowed`, node);
+  }
+
+  private bindMethod(target: any, name: string): Function {
+    const method = (...args: any[]) => {
+      const receiver = COPY_ON_CALL_ARRAY_METHODS.has(name) && Array.isArray(target) ? target.slice() : target;
+      return (receiver as any)[name](...args);
+    };
+    this.callables.add(method);
+    return method;
+  }
+
+  private createLambda(node: Extract<Node, { type: 'Lambda' }>, locals: Record<string, any> | null): Function {
+    const lambda = (...args: any[]) => {
+      const frame: Record<string, any> = { ...(locals ?? {}) };
+      node.params.forEach((param, i) => { frame[param] = args[i]; });
+      return this.evaluate(node.body, frame);
+    };
+    this.callables.add(lambda);
+    return lambda;
+  }
+
+  // Helpers handed to expressions (scope functions, namespace members) become callable
+  private trustCallable(value: any): void {
+    if (typeof value === 'function') this.callables.add(value);
+  }
+
+  private error(reason: string, node: Node): ExpressionError {
+    return new ExpressionError(reason, node.pos, this.source);
+  }
+}
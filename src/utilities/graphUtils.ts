@@ -0,0 +1,197 @@
+import { NodeModel } from '@syncfusion/ej2-diagrams';
+import { WorkflowGraphSource } from '../types';
+import { getNodeConfig, isLoopNode, isTriggerNode } from './nodeUtils';
+
+// Pure graph helpers: they only read nodes/connectors, so they work on a live diagram or a plain WorkflowGraph
+
+/**
+ * Find all trigger nodes in the workflow
+ * @param diagram Diagram or plain workflow graph
+ * @returns Array of trigger nodes
+ */
+export const findTriggerNodes = (diagram: WorkflowGraphSource): NodeModel[] => {
+  return (diagram?.nodes || []).filter(node => {
+    const nodeConfig = getNodeConfig(node);
+    return !!nodeConfig && isTriggerNode(nodeConfig);
+  });
+};
+
+/**
+ * Checks if there is a trigger node in the workflow
+ */
+export const diagramHasChatTrigger = (diagram: WorkflowGraphSource) => {
+  if (!diagram) return false;
+  const triggers = findTriggerNodes(diagram);
+  return triggers.some((node: any) => {
+    const nodeConfig = getNodeConfig(node);
+    return nodeConfig?.nodeType === 'Chat';
+  });
+};
+
+/**
+ * Find nodes connected to the given node via its output ports
+ * @param diagram Diagram or plain workflow graph
+ * @param nodeId Current node ID
+ * @returns Array of connected target nodes
+ */
+export function findConnectedNodes(diagram: any, nodeId: string) {
+  const sourceNode = diagram.getObject(nodeId);
+  if (!sourceNode) return [];
+
+  const nodeCfg = getNodeConfig(sourceNode);
+  const type = (nodeCfg?.nodeType || '').toLowerCase();
+
+  // Pick main-flow ports for this node
+  let allowedSourcePorts: string[];
+  if (type === 'if condition' || type === 'switch case' || type === 'loop') {
+    allowedSourcePorts = ['right-top-port', 'right-bottom-port'];
+  } else {
+    allowedSourcePorts = ['right-port'];
+  }
+
+  const targets = (diagram.connectors || [])
+    .filter((conn: any) => conn.sourceID === nodeId && allowedSourcePorts.includes(conn.sourcePortID))
+    .map((conn: any) => diagram.getObject(conn.targetID));
+
+  return targets;
+}
+
+/**
+ * Get downstream targets connected from a specific port on a node.
+ * Handles:
+ *  - Exact port match
+ *  - Missing sourcePortID (treated as main flow if requestedPort === 'right-port')
+ *
+ * @param diagram EJ2 diagram instance
+ * @param nodeId  Source node ID
+ * @param requestedPort Port ID to match (e.g., 'right-port', 'right-top-port', 'right-bottom-port')
+ */
+export function getTargetsByPort(diagram: any, nodeId: string, requestedPort: string): NodeModel[] {
+  const connectors = (diagram?.connectors ?? []) as any[];
+
+  const targets = connectors
+    .filter(c => {
+      if (c.sourceID !== nodeId) return false;
+
+      // If connector has a sourcePortID, match it
+      if (c.sourcePortID) return c.sourcePortID === requestedPort;
+
+      // If no sourcePortID and requestedPort is main flow, accept it
+      return requestedPort === 'right-port';
+    })
+    .map(c => diagram.getObject(c.targetID))
+    .filter((n: any) => {
+      const nc = (n?.addInfo as any)?.nodeConfig;
+      return nc?.category !== 'tool';
+    });
+
+  return targets;
+}
+
+/**
+ * Get the distinct upstream node IDs feeding into a node (one entry per source node).
+ * Used by fan-in nodes (Merge) to know how many branches must arrive.
+ * @param diagram EJ2 diagram instance
+ * @param nodeId  Target node ID
+ */
+export function getIncomingSourceIds(diagram: any, nodeId: string): string[] {
+  const connectors = (diagram?.connectors ?? []) as any[];
+  const ids: string[] = [];
+  connectors.forEach(c => {
+    if (c.targetID === nodeId && c.sourceID && !ids.includes(c.sourceID)) {
+      ids.push(c.sourceID);
+    }
+  });
+  return ids;
+}
+
+/**
+ * Get the IDs of every node upstream of a node (transitively, excluding the node itself).
+ * @param diagram EJ2 diagram instance
+ * @param nodeId  Node whose ancestors are collected
+ */
+export function getAncestorIds(diagram: any, nodeId: string): string[] {
+  const visited = new Set<string>();
+  const queue = getIncomingSourceIds(diagram, nodeId);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === nodeId || visited.has(id)) continue;
+    visited.add(id);
+    queue.push(...getIncomingSourceIds(diagram, id));
+  }
+  return Array.from(visited);
+}
+
+/**
+ * Get the IDs of every node downstream of a node (transitively, excluding the node itself).
+ * @param diagram EJ2 diagram instance
+ * @param nodeId  Node whose descendants are collected
+ */
+export function getDescendantIds(diagram: any, nodeId: string): string[] {
+  const connectors = (diagram?.connectors ?? []) as any[];
+  const visited = new Set<string>();
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    connectors.forEach(c => {
+      if (c.sourceID === id && c.targetID && c.targetID !== nodeId && !visited.has(c.targetID)) {
+        visited.add(c.targetID);
+        queue.push(c.targetID);
+      }
+    });
+  }
+  return Array.from(visited);
+}
+
+/**
+ * Get every downstream node connected from any output port of a node.
+ * @param diagram EJ2 diagram instance
+ * @param nodeId  Source node ID
+ */
+export function getAllOutgoingTargets(diagram: any, nodeId: string): NodeModel[] {
+  const connectors = (diagram?.connectors ?? []) as any[];
+  return connectors
+    .filter(c => c.sourceID === nodeId)
+    .map(c => diagram.getObject(c.targetID))
+    .filter(Boolean);
+}
+
+/**
+ * Get the IDs of every node in a Loop's body: reachable from its loop port (right-top), excluding the Loop itself.
+ * @param diagram EJ2 diagram instance
+ * @param loopId  Loop node ID
+ */
+export function getLoopBodyIds(diagram: any, loopId: string): string[] {
+  const connectors = (diagram?.connectors ?? []) as any[];
+  const visited = new Set<string>();
+  const queue: string[] = getTargetsByPort(diagram, loopId, 'right-top-port').map(n => n.id as string);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === loopId || visited.has(id)) continue;
+    visited.add(id);
+    connectors.forEach(c => {
+      if (c.sourceID === id && c.targetID) queue.push(c.targetID);
+    });
+  }
+  return Array.from(visited);
+}
+
+/**
+ * Get the IDs of the Loop nodes whose body contains a node, innermost first.
+ * @param diagram EJ2 diagram instance
+ * @param nodeId  Node inside the loop bodies
+ */
+export function getEnclosingLoopIds(diagram: any, nodeId: string): string[] {
+  const bodies: Record<string, Set<string>> = {};
+  ((diagram?.nodes ?? []) as NodeModel[]).forEach(node => {
+    const config = getNodeConfig(node);
+    if (!node.id || node.id === nodeId || !config || !isLoopNode(config)) return;
+    const body = new Set(getLoopBodyIds(diagram, node.id));
+    if (body.has(nodeId)) bodies[node.id] = body;
+  });
+
+  // A loop nested in another loop's body is inside more of the enclosing loops
+  const loopIds = Object.keys(bodies);
+  const depth = (id: string) => loopIds.filter(other => other !== id && bodies[other].has(id)).length;
+  return loopIds.sort((a, b) => depth(b) - depth(a));
+}
@@ -1,20 +1,34 @@
+export * from './codeSandbox';
+export * from './collectionUtils';
 export * from './conditionUtils';
 export * from './connectorUtils';
+export * from './convertUtils';
 export * from './contextMenuUtils';
+export * from './dateUtils';
 export * from './diagramUtils';
 export * from './expression';
+export * from './expressionFunctions';
+export * from './expressionPreview';
+export * from './expressionSandbox';
 export * from './keyboardShortcuts';
+export * from './loopUtils';
+export * from './nodeReferenceUtils';
 export * from './nodeTemplateUtils';
 export * from './nodeUtils';
+export * from './objectPathUtils';
 export * from './editorUtils';
 export * from './fileManagementUtils';
+export * from './graphUtils';
 export * from './paletteFilter';
 export * from './portUtils';
+export * from './retryUtils';
 export * from './soundUtils';
 export * from './stagger';
 export * from './stickyNoteUtils';
+export * from './subWorkflowUtils';
 export * from './thumbnailUtils';
 export * from './userhandleUtils';
 export * from './variablePickerUtils';
 export * from './wordExecutionUtils';
 export * from './workflowExecution';
+export * from './workflowValidator';
@@ -53,6 +53,14 @@ const performShortcutAction = async (e: KeyboardEvent, shortcut: string, ctx: Sh
                 onAction('execute');
             }
             return true;
+        case 'f8':
+            if (!isExecuting) return false;
+            onAction('continue');
+            return true;
+        case 'f10':
+            if (!isExecuting) return false;
+            onAction('stepOver');
+            return true;
         default:
             return false;
     }
@@ -0,0 +1,80 @@
+import { ExecutionContext, LoopFrame, LoopIterationScope } from '../types';
+
+// Helpers shared by the Loop / Break / Continue executors and the engine's loop handler
+
+/**
+ * The Loop iteration a node is running in (null outside a Loop body)
+ */
+export const getLoopIteration = (context?: ExecutionContext): LoopIterationScope | null =>
+  context?.__loopIteration ?? null;
+
+/**
+ * Frame stack of the current iteration for expressions: `$loop` is the innermost loop, `$loops` maps
+ * every enclosing loop by node name and id
+ */
+export const getLoopExpressionScope = (context?: ExecutionContext): { $loop: LoopFrame | null; $loops: Record<string, LoopFrame> } => {
+  const $loops: Record<string, LoopFrame> = {};
+  const $loop = toLoopFrame(getLoopIteration(context));
+  // Walk outwards; an inner loop keeps a name shared with an outer one
+  for (let frame = $loop; frame; frame = frame.parent) {
+    if (!(frame.nodeName in $loops)) $loops[frame.nodeName] = frame;
+    $loops[frame.nodeId] = frame;
+  }
+  return { $loop, $loops };
+};
+
+/**
+ * Expression frame for an iteration scope, linked to the enclosing loop's frame
+ */
+export const toLoopFrame = (scope: LoopIterationScope | null): LoopFrame | null => {
+  if (!scope) return null;
+  return {
+    item: scope.item,
+    index: scope.index,
+    iteration: scope.index + 1,
+    count: scope.count,
+    isFirst: scope.index === 0,
+    isLast: scope.index === scope.count - 1,
+    nodeId: scope.loopNodeId,
+    nodeName: scope.loopNodeName,
+    parent: toLoopFrame(scope.parent),
+  };
+};
+
+/**
+ * Loop variables published as the Loop node's result while an iteration runs
+ * @param items Iteration items (batches when a batch size is set)
+ * @param index 0-based iteration index
+ */
+export const buildLoopFrame = (nodeId: string, items: any[], index: number): Record<string, any> => {
+  const total = items.length;
+  const hasItem = index >= 0 && index < total;
+  return {
+    currentloopitem: hasItem ? items[index] : {},     // object to expose the key even when empty
+    currentLoopIndex: hasItem ? index : null,         // 0-based
+    currentLoopIteration: hasItem ? index + 1 : null, // 1-based
+    currentLoopCount: total,
+    currentLoopNodeId: nodeId,
+    currentLoopIsFirst: hasItem ? index === 0 : null,
+    currentLoopIsLast: hasItem ? index === total - 1 : null,
+  };
+};
+
+/**
+ * Read a positive whole number setting (batch size, concurrency); anything else falls back
+ */
+export const toPositiveInt = (value: any, fallback: number): number => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 1 ? n : fallback;
+};
+
+/**
+ * Split items into consecutive batches of `size` (the last one may be shorter)
+ */
+export const chunkItems = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+};
@@ -0,0 +1,45 @@
+import { NodeConfig } from '../types';
+import { renameNodeReferences, renameNodeReferencesInDiagram } from './nodeReferenceUtils';
+
+describe('renameNodeReferences', () => {
+  it('rewrites $node(), $loops[] and $. path references', () => {
+    expect(renameNodeReferences('{{ $node("Fetch Users").body }}', 'Fetch Users', 'Load Users')).toBe('{{ $node("Load Users").body }}');
+    expect(renameNodeReferences("{{ $loops['Rows'].index }}", 'Rows', 'Each Row')).toBe('{{ $loops["Each Row"].index }}');
+    expect(renameNodeReferences('{{ $.Fetch Users.body.items[0].name }}', 'Fetch Users', 'Load Users')).toBe('{{ $.Load Users.body.items[0].name }}');
+    expect(renameNodeReferences('$.Fetch Users[0]', 'Fetch Users', 'Load Users')).toBe('$.Load Users[0]');
+    expect(renameNodeReferences('{{ $.Fetch Users#http-1.status }}', 'Fetch Users', 'Load Users')).toBe('{{ $.Load Users#http-1.status }}');
+    expect(renameNodeReferences('Total: {{ $.Fetch Users }}', 'Fetch Users', 'Load Users')).toBe('Total: {{ $.Load Users }}');
+  });
+
+  it('leaves other names and unchanged values alone', () => {
+    expect(renameNodeReferences('{{ $.Fetch Users 2.body }}', 'Fetch Users', 'Load Users')).toBe('{{ $.Fetch Users 2.body }}');
+    expect(renameNodeReferences('{{ $.Fetch.body }} and {{ $.Fetcher.body }}', 'Fetch', 'Get')).toBe('{{ $.Get.body }} and {{ $.Fetcher.body }}');
+    const settings = { url: '{{ $.Other.url }}', rows: [{ value: 'x' }] };
+    expect(renameNodeReferences(settings, 'Fetch', 'Get')).toBe(settings);
+  });
+
+  it('keeps "$" in the new name literal', () => {
+    expect(renameNodeReferences('{{ $.Price.total }}', 'Price', 'Price $&')).toBe('{{ $.Price $&.total }}');
+  });
+});
+
+describe('renameNodeReferencesInDiagram', () => {
+  const nodeWith = (id: string, general: Record<string, any>) => ({
+    id,
+    addInfo: { nodeConfig: { id, displayName: id, nodeType: 'Notify', category: 'action', settings: { general } } as unknown as NodeConfig },
+  });
+
+  it('returns updated configs without modifying the diagram', () => {
+    const uses = nodeWith('notify', { message: '{{ $.Fetch.body }}' });
+    const unrelated = nodeWith('other', { message: 'Hello' });
+    const renamed = nodeWith('Fetch', { message: '{{ $.Fetch.body }}' });
+    const diagram = { nodes: [uses, unrelated, renamed] };
+    const before = uses.addInfo;
+
+    const updated = renameNodeReferencesInDiagram(diagram, 'Fetch', 'Get', 'Fetch');
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toMatchObject({ id: 'notify', settings: { general: { message: '{{ $.Get.body }}' } } });
+    expect(uses.addInfo).toBe(before);
+    expect(uses.addInfo.nodeConfig.settings.general.message).toBe('{{ $.Fetch.body }}');
+  });
+});
@@ -0,0 +1,136 @@
+import { ExecutionContext, NodeConfig } from '../types';
+import { getAncestorIds } from './graphUtils';
+import { getNodeConfig } from './nodeUtils';
+
+// Explicit node references in expressions: $node("HTTP Request 1").body reads the output of the upstream
+// node with that display name. Unlike "$." paths nothing is guessed: an unknown, non-upstream, ambiguous
+// or not-yet-run node is an error. Renaming a node rewrites these references and "$.Name." paths
+// (see renameNodeReferences).
+
+// $node("Name") / $node('Name'), with backslash escapes inside the quotes
+const NODE_REFERENCE_PATTERN = /\$node\(\s*(["'])((?:\\.|(?!\1)[^\\])*)\1\s*\)/g;
+
+// $loops["Name"] / $loops['Name'] address enclosing loops by display name as well
+const LOOP_REFERENCE_PATTERN = /\$loops\[\s*(["'])((?:\\.|(?!\1)[^\\])*)\1\s*\]/g;
+
+const unescapeName = (raw: string): string => raw.replace(/\\(.)/g, '$1');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "$.Name" as the start of a path: followed by a segment, an index, "#id", or the end of the expression
+const pathReferencePattern = (name: string): RegExp =>
+  new RegExp(`\\$\\.${escapeRegExp(name)}(?=[.[#]|\\s*\\}\\}|\\s*$)`, 'g');
+
+/**
+ * Expression text referencing a node, e.g. $node("HTTP Request 1").body
+ * @param path Relative output path as produced by the variable picker ("rows[0].name", "Some key")
+ */
+export const formatNodeReference = (nodeName: string, path = ''): string => {
+  const access = path
+    .replace(/^\$\./, '')
+    .split('.')
+    .filter(Boolean)
+    .map(segment => {
+      // Keep trailing indexes ("rows[0]") and quote keys that are not identifiers
+      const match = segment.match(/^(.*?)((?:\[\d+\])*)$/);
+      const key = match?.[1] ?? segment;
+      const indexes = match?.[2] ?? '';
+      if (!key) return indexes;
+      return (/^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`) + indexes;
+    })
+    .join('');
+  return `$node(${JSON.stringify(nodeName)})${access}`;
+};
+
+/**
+ * Display names referenced with $node("...") in a piece of text
+ */
+export const findNodeReferences = (text: string): string[] => {
+  const names: string[] = [];
+  if (typeof text !== 'string') return names;
+  const pattern = new RegExp(NODE_REFERENCE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    names.push(unescapeName(match[2]));
+  }
+  return names;
+};
+
+/**
+ * Rewrite $node("old"), $loops["old"] and "$.old." path references after a node was renamed. Strings, arrays
+ * and plain objects are walked recursively; unchanged values are returned as-is so callers can compare by identity.
+ */
+export const renameNodeReferences = <T = any>(value: T, oldName: string, newName: string): T => {
+  if (typeof value === 'string') {
+    const quoted = JSON.stringify(newName);
+    const next = value
+      .replace(NODE_REFERENCE_PATTERN, (m, _quote: string, name: string) => (unescapeName(name) === oldName ? `$node(${quoted})` : m))
+      .replace(LOOP_REFERENCE_PATTERN, (m, _quote: string, name: string) => (unescapeName(name) === oldName ? `$loops[${quoted}]` : m))
+      .replace(pathReferencePattern(oldName), () => `$.${newName}`);
+    return (next === value ? value : next) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    const next = value.map(item => renameNodeReferences(item, oldName, newName));
+    return (next.some((item, i) => item !== value[i]) ? next : value) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    let changed = false;
+    const next: Record<string, any> = {};
+    Object.keys(value as any).forEach(key => {
+      next[key] = renameNodeReferences((value as any)[key], oldName, newName);
+      if (next[key] !== (value as any)[key]) changed = true;
+    });
+    return (changed ? next : value) as T;
+  }
+  return value;
+};
+
+/**
+ * Run context for one node's execution, so $node() can tell which nodes are upstream
+ */
+export const withCurrentNode = (context: ExecutionContext, nodeId: string): ExecutionContext =>
+  ({ ...context, __nodeId: nodeId });
+
+/**
+ * Output of the node an expression names with $node("Name")
+ * @throws Error when no node has that name, it is not upstream of the running node, the name is
+ * ambiguous, or the node has not produced output yet
+ */
+export const resolveNodeReference = (context: ExecutionContext, name: string): any => {
+  const diagram = context?.diagram;
+  const currentNodeId = context?.__nodeId;
+  const label = String(name);
+
+  const named: any[] = (diagram?.nodes ?? []).filter((n: any) => getNodeConfig(n)?.displayName === label);
+  if (named.length === 0) throw new Error(`No node named "${label}"`);
+
+  // Outside a node run (e.g. previews) any node with the name may be read
+  const ancestors = currentNodeId ? new Set(getAncestorIds(diagram, currentNodeId)) : null;
+  const upstream = ancestors ? named.filter(n => ancestors.has(n.id)) : named;
+  if (upstream.length === 0) throw new Error(`Node "${label}" does not run before this node`);
+  if (upstream.length > 1) throw new Error(`${upstream.length} upstream nodes are named "${label}"; rename one of them`);
+
+  const results = context?.results ?? {};
+  if (!Object.prototype.hasOwnProperty.call(results, upstream[0].id)) {
+    throw new Error(`Node "${label}" has not produced output in this run`);
+  }
+  return results[upstream[0].id];
+};
+
+/**
+ * Apply renameNodeReferences to the settings of every node in the diagram after a rename. The diagram is not
+ * modified: callers apply the returned configs through their usual config change path.
+ * @param skipNodeId Node whose settings the caller updates itself (the renamed node's open draft)
+ * @returns Updated configs of the nodes whose settings changed
+ */
+export const renameNodeReferencesInDiagram = (diagram: any, oldName: string, newName: string, skipNodeId?: string): NodeConfig[] => {
+  if (!diagram || !oldName || oldName === newName) return [];
+  const updated: NodeConfig[] = [];
+  (diagram.nodes ?? []).forEach((node: any) => {
+    const config = getNodeConfig(node);
+    if (!config || node.id === skipNodeId) return;
+    const settings = renameNodeReferences(config.settings, oldName, newName);
+    if (settings !== config.settings) updated.push({ ...config, settings });
+  });
+  return updated;
+};
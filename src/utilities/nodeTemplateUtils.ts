@@ -57,6 +57,12 @@ export function buildNodeHtml(node: NodeModel): string {
     ].join('')
     : '';
 
+  const pinnedBadge = nodeConfig.pinnedData ? '<div class="node-pinned-badge" title="Pinned data: this node returns its pinned output instead of executing"><span class="e-icons e-pin"></span></div>' : '';
+
+  const breakpointBadge = nodeConfig.breakpoint ? '<div class="node-breakpoint-badge" title="Breakpoint: the run pauses before this node"></div>' : '';
+
+  const errorPort = portConfig.errorPort ? '<div class="node-port-right-error"><span class="conditon-node-port-label">error</span></div>' : '';
+
   const isRightPortOnly = portConfig.rightPort && !portConfig.leftPort;
   const mainClass = `node-template ${isRightPortOnly ? 'trigger-node' : ''}`;
 
@@ -68,10 +74,13 @@ export function buildNodeHtml(node: NodeModel): string {
     <div class=\"${mainClass}\" data-node-id=\"${node.id}\">
       <div class=\"node-hover-toolbar\">
         <button id=\"btn-exec-${node.id}\" title=\"Execute this node\" class=\"node-toolbar-btn e-control e-btn e-lib\"><span class=\"e-btn-icon e-icons e-play\"></span></button>
+        <button id="btn-upto-${node.id}" title="Run up to here" class="node-toolbar-btn e-control e-btn e-lib"><span class="e-btn-icon e-icons e-last-page"></span></button>
+        <button id="btn-from-${node.id}" title="Run from here" class="node-toolbar-btn e-control e-btn e-lib"><span class="e-btn-icon e-icons e-chevron-right-double"></span></button>
         <button id=\"btn-edit-${node.id}\" title=\"Edit\" class=\"node-toolbar-btn e-control e-btn e-lib\"><span class=\"e-btn-icon e-icons e-edit\"></span></button>
+        <button id="btn-bp-${node.id}" title="${nodeConfig.breakpoint ? 'Remove breakpoint' : 'Add breakpoint'}" class="node-toolbar-btn e-control e-btn e-lib"><span class="e-btn-icon e-icons e-circle"></span></button>
         <button id=\"btn-del-${node.id}\" title=\"Delete\" class=\"node-toolbar-btn e-control e-btn e-lib\"><span class=\"e-btn-icon e-icons e-trash\"></span></button>
       </div>
-      ${leftPort}${rightPort}${switchRightPorts}${ifRightPorts}
+      ${leftPort}${rightPort}${switchRightPorts}${ifRightPorts}${errorPort}${pinnedBadge}${breakpointBadge}
       <div class=\"node-img-content\">
         ${iconHtml}
       </div>
@@ -85,8 +94,11 @@ export function attachNodeTemplateEvents(node: NodeModel, onNodeToolbarAction?:
   if (!node || !node.id) return;
   setTimeout(() => {
     const execBtn = document.getElementById(`btn-exec-${node.id}`);
+    const upToBtn = document.getElementById(`btn-upto-${node.id}`);
+    const fromBtn = document.getElementById(`btn-from-${node.id}`);
     const editBtn = document.getElementById(`btn-edit-${node.id}`);
     const delBtn = document.getElementById(`btn-del-${node.id}`);
+    const bpBtn = document.getElementById(`btn-bp-${node.id}`);
 
     const callHandler = (action: NodeToolbarAction) => {
       const handler = onNodeToolbarAction || GLOBAL_NODE_TOOLBAR_HANDLER;
@@ -94,8 +106,11 @@ export function attachNodeTemplateEvents(node: NodeModel, onNodeToolbarAction?:
     };
 
     if (execBtn) execBtn.onclick = (e) => { e.stopPropagation(); callHandler('execute-step'); };
+    if (upToBtn) upToBtn.onclick = (e) => { e.stopPropagation(); callHandler('run-up-to'); };
+    if (fromBtn) fromBtn.onclick = (e) => { e.stopPropagation(); callHandler('run-from'); };
     if (editBtn) editBtn.onclick = (e) => { e.stopPropagation(); callHandler('edit'); };
     if (delBtn) delBtn.onclick = (e) => { e.stopPropagation(); callHandler('delete'); };
+    if (bpBtn) bpBtn.onclick = (e) => { e.stopPropagation(); callHandler('toggle-breakpoint'); };
   }, 0);
 }
 
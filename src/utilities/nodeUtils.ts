@@ -201,6 +201,10 @@ export const isSwitchNode = (nodeConfig: NodeConfig): boolean =>
 export const isLoopNode = (nodeConfig: NodeConfig): boolean =>
   nodeConfig?.nodeType === 'Loop';
 
+// Check if node is a merge (fan-in) node
+export const isMergeNode = (nodeConfig: NodeConfig): boolean =>
+  nodeConfig?.nodeType === 'Merge';
+
 // Apply appropriate template based on node type
 export const updateNodeTemplates = (node: NodeModel, diagramRef: React.RefObject<any>) => {
   const nodeConfig = (node.addInfo as any)?.nodeConfig as NodeConfig;
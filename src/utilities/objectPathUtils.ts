@@ -0,0 +1,50 @@
+// Reading and writing nested values by field path ("customer.address.city", "items[0].sku") for the data
+// shaping nodes. Only own properties are followed, and prototype keys are rejected when writing.
+
+const UNSAFE_KEYS = ['__proto__', 'prototype', 'constructor'];
+
+/**
+ * Split a field path into keys: "a.b[0].c" -> ["a", "b", "0", "c"]
+ */
+export const parseFieldPath = (path: string): string[] =>
+  String(path ?? '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .map(key => key.trim())
+    .filter(Boolean);
+
+/**
+ * Value at a field path (undefined when any step is missing)
+ * @param dotNotation When false the whole path is one key ("a.b" reads the property named "a.b")
+ */
+export const getValueAtPath = (target: any, path: string, dotNotation = true): any => {
+  const keys = dotNotation ? parseFieldPath(path) : [String(path ?? '')];
+  return keys.reduce(
+    (current, key) => (current !== null && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined),
+    target
+  );
+};
+
+/**
+ * Write a value at a field path, creating objects (or arrays for numeric keys) along the way
+ * @param dotNotation When false the whole path is one key
+ * @throws Error for prototype keys (__proto__, constructor, prototype) or when a step is not an object
+ */
+export const setValueAtPath = (target: Record<string, any>, path: string, value: any, dotNotation = true): void => {
+  const keys = dotNotation ? parseFieldPath(path) : [String(path ?? '').trim()];
+  if (keys.length === 0 || !keys[0]) throw new Error('Field name is empty');
+  const unsafe = keys.find(key => UNSAFE_KEYS.includes(key));
+  if (unsafe) throw new Error(`"${unsafe}" cannot be used as a field name`);
+
+  let current: any = target;
+  keys.slice(0, -1).forEach((key, i) => {
+    const existing = Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined;
+    if (existing === undefined || existing === null) {
+      current[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    } else if (typeof existing !== 'object') {
+      throw new Error(`"${keys.slice(0, i + 1).join('.')}" is not an object`);
+    }
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+};
@@ -37,10 +37,11 @@ export function getFilteredCategories(
             : node.name.toLowerCase().includes(term) ||
               (node.description || '').toLowerCase().includes(term);
 
-        // In connector-insert mode, hide "Do Nothing" (Stop) node
-        const isStopNode =
-          (node as any).nodeType === 'Stop' || node.name.toLowerCase() === 'do nothing';
-        const allowedByMode = context.mode === 'connector-insert' ? !isStopNode : true;
+        // In connector-insert mode, hide end nodes without an output port ("Do Nothing", Break, Continue)
+        const nodeType = (node as any).nodeType;
+        const isEndNode =
+          nodeType === 'Stop' || nodeType === 'Break' || nodeType === 'Continue' || node.name.toLowerCase() === 'do nothing';
+        const allowedByMode = context.mode === 'connector-insert' ? !isEndNode : true;
 
         return matchesSearch && allowedByMode;
       }),
@@ -1,9 +1,10 @@
 import { NodeModel, Point, PointPortModel, PortConstraints, PortModel, PortVisibility, Diagram, ConnectorModel } from "@syncfusion/ej2-react-diagrams";
-import { NodeCategories, NodeConfig, NodePortDirection, NodeType, PortConfiguration, PortSide } from "../types";
+import { NodeCategories, NodeConfig, NodeErrorMode, NodePortDirection, NodeType, PortConfiguration, PortSide } from "../types";
 import { PORT_POSITIONS } from "../constants";
 import { NODE_REGISTRY } from "../constants/nodeRegistry";
 import { refreshNodeTemplate } from "./nodeTemplateUtils";
 import { refreshSelectedNodesUserHandles } from "./userhandleUtils";
+import { isSwitchNode } from "./nodeUtils";
 
 // Helper to find first IN/OUT port id on a node
 export const findFirstPortId = (node: NodeModel, wantOut: boolean): string => {
@@ -41,6 +42,7 @@ function buildPortsFromConfig(config: PortConfiguration): PortModel[] {
   if (config.rightPort) ports.push(createPort("right-port", PORT_POSITIONS.RIGHT, "Circle", 20, PortConstraints.OutConnect | PortConstraints.Draw));
   if (config.rightTopPort) ports.push(createPort("right-top-port", PORT_POSITIONS.RIGHT_TOP, "Circle", 20, PortConstraints.OutConnect | PortConstraints.Draw));
   if (config.rightBottomPort) ports.push(createPort("right-bottom-port", PORT_POSITIONS.RIGHT_BOTTOM, "Circle", 20, PortConstraints.OutConnect | PortConstraints.Draw));
+  if (config.errorPort) ports.push(createPort("error-port", PORT_POSITIONS.RIGHT_ERROR, "Circle", 20, PortConstraints.OutConnect | PortConstraints.Draw));
   if (config.leftPort) ports.push(createPort("left-port", PORT_POSITIONS.LEFT, "Circle", 20, PortConstraints.InConnect));
   return ports;
 }
@@ -53,12 +55,30 @@ const DEFAULT_PORT_CONFIG_BY_CATEGORY: Record<NodeCategories, PortConfiguration>
   'sticky': { leftPort: true, rightPort: true },
 };
 
-function resolvePortConfiguration(nodeConfig: NodeConfig): PortConfiguration {
+function resolveBasePortConfiguration(nodeConfig: NodeConfig): PortConfiguration {
   const entry = NODE_REGISTRY[nodeConfig.nodeType as NodeType];
   if (entry?.portConfig) return entry.portConfig;
   return DEFAULT_PORT_CONFIG_BY_CATEGORY[nodeConfig.category];
 }
 
+function resolvePortConfiguration(nodeConfig: NodeConfig): PortConfiguration {
+  const base = resolveBasePortConfiguration(nodeConfig);
+  return getNodeErrorMode(nodeConfig) === 'errorOutput' ? { ...base, errorPort: true } : base;
+}
+
+// Error handling needs a single main output to continue on (not triggers or branching nodes)
+export const supportsErrorHandling = (nodeConfig: NodeConfig): boolean => {
+  if (!nodeConfig || nodeConfig.category === 'trigger' || isSwitchNode(nodeConfig)) return false;
+  return !!resolveBasePortConfiguration(nodeConfig)?.rightPort;
+};
+
+// Effective error mode for a node; unsupported nodes always stop
+export const getNodeErrorMode = (nodeConfig: NodeConfig): NodeErrorMode => {
+  if (!supportsErrorHandling(nodeConfig)) return 'stop';
+  const mode = (nodeConfig.settings?.advanced as any)?.onError;
+  return mode === 'continue' || mode === 'errorOutput' ? mode : 'stop';
+};
+
 // New API: always prefer registry; fall back to category defaults only if needed
 export function getPortsForNode(input: NodeConfig | NodeType | NodeCategories): PortModel[] {
   if (typeof input === 'object' && (input as NodeConfig).nodeType) {
@@ -237,6 +257,35 @@ function reconcilePorts(diagram: Diagram, node: NodeModel, desiredPorts: PortMod
   }
 }
 
+/**
+ * Add or remove the error output port after a node's error mode changed.
+ * Connectors leaving a removed error port are deleted with it.
+ */
+export function syncErrorPort(diagram: Diagram | null, nodeId: string) {
+  if (!diagram) return;
+
+  const node = diagram.getObject(nodeId) as NodeModel | null;
+  const nodeConfig = (node?.addInfo as any)?.nodeConfig as NodeConfig | undefined;
+  if (!node || !nodeConfig) return;
+
+  const wantsErrorPort = getNodeErrorMode(nodeConfig) === 'errorOutput';
+  const existingPorts = Array.isArray(node.ports) ? node.ports : [];
+  const hasErrorPort = existingPorts.some(port => port.id === 'error-port');
+  if (wantsErrorPort === hasErrorPort) return;
+
+  const desiredPorts = existingPorts.filter(port => port.id !== 'error-port');
+  if (wantsErrorPort) {
+    desiredPorts.push(createPort("error-port", PORT_POSITIONS.RIGHT_ERROR, "Circle", 20, PortConstraints.OutConnect | PortConstraints.Draw));
+  } else {
+    const orphaned = (diagram.connectors ?? []).filter(c => c.sourceID === nodeId && c.sourcePortID === 'error-port');
+    orphaned.forEach(c => diagram.remove(c as any));
+  }
+
+  reconcilePorts(diagram, node, desiredPorts);
+  prepareUserHandlePortData(node);
+  refreshSelectedNodesUserHandles(diagram as any);
+}
+
 export function updateSwitchPorts(
   diagram: Diagram | null,
   nodeId: string,
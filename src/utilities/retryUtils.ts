@@ -0,0 +1,76 @@
+import { NodeConfig, NodeExecutionResult, RetryCondition, RetryPolicy, WorkflowExecutionOptions } from '../types';
+import { DEFAULT_RETRY_ON, NO_RETRY_NODE_TYPES, RETRY_BY_DEFAULT_NODE_TYPES } from '../constants';
+
+/**
+ * Whether a node may be retried at all
+ */
+export const supportsRetry = (nodeConfig: NodeConfig): boolean =>
+  !NO_RETRY_NODE_TYPES.includes(nodeConfig?.nodeType);
+
+/**
+ * Whether a node retries when its settings leave retries unset (only nodes that are safe to repeat)
+ */
+export const isRetryEnabledByDefault = (nodeConfig: NodeConfig): boolean =>
+  RETRY_BY_DEFAULT_NODE_TYPES.includes(nodeConfig?.nodeType);
+
+/**
+ * Merge workflow-level retry options with the node's override in settings.advanced.retry
+ * @param nodeConfig Node being executed
+ * @param options Workflow execution options (global defaults)
+ * @returns Fully resolved retry policy
+ */
+export const resolveRetryPolicy = (
+  nodeConfig: NodeConfig,
+  options: WorkflowExecutionOptions
+): Required<RetryPolicy> => {
+  const override: RetryPolicy = (nodeConfig?.settings?.advanced as any)?.retry ?? {};
+  const pickNumber = (value: any, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+  return {
+    enabled: supportsRetry(nodeConfig) && (override.enabled ?? isRetryEnabledByDefault(nodeConfig)),
+    maxRetries: Math.floor(pickNumber(override.maxRetries, options.retryCount ?? 0)),
+    delayMs: pickNumber(override.delayMs, options.retryDelay ?? 1000),
+    backoffFactor: Math.max(1, pickNumber(override.backoffFactor, options.retryBackoffFactor ?? 2)),
+    maxDelayMs: pickNumber(override.maxDelayMs, options.retryMaxDelay ?? 30000),
+    jitter: override.jitter ?? options.retryJitter ?? true,
+    retryOn: Array.isArray(override.retryOn) && override.retryOn.length > 0
+      ? override.retryOn
+      : (options.retryOn ?? DEFAULT_RETRY_ON),
+  };
+};
+
+/**
+ * Classify a failed node result into the retry conditions it matches
+ */
+export const getFailureKinds = (result: NodeExecutionResult): RetryCondition[] => {
+  const kinds: RetryCondition[] = ['any'];
+  const message = String(result?.error ?? '');
+  const status = Number(result?.data?.status ?? (/^HTTP (\d{3})/.exec(message)?.[1] ?? NaN));
+
+  if (/timeout|timed out/i.test(message)) kinds.push('timeout');
+  if (/failed to fetch|networkerror|network error|load failed/i.test(message)) kinds.push('network');
+  if (status >= 500 && status <= 599) kinds.push('http5xx');
+  if (status === 429) kinds.push('http429');
+  return kinds;
+};
+
+/**
+ * Check whether a failed result should be retried under the given policy
+ */
+export const isRetryableFailure = (result: NodeExecutionResult, policy: Required<RetryPolicy>): boolean => {
+  if (result.success) return false;
+  const kinds = getFailureKinds(result);
+  return policy.retryOn.some(condition => kinds.includes(condition));
+};
+
+/**
+ * Delay before the given retry (1-based) using exponential backoff, capped, with optional jitter
+ */
+export const computeRetryDelay = (policy: Required<RetryPolicy>, retryNumber: number): number => {
+  const exponential = policy.delayMs * Math.pow(policy.backoffFactor, Math.max(0, retryNumber - 1));
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  // "Equal jitter": keep at least half of the delay, randomize the rest
+  const delay = policy.jitter ? capped / 2 + Math.random() * (capped / 2) : capped;
+  return Math.round(delay);
+};
@@ -0,0 +1,94 @@
+import { ExecutionContext, NodeConfig, SubWorkflowCall, WorkflowFieldType, WorkflowInputField, WorkflowInterface } from '../types';
+
+// Helpers shared by the Execute Workflow node, the Workflow Input/Output nodes and their config panels
+
+/**
+ * Read the inputs and outputs a saved workflow declares (Workflow Input trigger / Workflow Output nodes)
+ * @param diagramString Serialized diagram of the project (WorkflowData.diagramString)
+ */
+export const getWorkflowInterface = (diagramString?: string): WorkflowInterface => {
+  const result: WorkflowInterface = { hasInputTrigger: false, inputFields: [], outputFields: [] };
+  if (!diagramString) return result;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(diagramString);
+  } catch {
+    return result;
+  }
+
+  (Array.isArray(parsed?.nodes) ? parsed.nodes : []).forEach((node: any) => {
+    const config = node?.addInfo?.nodeConfig as NodeConfig | undefined;
+    const gen = (config?.settings?.general ?? {}) as any;
+    if (config?.nodeType === 'Workflow Input') {
+      result.hasInputTrigger = true;
+      getDeclaredInputFields(gen).forEach(field => {
+        if (!result.inputFields.some(f => f.name === field.name)) result.inputFields.push(field);
+      });
+    } else if (config?.nodeType === 'Workflow Output') {
+      (Array.isArray(gen.outputFields) ? gen.outputFields : []).forEach((row: any) => {
+        const name = String(row?.name ?? '').trim();
+        if (name && !result.outputFields.includes(name)) result.outputFields.push(name);
+      });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Input fields declared on a Workflow Input trigger (rows without a name are ignored)
+ */
+export const getDeclaredInputFields = (general: any): WorkflowInputField[] =>
+  (Array.isArray(general?.inputFields) ? general.inputFields : [])
+    .map((field: any) => ({
+      name: String(field?.name ?? '').trim(),
+      type: (field?.type ?? 'any') as WorkflowFieldType,
+      defaultValue: field?.defaultValue,
+    }))
+    .filter((field: WorkflowInputField) => field.name !== '');
+
+/**
+ * Convert an input value to the type declared by the sub-workflow
+ * @returns The converted value, or an error when the value does not fit the type
+ */
+export const coerceWorkflowFieldValue = (value: any, type: WorkflowFieldType): { value?: any; error?: string } => {
+  if (value === undefined || value === null || type === 'any') return { value };
+
+  switch (type) {
+    case 'string':
+      return { value: typeof value === 'object' ? JSON.stringify(value) : String(value) };
+    case 'number': {
+      const num = typeof value === 'number' ? value : Number(String(value).trim());
+      return String(value).trim() !== '' && !Number.isNaN(num) ? { value: num } : { error: 'expects a number' };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const text = String(value).trim().toLowerCase();
+      if (text === 'true' || text === '1') return { value: true };
+      if (text === 'false' || text === '0') return { value: false };
+      return { error: 'expects a boolean' };
+    }
+    case 'object':
+    case 'array': {
+      let parsed = value;
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return { error: `expects ${type === 'array' ? 'an array' : 'an object'} (JSON)` };
+        }
+      }
+      const ok = type === 'array' ? Array.isArray(parsed) : parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed);
+      return ok ? { value: parsed } : { error: `expects ${type === 'array' ? 'an array' : 'an object'}` };
+    }
+    default:
+      return { value };
+  }
+};
+
+/**
+ * Sub-workflow call that started the current run, if any (set by the engine on the context)
+ */
+export const getSubWorkflowCall = (context: ExecutionContext): SubWorkflowCall | undefined =>
+  context?.subWorkflow;
@@ -1,6 +1,7 @@
 import { Diagram } from '@syncfusion/ej2-react-diagrams';
 import { ExecutionContext, Variable, VariableGroup } from '../types';
 import { getNodeConfig } from '../utilities';
+import { getEnclosingLoopIds } from './graphUtils';
 
 // ------ VARIBALE PICKER DATA UTILS ------
 
@@ -114,9 +115,41 @@ export const getAvailableVariablesForNode = (
     .map((pid) => getNodeOutputAsVariableGroup(pid, diagram, context))
     .filter(Boolean) as VariableGroup[];
 
-  return groups;
+  return [...getLoopFrameVariableGroups(nodeId, diagram, context), ...groups];
 };
 
+/** Loop frames available inside loop bodies: $loop (innermost), then $loop.parent, $loop.parent.parent, ... */
+export function getLoopFrameVariableGroups(
+  nodeId: string,
+  diagram: Diagram,
+  context: ExecutionContext
+): VariableGroup[] {
+  return getEnclosingLoopIds(diagram, nodeId).map((loopId, depth) => {
+    const { nodeName } = getNodeIdentity(diagram, loopId);
+    const prefix = ['$loop', ...Array(depth).fill('parent')].join('.');
+    // Sample values from the loop's last published frame; before a run, only the keys are shown
+    const out = pickNodeOutputFromContext(context, loopId) ?? {};
+    const count = typeof out.currentLoopCount === 'number' ? out.currentLoopCount : 0;
+    const sample = {
+      item: out.currentloopitem ?? {},
+      index: 0,
+      iteration: 1,
+      count,
+      isFirst: true,
+      isLast: count <= 1,
+      nodeId: loopId,
+      nodeName,
+    };
+    return {
+      nodeId: `${prefix}:${loopId}`,
+      nodeType: prefix,
+      nodeName,
+      variables: flattenJsonToVariables(sample),
+      pathPrefix: prefix,
+    };
+  });
+}
+
 // ------ JSON VISUALIZER UTILS ------
 
 /** Convert bracket indices to dots, split, and coerce numeric segments */
@@ -386,6 +419,25 @@ export function insertAtCaret(
   return { nextValue, nextCaret: -1 };
 }
 
+// Identifier being typed inside an unclosed {{ ... }} token before the caret, for helper completions.
+// Returns null outside tokens, inside string literals and after a "." (member access / $.paths).
+export function getExpressionCompletionContext(
+  value: string,
+  caret: number
+): { prefix: string; start: number } | null {
+  const before = value.slice(0, caret);
+  const open = before.lastIndexOf('{{');
+  if (open < 0 || before.indexOf('}}', open) >= 0) return null;
+
+  const inner = before.slice(open + 2);
+  const quotes = (ch: string) => inner.split(ch).length - 1;
+  if (quotes("'") % 2 === 1 || quotes('"') % 2 === 1) return null;
+
+  const match = inner.match(/(^|[^\w$.])([A-Za-z_$][\w$]*)$/);
+  if (!match) return null;
+  return { prefix: match[2], start: caret - match[2].length };
+}
+
 // Find the native EJ2 input/textarea inside the TextBox wrapper
 export function findNativeInput(container: HTMLElement | null) {
   if (!container) return null;
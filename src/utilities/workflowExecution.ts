@@ -1,93 +1,7 @@
 import { DiagramComponent } from '@syncfusion/ej2-react-diagrams';
 import { NodeModel } from '@syncfusion/ej2-diagrams';
-import { ExecutionContext, NodeConfig, NodeExecutionResult, NodeStatus } from '../types';
+import { ExecutionContext, ExecutionRecord, NodeConfig, NodeExecutionResult, NodeStatus } from '../types';
 import { IconRegistry } from '../assets/icons';
-import { getNodeConfig, isTriggerNode } from '../utilities';
-
-/**
- * Find all trigger nodes in the workflow
- * @param diagram DiagramComponent instance
- * @returns Array of trigger nodes
- */
-export const findTriggerNodes = (diagram: DiagramComponent): NodeModel[] => {
-  return (diagram?.nodes || []).filter(node => {
-    const nodeConfig = getNodeConfig(node);
-    if (nodeConfig)
-      return isTriggerNode(nodeConfig);
-  });
-};
-
-/**
- * Checks if there is a trigger node in the workflow
- */
-export const diagramHasChatTrigger = (diagram: DiagramComponent) => {
-  if (!diagram) return false;
-  const triggers = findTriggerNodes(diagram);
-  return triggers.some((node: any) => {
-    const nodeConfig = getNodeConfig(node);
-    return nodeConfig?.nodeType === 'Chat';
-  });
-};
-
-/**
- * Find nodes connected to the given node via its output ports
- * @param diagram DiagramComponent instance
- * @param nodeId Current node ID
- * @returns Array of connected target nodes
- */
-export function findConnectedNodes(diagram: any, nodeId: string) {
-  const sourceNode = diagram.getObject(nodeId);
-  if (!sourceNode) return [];
-
-  const nodeCfg = getNodeConfig(sourceNode);
-  const type = (nodeCfg?.nodeType || '').toLowerCase();
-
-  // Pick main-flow ports for this node
-  let allowedSourcePorts: string[];
-  if (type === 'if condition' || type === 'switch case' || type === 'loop') {
-    allowedSourcePorts = ['right-top-port', 'right-bottom-port'];
-  } else {
-    allowedSourcePorts = ['right-port'];
-  }
-
-  const targets = (diagram.connectors || [])
-    .filter((conn: any) => conn.sourceID === nodeId && allowedSourcePorts.includes(conn.sourcePortID))
-    .map((conn: any) => diagram.getObject(conn.targetID));
-
-  return targets;
-}
-
-/**
- * Get downstream targets connected from a specific port on a node.
- * Handles:
- *  - Exact port match
- *  - Missing sourcePortID (treated as main flow if requestedPort === 'right-port')
- *
- * @param diagram EJ2 diagram instance
- * @param nodeId  Source node ID
- * @param requestedPort Port ID to match (e.g., 'right-port', 'right-top-port', 'right-bottom-port')
- */
-export function getTargetsByPort(diagram: any, nodeId: string, requestedPort: string): NodeModel[] {
-  const connectors = (diagram?.connectors ?? []) as any[];
-
-  const targets = connectors
-    .filter(c => {
-      if (c.sourceID !== nodeId) return false;
-
-      // If connector has a sourcePortID, match it
-      if (c.sourcePortID) return c.sourcePortID === requestedPort;
-
-      // If no sourcePortID and requestedPort is main flow, accept it
-      return requestedPort === 'right-port';
-    })
-    .map(c => diagram.getObject(c.targetID))
-    .filter((n: any) => {
-      const nc = (n?.addInfo as any)?.nodeConfig;
-      return nc?.category !== 'tool';
-    });
-
-  return targets;
-}
 
 /**
  * Update the visual state of a node during/after execution
@@ -191,6 +105,16 @@ export const updateNodeStatus = (
   diagram?.dataBind();
 };
 
+/**
+ * Mark a node as paused at a breakpoint (debugger)
+ * @param nodeId Node to update
+ * @param paused Whether the run is currently paused before this node
+ */
+export const setNodePausedState = (nodeId: string, paused: boolean) => {
+  const nodeContainer = document.querySelector(`.node-template-container:has([data-node-id="${nodeId}"])`);
+  nodeContainer?.classList.toggle('paused', paused);
+};
+
 /**
  * Reset execution state of all nodes and connectors
  * @param diagram DiagramComponent instance
@@ -213,3 +137,34 @@ export const resetExecutionStates = (diagram: DiagramComponent) => {
     }
   });
 };
+
+/**
+ * Paint a recorded run onto the canvas (read-only replay of a past execution).
+ * Only the DOM state is changed; node configs keep their live status.
+ * @param diagram DiagramComponent instance
+ * @param record  Stored execution record
+ */
+export const paintExecutionRecord = (diagram: DiagramComponent, record: ExecutionRecord) => {
+  resetExecutionStates(diagram);
+
+  Object.values(record.nodes).forEach(entry => {
+    const nodeContainer = document.querySelector(`.node-template-container:has([data-node-id="${entry.nodeId}"])`);
+    if (!nodeContainer) return;
+    nodeContainer.classList.remove('running', 'success', 'error');
+    if (entry.status === 'success' || entry.status === 'error') {
+      nodeContainer.classList.add(entry.status);
+    }
+  });
+
+  // A connector was taken when both of its ends ran in this execution
+  (diagram?.connectors ?? []).forEach(conn => {
+    const source = record.nodes[conn.sourceID as string];
+    const target = record.nodes[conn.targetID as string];
+    if (!source || !target) return;
+    const status = source.status === 'error' ? 'error' : 'success';
+    document.getElementById(`${conn.id}_path`)?.classList.add(`workflow-connector-${status}`);
+    document.getElementById(`${conn.id}_tarDec`)?.classList.add(`workflow-connector-targetDec-${status}`);
+  });
+
+  diagram?.dataBind();
+};
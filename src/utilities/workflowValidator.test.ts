@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { WorkflowGraph } from '../execution/WorkflowGraph';
+import { NodeConfig } from '../types';
+import { validateWorkflow } from './workflowValidator';
+
+const TEMPLATES_DIR = path.join(__dirname, '../data/Templates');
+const templateFiles = fs.readdirSync(TEMPLATES_DIR).filter(file => file.endsWith('.json'));
+
+const loadTemplate = (file: string): WorkflowGraph => {
+  const raw = JSON.parse(fs.readFileSync(path.join(TEMPLATES_DIR, file), 'utf8'));
+  return WorkflowGraph.fromDiagramString(raw.workflowData.diagramString);
+};
+
+const node = (id: string, nodeType: string, displayName: string, general: Record<string, any> = {}) => ({
+  id,
+  config: { id, nodeType, displayName, category: nodeType === 'Manual Click' ? 'trigger' : 'action', settings: { general } } as unknown as NodeConfig,
+});
+
+describe('validateWorkflow', () => {
+  it('finds bundled templates', () => {
+    expect(templateFiles.length).toBeGreaterThan(0);
+  });
+
+  it.each(templateFiles)('reports no errors for the bundled template %s', file => {
+    const errors = validateWorkflow(loadTemplate(file)).filter(issue => issue.severity === 'error');
+    expect(errors).toEqual([]);
+  });
+
+  it('accepts a type reference whose named node runs later when a node of that type runs before', () => {
+    const graph = WorkflowGraph.fromModel({
+      nodes: [
+        node('trigger', 'Manual Click', 'Start'),
+        node('sheet', 'Excel', 'Cardiologists', { operation: 'read' }),
+        node('notify', 'Notify', 'Notify', { title: 'Rows', message: '{{ $.Excel.rows }}' }),
+        node('excel', 'Excel', 'Excel', { operation: 'read' }),
+      ],
+      edges: [
+        { source: 'trigger', target: 'sheet' },
+        { source: 'sheet', target: 'notify' },
+        { source: 'notify', target: 'excel' },
+      ],
+    });
+    const issues = validateWorkflow(graph).filter(issue => issue.rule === 'invalid-reference');
+    expect(issues).toEqual([]);
+  });
+
+  it('rejects a reference to a node that only runs later', () => {
+    const graph = WorkflowGraph.fromModel({
+      nodes: [
+        node('trigger', 'Manual Click', 'Start'),
+        node('notify', 'Notify', 'Notify', { title: 'Rows', message: '{{ $.Customers.rows }}' }),
+        node('excel', 'Excel', 'Customers', { operation: 'read' }),
+      ],
+      edges: [
+        { source: 'trigger', target: 'notify' },
+        { source: 'notify', target: 'excel' },
+      ],
+    });
+    const issues = validateWorkflow(graph).filter(issue => issue.rule === 'invalid-reference');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'error', nodeId: 'notify' });
+  });
+});
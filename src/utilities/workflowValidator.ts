@@ -0,0 +1,434 @@
+import { NodeModel } from '@syncfusion/ej2-diagrams';
+import { ConditionComparator, NodeConfig, NodeType, ValidationIssue, ValidationRule, ValidationSeverity, WorkflowGraphSource } from '../types';
+import { UNARY_COMPARATORS } from '../constants';
+import { NODE_REGISTRY } from '../constants/nodeRegistry';
+import { getNodeConfig, isLoopNode, isIfConditionNode, isStickyNote } from './nodeUtils';
+import { findTriggerNodes, getAncestorIds, getEnclosingLoopIds } from './graphUtils';
+import { compileExpression } from './expressionSandbox';
+import { compileTemplate, isPlainPathExpression, parseTemplateTag } from './expression';
+import { findNodeReferences } from './nodeReferenceUtils';
+
+// Static checks run on the graph before execution; nothing here executes nodes or touches the DOM
+
+type IssueDraft = Omit<ValidationIssue, 'id'>;
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Validate a workflow graph and report every problem found
+ * @param graph Live diagram or plain workflow graph
+ * @returns Issues sorted with errors first
+ */
+export function validateWorkflow(graph: WorkflowGraphSource): ValidationIssue[] {
+  const nodes = getWorkflowNodes(graph);
+  const drafts: IssueDraft[] = [];
+
+  const triggers = findTriggerNodes(graph);
+  if (triggers.length === 0) {
+    drafts.push({ rule: 'no-trigger', severity: 'error', message: 'The workflow has no trigger node. Add a trigger to start it.' });
+  } else {
+    drafts.push(...checkReachability(graph, nodes, triggers));
+  }
+
+  nodes.forEach(node => {
+    const config = getNodeConfig(node)!;
+    // Pinned nodes are not executed, so their settings are never read
+    if (!config.pinnedData) {
+      getMissingConfig(config).forEach(message => drafts.push(nodeIssue(config, 'missing-config', 'error', message)));
+    }
+    drafts.push(...checkRequiredPorts(graph, config));
+    drafts.push(...checkExpressionReferences(graph, nodes, config));
+    drafts.push(...checkNodeReferences(graph, nodes, config));
+    drafts.push(...checkExpressionSyntax(config));
+  });
+
+  drafts.push(...checkCycles(graph, nodes));
+  drafts.push(...checkLoopControlPlacement(graph, nodes));
+
+  const severityOrder: Record<ValidationSeverity, number> = { error: 0, warning: 1 };
+  return drafts
+    .map((draft, index) => ({ ...draft, id: `${draft.rule}-${draft.nodeId ?? 'workflow'}-${index}` }))
+    .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+}
+
+/**
+ * Whether any issue must block execution
+ */
+export const hasBlockingIssues = (issues: ValidationIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'error');
+
+// ----- Helper Methods --------------
+
+// Workflow nodes only (sticky notes and unconfigured shapes are not part of the flow)
+function getWorkflowNodes(graph: WorkflowGraphSource): NodeModel[] {
+  return (graph?.nodes || []).filter(node => {
+    const config = getNodeConfig(node);
+    return !!config && !!node.id && !isStickyNote(config);
+  });
+}
+
+function nodeIssue(config: NodeConfig, rule: ValidationRule, severity: ValidationSeverity, message: string): IssueDraft {
+  return { rule, severity, message, nodeId: config.id, nodeName: config.displayName };
+}
+
+// Nodes that no trigger can reach never run
+function checkReachability(graph: WorkflowGraphSource, nodes: NodeModel[], triggers: NodeModel[]): IssueDraft[] {
+  const connectors = graph.connectors || [];
+  const visited = new Set<string>(triggers.map(t => t.id as string));
+  const queue = Array.from(visited);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    connectors.forEach(c => {
+      if (c.sourceID === id && c.targetID && !visited.has(c.targetID)) {
+        visited.add(c.targetID);
+        queue.push(c.targetID);
+      }
+    });
+  }
+
+  return nodes
+    .filter(node => !visited.has(node.id as string))
+    .map(node => nodeIssue(getNodeConfig(node)!, 'unreachable', 'warning', 'Not connected to any trigger, so it will never run.'));
+}
+
+// Required settings per node type, mirroring the checks the executors perform at runtime
+function getMissingConfig(config: NodeConfig): string[] {
+  const gen = config.settings?.general ?? {};
+  const missing: string[] = [];
+
+  switch (config.nodeType) {
+    case 'Form': {
+      const fields = Array.isArray(gen.formFields) ? gen.formFields : [];
+      if (isBlank(gen.formTitle)) missing.push('Form title is required.');
+      if (fields.length === 0) missing.push('Add at least one form field.');
+      fields.forEach((field: any, index: number) => {
+        if (!field?.type || isBlank(field?.label)) missing.push(`Field ${index + 1}: label is required.`);
+        else if (field.type === 'dropdown' && !(Array.isArray(field.options) && field.options.some((o: any) => !isBlank(o)))) {
+          missing.push(`Field ${index + 1}: dropdown needs at least one option.`);
+        }
+      });
+      break;
+    }
+    case 'HTTP Request':
+      if (isBlank(gen.url)) missing.push('URL is required.');
+      break;
+    case 'Word':
+    case 'Excel': {
+      const fileSource = String(gen.fileSource ?? '').trim();
+      if (!fileSource || (fileSource === 'default' && isBlank(gen.defaultFileKey)) || (fileSource === 'device' && isBlank(gen.fileName))) {
+        missing.push('Select a document (upload or choose a template).');
+      }
+      if (isBlank(gen.operation)) missing.push('Choose an operation.');
+      break;
+    }
+    case 'Notify':
+      if (isBlank(gen.message)) missing.push('Message is required.');
+      break;
+    case 'If Condition': {
+      const rows = Array.isArray(gen.conditions) ? gen.conditions : [];
+      if (rows.length === 0) {
+        if (isBlank(gen.condition)) missing.push('Add at least one condition.');
+      } else {
+        missing.push(...getMissingRowValues(rows));
+      }
+      break;
+    }
+    case 'Switch Case': {
+      const rules = Array.isArray(gen.rules) ? gen.rules : [];
+      if (rules.length === 0) missing.push('Add at least one case.');
+      else missing.push(...getMissingRowValues(rules));
+      break;
+    }
+    case 'Filter': {
+      const rows = Array.isArray(gen.conditions) ? gen.conditions : [];
+      if (isBlank(gen.input)) missing.push('Items (list) input is required.');
+      if (rows.length === 0) {
+        if (isBlank(gen.predicate ?? gen.filterCondition)) missing.push('Add at least one condition.');
+      } else {
+        missing.push(...getMissingRowValues(rows));
+      }
+      break;
+    }
+    case 'Loop':
+    case 'Sort':
+    case 'Remove Duplicates':
+      if (isBlank(gen.input)) missing.push('Items (list) input is required.');
+      break;
+    case 'Limit':
+      if (isBlank(gen.input)) missing.push('Items (list) input is required.');
+      if (isBlank(gen.count)) missing.push('Max items is required.');
+      break;
+    case 'Aggregate': {
+      const columns = Array.isArray(gen.aggregations) ? gen.aggregations : [];
+      if (isBlank(gen.input)) missing.push('Items (list) input is required.');
+      if (columns.length === 0) missing.push('Add at least one aggregation.');
+      else if (columns.some((c: any) => c?.operation !== 'count' && isBlank(c?.field))) missing.push('Choose the field for each aggregation.');
+      break;
+    }
+    case 'Split Out':
+      if (isBlank(gen.input)) missing.push('Items (list) input is required.');
+      if (isBlank(gen.field)) missing.push('Field to split out is required.');
+      break;
+    case 'Merge':
+      if (gen.mode === 'combineByKey' && isBlank(gen.key)) missing.push('Key field is required to combine items by key.');
+      break;
+    case 'Execute Workflow':
+      if (isBlank(gen.projectId)) missing.push('Select the workflow to run.');
+      break;
+    case 'Edit Fields': {
+      const fields = Array.isArray(gen.fields) ? gen.fields : [];
+      if (!fields.some((field: any) => !isBlank(field?.name))) missing.push('Add at least one field.');
+      break;
+    }
+    case 'Code':
+      if (isBlank(gen.code)) missing.push('Write the code to run.');
+      break;
+    case 'Convert':
+      if (isBlank(gen.input)) missing.push('Input to convert is required.');
+      break;
+    case 'Date & Time': {
+      const operation = gen.operation ?? 'format';
+      if (isBlank(gen.value)) missing.push('Date is required.');
+      if ((operation === 'add' || operation === 'subtract') && isBlank(gen.amount)) missing.push('Amount is required.');
+      if (operation === 'difference' && isBlank(gen.endValue)) missing.push('End date is required.');
+      if (operation === 'convertTimeZone' && isBlank(gen.toTimeZone)) missing.push('Choose the time zone to convert to.');
+      break;
+    }
+    case 'Workflow Output': {
+      const fields = Array.isArray(gen.outputFields) ? gen.outputFields : [];
+      if (!fields.some((field: any) => !isBlank(field?.name))) missing.push('Add at least one output field.');
+      break;
+    }
+  }
+
+  return missing;
+}
+
+// Condition rows need "Value 1", and "Value 2" unless the comparator is unary
+function getMissingRowValues(rows: Array<{ left?: string; comparator?: ConditionComparator; right?: string }>): string[] {
+  const missing: string[] = [];
+  rows.forEach((row, index) => {
+    if (isBlank(row?.left)) missing.push(`Row ${index + 1}: "Value 1" is required.`);
+    else if (row?.comparator && !UNARY_COMPARATORS.has(row.comparator) && isBlank(row.right)) {
+      missing.push(`Row ${index + 1}: "Value 2" is required for "${row.comparator}".`);
+    }
+  });
+  return missing;
+}
+
+// If needs at least one branch and Loop needs a loop body, otherwise the node is a dead end
+function checkRequiredPorts(graph: WorkflowGraphSource, config: NodeConfig): IssueDraft[] {
+  const outgoing = (graph.connectors || []).filter(c => c.sourceID === config.id);
+  const hasPort = (portId: string) => outgoing.some(c => c.sourcePortID === portId);
+
+  if (isIfConditionNode(config) && !hasPort('right-top-port') && !hasPort('right-bottom-port')) {
+    return [nodeIssue(config, 'unconnected-port', 'error', 'Connect the true or false branch.')];
+  }
+  if (isLoopNode(config) && !hasPort('right-top-port')) {
+    return [nodeIssue(config, 'unconnected-port', 'error', 'Connect the loop body (loop port).')];
+  }
+  return [];
+}
+
+const isReferenceExpression = (expression: string): boolean => expression.startsWith('$.') || /^\$loops?\b/.test(expression);
+
+// Collect every $. / $loop expression used in the node settings: {{ ... }} tokens and bare values
+function collectExpressions(value: any, out: string[] = []): string[] {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (isReferenceExpression(trimmed)) out.push(trimmed);
+    const tokenRegex = /\{\{\s*([^}]+)\s*\}\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(value)) !== null) {
+      // Block tags ({{#each $.rows}}) reference through their expression
+      const inner = parseTemplateTag(match[1]).expression;
+      if (isReferenceExpression(inner)) out.push(inner);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectExpressions(item, out));
+  } else if (value && typeof value === 'object') {
+    Object.keys(value).forEach(key => collectExpressions(value[key], out));
+  }
+  return out;
+}
+
+// Expressions may only read nodes that exist and run before this one
+function checkExpressionReferences(graph: WorkflowGraphSource, nodes: NodeModel[], config: NodeConfig): IssueDraft[] {
+  const expressions = collectExpressions(config.settings?.general);
+  if (expressions.length === 0) return [];
+
+  const ancestors = new Set(getAncestorIds(graph, config.id));
+  const reported = new Set<string>();
+  const issues: IssueDraft[] = [];
+
+  const report = (reference: string, message: string) => {
+    if (reported.has(reference)) return;
+    reported.add(reference);
+    issues.push(nodeIssue(config, 'invalid-reference', 'error', message));
+  };
+
+  expressions.forEach(expression => {
+    if (!expression.startsWith('$.')) {
+      const message = getLoopFrameReferenceError(graph, config, expression);
+      if (message) report(expression, message);
+      return;
+    }
+
+    // First path segment names the node: "Name#nodeId", a display name/id, or a node type
+    const reference = expression.slice(2).split(/[.[]/)[0].trim();
+    if (!reference) return;
+
+    if (reference.includes('#')) {
+      const referencedId = reference.split('#')[1];
+      const label = reference.split('#')[0];
+      if (!nodes.some(n => n.id === referencedId)) {
+        report(reference, `"${expression}" references node "${label}", which no longer exists.`);
+      } else if (!ancestors.has(referencedId)) {
+        report(reference, `"${expression}" references node "${label}", which does not run before this node.`);
+      }
+      return;
+    }
+
+    const byName = nodes.filter(n => n.id === reference || getNodeConfig(n)?.displayName === reference);
+    const byType = nodes.filter(n => getNodeConfig(n)?.nodeType === reference);
+    const candidates = [...byName, ...byType];
+
+    if (candidates.length === 0) {
+      // Not a node name; only a known node type is certainly a dangling reference (otherwise it may be a field or variable)
+      if (NODE_REGISTRY[reference as NodeType]) {
+        report(reference, `"${expression}" references a ${reference} node, but the workflow has none.`);
+      }
+      return;
+    }
+    // A node named "Excel" that runs later has no output yet, so "$.Excel.rows" reads an upstream Excel node instead
+    if (!candidates.some(n => ancestors.has(n.id as string))) {
+      report(reference, `"${expression}" references "${reference}", which does not run before this node.`);
+    }
+  });
+
+  return issues;
+}
+
+// $node("Name") must name exactly one node that runs before this one (the same rules apply at runtime)
+function checkNodeReferences(graph: WorkflowGraphSource, nodes: NodeModel[], config: NodeConfig): IssueDraft[] {
+  const names = new Set<string>();
+  const collect = (value: any) => {
+    if (typeof value === 'string') findNodeReferences(value).forEach(name => names.add(name));
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') Object.keys(value).forEach(key => collect(value[key]));
+  };
+  collect(config.settings?.general);
+  if (names.size === 0) return [];
+
+  const ancestors = new Set(getAncestorIds(graph, config.id));
+  const issues: IssueDraft[] = [];
+  names.forEach(name => {
+    const named = nodes.filter(n => getNodeConfig(n)?.displayName === name);
+    const upstream = named.filter(n => ancestors.has(n.id as string));
+    if (named.length === 0) {
+      issues.push(nodeIssue(config, 'invalid-reference', 'error', `$node("${name}") references a node that does not exist.`));
+    } else if (upstream.length === 0) {
+      issues.push(nodeIssue(config, 'invalid-reference', 'error', `$node("${name}") references a node that does not run before this node.`));
+    } else if (upstream.length > 1) {
+      issues.push(nodeIssue(config, 'invalid-reference', 'error', `$node("${name}") is ambiguous: ${upstream.length} upstream nodes have that name.`));
+    }
+  });
+  return issues;
+}
+
+// Every {{ ... }} token must parse and template blocks must be balanced; errors carry their position
+function checkExpressionSyntax(config: NodeConfig): IssueDraft[] {
+  const issues: IssueDraft[] = [];
+  const visit = (value: any) => {
+    if (typeof value === 'string') {
+      try {
+        compileTemplate(value);
+      } catch (error: any) {
+        issues.push(nodeIssue(config, 'invalid-expression', 'error', error?.message ?? String(error)));
+      }
+      const tokenRegex = /\{\{\s*([^}]+)\s*\}\}/g;
+      let match: RegExpExecArray | null;
+      while ((match = tokenRegex.exec(value)) !== null) {
+        const inner = parseTemplateTag(match[1]).expression;
+        if (!inner || isPlainPathExpression(inner)) continue;
+        try {
+          compileExpression(inner);
+        } catch (error: any) {
+          issues.push(nodeIssue(config, 'invalid-expression', 'error', error?.message ?? String(error)));
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.keys(value).forEach(key => visit(value[key]));
+    }
+  };
+  visit(config.settings?.general);
+  return issues;
+}
+
+// $loop.parent... must not climb past the outermost enclosing loop; $loops["Name"] must name an enclosing loop
+function getLoopFrameReferenceError(graph: WorkflowGraphSource, config: NodeConfig, expression: string): string | null {
+  const loopIds = getEnclosingLoopIds(graph, config.id);
+  if (loopIds.length === 0) return `"${expression}" reads a loop frame, but this node is not inside a Loop body.`;
+
+  const named = expression.match(/^\$loops\s*(?:\[\s*(['"])(.*?)\1\s*\]|\.([A-Za-z_$][\w$]*))/);
+  if (named) {
+    const name = named[2] ?? named[3];
+    const known = loopIds.some(id => id === name || getNodeConfig(graph.getObject(id))?.displayName === name);
+    return known ? null : `"${expression}" references loop "${name}", which does not enclose this node.`;
+  }
+
+  const parents = expression.match(/^\$loop((?:\.parent)*)/)?.[1] ?? '';
+  const depth = parents.split('.parent').length - 1;
+  return depth < loopIds.length ? null : `"${expression}" goes beyond the outermost Loop enclosing this node.`;
+}
+
+// Cycles are only allowed through a Loop body (loop port back into the flow); any other cycle never terminates
+function checkCycles(graph: WorkflowGraphSource, nodes: NodeModel[]): IssueDraft[] {
+  const nodeIds = new Set(nodes.map(n => n.id as string));
+  const adjacency: Record<string, string[]> = {};
+  (graph.connectors || []).forEach(c => {
+    if (!c.sourceID || !c.targetID || !nodeIds.has(c.sourceID) || !nodeIds.has(c.targetID)) return;
+    const sourceConfig = getNodeConfig(graph.getObject(c.sourceID));
+    if (sourceConfig && isLoopNode(sourceConfig) && c.sourcePortID === 'right-top-port') return;
+    (adjacency[c.sourceID] = adjacency[c.sourceID] || []).push(c.targetID);
+  });
+
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const stack: string[] = [];
+  const seen = new Set<string>();
+  const issues: IssueDraft[] = [];
+
+  const visit = (id: string) => {
+    state[id] = 'visiting';
+    stack.push(id);
+    (adjacency[id] || []).forEach(next => {
+      if (state[next] === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+        const key = [...cycle].sort().join('|');
+        if (seen.has(key)) return;
+        seen.add(key);
+        const names = [...cycle, next].map(cid => getNodeConfig(graph.getObject(cid))?.displayName ?? cid);
+        issues.push(nodeIssue(getNodeConfig(graph.getObject(next))!, 'cycle', 'error', `Cycle outside a Loop body: ${names.join(' → ')}.`));
+      } else if (!state[next]) {
+        visit(next);
+      }
+    });
+    stack.pop();
+    state[id] = 'done';
+  };
+
+  nodes.forEach(node => {
+    if (!state[node.id as string]) visit(node.id as string);
+  });
+  return issues;
+}
+
+// Break / Continue end a Loop iteration, so they must sit downstream of some Loop's loop port
+function checkLoopControlPlacement(graph: WorkflowGraphSource, nodes: NodeModel[]): IssueDraft[] {
+  return nodes
+    .map(node => getNodeConfig(node)!)
+    .filter(config => (config.nodeType === 'Break' || config.nodeType === 'Continue') && getEnclosingLoopIds(graph, config.id).length === 0)
+    .map(config => nodeIssue(config, 'misplaced-node', 'error', `${config.nodeType} only works inside a Loop body. Connect it after a Loop's loop port.`));
+}